@@ -2,12 +2,17 @@
  * Coding Engine - Automatic coding and code management
  */
 
+import { TfIdf } from 'natural/lib/natural/tfidf/index.js';
+import { contentWords, stem } from './text-utils.js';
+import type { SpeakerRole } from '../types/entities.js';
+
 export interface Code {
   name: string;
   definition: string;
   examples: string[];
   frequency: number;
   type: 'in_vivo' | 'constructed' | 'theoretical';
+  parent?: string; // parent code in the codebook hierarchy
 }
 
 export interface CodingResult {
@@ -27,6 +32,30 @@ export interface CodingResult {
   };
 }
 
+export interface SplitProposal {
+  code: string;
+  clusters: Array<{
+    name: string;
+    segmentIds: number[];
+    terms: string[];
+    examples: string[];
+  }>;
+  cohesion: number; // mean similarity of segments to their cluster centre, 0-1
+}
+
+export interface SubcodeSuggestion {
+  code: string;
+  subcodes: Array<{
+    name: string;
+    segmentIds: number[];
+    terms: string[];
+    examples: string[];
+    coverage: number; // share of the code's segments, 0-1
+  }>;
+  silhouette: number; // separation of the clusters, -1 to 1
+  cohesion: number;
+}
+
 export class CodingEngine {
   /**
    * Automatically code text based on methodology
@@ -35,11 +64,14 @@ export class CodingEngine {
     text: string;
     existingCodes?: string[];
     methodology?: string;
+    units?: Array<{ text: string; start: number; end: number; role?: SpeakerRole }>; // pre-split units, e.g. transcript turns
+    speakerRoles?: SpeakerRole[]; // only code units spoken in these roles
   }): Promise<CodingResult> {
-    const { text, existingCodes = [], methodology = 'general' } = params;
+    const { text, existingCodes = [], methodology = 'general', speakerRoles } = params;
 
-    // Split text into meaningful segments (sentences/paragraphs)
-    const segments = this.segmentText(text);
+    // Split text into meaningful segments (sentences/paragraphs) unless units are given
+    const units: Array<{ text: string; start: number; end: number; role?: SpeakerRole }> = params.units ?? this.segmentText(text);
+    const segments = units.filter(unit => !speakerRoles || !unit.role || speakerRoles.includes(unit.role));
 
     // Generate codes for each segment
     const allCodes = new Map<string, Code>();
@@ -81,35 +113,27 @@ export class CodingEngine {
    * Segment text into codeable units
    */
   private segmentText(text: string): Array<{ text: string; start: number; end: number }> {
-    // Split by paragraphs first
-    const paragraphs = text.split(/\n\n+/);
     const segments: Array<{ text: string; start: number; end: number }> = [];
-    let currentIndex = 0;
-
-    for (const para of paragraphs) {
-      if (para.trim().length === 0) continue;
-
-      // For long paragraphs, split by sentences
-      if (para.length > 500) {
-        const sentences = para.match(/[^.!?]+[.!?]+/g) || [para];
-        for (const sentence of sentences) {
-          const trimmed = sentence.trim();
-          if (trimmed.length > 0) {
-            segments.push({
-              text: trimmed,
-              start: currentIndex,
-              end: currentIndex + trimmed.length,
-            });
-            currentIndex += sentence.length;
-          }
+
+    // Offsets point at the trimmed text, so that the source sliced at them gives the segment back
+    const push = (piece: string, offset: number) => {
+      const trimmed = piece.trim();
+      if (trimmed.length === 0) return;
+      const start = offset + piece.length - piece.trimStart().length;
+      segments.push({ text: trimmed, start, end: start + trimmed.length });
+    };
+
+    // Split by paragraphs first
+    for (const para of text.matchAll(/(?:[^\n]|\n(?!\s*\n))+/g)) {
+      const paraStart = para.index || 0;
+
+      // For long paragraphs, split by sentences; trailing text without end punctuation is kept
+      if (para[0].length > 500) {
+        for (const sentence of para[0].matchAll(/[^.!?]+(?:[.!?]+|$)|[.!?]+/g)) {
+          push(sentence[0], paraStart + (sentence.index || 0));
         }
       } else {
-        segments.push({
-          text: para.trim(),
-          start: currentIndex,
-          end: currentIndex + para.length,
-        });
-        currentIndex += para.length + 2; // +2 for \n\n
+        push(para[0], paraStart);
       }
     }
 
@@ -370,6 +394,168 @@ export class CodingEngine {
     return { refined, merges };
   }
 
+  /**
+   * Propose how to split a code by clustering its segments on TF-IDF term vectors (k-means)
+   */
+  async proposeSplit(params: {
+    code: string;
+    segments: Array<{ id: number; text: string }>;
+    clusters?: number;
+    names?: string[];
+  }): Promise<SplitProposal> {
+    const { code, segments, names = [] } = params;
+    if (segments.length < 2) {
+      throw new Error(`Code "${code}" needs at least 2 segments to be split`);
+    }
+
+    const k = Math.min(Math.max(params.clusters || names.length || 2, 2), segments.length);
+    const result = this.clusterSegments(segments, k);
+
+    return {
+      code,
+      clusters: result.clusters.map((cluster, index) => ({
+        name: names[index] || (cluster.label ? `${code}-${cluster.label}` : `${code}-${index + 1}`),
+        segmentIds: cluster.members.map(i => segments[i].id),
+        terms: cluster.terms,
+        examples: cluster.members.slice(0, 3).map(i => segments[i].text.slice(0, 100)),
+      })),
+      cohesion: result.cohesion,
+    };
+  }
+
+  /**
+   * Suggest subcodes for a code from the content of its segments. Without a cluster count,
+   * the count with the best silhouette (2 up to 6) is chosen.
+   */
+  async suggestSubcodes(params: {
+    code: string;
+    segments: Array<{ id: number; text: string }>;
+    clusters?: number;
+  }): Promise<SubcodeSuggestion> {
+    const { code, segments } = params;
+    if (segments.length < 3) {
+      throw new Error(`Code "${code}" needs at least 3 coded segments to suggest subcodes (found ${segments.length})`);
+    }
+
+    const candidates = params.clusters
+      ? [Math.min(Math.max(params.clusters, 2), segments.length)]
+      : Array.from({ length: Math.min(6, segments.length - 1) - 1 }, (_, i) => i + 2);
+    const best = candidates
+      .map(k => this.clusterSegments(segments, k))
+      .reduce((a, b) => (b.silhouette > a.silhouette + 1e-9 ? b : a));
+
+    return {
+      code,
+      subcodes: best.clusters.map((cluster, index) => ({
+        name: cluster.terms.slice(0, 2).join('-') || `${code}-${index + 1}`,
+        segmentIds: cluster.members.map(i => segments[i].id),
+        terms: cluster.terms,
+        examples: cluster.members.slice(0, 3).map(i => segments[i].text.slice(0, 100)),
+        coverage: cluster.members.length / segments.length,
+      })),
+      silhouette: best.silhouette,
+      cohesion: best.cohesion,
+    };
+  }
+
+  /**
+   * k-means over TF-IDF vectors of stemmed content words, with farthest-first initialisation so that
+   * results are deterministic. Clusters come back largest first, each labelled by its most distinctive terms.
+   */
+  private clusterSegments(segments: Array<{ id: number; text: string }>, k: number): {
+    clusters: Array<{ members: number[]; terms: string[]; label?: string }>;
+    cohesion: number;
+    silhouette: number;
+  } {
+    // Remember the most frequent surface form of each stem for labels
+    const surface = new Map<string, Map<string, number>>();
+    const tfidf = new TfIdf();
+    for (const segment of segments) {
+      const stems = contentWords(segment.text).map(word => {
+        const key = stem(word);
+        const forms = surface.get(key) || new Map<string, number>();
+        forms.set(word, (forms.get(word) || 0) + 1);
+        surface.set(key, forms);
+        return key;
+      });
+      tfidf.addDocument(stems);
+    }
+    const vectors = segments.map((_, i) => this.normalize(new Map(
+      tfidf.listTerms(i).map(t => [t.term, Math.max(t.tfidf, 0)] as [string, number])
+    )));
+
+    const centres = [vectors[0]];
+    while (centres.length < k) {
+      let farthest = 0;
+      let lowest = Infinity;
+      vectors.forEach((vector, i) => {
+        const closest = Math.max(...centres.map(c => this.cosine(vector, c)));
+        if (closest < lowest) {
+          lowest = closest;
+          farthest = i;
+        }
+      });
+      centres.push(vectors[farthest]);
+    }
+
+    let assignment: number[] = [];
+    for (let iteration = 0; iteration < 20; iteration++) {
+      const next = vectors.map(vector => {
+        const similarities = centres.map(c => this.cosine(vector, c));
+        return similarities.indexOf(Math.max(...similarities));
+      });
+      if (next.every((cluster, i) => cluster === assignment[i])) break;
+      assignment = next;
+
+      for (let c = 0; c < k; c++) {
+        const members = vectors.filter((_, i) => assignment[i] === c);
+        if (members.length === 0) continue;
+        const centre = new Map<string, number>();
+        for (const member of members) {
+          for (const [term, weight] of member) centre.set(term, (centre.get(term) || 0) + weight);
+        }
+        centres[c] = this.normalize(centre);
+      }
+    }
+
+    const clusters = centres
+      .map((centre, c) => ({ centre, members: segments.map((_, i) => i).filter(i => assignment[i] === c) }))
+      .filter(cluster => cluster.members.length > 0)
+      .sort((a, b) => b.members.length - a.members.length);
+
+    // Label each cluster with the terms that weigh most in it relative to the other clusters
+    const used = new Set<string>();
+    const labelled = clusters.map(cluster => {
+      const terms = [...cluster.centre]
+        .map(([term, weight]) => ({
+          term,
+          score: weight - Math.max(0, ...clusters.filter(o => o !== cluster).map(o => o.centre.get(term) || 0)),
+        }))
+        .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+        .map(({ term }) => [...surface.get(term)!].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0]);
+
+      const label = terms.find(term => !used.has(term));
+      if (label) used.add(label);
+
+      return { members: cluster.members, terms: terms.slice(0, 5), label };
+    });
+
+    const cohesion = vectors.reduce((sum, vector, i) => sum + this.cosine(vector, centres[assignment[i]]), 0) / vectors.length;
+
+    // Mean silhouette with cosine distance; singleton clusters score 0
+    const distance = (a: number, b: number) => 1 - this.cosine(vectors[a], vectors[b]);
+    const silhouette = vectors.reduce((sum, _, i) => {
+      const own = clusters.find(c => c.members.includes(i))!;
+      if (own.members.length < 2) return sum;
+      const a = own.members.filter(j => j !== i).reduce((s, j) => s + distance(i, j), 0) / (own.members.length - 1);
+      const b = Math.min(...clusters.filter(c => c !== own)
+        .map(c => c.members.reduce((s, j) => s + distance(i, j), 0) / c.members.length));
+      return sum + (Number.isFinite(b) && Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0);
+    }, 0) / vectors.length;
+
+    return { clusters: labelled, cohesion, silhouette };
+  }
+
   /**
    * Check if two codes are similar
    */
@@ -391,4 +577,16 @@ export class CodingEngine {
     // Prefer shorter, more general names
     return codes.sort((a, b) => a.name.length - b.name.length)[0].name;
   }
+
+  private normalize(vector: Map<string, number>): Map<string, number> {
+    const length = Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+    if (length === 0) return vector;
+    return new Map([...vector].map(([term, weight]) => [term, weight / length]));
+  }
+
+  private cosine(a: Map<string, number>, b: Map<string, number>): number {
+    let dot = 0;
+    for (const [term, weight] of a) dot += weight * (b.get(term) || 0);
+    return dot;
+  }
 }
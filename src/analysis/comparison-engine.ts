@@ -0,0 +1,240 @@
+/**
+ * Comparison Engine - Constant comparison of coded segments
+ * Compares segments on lexical content, co-codes and analytic dimensions
+ */
+
+import { contentWords, stem, jaccard } from './text-utils.js';
+
+export interface ComparableSegment {
+  label: string;
+  text: string;
+  codes: string[];
+}
+
+export type CodingSuggestion = 'same_code' | 'sibling_code' | 'new_subcode';
+
+export interface SegmentDimension {
+  dimension: string;
+  values: string[]; // one per segment, in segment order
+}
+
+export interface SegmentComparison {
+  segments: string[];
+  sharedTerms: string[];
+  distinctiveTerms: Array<{ segment: string; terms: string[] }>;
+  lexicalOverlap: number; // 0-1, mean pairwise Jaccard of content-word stems
+  pairwiseOverlap: Array<{ a: string; b: string; overlap: number }>;
+  sharedCodes: string[]; // codes carried by every segment
+  coCodes: Array<{ code: string; segments: number }>; // codes carried by more than one segment
+  sharedProperties: string[];
+  differingDimensions: SegmentDimension[];
+  suggestion: CodingSuggestion;
+  rationale: string;
+}
+
+interface Dimension {
+  name: string;
+  classify: (text: string) => string;
+}
+
+const POSITIVE = /\b(good|great|happy|glad|support\w*|help\w*|enjoy\w*|love\w*|relie\w*|better|safe|proud|calm|hope\w*|grateful|thankful)\b/gi;
+const NEGATIVE = /\b(bad|hard|difficult|stress\w*|exhaust\w*|tired|anx\w*|worr\w*|afraid|scared|angry|frustrat\w*|alone|lonely|struggl\w*|problem\w*|awful|terrible|sad)\b/gi;
+
+const count = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+const DIMENSIONS: Dimension[] = [
+  {
+    name: 'valence',
+    classify: text => {
+      const positive = count(text, POSITIVE);
+      const negative = count(text, NEGATIVE);
+      if (positive === 0 && negative === 0) return 'neutral';
+      if (positive > 0 && negative > 0) return 'mixed';
+      return positive > 0 ? 'positive' : 'negative';
+    },
+  },
+  {
+    name: 'intensity',
+    classify: text => {
+      const intensifiers = count(text, /\b(very|so|really|extremely|completely|totally|always|never|absolutely|constantly|every)\b/gi);
+      const softeners = count(text, /\b(a bit|a little|slightly|somewhat|sometimes|occasionally|fairly|quite)\b/gi);
+      if (intensifiers > softeners) return 'high';
+      if (softeners > intensifiers) return 'low';
+      return 'moderate';
+    },
+  },
+  {
+    name: 'agency',
+    classify: text => {
+      const self = count(text, /\b(i|me|my|myself)\b/gi);
+      const collective = count(text, /\b(we|us|our|ourselves)\b/gi);
+      const others = count(text, /\b(they|them|their|he|she|staff|colleagues|management|people)\b/gi);
+      const max = Math.max(self, collective, others);
+      if (max === 0) return 'impersonal';
+      if (max === self) return 'individual';
+      if (max === collective) return 'collective';
+      return 'others';
+    },
+  },
+  {
+    name: 'temporality',
+    classify: text => {
+      if (/\b(will|going to|next|future|plan\w*|hope to)\b/i.test(text)) return 'future';
+      if (/\b(was|were|had|did|used to|\w{3,}ed)\b/i.test(text)) return 'past';
+      return 'present';
+    },
+  },
+  {
+    name: 'certainty',
+    classify: text => /\b(maybe|perhaps|might|probably|not sure|i guess|i suppose|kind of|sort of)\b/i.test(text)
+      ? 'tentative'
+      : 'assertive',
+  },
+];
+
+export class ComparisonEngine {
+  /**
+   * Compare two or more segments for constant comparison
+   */
+  async compareSegments(params: {
+    segments: ComparableSegment[];
+    focusCode?: string;
+  }): Promise<SegmentComparison> {
+    const { segments, focusCode } = params;
+
+    if (segments.length < 2) {
+      throw new Error('At least two segments are needed for comparison');
+    }
+
+    const stems = segments.map(s => this.stemTerms(s.text));
+
+    // Shared terms appear in every segment; distinctive terms in only one
+    const [first, ...rest] = stems;
+    const sharedStems = [...first.keys()].filter(key => rest.every(m => m.has(key)));
+    const sharedTerms = sharedStems.map(key => first.get(key)!).sort();
+
+    const distinctiveTerms = segments.map((segment, idx) => ({
+      segment: segment.label,
+      terms: [...stems[idx].entries()]
+        .filter(([key]) => stems.every((other, j) => j === idx || !other.has(key)))
+        .map(([, term]) => term)
+        .slice(0, 8),
+    }));
+
+    const pairwiseOverlap: Array<{ a: string; b: string; overlap: number }> = [];
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        pairwiseOverlap.push({
+          a: segments[i].label,
+          b: segments[j].label,
+          overlap: jaccard(stems[i].keys(), stems[j].keys()),
+        });
+      }
+    }
+    const lexicalOverlap = pairwiseOverlap.reduce((sum, p) => sum + p.overlap, 0) / pairwiseOverlap.length;
+
+    const sharedCodes = segments[0].codes.filter(code => segments.every(s => s.codes.includes(code)));
+    const codeCounts = new Map<string, number>();
+    for (const segment of segments) {
+      for (const code of new Set(segment.codes)) {
+        codeCounts.set(code, (codeCounts.get(code) || 0) + 1);
+      }
+    }
+    const coCodes = [...codeCounts.entries()]
+      .filter(([code, n]) => n > 1 && code !== focusCode)
+      .sort((a, b) => b[1] - a[1])
+      .map(([code, n]) => ({ code, segments: n }));
+
+    const sharedProperties: string[] = [];
+    const differingDimensions: SegmentDimension[] = [];
+    for (const dimension of DIMENSIONS) {
+      const values = segments.map(s => dimension.classify(s.text));
+      if (values.every(v => v === values[0])) {
+        sharedProperties.push(`${dimension.name}: ${values[0]}`);
+      } else {
+        differingDimensions.push({ dimension: dimension.name, values });
+      }
+    }
+
+    const { suggestion, rationale } = this.suggest({
+      lexicalOverlap,
+      sharedCodes: sharedCodes.filter(c => c !== focusCode),
+      codeOverlap: this.meanCodeOverlap(segments),
+      differingDimensions,
+      focusCode,
+    });
+
+    return {
+      segments: segments.map(s => s.label),
+      sharedTerms,
+      distinctiveTerms,
+      lexicalOverlap,
+      pairwiseOverlap,
+      sharedCodes,
+      coCodes,
+      sharedProperties,
+      differingDimensions,
+      suggestion,
+      rationale,
+    };
+  }
+
+  /**
+   * Map stems to the first surface form seen
+   */
+  private stemTerms(text: string): Map<string, string> {
+    const terms = new Map<string, string>();
+    for (const word of contentWords(text)) {
+      const key = stem(word);
+      if (!terms.has(key)) terms.set(key, word);
+    }
+    return terms;
+  }
+
+  private meanCodeOverlap(segments: ComparableSegment[]): number {
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        total += jaccard(segments[i].codes, segments[j].codes);
+        pairs++;
+      }
+    }
+    return pairs > 0 ? total / pairs : 0;
+  }
+
+  /**
+   * Suggest whether the segments belong under one code, sibling codes or a new subcode
+   */
+  private suggest(params: {
+    lexicalOverlap: number;
+    sharedCodes: string[];
+    codeOverlap: number;
+    differingDimensions: SegmentDimension[];
+    focusCode?: string;
+  }): { suggestion: CodingSuggestion; rationale: string } {
+    const { lexicalOverlap, sharedCodes, codeOverlap, differingDimensions, focusCode } = params;
+    const similarity = (lexicalOverlap + codeOverlap) / 2;
+    const dimensions = differingDimensions.map(d => d.dimension);
+    const parent = focusCode || sharedCodes[0];
+
+    if (similarity >= 0.4 && dimensions.length <= 1) {
+      return {
+        suggestion: 'same_code',
+        rationale: `Segments overlap strongly (similarity ${(similarity * 100).toFixed(0)}%) and vary on ${dimensions.length === 0 ? 'no dimension' : dimensions[0]}; they belong under ${parent ? `"${parent}"` : 'one code'}.`,
+      };
+    }
+
+    if (parent) {
+      return {
+        suggestion: 'new_subcode',
+        rationale: `Segments share ${focusCode ? 'the focus code' : 'the code'} "${parent}" but differ in ${dimensions.join(', ') || 'wording'} (similarity ${(similarity * 100).toFixed(0)}%); consider subcodes of "${parent}" along ${dimensions[0] || 'these differences'}.`,
+      };
+    }
+
+    return {
+      suggestion: 'sibling_code',
+      rationale: `Segments share no code and little vocabulary (similarity ${(similarity * 100).toFixed(0)}%); code them as sibling codes under a common category.`,
+    };
+  }
+}
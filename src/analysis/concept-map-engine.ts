@@ -0,0 +1,323 @@
+/**
+ * Concept Map Engine - Build concept maps from codes, categories, themes and their relations
+ * Renders Mermaid for papers, GraphML for Gephi and Cytoscape JSON for web viewers
+ */
+
+import graphology from 'graphology';
+import type { ConceptMap } from '../types/methodology.js';
+
+const { MultiDirectedGraph } = graphology;
+
+export type ConceptMapStyle = 'hierarchical' | 'network' | 'process';
+
+export type ConceptMapFormat = ConceptMap['format'];
+
+export interface ConceptNode {
+  id: string;
+  label: string;
+  type: string; // code, category, core_category, theme, ...
+  weight?: number;
+  quotes?: string[];
+}
+
+export interface ConceptEdge {
+  from: string;
+  to: string;
+  type: string; // contains (parent to child), co_occurs, causes, leads_to, ...
+  weight?: number;
+}
+
+type ConceptGraph = InstanceType<typeof MultiDirectedGraph>;
+
+// Edge types kept by each style; network keeps everything
+const HIERARCHY_EDGES = new Set(['contains']);
+const PROCESS_EDGES = new Set(['causes', 'leads_to', 'influences', 'followed_by', 'contradicts']);
+
+const NODE_STYLES: Record<string, string> = {
+  core_category: 'fill:#fde68a,stroke:#b45309,stroke-width:2px',
+  category: 'fill:#fef3c7,stroke:#d97706',
+  theme: 'fill:#dbeafe,stroke:#1d4ed8',
+  code: 'fill:#f3f4f6,stroke:#6b7280',
+};
+
+export class ConceptMapEngine {
+  /**
+   * Build a concept map in the given style, optionally limited to the neighborhood of a focus node
+   */
+  async generateConceptMap(params: {
+    nodes: ConceptNode[];
+    edges: ConceptEdge[];
+    style?: ConceptMapStyle;
+    focus?: string;
+    depth?: number;
+    format?: ConceptMapFormat;
+  }): Promise<ConceptMap> {
+    const { style = 'network', focus, depth = 1, format = 'mermaid' } = params;
+
+    let graph = this.buildGraph(params.nodes, params.edges, style);
+
+    let focusNode: string | undefined;
+    if (focus) {
+      focusNode = this.findNode(graph, focus);
+      if (!focusNode) {
+        throw new Error(`Focus "${focus}" does not match any code, category or theme`);
+      }
+      graph = this.neighborhood(graph, focusNode, depth);
+    }
+
+    const unplacedCodes = style === 'hierarchical'
+      ? graph.filterNodes((node: string, attributes: Record<string, any>) => attributes.type === 'code' && graph.inDegree(node) === 0).length
+      : 0;
+
+    // Hierarchy and process maps only show concepts that take part in their relations
+    if (style !== 'network') {
+      graph.filterNodes((node: string) => graph.degree(node) === 0 && node !== focusNode)
+        .forEach((node: string) => graph.dropNode(node));
+    }
+
+    const nodes = graph.mapNodes((id: string, attributes: Record<string, any>) => ({
+      id,
+      label: attributes.label as string,
+      type: attributes.type as string,
+      ...(attributes.quotes ? { quotes: attributes.quotes as string[] } : {}),
+    }));
+    const edges = graph.mapEdges((_: string, attributes: Record<string, any>, from: string, to: string) => ({
+      from,
+      to,
+      type: attributes.type as string,
+      ...(attributes.weight !== undefined ? { weight: attributes.weight as number } : {}),
+    }));
+
+    let content: string;
+    if (format === 'graphml') content = this.toGraphML(graph);
+    else if (format === 'cytoscape') content = this.toCytoscape(graph, style);
+    else if (format === 'json') content = JSON.stringify({ nodes, edges }, null, 2);
+    else content = this.toMermaid(graph, style);
+
+    return {
+      format,
+      content,
+      nodes,
+      edges,
+      interpretation: this.interpret(graph, style, focusNode),
+      theoreticalImplications: this.implications(graph, style, unplacedCodes),
+    };
+  }
+
+  private buildGraph(nodes: ConceptNode[], edges: ConceptEdge[], style: ConceptMapStyle): ConceptGraph {
+    const graph = new MultiDirectedGraph();
+
+    for (const node of nodes) {
+      if (!graph.hasNode(node.id)) {
+        graph.addNode(node.id, { label: node.label, type: node.type, weight: node.weight, quotes: node.quotes });
+      }
+    }
+
+    for (const edge of edges) {
+      if (!graph.hasNode(edge.from) || !graph.hasNode(edge.to) || edge.from === edge.to) continue;
+      if (style === 'hierarchical' && !HIERARCHY_EDGES.has(edge.type)) continue;
+      if (style === 'process' && !PROCESS_EDGES.has(edge.type)) continue;
+
+      // Merge repeated relations of the same type into one weighted edge
+      const existing = graph.findEdge(edge.from, edge.to, (_: string, attributes: Record<string, any>) => attributes.type === edge.type);
+      if (existing) {
+        graph.updateEdgeAttribute(existing, 'weight', (w: number | undefined) => (w || 1) + (edge.weight || 1));
+      } else {
+        graph.addEdge(edge.from, edge.to, { type: edge.type, weight: edge.weight });
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Match a focus by node id, then label, then label substring
+   */
+  private findNode(graph: ConceptGraph, focus: string): string | undefined {
+    if (graph.hasNode(focus)) return focus;
+
+    const needle = focus.toLowerCase();
+    const labelOf = (node: string) => String(graph.getNodeAttribute(node, 'label')).toLowerCase();
+
+    return graph.findNode((node: string) => labelOf(node) === needle) ||
+      graph.findNode((node: string) => labelOf(node).includes(needle));
+  }
+
+  /**
+   * Subgraph of nodes within `depth` steps of the focus, ignoring edge direction
+   */
+  private neighborhood(graph: ConceptGraph, focus: string, depth: number): ConceptGraph {
+    const keep = new Set([focus]);
+    let frontier = [focus];
+
+    for (let step = 0; step < depth; step++) {
+      const next: string[] = [];
+      for (const node of frontier) {
+        for (const neighbor of graph.neighbors(node)) {
+          if (!keep.has(neighbor)) {
+            keep.add(neighbor);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    const subgraph = graph.copy();
+    subgraph.filterNodes((node: string) => !keep.has(node)).forEach((node: string) => subgraph.dropNode(node));
+    return subgraph;
+  }
+
+  private toMermaid(graph: ConceptGraph, style: ConceptMapStyle): string {
+    const ids = new Map<string, string>();
+    graph.forEachNode((node: string) => ids.set(node, `n${ids.size}`));
+
+    const escape = (text: string) => text.replace(/"/g, '#quot;');
+    const lines = [`flowchart ${style === 'hierarchical' ? 'TD' : 'LR'}`];
+
+    graph.forEachNode((node: string, attributes: Record<string, any>) => {
+      const label = escape(attributes.label);
+      const shape = attributes.type === 'core_category' ? `(("${label}"))`
+        : attributes.type === 'theme' ? `(["${label}"])`
+          : attributes.type === 'category' ? `{{"${label}"}}`
+            : `["${label}"]`;
+      lines.push(`  ${ids.get(node)}${shape}:::${this.className(attributes.type)}`);
+    });
+
+    graph.forEachEdge((_: string, attributes: Record<string, any>, from: string, to: string) => {
+      const a = ids.get(from);
+      const b = ids.get(to);
+      if (attributes.type === 'contains') {
+        lines.push(`  ${a} --> ${b}`);
+      } else if (attributes.type === 'co_occurs') {
+        lines.push(`  ${a} ---|${attributes.weight || 1}| ${b}`);
+      } else if (attributes.type === 'contradicts') {
+        lines.push(`  ${a} -.->|contradicts| ${b}`);
+      } else {
+        lines.push(`  ${a} -->|${attributes.type.replace(/_/g, ' ')}| ${b}`);
+      }
+    });
+
+    const types = new Set(graph.mapNodes((_: string, attributes: Record<string, any>) => attributes.type as string));
+    for (const type of types) {
+      lines.push(`  classDef ${this.className(type)} ${NODE_STYLES[type] || 'fill:#ffffff,stroke:#9ca3af'}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private toGraphML(graph: ConceptGraph): string {
+    const escape = (text: string) => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+      '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+      '  <key id="weight" for="node" attr.name="weight" attr.type="double"/>',
+      '  <key id="relation" for="edge" attr.name="type" attr.type="string"/>',
+      '  <key id="edgeWeight" for="edge" attr.name="weight" attr.type="double"/>',
+      '  <graph id="concept-map" edgedefault="directed">',
+    ];
+
+    graph.forEachNode((node: string, attributes: Record<string, any>) => {
+      lines.push(`    <node id="${escape(node)}">`);
+      lines.push(`      <data key="label">${escape(attributes.label)}</data>`);
+      lines.push(`      <data key="type">${escape(attributes.type)}</data>`);
+      if (attributes.weight !== undefined) lines.push(`      <data key="weight">${attributes.weight}</data>`);
+      lines.push('    </node>');
+    });
+
+    graph.forEachEdge((edge: string, attributes: Record<string, any>, from: string, to: string) => {
+      lines.push(`    <edge id="${escape(edge)}" source="${escape(from)}" target="${escape(to)}">`);
+      lines.push(`      <data key="relation">${escape(attributes.type)}</data>`);
+      lines.push(`      <data key="edgeWeight">${attributes.weight || 1}</data>`);
+      lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+  }
+
+  private toCytoscape(graph: ConceptGraph, style: ConceptMapStyle): string {
+    const nodes = graph.mapNodes((id: string, attributes: Record<string, any>) => ({
+      data: {
+        id,
+        label: attributes.label,
+        type: attributes.type,
+        ...(attributes.weight !== undefined ? { weight: attributes.weight } : {}),
+      },
+    }));
+    const edges = graph.mapEdges((id: string, attributes: Record<string, any>, source: string, target: string) => ({
+      data: { id, source, target, type: attributes.type, weight: attributes.weight || 1 },
+    }));
+
+    return JSON.stringify({
+      data: { style },
+      layout: { name: style === 'hierarchical' ? 'breadthfirst' : style === 'process' ? 'dagre' : 'cose' },
+      elements: { nodes, edges },
+    }, null, 2);
+  }
+
+  private interpret(graph: ConceptGraph, style: ConceptMapStyle, focus?: string): string {
+    if (graph.order === 0) {
+      return style === 'process'
+        ? 'No process relations (causes, leads to, influences) are stored yet; build a grounded theory or add causal relations first.'
+        : 'The map is empty: code and theme the data first.';
+    }
+
+    const central = this.mostConnected(graph, 1)[0];
+    let interpretation = `${graph.order} concepts and ${graph.size} relations`;
+    interpretation += focus ? ` around "${graph.getNodeAttribute(focus, 'label')}". ` : '. ';
+    if (central && graph.degree(central) > 0) {
+      interpretation += `"${graph.getNodeAttribute(central, 'label')}" is the most connected concept (${graph.degree(central)} relations).`;
+    }
+
+    const isolated = graph.filterNodes((node: string) => graph.degree(node) === 0).length;
+    if (isolated > 0) {
+      interpretation += ` ${isolated} concept(s) are not yet related to others.`;
+    }
+
+    return interpretation;
+  }
+
+  private implications(graph: ConceptGraph, style: ConceptMapStyle, unplacedCodes: number): string[] {
+    const implications: string[] = [];
+
+    if (style === 'process') {
+      const sources = graph.filterNodes((node: string) => graph.inDegree(node) === 0 && graph.outDegree(node) > 0);
+      const outcomes = graph.filterNodes((node: string) => graph.outDegree(node) === 0 && graph.inDegree(node) > 0);
+      if (sources.length > 0) {
+        implications.push(`Conditions that start the process: ${sources.map((n: string) => graph.getNodeAttribute(n, 'label')).join(', ')}`);
+      }
+      if (outcomes.length > 0) {
+        implications.push(`Outcomes of the process: ${outcomes.map((n: string) => graph.getNodeAttribute(n, 'label')).join(', ')}`);
+      }
+    } else {
+      const hubs = this.mostConnected(graph, 3).filter(node => graph.degree(node) > 1);
+      if (hubs.length > 0) {
+        implications.push(`Candidate core concepts: ${hubs.map(n => graph.getNodeAttribute(n, 'label')).join(', ')}`);
+      }
+    }
+
+    if (unplacedCodes > 0) {
+      implications.push(`${unplacedCodes} code(s) are not yet placed under a category or theme`);
+    }
+
+    return implications;
+  }
+
+  private mostConnected(graph: ConceptGraph, limit: number): string[] {
+    return graph.nodes()
+      .sort((a: string, b: string) => graph.degree(b) - graph.degree(a))
+      .slice(0, limit);
+  }
+
+  private className(type: string): string {
+    return type.replace(/[^A-Za-z0-9]/g, '_');
+  }
+}
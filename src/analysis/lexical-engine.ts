@@ -0,0 +1,218 @@
+/**
+ * Lexical Engine - Word and lemma frequencies, n-grams, lexical variety and keyness
+ * Texts are tokenized and lemmatized with compromise; n-grams never cross a sentence boundary
+ */
+
+import nlp from 'compromise';
+import { STOPWORDS, logLikelihood } from './text-utils.js';
+
+export type LexicalUnit = 'word' | 'lemma';
+
+export interface FrequencyRow {
+  term: string;
+  frequency: number;
+  perThousand: number; // per 1,000 tokens
+  range: number; // texts the term occurs in
+  forms?: string[]; // word forms of a lemma
+}
+
+export interface LexicalProfile {
+  unit: LexicalUnit;
+  texts: number;
+  tokens: number;
+  types: number; // distinct word forms
+  lemmas: number; // distinct lemmas
+  typeTokenRatio: number;
+  standardisedTypeTokenRatio?: number; // mean ratio of full 1,000-token chunks
+  terms: FrequencyRow[];
+  ngrams: Array<{ n: number; rows: FrequencyRow[] }>;
+}
+
+export interface KeynessRow {
+  term: string;
+  frequency: number;
+  referenceFrequency: number;
+  logLikelihood: number;
+  logRatio: number; // log2 of the ratio of relative frequencies; positive when overused in the target
+  significant: boolean; // log-likelihood of at least 3.84 (p < 0.05)
+}
+
+export interface KeynessAnalysis {
+  unit: LexicalUnit;
+  tokens: number;
+  referenceTokens: number;
+  positive: KeynessRow[]; // more frequent in the target than in the reference
+  negative: KeynessRow[];
+}
+
+interface LexicalToken {
+  word: string;
+  lemma: string;
+}
+
+const STTR_CHUNK = 1000;
+
+export class LexicalEngine {
+  /**
+   * Frequencies of words or lemmas and of n-grams up to maxN words. With stopwords excluded, function
+   * words are left out of the term list and n-grams may not start or end with one.
+   */
+  async profile(params: {
+    texts: string[];
+    unit?: LexicalUnit;
+    maxN?: number;
+    excludeStopwords?: boolean;
+    minFrequency?: number;
+    limit?: number;
+  }): Promise<LexicalProfile> {
+    const { texts, unit = 'lemma', maxN = 2, excludeStopwords = true, minFrequency = 1, limit = 20 } = params;
+
+    const documents = texts.map(text => this.tokenize(text));
+    const tokens = documents.flatMap(sentences => sentences.flat());
+    const types = new Set(tokens.map(t => t.word));
+
+    const forms = new Map<string, Set<string>>();
+    if (unit === 'lemma') {
+      for (const token of tokens) {
+        if (!forms.has(token.lemma)) forms.set(token.lemma, new Set());
+        forms.get(token.lemma)!.add(token.word);
+      }
+    }
+
+    const isStopword = (term: string) => excludeStopwords && this.isStopword(term);
+    const grams = (n: number) => documents.map(sentences => sentences.flatMap(sentence => {
+      const terms = sentence.map(t => t[unit]);
+      const result: string[] = [];
+      for (let i = 0; i + n <= terms.length; i++) {
+        const gram = terms.slice(i, i + n);
+        if (isStopword(gram[0]) || isStopword(gram[n - 1])) continue;
+        result.push(gram.join(' '));
+      }
+      return result;
+    }));
+
+    const rows = (n: number): FrequencyRow[] => this.count(grams(n), tokens.length)
+      .filter(row => row.frequency >= minFrequency)
+      .slice(0, limit)
+      .map(row => n === 1 && forms.has(row.term) ? { ...row, forms: [...forms.get(row.term)!].sort() } : row);
+
+    return {
+      unit,
+      texts: texts.length,
+      tokens: tokens.length,
+      types: types.size,
+      lemmas: new Set(tokens.map(t => t.lemma)).size,
+      typeTokenRatio: tokens.length > 0 ? types.size / tokens.length : 0,
+      standardisedTypeTokenRatio: this.standardisedTypeTokenRatio(tokens.map(t => t.word)),
+      terms: rows(1),
+      ngrams: Array.from({ length: Math.max(0, maxN - 1) }, (_, i) => ({ n: i + 2, rows: rows(i + 2) })),
+    };
+  }
+
+  /**
+   * Keywords of the target texts against the reference texts by log-likelihood (G²), with the
+   * log ratio as effect size. Terms need minFrequency occurrences across both sets.
+   */
+  async keyness(params: {
+    texts: string[];
+    referenceTexts: string[];
+    unit?: LexicalUnit;
+    excludeStopwords?: boolean;
+    minFrequency?: number;
+    limit?: number;
+  }): Promise<KeynessAnalysis> {
+    const { texts, referenceTexts, unit = 'lemma', excludeStopwords = true, minFrequency = 2, limit = 20 } = params;
+
+    const target = texts.flatMap(text => this.tokenize(text).flat()).map(t => t[unit]);
+    const reference = referenceTexts.flatMap(text => this.tokenize(text).flat()).map(t => t[unit]);
+    const targetCounts = this.tally(target);
+    const referenceCounts = this.tally(reference);
+
+    const rows: KeynessRow[] = [];
+    for (const term of new Set([...targetCounts.keys(), ...referenceCounts.keys()])) {
+      if (excludeStopwords && this.isStopword(term)) continue;
+      const a = targetCounts.get(term) || 0;
+      const b = referenceCounts.get(term) || 0;
+      if (a + b < minFrequency) continue;
+
+      const g2 = logLikelihood(a, b, target.length, reference.length);
+      rows.push({
+        term,
+        frequency: a,
+        referenceFrequency: b,
+        logLikelihood: g2,
+        // Half an occurrence stands in for zero so that terms missing from one side stay finite
+        logRatio: Math.log2(((a || 0.5) / (target.length || 1)) / ((b || 0.5) / (reference.length || 1))),
+        significant: g2 >= 3.84,
+      });
+    }
+
+    const byKeyness = (x: KeynessRow, y: KeynessRow) =>
+      y.logLikelihood - x.logLikelihood || Math.abs(y.logRatio) - Math.abs(x.logRatio) || x.term.localeCompare(y.term);
+
+    return {
+      unit,
+      tokens: target.length,
+      referenceTokens: reference.length,
+      positive: rows.filter(r => r.logRatio > 0).sort(byKeyness).slice(0, limit),
+      negative: rows.filter(r => r.logRatio < 0).sort(byKeyness).slice(0, limit),
+    };
+  }
+
+  /**
+   * Word tokens by sentence, with compromise's root form as the lemma
+   */
+  private tokenize(text: string): LexicalToken[][] {
+    const doc = nlp(text);
+    doc.compute('root');
+
+    return (doc.json() as any[]).map(sentence => (sentence.terms as any[])
+      .filter(term => /[a-z0-9]/.test(term.normal || ''))
+      .map(term => {
+        const word = term.normal as string;
+        const copula = (term.tags as string[]).includes('Copula');
+        return { word, lemma: copula ? 'be' : (term.root as string | undefined) || word };
+      }))
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private isStopword(term: string): boolean {
+    return STOPWORDS.has(term) || /^\d+$/.test(term) || term.length < 2;
+  }
+
+  private tally(terms: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    return counts;
+  }
+
+  // Frequency rows from per-text term lists, most frequent first
+  private count(termsByText: string[][], tokenCount: number): FrequencyRow[] {
+    const frequency = new Map<string, number>();
+    const range = new Map<string, number>();
+    for (const terms of termsByText) {
+      terms.forEach(term => frequency.set(term, (frequency.get(term) || 0) + 1));
+      new Set(terms).forEach(term => range.set(term, (range.get(term) || 0) + 1));
+    }
+
+    return [...frequency.entries()]
+      .map(([term, count]) => ({
+        term,
+        frequency: count,
+        perThousand: tokenCount > 0 ? (count / tokenCount) * 1000 : 0,
+        range: range.get(term) || 0,
+      }))
+      .sort((a, b) => b.frequency - a.frequency || b.range - a.range || a.term.localeCompare(b.term));
+  }
+
+  private standardisedTypeTokenRatio(words: string[]): number | undefined {
+    const chunks = Math.floor(words.length / STTR_CHUNK);
+    if (chunks === 0) return undefined;
+
+    let total = 0;
+    for (let i = 0; i < chunks; i++) {
+      total += new Set(words.slice(i * STTR_CHUNK, (i + 1) * STTR_CHUNK)).size / STTR_CHUNK;
+    }
+    return total / chunks;
+  }
+}
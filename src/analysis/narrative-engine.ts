@@ -0,0 +1,322 @@
+/**
+ * Narrative Engine - Structural narrative analysis
+ * Labels clauses with Labov & Waletzky's elements as used in Riessman's structural analysis
+ */
+
+import type { SpeakerRole } from '../types/entities.js';
+
+export type LabovElement =
+  | 'abstract'
+  | 'orientation'
+  | 'complicating_action'
+  | 'evaluation'
+  | 'resolution'
+  | 'coda';
+
+export const LABOV_ELEMENTS: LabovElement[] = [
+  'abstract',
+  'orientation',
+  'complicating_action',
+  'evaluation',
+  'resolution',
+  'coda',
+];
+
+export interface NarrativeClause {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  element: LabovElement;
+  confidence: number; // 0-1
+  cues: string[];
+}
+
+export interface NarrativeEpisode {
+  index: number;
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  clauses: NarrativeClause[];
+  elements: Record<LabovElement, number>;
+  isNarrative: boolean; // at least two temporally ordered action clauses
+  completeness: number; // 0-1, share of the six elements present
+  structure: string;
+}
+
+export interface NarrativeAnalysis {
+  episodes: NarrativeEpisode[];
+  narrativeEpisodes: number;
+  elementCounts: Record<LabovElement, number>;
+  interpretation: string;
+}
+
+const ELEMENT_CUES: Record<LabovElement, RegExp[]> = {
+  abstract: [
+    /\b(let me tell you|i('ll| will) tell you|this is (a|the) story|the (thing|story) (is|was)|there was this (time|one time)|it all (started|began))\b/i,
+    /\bi remember (when|the (time|day|night))\b/i,
+  ],
+  orientation: [
+    /\b(when i was|back (then|in)|at (that|the) time|in (19|20)\d\d|(last|that|one) (year|week|summer|winter|spring|autumn|night|morning|evening|day))\b/i,
+    /\b(there (was|were)|we (lived|were living)|i (was|were) (working|living|studying|staying)|it was (a|an|the) \w+(day|night|morning))\b/i,
+  ],
+  complicating_action: [
+    /\b(then|suddenly|and then|next|after that|all of a sudden|the next (day|morning))\b/i,
+    /\b(said|told|asked|went|came|got|saw|took|ran|left|called|walked|found|started|decided|happened|heard|grabbed|shouted)\b/i,
+  ],
+  evaluation: [
+    /\b(i felt|i feel|felt (so|really|like)|i (couldn't|could not|can't|cannot) believe|never forget|i thought)\b/i,
+    /\b(terrible|awful|amazing|horrible|scary|frightening|wonderful|unbelievable|devastat\w*|the (worst|best)|so (scared|angry|happy|sad|relieved))\b/i,
+  ],
+  resolution: [
+    /\b(finally|in the end|eventually|at last|ended up|turned out|it worked out|after all that|from then on)\b/i,
+  ],
+  coda: [
+    /\b(to this day|ever since|since then|that's why|that is why|and that's (it|the story|what happened)|looking back|these days|i still|now i)\b/i,
+  ],
+};
+
+const EPISODE_OPENERS = /^(let me tell you|there was this|i remember (when|the)|one (day|time|night|morning)|once,?\s)/i;
+
+const PAST_TENSE = /\b\w{3,}ed\b|\b(was|were|had|did|went|came|said|told|got|saw|took|ran|left|made|knew|thought|felt)\b/i;
+
+export class NarrativeEngine {
+  /**
+   * Split text into narrative episodes and label each clause. With units (e.g. transcript turns), only
+   * the units spoken in the given roles are analyzed and no episode spans two units.
+   */
+  async analyzeNarrative(params: {
+    text: string;
+    units?: Array<{ text: string; start: number; role?: SpeakerRole }>; // pre-split units, e.g. transcript turns
+    speakerRoles?: SpeakerRole[]; // only analyze units spoken in these roles
+  }): Promise<NarrativeAnalysis> {
+    const { speakerRoles } = params;
+    const units = (params.units ?? [{ text: params.text, start: 0 }])
+      .filter(unit => !speakerRoles || !unit.role || speakerRoles.includes(unit.role));
+
+    const episodes = units
+      .flatMap(unit => this.splitEpisodes(unit.text).map(episode => ({ ...episode, start: unit.start + episode.start })))
+      .map((episode, index) => this.analyzeEpisode(episode.text, episode.start, index));
+
+    const elementCounts = this.emptyCounts();
+    for (const episode of episodes) {
+      for (const element of LABOV_ELEMENTS) {
+        elementCounts[element] += episode.elements[element];
+      }
+    }
+
+    const narrativeEpisodes = episodes.filter(e => e.isNarrative).length;
+
+    return {
+      episodes,
+      narrativeEpisodes,
+      elementCounts,
+      interpretation: this.interpret(episodes, elementCounts),
+    };
+  }
+
+  /**
+   * Split text into episodes: paragraphs, further divided where a new story is announced
+   */
+  private splitEpisodes(text: string): Array<{ text: string; start: number }> {
+    const episodes: Array<{ text: string; start: number }> = [];
+    const paragraphPattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+
+    for (const match of text.matchAll(paragraphPattern)) {
+      const paragraph = match[0];
+      if (paragraph.trim().length === 0) continue;
+
+      const start = match.index || 0;
+      const sentences = this.splitSentences(paragraph, start);
+      let current: { text: string; start: number } | null = null;
+
+      for (const sentence of sentences) {
+        const opensEpisode = EPISODE_OPENERS.test(sentence.text);
+
+        if (!current || (opensEpisode && current.text.length > 0)) {
+          if (current) episodes.push(current);
+          current = { text: sentence.text, start: sentence.start };
+        } else {
+          current.text = text.slice(current.start, sentence.start + sentence.text.length);
+        }
+      }
+
+      if (current) episodes.push(current);
+    }
+
+    return episodes;
+  }
+
+  private splitSentences(text: string, offset: number): Array<{ text: string; start: number }> {
+    const sentences: Array<{ text: string; start: number }> = [];
+    const pattern = /[^.!?]+(?:[.!?]+["')\]]*|$)/g;
+
+    for (const match of text.matchAll(pattern)) {
+      const raw = match[0];
+      const leading = raw.length - raw.trimStart().length;
+      const trimmed = raw.trim();
+      if (trimmed.length === 0) continue;
+
+      sentences.push({ text: trimmed, start: offset + (match.index || 0) + leading });
+    }
+
+    return sentences;
+  }
+
+  /**
+   * Split an episode into clauses at sentence ends and clause-joining conjunctions
+   */
+  private splitClauses(text: string, offset: number): Array<{ text: string; start: number }> {
+    const clauses: Array<{ text: string; start: number }> = [];
+
+    for (const sentence of this.splitSentences(text, offset)) {
+      const boundary = /[,;:]\s+(?=(and then|and|but|so|then|when|after|because)\b)/gi;
+      let last = 0;
+
+      for (const match of sentence.text.matchAll(boundary)) {
+        const end = (match.index || 0) + 1;
+        const part = sentence.text.slice(last, end).trim();
+        if (part.length > 0) {
+          clauses.push({ text: part, start: sentence.start + sentence.text.indexOf(part, last) });
+        }
+        last = (match.index || 0) + match[0].length;
+      }
+
+      const tail = sentence.text.slice(last).trim();
+      if (tail.length > 0) {
+        clauses.push({ text: tail, start: sentence.start + sentence.text.indexOf(tail, last) });
+      }
+    }
+
+    return clauses;
+  }
+
+  /**
+   * Label the clauses of one episode
+   */
+  private analyzeEpisode(text: string, start: number, index: number): NarrativeEpisode {
+    const rawClauses = this.splitClauses(text, start);
+
+    const clauses = rawClauses.map((clause, idx) =>
+      this.labelClause(clause.text, clause.start, idx, rawClauses.length)
+    );
+
+    const elements = this.emptyCounts();
+    for (const clause of clauses) {
+      elements[clause.element]++;
+    }
+
+    const present = LABOV_ELEMENTS.filter(e => elements[e] > 0);
+    const abbreviations: Record<LabovElement, string> = {
+      abstract: 'A',
+      orientation: 'O',
+      complicating_action: 'CA',
+      evaluation: 'E',
+      resolution: 'R',
+      coda: 'C',
+    };
+
+    // Collapse consecutive clauses with the same element into one structural move
+    const structure = clauses
+      .map(c => abbreviations[c.element])
+      .filter((abbr, i, all) => i === 0 || all[i - 1] !== abbr)
+      .join(' → ');
+
+    return {
+      index,
+      text,
+      startIndex: start,
+      endIndex: start + text.length,
+      clauses,
+      elements,
+      isNarrative: elements.complicating_action >= 2,
+      completeness: present.length / LABOV_ELEMENTS.length,
+      structure,
+    };
+  }
+
+  /**
+   * Score a clause against each element's cues, with positional priors for abstract and coda
+   */
+  private labelClause(text: string, start: number, position: number, total: number): NarrativeClause {
+    const scores = this.emptyCounts();
+    const cues: Record<LabovElement, string[]> = {
+      abstract: [],
+      orientation: [],
+      complicating_action: [],
+      evaluation: [],
+      resolution: [],
+      coda: [],
+    };
+
+    for (const element of LABOV_ELEMENTS) {
+      for (const pattern of ELEMENT_CUES[element]) {
+        const match = text.match(pattern);
+        if (match) {
+          scores[element] += 1;
+          cues[element].push(match[0].toLowerCase());
+        }
+      }
+    }
+
+    // Abstracts open a story and codas close it
+    if (position === 0 && scores.abstract > 0) scores.abstract += 1;
+    if (position === total - 1 && total > 1 && scores.coda > 0) scores.coda += 1;
+
+    // Stative description without action reads as orientation
+    if (scores.complicating_action === 0 && /\b(was|were|had)\b/i.test(text) && scores.evaluation === 0) {
+      scores.orientation += 0.5;
+    }
+
+    let best: LabovElement = PAST_TENSE.test(text) ? 'complicating_action' : 'evaluation';
+    let bestScore = 0;
+    for (const element of LABOV_ELEMENTS) {
+      if (scores[element] > bestScore) {
+        best = element;
+        bestScore = scores[element];
+      }
+    }
+
+    const totalScore = LABOV_ELEMENTS.reduce((sum, e) => sum + scores[e], 0);
+
+    return {
+      text,
+      startIndex: start,
+      endIndex: start + text.length,
+      element: best,
+      confidence: totalScore > 0 ? Math.round((bestScore / totalScore) * 100) / 100 : 0.3,
+      cues: cues[best],
+    };
+  }
+
+  private interpret(episodes: NarrativeEpisode[], counts: Record<LabovElement, number>): string {
+    const narratives = episodes.filter(e => e.isNarrative);
+    if (narratives.length === 0) {
+      return 'No fully formed narratives detected: the text reads as description or argument rather than a sequence of past events.';
+    }
+
+    const complete = narratives.filter(e => e.completeness >= 0.5).length;
+    const evaluative = counts.evaluation / Math.max(counts.complicating_action, 1);
+
+    let interpretation = `${narratives.length} narrative episode(s) found, ${complete} with at least half of Labov's elements. `;
+    if (evaluative > 1) {
+      interpretation += 'Evaluation outweighs action: the narrator foregrounds what events meant rather than what happened.';
+    } else if (counts.resolution === 0) {
+      interpretation += 'No resolutions are given: stories remain open, which may signal ongoing or unresolved experience.';
+    } else {
+      interpretation += 'Stories move from complication to resolution; examine evaluations for how the narrator positions themselves.';
+    }
+
+    return interpretation;
+  }
+
+  private emptyCounts(): Record<LabovElement, number> {
+    return {
+      abstract: 0,
+      orientation: 0,
+      complicating_action: 0,
+      evaluation: 0,
+      resolution: 0,
+      coda: 0,
+    };
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Quality Engine - Assess a project against its methodology's quality criteria
+ * Maps each criterion onto evidence stored in the knowledge graph
+ */
+
+import type { QualityCriteria } from '../types/methodology.js';
+
+export interface QualityEvidence {
+  sources: number;
+  sourceTypes: string[];
+  averageSourceWords: number;
+  codes: number;
+  codesWithDefinitions: number;
+  themes: number;
+  themesWithSegments: number;
+  memos: Record<string, number>; // count per memo type
+  negativeCaseChecks: number; // themes checked with findNegativeCases
+  negativeCasesFound: number;
+  reliabilityRuns: Array<{ measure: string; value: number }>;
+  saturation?: { level: string; saturated: boolean; saturationRate: number };
+  triangulations: number;
+  hasTheory: boolean;
+}
+
+export type CriterionStatus = 'met' | 'partial' | 'unmet' | 'manual';
+
+export interface CriterionAssessment {
+  criterion: string;
+  descriptions: string[];
+  status: CriterionStatus;
+  score: number | null; // 0-1, null when no evidence can be mapped automatically
+  evidence: string[];
+  gaps: string[];
+  nextActions: string[];
+}
+
+export interface QualityAssessment {
+  methodology: string;
+  overallScore: number;
+  criteria: CriterionAssessment[];
+  summary: string;
+}
+
+interface IndicatorResult {
+  score: number;
+  evidence: string;
+  gap?: string;
+  action?: string;
+}
+
+interface Indicator {
+  id: string;
+  pattern: RegExp;
+  evaluate: (e: QualityEvidence) => IndicatorResult;
+}
+
+// Lincoln & Guba trustworthiness criteria, used when no methodology is selected
+export const DEFAULT_QUALITY_CRITERIA: QualityCriteria = {
+  credibility: ['Findings grounded in data', 'Negative cases examined'],
+  transferability: ['Thick description of context'],
+  dependability: ['Audit trail of analytic decisions'],
+  confirmability: ['Reflexive account of researcher influence'],
+};
+
+const count = (e: QualityEvidence, type: string) => e.memos[type] || 0;
+
+const INDICATORS: Indicator[] = [
+  {
+    id: 'auditTrail',
+    pattern: /depend|audit|document|systematic|process|replica|chain|transparen|protocol/i,
+    evaluate: e => {
+      const memos = count(e, 'methodological');
+      return {
+        score: memos >= 3 ? 1 : memos > 0 ? 0.5 : 0,
+        evidence: `${memos} methodological (audit trail) memo(s)`,
+        gap: memos >= 3 ? undefined : 'Analytic decisions are not fully documented',
+        action: 'Write methodological memos recording coding and theme decisions',
+      };
+    },
+  },
+  {
+    id: 'reflexivity',
+    pattern: /reflex|confirm|position|bias|pre-?understand|researcher|horizon|emic/i,
+    evaluate: e => {
+      const memos = count(e, 'reflective');
+      return {
+        score: memos >= 2 ? 1 : memos > 0 ? 0.5 : 0,
+        evidence: `${memos} reflective memo(s)`,
+        gap: memos >= 2 ? undefined : 'Little recorded reflexive engagement',
+        action: 'Write reflective memos on your position and its influence on interpretation',
+      };
+    },
+  },
+  {
+    id: 'negativeCases',
+    pattern: /credib|negative|alternative|contradict|validity|thorough|robust|persuasive|critique|test/i,
+    evaluate: e => {
+      const ratio = e.themes > 0 ? e.negativeCaseChecks / e.themes : 0;
+      return {
+        score: Math.min(ratio, 1),
+        evidence: `${e.negativeCaseChecks} of ${e.themes} theme(s) checked for negative cases (${e.negativeCasesFound} found)`,
+        gap: ratio >= 1 ? undefined : 'Not every theme has been tested against negative cases',
+        action: 'Run findNegativeCases for each theme and account for the exceptions',
+      };
+    },
+  },
+  {
+    id: 'reliability',
+    pattern: /reliab|dependab|agreement|consisten|independen|classif/i,
+    evaluate: e => {
+      const latest = e.reliabilityRuns[e.reliabilityRuns.length - 1];
+      if (!latest) {
+        return {
+          score: 0,
+          evidence: 'No inter-coder reliability runs recorded',
+          gap: 'Coding consistency has not been checked',
+          action: 'Have a second coder code a sample and run calculateReliability',
+        };
+      }
+      return {
+        score: latest.value >= 0.6 ? 1 : 0.5,
+        evidence: `${e.reliabilityRuns.length} reliability run(s), latest ${latest.measure} = ${latest.value.toFixed(2)}`,
+        gap: latest.value >= 0.6 ? undefined : 'Latest agreement is below 0.6',
+        action: 'Discuss disagreements and refine code definitions before recoding',
+      };
+    },
+  },
+  {
+    id: 'saturation',
+    pattern: /saturat|sufficien|comprehens|fullness|range|outcome ?space|variation|resonance|credib/i,
+    evaluate: e => {
+      if (!e.saturation) {
+        return {
+          score: 0,
+          evidence: 'No saturation check recorded',
+          gap: 'Sufficiency of data has not been assessed',
+          action: 'Run detectSaturation once several sources are coded',
+        };
+      }
+      return {
+        score: e.saturation.saturated ? 1 : e.saturation.saturationRate > 0.7 ? 0.5 : 0.25,
+        evidence: `${e.saturation.level}-level saturation ${(e.saturation.saturationRate * 100).toFixed(0)}% (${e.saturation.saturated ? 'saturated' : 'not saturated'})`,
+        gap: e.saturation.saturated ? undefined : 'Saturation has not been reached',
+        action: 'Collect and code further data sources, then re-run detectSaturation',
+      };
+    },
+  },
+  {
+    id: 'thickDescription',
+    pattern: /transfer|thick|rich|context|descript|immersion|detail/i,
+    evaluate: e => ({
+      score: e.averageSourceWords >= 2000 ? 1 : e.averageSourceWords >= 500 ? 0.5 : e.sources > 0 ? 0.25 : 0,
+      evidence: `${e.sources} source(s), ${Math.round(e.averageSourceWords)} words on average`,
+      gap: e.averageSourceWords >= 2000 ? undefined : 'Source material may be too thin for thick description',
+      action: 'Add fuller transcripts and contextual field notes',
+    }),
+  },
+  {
+    id: 'triangulation',
+    pattern: /triangul|multiple|construct ?validity|convergen|perspective|diverse/i,
+    evaluate: e => {
+      const diverse = e.sourceTypes.length >= 2;
+      return {
+        score: (diverse ? 0.5 : 0) + (e.triangulations > 0 ? 0.5 : 0),
+        evidence: `${e.sourceTypes.length} source type(s) (${e.sourceTypes.join(', ') || 'none'}), ${e.triangulations} triangulation link(s)`,
+        gap: diverse && e.triangulations > 0 ? undefined : 'Findings are not triangulated across data types',
+        action: diverse ? 'Run triangulate to compare themes across source types' : 'Add a different type of data source (observation or document)',
+      };
+    },
+  },
+  {
+    id: 'grounding',
+    pattern: /ground|evidence|support|coheren|convinc|persuasive|data|specific|concrete|linguistic/i,
+    evaluate: e => {
+      const ratio = e.themes > 0 ? e.themesWithSegments / e.themes : 0;
+      const defined = e.codes > 0 ? e.codesWithDefinitions / e.codes : 0;
+      return {
+        score: e.themes > 0 ? (ratio + defined) / 2 : defined / 2,
+        evidence: `${e.themesWithSegments} of ${e.themes} theme(s) backed by coded segments; ${e.codesWithDefinitions} of ${e.codes} code(s) defined`,
+        gap: ratio >= 1 && defined >= 1 ? undefined : 'Some themes or codes are not anchored in coded data',
+        action: 'Code sources with autoCoding (projectName + sourceName) and define every code',
+      };
+    },
+  },
+  {
+    id: 'theory',
+    pattern: /theor|original|insight|conceptual|useful|implication|pragmatic|practic|utility|transform/i,
+    evaluate: e => ({
+      score: e.hasTheory ? 1 : e.themes > 0 ? 0.5 : 0,
+      evidence: e.hasTheory ? 'Grounded theory recorded' : `${e.themes} theme(s), no integrated theory`,
+      gap: e.hasTheory ? undefined : 'No integrated conceptual account yet',
+      action: 'Develop the analysis into a model with buildGroundedTheory or a concept map',
+    }),
+  },
+];
+
+export class QualityEngine {
+  /**
+   * Assess a project against a set of quality criteria
+   */
+  async assessQuality(params: {
+    methodology: string;
+    criteria: QualityCriteria | Record<string, string | string[]>;
+    evidence: QualityEvidence;
+  }): Promise<QualityAssessment> {
+    const { methodology, criteria, evidence } = params;
+
+    const assessments = this.flattenCriteria(criteria).map(({ name, descriptions }) =>
+      this.assessCriterion(name, descriptions, evidence)
+    );
+
+    const scored = assessments.filter(a => a.score !== null);
+    const overallScore = scored.length > 0
+      ? scored.reduce((sum, a) => sum + (a.score as number), 0) / scored.length
+      : 0;
+
+    const met = assessments.filter(a => a.status === 'met').length;
+    const summary = `${met} of ${assessments.length} criteria met; overall evidence score ${(overallScore * 100).toFixed(0)}%.`;
+
+    return {
+      methodology,
+      overallScore,
+      criteria: assessments,
+      summary,
+    };
+  }
+
+  /**
+   * Normalize criteria blocks; methodology files use either lists or single questions
+   */
+  private flattenCriteria(
+    criteria: QualityCriteria | Record<string, string | string[]>
+  ): Array<{ name: string; descriptions: string[] }> {
+    const flattened: Array<{ name: string; descriptions: string[] }> = [];
+
+    for (const [name, value] of Object.entries(criteria)) {
+      if (value === undefined) continue;
+
+      if (name === 'custom' && typeof value === 'object' && !Array.isArray(value)) {
+        flattened.push(...this.flattenCriteria(value as Record<string, string | string[]>));
+        continue;
+      }
+
+      flattened.push({
+        name,
+        descriptions: Array.isArray(value) ? value.map(String) : [String(value)],
+      });
+    }
+
+    return flattened;
+  }
+
+  /**
+   * Assess one criterion from the indicators its wording points to
+   */
+  private assessCriterion(name: string, descriptions: string[], evidence: QualityEvidence): CriterionAssessment {
+    const text = `${this.splitCamelCase(name)} ${descriptions.join(' ')}`;
+    const indicators = INDICATORS.filter(i => i.pattern.test(text));
+
+    if (indicators.length === 0) {
+      return {
+        criterion: name,
+        descriptions,
+        status: 'manual',
+        score: null,
+        evidence: [],
+        gaps: ['No stored evidence maps onto this criterion'],
+        nextActions: ['Assess this criterion manually and record the judgement in a methodological memo'],
+      };
+    }
+
+    const results = indicators.map(i => i.evaluate(evidence));
+    const score = results.reduce((sum, r) => sum + r.score, 0) / results.length;
+
+    let status: CriterionStatus;
+    if (score >= 0.75) status = 'met';
+    else if (score >= 0.4) status = 'partial';
+    else status = 'unmet';
+
+    return {
+      criterion: name,
+      descriptions,
+      status,
+      score,
+      evidence: results.map(r => r.evidence),
+      gaps: results.filter(r => r.gap).map(r => r.gap as string),
+      nextActions: results.filter(r => r.gap && r.action).map(r => r.action as string),
+    };
+  }
+
+  private splitCamelCase(name: string): string {
+    return name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Reliability Engine - Inter-coder agreement over segment-by-code matrices
+ * Each code is treated as a binary (applied / not applied) variable per segment
+ */
+
+import type { ReliabilityMeasure } from '../types/methodology.js';
+
+export interface ReliabilityUnit {
+  id: string;
+  ratings: Record<string, string[] | null>; // codes per coder; null when the coder did not code this unit
+}
+
+export type AgreementScores = Record<ReliabilityMeasure, number | null>;
+
+export interface CodeReliability {
+  code: string;
+  units: number; // units rated by at least two coders
+  scores: AgreementScores;
+  confidenceIntervals: Partial<Record<ReliabilityMeasure, [number, number]>>;
+}
+
+export interface ReliabilityDisagreement {
+  unit: string;
+  code: string;
+  appliedBy: string[];
+  omittedBy: string[];
+}
+
+export interface ReliabilityReport {
+  coders: string[];
+  units: number;
+  codes: CodeReliability[];
+  pooled: AgreementScores;
+  confidenceIntervals: Partial<Record<ReliabilityMeasure, [number, number]>>;
+  disagreements: ReliabilityDisagreement[];
+  interpretation: string;
+}
+
+export const RELIABILITY_MEASURES: ReliabilityMeasure[] = [
+  'cohens_kappa',
+  'krippendorffs_alpha',
+  'fleiss_kappa',
+  'scotts_pi',
+  'percentage_agreement',
+];
+
+// Binary values per unit and coder for one code: 1 applied, 0 not applied, null missing
+type BinaryMatrix = Array<Array<0 | 1 | null>>;
+
+interface PairTerms {
+  po: number;
+  cohenPe: number;
+  scottPe: number;
+}
+
+export class ReliabilityEngine {
+  /**
+   * Compute agreement for every code and pooled across codes, with bootstrap confidence intervals
+   */
+  async calculateReliability(params: {
+    units: ReliabilityUnit[];
+    coders?: string[];
+    codes?: string[];
+    bootstrap?: number; // resamples; 0 disables confidence intervals
+    seed?: number;
+  }): Promise<ReliabilityReport> {
+    const { units, bootstrap = 1000, seed = 1 } = params;
+
+    const coders = params.coders || [...new Set(units.flatMap(u => Object.keys(u.ratings)))].sort();
+    if (coders.length < 2) {
+      throw new Error('At least two coders are needed to calculate reliability');
+    }
+
+    const codes = params.codes || [...new Set(units.flatMap(u =>
+      Object.values(u.ratings).flatMap(r => r || [])
+    ))].sort();
+
+    const matrices = new Map(codes.map(code => [code, this.toBinaryMatrix(units, coders, code)]));
+
+    const codeResults: CodeReliability[] = codes.map(code => {
+      const matrix = matrices.get(code)!;
+      return {
+        code,
+        units: matrix.filter(row => row.filter(v => v !== null).length >= 2).length,
+        scores: this.scoreCode(matrix),
+        confidenceIntervals: {},
+      };
+    });
+
+    const pooled = this.scorePooled([...matrices.values()]);
+
+    // Chance correction needs a distribution of values, which a single unit cannot give
+    const pairable = units.filter(u => Object.values(u.ratings).filter(r => r !== null).length >= 2).length;
+    if (pairable < 2) {
+      for (const scores of [pooled, ...codeResults.map(c => c.scores)]) {
+        for (const measure of RELIABILITY_MEASURES.filter(m => m !== 'percentage_agreement')) {
+          scores[measure] = null;
+        }
+      }
+    }
+
+    let confidenceIntervals: Partial<Record<ReliabilityMeasure, [number, number]>> = {};
+    if (bootstrap > 0 && pairable >= 2) {
+      const intervals = this.bootstrap([...matrices.values()], units.length, bootstrap, seed);
+      confidenceIntervals = intervals.pooled;
+      codeResults.forEach((result, idx) => {
+        result.confidenceIntervals = intervals.perCode[idx];
+      });
+    }
+
+    const disagreements: ReliabilityDisagreement[] = [];
+    for (const code of codes) {
+      matrices.get(code)!.forEach((row, idx) => {
+        const applied = coders.filter((_, k) => row[k] === 1);
+        const omitted = coders.filter((_, k) => row[k] === 0);
+        if (applied.length > 0 && omitted.length > 0) {
+          disagreements.push({ unit: units[idx].id, code, appliedBy: applied, omittedBy: omitted });
+        }
+      });
+    }
+
+    return {
+      coders,
+      units: units.length,
+      codes: codeResults,
+      pooled,
+      confidenceIntervals,
+      disagreements,
+      interpretation: this.interpret(pooled),
+    };
+  }
+
+  /**
+   * Landis & Koch bands for kappa-type measures
+   */
+  interpretKappa(value: number | null): string {
+    if (value === null) return 'Undefined';
+    if (value > 0.8) return 'Almost perfect agreement';
+    if (value > 0.6) return 'Substantial agreement';
+    if (value > 0.4) return 'Moderate agreement';
+    if (value > 0.2) return 'Fair agreement';
+    if (value > 0) return 'Slight agreement';
+    return 'Poor agreement';
+  }
+
+  private toBinaryMatrix(units: ReliabilityUnit[], coders: string[], code: string): BinaryMatrix {
+    return units.map(unit => coders.map(coder => {
+      const codes = unit.ratings[coder];
+      if (codes === null || codes === undefined) return null;
+      return codes.includes(code) ? 1 : 0;
+    }));
+  }
+
+  private scoreCode(matrix: BinaryMatrix): AgreementScores {
+    const pairs = this.pairTerms(matrix);
+    const po = this.mean(pairs.map(p => p.po));
+    const cohenPe = this.mean(pairs.map(p => p.cohenPe));
+    const scottPe = this.mean(pairs.map(p => p.scottPe));
+    const fleiss = this.fleissTerms(matrix);
+
+    return {
+      cohens_kappa: this.chanceCorrected(po, cohenPe),
+      scotts_pi: this.chanceCorrected(po, scottPe),
+      fleiss_kappa: fleiss ? this.chanceCorrected(fleiss.observed, fleiss.expected) : null,
+      krippendorffs_alpha: this.krippendorffsAlpha([matrix]),
+      percentage_agreement: po,
+    };
+  }
+
+  /**
+   * Pooled scores across codes: observed and expected agreement are averaged before
+   * chance correction (De Vries et al., 2008); alpha pools all coincidences
+   */
+  private scorePooled(matrices: BinaryMatrix[]): AgreementScores {
+    const perCode = matrices.map(m => ({ pairs: this.pairTerms(m), fleiss: this.fleissTerms(m) }))
+      .filter(c => c.pairs.length > 0);
+
+    const po = this.mean(perCode.map(c => this.mean(c.pairs.map(p => p.po)) as number));
+    const cohenPe = this.mean(perCode.map(c => this.mean(c.pairs.map(p => p.cohenPe)) as number));
+    const scottPe = this.mean(perCode.map(c => this.mean(c.pairs.map(p => p.scottPe)) as number));
+
+    const fleiss = perCode.map(c => c.fleiss).filter((f): f is { observed: number; expected: number } => f !== null);
+    const fleissObserved = this.mean(fleiss.map(f => f.observed));
+    const fleissExpected = this.mean(fleiss.map(f => f.expected));
+
+    return {
+      cohens_kappa: this.chanceCorrected(po, cohenPe),
+      scotts_pi: this.chanceCorrected(po, scottPe),
+      fleiss_kappa: this.chanceCorrected(fleissObserved, fleissExpected),
+      krippendorffs_alpha: this.krippendorffsAlpha(matrices),
+      percentage_agreement: po,
+    };
+  }
+
+  /**
+   * Observed and chance agreement for every pair of coders, over units both coded
+   */
+  private pairTerms(matrix: BinaryMatrix): PairTerms[] {
+    const coders = matrix[0]?.length || 0;
+    const terms: PairTerms[] = [];
+
+    for (let a = 0; a < coders; a++) {
+      for (let b = a + 1; b < coders; b++) {
+        let n = 0;
+        let agree = 0;
+        let onesA = 0;
+        let onesB = 0;
+
+        for (const row of matrix) {
+          const x = row[a];
+          const y = row[b];
+          if (x === null || y === null) continue;
+          n++;
+          if (x === y) agree++;
+          onesA += x;
+          onesB += y;
+        }
+
+        if (n === 0) continue;
+
+        const pA = onesA / n;
+        const pB = onesB / n;
+        const pMean = (pA + pB) / 2;
+
+        terms.push({
+          po: agree / n,
+          cohenPe: pA * pB + (1 - pA) * (1 - pB),
+          scottPe: pMean * pMean + (1 - pMean) * (1 - pMean),
+        });
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Fleiss' observed and expected agreement over units rated by every coder
+   */
+  private fleissTerms(matrix: BinaryMatrix): { observed: number; expected: number } | null {
+    const complete = matrix.filter(row => row.every(v => v !== null)) as Array<Array<0 | 1>>;
+    const raters = matrix[0]?.length || 0;
+    if (complete.length < 2 || raters < 2) return null;
+
+    let agreement = 0;
+    let ones = 0;
+    for (const row of complete) {
+      const n1 = row.reduce<number>((sum, v) => sum + v, 0);
+      const n0 = raters - n1;
+      agreement += (n1 * (n1 - 1) + n0 * (n0 - 1)) / (raters * (raters - 1));
+      ones += n1;
+    }
+
+    const p1 = ones / (complete.length * raters);
+    return {
+      observed: agreement / complete.length,
+      expected: p1 * p1 + (1 - p1) * (1 - p1),
+    };
+  }
+
+  /**
+   * Krippendorff's alpha for nominal data with missing values, pooling the coincidences of all matrices
+   */
+  private krippendorffsAlpha(matrices: BinaryMatrix[]): number | null {
+    // Coincidence matrix for the two values 0 and 1
+    const o = [[0, 0], [0, 0]];
+
+    for (const matrix of matrices) {
+      for (const row of matrix) {
+        const values = row.filter((v): v is 0 | 1 => v !== null);
+        const m = values.length;
+        if (m < 2) continue;
+
+        const ones = values.reduce<number>((sum, v) => sum + v, 0);
+        const zeros = m - ones;
+        o[0][0] += (zeros * (zeros - 1)) / (m - 1);
+        o[1][1] += (ones * (ones - 1)) / (m - 1);
+        o[0][1] += (zeros * ones) / (m - 1);
+        o[1][0] += (ones * zeros) / (m - 1);
+      }
+    }
+
+    const n0 = o[0][0] + o[0][1];
+    const n1 = o[1][0] + o[1][1];
+    const n = n0 + n1;
+    if (n <= 1 || n0 * n1 === 0) return null;
+
+    return 1 - ((n - 1) * (o[0][1] + o[1][0])) / (2 * n0 * n1);
+  }
+
+  /**
+   * Percentile intervals from resampling units with replacement, using a seeded generator
+   */
+  private bootstrap(
+    matrices: BinaryMatrix[],
+    unitCount: number,
+    iterations: number,
+    seed: number
+  ): {
+    pooled: Partial<Record<ReliabilityMeasure, [number, number]>>;
+    perCode: Array<Partial<Record<ReliabilityMeasure, [number, number]>>>;
+  } {
+    const random = this.seededRandom(seed);
+    const pooledSamples = this.emptySamples();
+    const codeSamples = matrices.map(() => this.emptySamples());
+
+    for (let i = 0; i < iterations; i++) {
+      const indices = Array.from({ length: unitCount }, () => Math.floor(random() * unitCount));
+      const resampled = matrices.map(m => indices.map(idx => m[idx]));
+
+      this.collect(pooledSamples, this.scorePooled(resampled));
+      resampled.forEach((m, idx) => this.collect(codeSamples[idx], this.scoreCode(m)));
+    }
+
+    return {
+      pooled: this.intervals(pooledSamples),
+      perCode: codeSamples.map(samples => this.intervals(samples)),
+    };
+  }
+
+  private emptySamples(): Record<ReliabilityMeasure, number[]> {
+    return Object.fromEntries(RELIABILITY_MEASURES.map(m => [m, []])) as unknown as Record<ReliabilityMeasure, number[]>;
+  }
+
+  private collect(samples: Record<ReliabilityMeasure, number[]>, scores: AgreementScores): void {
+    for (const measure of RELIABILITY_MEASURES) {
+      const value = scores[measure];
+      if (value !== null) samples[measure].push(value);
+    }
+  }
+
+  private intervals(samples: Record<ReliabilityMeasure, number[]>): Partial<Record<ReliabilityMeasure, [number, number]>> {
+    const result: Partial<Record<ReliabilityMeasure, [number, number]>> = {};
+
+    for (const measure of RELIABILITY_MEASURES) {
+      const values = [...samples[measure]].sort((a, b) => a - b);
+      if (values.length < 10) continue;
+      result[measure] = [
+        values[Math.floor(values.length * 0.025)],
+        values[Math.min(values.length - 1, Math.ceil(values.length * 0.975) - 1)],
+      ];
+    }
+
+    return result;
+  }
+
+  // Mulberry32: small deterministic generator so intervals are reproducible
+  private seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private chanceCorrected(observed: number | null, expected: number | null): number | null {
+    if (observed === null || expected === null || expected >= 1) return null;
+    return (observed - expected) / (1 - expected);
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  }
+
+  private interpret(pooled: AgreementScores): string {
+    const alpha = pooled.krippendorffs_alpha;
+    const kappa = pooled.cohens_kappa;
+
+    if (alpha === null && kappa === null) {
+      return 'Chance-corrected agreement is undefined: code more segments with every coder, including segments where codes are absent.';
+    }
+
+    let interpretation = `Pooled Cohen's kappa: ${this.interpretKappa(kappa)}.`;
+    if (alpha !== null) {
+      if (alpha >= 0.8) interpretation += ' Krippendorff\'s alpha ≥ 0.800 supports reliable conclusions.';
+      else if (alpha >= 0.667) interpretation += ' Krippendorff\'s alpha between 0.667 and 0.800 allows only tentative conclusions.';
+      else interpretation += ' Krippendorff\'s alpha below 0.667: coding is not reliable enough to draw conclusions.';
+    }
+
+    return interpretation;
+  }
+}
@@ -0,0 +1,524 @@
+/**
+ * Report Engine - Analysis report generation
+ * Renders stored project data as Markdown, standalone HTML or Word flat XML
+ */
+
+import type { MethodologyStage } from '../types/methodology.js';
+
+export type ReportFormat = 'markdown' | 'html' | 'docx-xml';
+
+export type ReportSection =
+  | 'project'
+  | 'researchQuestions'
+  | 'dataSources'
+  | 'codebook'
+  | 'themes'
+  | 'theory'
+  | 'saturation'
+  | 'memos';
+
+export const REPORT_SECTIONS: ReportSection[] = [
+  'project',
+  'researchQuestions',
+  'dataSources',
+  'codebook',
+  'themes',
+  'theory',
+  'saturation',
+  'memos',
+];
+
+export interface ReportData {
+  project: {
+    name: string;
+    methodology?: string;
+    createdAt?: string;
+    observations: string[];
+  };
+  methodology?: {
+    name: string;
+    description: string;
+    stages: MethodologyStage[];
+  };
+  researchQuestions: string[];
+  dataSources: Array<{
+    name: string;
+    type: string;
+    characters: number;
+    codedSegments: number;
+  }>;
+  codebook: Array<{
+    name: string;
+    definition: string;
+    frequency: number;
+    type: string;
+  }>;
+  themes: Array<{
+    name: string;
+    description: string;
+    prevalence: number;
+    supportingCodes: string[];
+    quotes: Array<{ text: string; source?: string }>;
+  }>;
+  theory?: {
+    coreCategory: string;
+    description: string;
+    storyline: string;
+    framework: string;
+    stage: string;
+    completeness: number;
+    supportingCategories: string[];
+  };
+  saturation: Array<{
+    level: string;
+    saturationRate: number;
+    saturated: boolean;
+    sources: number;
+    recordedAt: string;
+  }>;
+  memos: Array<{
+    name: string;
+    memoType: string;
+    content: string;
+    createdAt?: string;
+  }>;
+}
+
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; headers: string[]; rows: string[][] }
+  | { type: 'quote'; text: string; cite?: string };
+
+export interface ReportResult {
+  format: ReportFormat;
+  content: string;
+  sections: ReportSection[];
+}
+
+// Sections that are placed under the methodology stage whose name, description or outputs match
+const SECTION_STAGE_PATTERNS: Array<{ section: ReportSection; pattern: RegExp }> = [
+  { section: 'dataSources', pattern: /collect|familiari|fieldwork|data|incident/i },
+  { section: 'codebook', pattern: /cod(e|ing)|categor|discourse_units|meaning_units/i },
+  { section: 'themes', pattern: /theme|pattern|synthesis|variation/i },
+  { section: 'theory', pattern: /theor|core|model|framework|outcome_space/i },
+  { section: 'saturation', pattern: /saturat|valid|reliab|review/i },
+  { section: 'memos', pattern: /memo|reflex|reflect|writ/i },
+];
+
+export class ReportEngine {
+  /**
+   * Generate a report in the requested format
+   */
+  generateReport(data: ReportData, options: {
+    format?: ReportFormat;
+    sections?: ReportSection[];
+  } = {}): ReportResult {
+    const { format = 'markdown', sections = REPORT_SECTIONS } = options;
+
+    const blocks = this.buildBlocks(data, sections);
+    const title = `Analysis Report: ${data.project.name}`;
+
+    let content: string;
+    if (format === 'html') {
+      content = this.renderHtml(title, blocks);
+    } else if (format === 'docx-xml') {
+      content = this.renderFlatXml(blocks);
+    } else {
+      content = this.renderMarkdown(blocks);
+    }
+
+    return { format, content, sections };
+  }
+
+  /**
+   * Build the document model, templated by the methodology stages when available
+   */
+  buildBlocks(data: ReportData, sections: ReportSection[]): ReportBlock[] {
+    const include = new Set(sections);
+    const blocks: ReportBlock[] = [
+      { type: 'heading', level: 1, text: `Analysis Report: ${data.project.name}` },
+    ];
+
+    // Front matter is always placed before the analytic stages
+    if (include.has('project')) blocks.push(...this.projectSection(data));
+    if (include.has('researchQuestions')) blocks.push(...this.researchQuestionsSection(data));
+
+    const remaining = sections.filter(s => s !== 'project' && s !== 'researchQuestions');
+    const stages = [...(data.methodology?.stages || [])].sort((a, b) => a.order - b.order);
+
+    if (stages.length === 0) {
+      for (const section of remaining) {
+        blocks.push(...this.sectionBlocks(section, data, 2));
+      }
+      return blocks;
+    }
+
+    const placed = new Set<ReportSection>();
+    stages.forEach((stage, idx) => {
+      const stageText = [stage.name, stage.description, ...(stage.outputs || [])].join(' ');
+      const stageSections = remaining.filter(section =>
+        !placed.has(section) &&
+        SECTION_STAGE_PATTERNS.some(p => p.section === section && p.pattern.test(stageText))
+      );
+
+      blocks.push({ type: 'heading', level: 2, text: `Stage ${idx + 1}: ${this.formatStageName(stage.name)}` });
+      blocks.push({ type: 'paragraph', text: stage.description });
+
+      if (stageSections.length === 0) {
+        blocks.push({ type: 'paragraph', text: 'No stored analysis output corresponds to this stage yet.' });
+      }
+
+      for (const section of stageSections) {
+        placed.add(section);
+        blocks.push(...this.sectionBlocks(section, data, 3));
+      }
+    });
+
+    const unplaced = remaining.filter(s => !placed.has(s));
+    if (unplaced.length > 0) {
+      blocks.push({ type: 'heading', level: 2, text: 'Additional Analysis' });
+      for (const section of unplaced) {
+        blocks.push(...this.sectionBlocks(section, data, 3));
+      }
+    }
+
+    return blocks;
+  }
+
+  private sectionBlocks(section: ReportSection, data: ReportData, level: 2 | 3): ReportBlock[] {
+    switch (section) {
+      case 'dataSources': return this.dataSourcesSection(data, level);
+      case 'codebook': return this.codebookSection(data, level);
+      case 'themes': return this.themesSection(data, level);
+      case 'theory': return this.theorySection(data, level);
+      case 'saturation': return this.saturationSection(data, level);
+      case 'memos': return this.memosSection(data, level);
+      case 'project': return this.projectSection(data);
+      case 'researchQuestions': return this.researchQuestionsSection(data);
+    }
+  }
+
+  private projectSection(data: ReportData): ReportBlock[] {
+    const items = [
+      `Project: ${data.project.name}`,
+      `Methodology: ${data.methodology?.name || data.project.methodology || 'Not specified'}`,
+      `Data sources: ${data.dataSources.length}`,
+      `Codes: ${data.codebook.length}`,
+      `Themes: ${data.themes.length}`,
+    ];
+    if (data.project.createdAt) {
+      items.push(`Created: ${data.project.createdAt}`);
+    }
+
+    const blocks: ReportBlock[] = [
+      { type: 'heading', level: 2, text: 'Project Overview' },
+      { type: 'list', items },
+    ];
+    if (data.methodology?.description) {
+      blocks.push({ type: 'paragraph', text: data.methodology.description });
+    }
+    return blocks;
+  }
+
+  private researchQuestionsSection(data: ReportData): ReportBlock[] {
+    return [
+      { type: 'heading', level: 2, text: 'Research Questions' },
+      data.researchQuestions.length > 0
+        ? { type: 'list', items: data.researchQuestions }
+        : { type: 'paragraph', text: 'No research questions recorded.' },
+    ];
+  }
+
+  private dataSourcesSection(data: ReportData, level: 2 | 3): ReportBlock[] {
+    if (data.dataSources.length === 0) {
+      return [
+        { type: 'heading', level, text: 'Data Sources' },
+        { type: 'paragraph', text: 'No data sources recorded.' },
+      ];
+    }
+
+    return [
+      { type: 'heading', level, text: 'Data Sources' },
+      {
+        type: 'table',
+        headers: ['Source', 'Type', 'Characters', 'Coded segments'],
+        rows: data.dataSources.map(s => [s.name, s.type, String(s.characters), String(s.codedSegments)]),
+      },
+    ];
+  }
+
+  private codebookSection(data: ReportData, level: 2 | 3): ReportBlock[] {
+    if (data.codebook.length === 0) {
+      return [
+        { type: 'heading', level, text: 'Codebook' },
+        { type: 'paragraph', text: 'No codes recorded. Run autoCoding to build the codebook.' },
+      ];
+    }
+
+    const codes = [...data.codebook].sort((a, b) => b.frequency - a.frequency);
+    return [
+      { type: 'heading', level, text: 'Codebook' },
+      {
+        type: 'table',
+        headers: ['Code', 'Type', 'Frequency', 'Definition'],
+        rows: codes.map(c => [c.name, c.type, String(c.frequency), c.definition]),
+      },
+    ];
+  }
+
+  private themesSection(data: ReportData, level: 2 | 3): ReportBlock[] {
+    const blocks: ReportBlock[] = [{ type: 'heading', level, text: 'Themes' }];
+
+    if (data.themes.length === 0) {
+      blocks.push({ type: 'paragraph', text: 'No themes recorded. Run extractThemes to identify themes.' });
+      return blocks;
+    }
+
+    for (const theme of data.themes) {
+      blocks.push({ type: 'heading', level: level === 2 ? 3 : 4, text: theme.name });
+      blocks.push({ type: 'paragraph', text: theme.description });
+      blocks.push({
+        type: 'list',
+        items: [
+          `Prevalence: ${(theme.prevalence * 100).toFixed(1)}% of coded data`,
+          `Supporting codes: ${theme.supportingCodes.join(', ') || 'none'}`,
+        ],
+      });
+      for (const quote of theme.quotes) {
+        blocks.push({ type: 'quote', text: quote.text, cite: quote.source });
+      }
+    }
+
+    return blocks;
+  }
+
+  private theorySection(data: ReportData, level: 2 | 3): ReportBlock[] {
+    const blocks: ReportBlock[] = [{ type: 'heading', level, text: 'Grounded Theory' }];
+
+    if (!data.theory) {
+      blocks.push({ type: 'paragraph', text: 'No theory recorded. Run buildGroundedTheory to develop one.' });
+      return blocks;
+    }
+
+    blocks.push(
+      {
+        type: 'list',
+        items: [
+          `Core category: ${data.theory.coreCategory}`,
+          `Stage: ${data.theory.stage}`,
+          `Completeness: ${(data.theory.completeness * 100).toFixed(1)}%`,
+          `Supporting categories: ${data.theory.supportingCategories.join(', ') || 'none'}`,
+        ],
+      },
+      { type: 'paragraph', text: data.theory.description },
+      { type: 'paragraph', text: data.theory.storyline },
+      { type: 'paragraph', text: data.theory.framework },
+    );
+    return blocks;
+  }
+
+  private saturationSection(data: ReportData, level: 2 | 3): ReportBlock[] {
+    if (data.saturation.length === 0) {
+      return [
+        { type: 'heading', level, text: 'Saturation' },
+        { type: 'paragraph', text: 'No saturation checks recorded. Run detectSaturation to track saturation.' },
+      ];
+    }
+
+    return [
+      { type: 'heading', level, text: 'Saturation' },
+      {
+        type: 'table',
+        headers: ['Recorded', 'Level', 'Sources', 'Saturation rate', 'Saturated'],
+        rows: data.saturation.map(s => [
+          s.recordedAt,
+          s.level,
+          String(s.sources),
+          `${(s.saturationRate * 100).toFixed(1)}%`,
+          s.saturated ? 'Yes' : 'No',
+        ]),
+      },
+    ];
+  }
+
+  private memosSection(data: ReportData, level: 2 | 3): ReportBlock[] {
+    const blocks: ReportBlock[] = [{ type: 'heading', level, text: 'Memos' }];
+
+    if (data.memos.length === 0) {
+      blocks.push({ type: 'paragraph', text: 'No memos recorded.' });
+      return blocks;
+    }
+
+    for (const memo of data.memos) {
+      blocks.push({ type: 'paragraph', text: `${memo.name} (${memo.memoType}${memo.createdAt ? `, ${memo.createdAt}` : ''})` });
+      blocks.push({ type: 'quote', text: memo.content });
+    }
+    return blocks;
+  }
+
+  private formatStageName(name: string): string {
+    return name
+      .split('-')
+      .map(w => w.charAt(0).toUpperCase() + w.slice(1))
+      .join(' ');
+  }
+
+  /**
+   * Render as Markdown
+   */
+  private renderMarkdown(blocks: ReportBlock[]): string {
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+    return blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `${'#'.repeat(block.level)} ${block.text}`;
+        case 'paragraph':
+          return block.text;
+        case 'list':
+          return block.items.map(item => `- ${item}`).join('\n');
+        case 'table':
+          return [
+            `| ${block.headers.map(cell).join(' | ')} |`,
+            `| ${block.headers.map(() => '---').join(' | ')} |`,
+            ...block.rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+          ].join('\n');
+        case 'quote':
+          return block.text.split('\n').map(line => `> ${line}`).join('\n') +
+            (block.cite ? `\n>\n> — ${block.cite}` : '');
+      }
+    }).join('\n\n') + '\n';
+  }
+
+  /**
+   * Render as a standalone HTML document
+   */
+  private renderHtml(title: string, blocks: ReportBlock[]): string {
+    const body = blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+        case 'paragraph':
+          return `<p>${escapeXml(block.text)}</p>`;
+        case 'list':
+          return `<ul>\n${block.items.map(item => `  <li>${escapeXml(item)}</li>`).join('\n')}\n</ul>`;
+        case 'table':
+          return [
+            '<table>',
+            `  <thead><tr>${block.headers.map(h => `<th>${escapeXml(h)}</th>`).join('')}</tr></thead>`,
+            '  <tbody>',
+            ...block.rows.map(row => `    <tr>${row.map(c => `<td>${escapeXml(c)}</td>`).join('')}</tr>`),
+            '  </tbody>',
+            '</table>',
+          ].join('\n');
+        case 'quote':
+          return `<blockquote><p>${escapeXml(block.text)}</p>${block.cite ? `<cite>${escapeXml(block.cite)}</cite>` : ''}</blockquote>`;
+      }
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 50em; margin: 2em auto; line-height: 1.5; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+  th, td { border: 1px solid #bbb; padding: 0.3em 0.6em; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+  blockquote { border-left: 3px solid #bbb; margin: 1em 0; padding: 0 1em; color: #444; }
+  cite { display: block; font-size: 0.9em; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Render as a Word 2007+ flat OPC package (opens directly in Word, converts losslessly to .docx)
+   */
+  private renderFlatXml(blocks: ReportBlock[]): string {
+    const run = (text: string, props = '') =>
+      `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+    const para = (text: string, style?: string) =>
+      `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${run(text)}</w:p>`;
+
+    const body = blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return para(block.text, `Heading${block.level}`);
+        case 'paragraph':
+          return para(block.text);
+        case 'list':
+          return block.items.map(item => para(`• ${item}`, 'ListParagraph')).join('');
+        case 'table': {
+          const cellXml = (text: string, header: boolean) =>
+            `<w:tc><w:p>${run(text, header ? '<w:b/>' : '')}</w:p></w:tc>`;
+          const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`;
+          return '<w:tbl>' +
+            `<w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>` +
+            `<w:tr>${block.headers.map(h => cellXml(h, true)).join('')}</w:tr>` +
+            block.rows.map(row => `<w:tr>${row.map(c => cellXml(c, false)).join('')}</w:tr>`).join('') +
+            '</w:tbl>' + para('');
+        }
+        case 'quote':
+          return para(block.text, 'Quote') + (block.cite ? para(`— ${block.cite}`, 'Quote') : '');
+      }
+    }).join('\n');
+
+    const style = (id: string, name: string, rPr: string, pPr = '') =>
+      `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}<w:rPr>${rPr}</w:rPr></w:style>`;
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<?mso-application progid="Word.Document"?>
+<pkg:package xmlns:pkg="http://schemas.microsoft.com/office/2006/xmlPackage">
+<pkg:part pkg:name="/_rels/.rels" pkg:contentType="application/vnd.openxmlformats-package.relationships+xml">
+<pkg:xmlData>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>
+</pkg:xmlData>
+</pkg:part>
+<pkg:part pkg:name="/word/_rels/document.xml.rels" pkg:contentType="application/vnd.openxmlformats-package.relationships+xml">
+<pkg:xmlData>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>
+</pkg:xmlData>
+</pkg:part>
+<pkg:part pkg:name="/word/styles.xml" pkg:contentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml">
+<pkg:xmlData>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:rPr><w:sz w:val="22"/></w:rPr></w:style>
+${style('Heading1', 'heading 1', '<w:b/><w:sz w:val="36"/>', '<w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/>')}
+${style('Heading2', 'heading 2', '<w:b/><w:sz w:val="30"/>', '<w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>')}
+${style('Heading3', 'heading 3', '<w:b/><w:sz w:val="26"/>', '<w:spacing w:before="160" w:after="60"/><w:outlineLvl w:val="2"/>')}
+${style('Heading4', 'heading 4', '<w:b/><w:i/><w:sz w:val="24"/>', '<w:spacing w:before="120" w:after="40"/><w:outlineLvl w:val="3"/>')}
+${style('ListParagraph', 'List Paragraph', '', '<w:ind w:left="360"/>')}
+${style('Quote', 'Quote', '<w:i/>', '<w:ind w:left="720" w:right="720"/>')}
+</w:styles>
+</pkg:xmlData>
+</pkg:part>
+<pkg:part pkg:name="/word/document.xml" pkg:contentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml">
+<pkg:xmlData>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>
+${body}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>
+</pkg:xmlData>
+</pkg:part>
+</pkg:package>
+`;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
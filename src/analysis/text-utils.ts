@@ -0,0 +1,93 @@
+/**
+ * Text utilities shared by the analysis engines
+ */
+
+import { RegexpTokenizer } from 'natural/lib/natural/tokenizers/index.js';
+
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'even', 'every',
+  'few', 'for', 'from', 'further', 'get', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers',
+  'herself', 'him', 'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just',
+  'like', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now',
+  'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+  'really', 'said', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs',
+  'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while',
+  'who', 'whom', 'why', 'will', 'with', 'would', 'yeah', 'yes', 'you', 'your', 'yours', 'yourself',
+  'um', 'uh', 'okay', 'ok', 'know', 'mean', 'think', 'thing', 'things', 'lot', 'kind', 'sort',
+]);
+
+// natural's word tokenizer, with apostrophes kept inside words ("don't", "nurse's")
+const wordTokenizer = new RegexpTokenizer({ pattern: /[A-Za-z0-9]+(?:['’][A-Za-z]+)*/g, gaps: false });
+
+/**
+ * Lowercase word tokens with their character offsets; apostrophes stay inside words
+ */
+export function tokenizeWithOffsets(text: string): Array<{ token: string; start: number; end: number }> {
+  const tokens: Array<{ token: string; start: number; end: number }> = [];
+  let offset = 0;
+  for (const word of wordTokenizer.tokenize(text) || []) {
+    const start = text.indexOf(word, offset);
+    offset = start + word.length;
+    tokens.push({
+      token: word.toLowerCase().replace(/’/g, "'"),
+      start,
+      end: offset,
+    });
+  }
+  return tokens;
+}
+
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map(t => t.token);
+}
+
+/**
+ * Content words: tokens that are not stopwords, numbers or single letters
+ */
+export function contentWords(text: string): string[] {
+  return tokenize(text).filter(t => t.length > 2 && !STOPWORDS.has(t) && !/^\d+$/.test(t) && !t.includes("'"));
+}
+
+/**
+ * Light suffix stripping so that inflected forms compare equal
+ */
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/(ies|ied)$/, 'y')
+    .replace(/(ss|x|z|ch|sh)es$/, '$1')
+    .replace(/([^s])s$/, '$1')
+    .replace(/(ing|ed|ly|ness|ment)$/, '')
+    .replace(/(.)\1$/, '$1');
+}
+
+/**
+ * Dunning's log-likelihood (G²) of a term occurring a times in c tokens and b times in d other tokens,
+ * from the full 2×2 contingency table; 3.84 or more is significant at p < 0.05
+ */
+export function logLikelihood(a: number, b: number, c: number, d: number): number {
+  const n = c + d;
+  if (n === 0) return 0;
+
+  const observed = [a, c - a, b, d - b].map(o => Math.max(o, 0));
+  const rows = [c, d];
+  const columns = [a + b, n - a - b];
+
+  let g2 = 0;
+  observed.forEach((o, i) => {
+    const expected = (rows[Math.floor(i / 2)] * columns[i % 2]) / n;
+    if (o > 0 && expected > 0) g2 += o * Math.log(o / expected);
+  });
+  return 2 * g2;
+}
+
+export function jaccard<T>(a: Iterable<T>, b: Iterable<T>): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = new Set([...setA, ...setB]).size;
+  if (union === 0) return 0;
+  return [...setA].filter(x => setB.has(x)).length / union;
+}
@@ -3,6 +3,7 @@
  */
 
 import type { Code } from './coding-engine.js';
+import { STOPWORDS, logLikelihood, tokenizeWithOffsets } from './text-utils.js';
 
 export interface Theme {
   name: string;
@@ -21,6 +22,44 @@ export interface Pattern {
   significance: 'high' | 'medium' | 'low';
 }
 
+// A stretch of text to read in context: a transcript turn, or a whole data source without turns
+export interface ConcordanceUnit {
+  source: string;
+  text: string;
+  start: number; // offset of the text in its source
+  speaker?: string;
+}
+
+export interface ConcordanceLine {
+  source: string;
+  speaker?: string;
+  left: string;
+  node: string;
+  right: string;
+  start: number; // offsets of the node in its source
+  end: number;
+}
+
+export interface Collocate {
+  word: string;
+  frequency: number; // occurrences within the span around the node
+  left: number;
+  right: number;
+  wordFrequency: number; // occurrences anywhere
+  expected: number;
+  pmi: number;
+  logLikelihood: number;
+  significant: boolean; // log-likelihood of at least 3.84 (p < 0.05)
+}
+
+export interface CollocationAnalysis {
+  node: string;
+  nodeFrequency: number;
+  tokens: number;
+  span: number;
+  collocates: Collocate[];
+}
+
 export interface SaturationAnalysis {
   level: 'code' | 'theme' | 'theoretical';
   saturated: boolean;
@@ -29,6 +68,25 @@ export interface SaturationAnalysis {
   recommendation: string;
 }
 
+export interface CaseThemeCell {
+  segmentCount: number;
+  sourceCount: number;
+  codes: string[];
+  quote?: string;
+  summary: string;
+}
+
+export interface CaseThemeMatrix {
+  cases: string[];
+  themes: string[];
+  rows: Array<{
+    case: string;
+    cells: CaseThemeCell[]; // one per theme, in theme order
+  }>;
+  singleCaseThemes: Array<{ theme: string; case: string }>;
+  absentThemes: string[];
+}
+
 export class ThemeEngine {
   /**
    * Extract themes from codes
@@ -328,29 +386,186 @@ export class ThemeEngine {
   }
 
   /**
-   * Find hierarchical relationships
+   * Find hierarchical relationships from the parent links of the codebook
    */
   private findHierarchies(codes: Code[]): Pattern[] {
     const patterns: Pattern[] = [];
+    const names = new Set(codes.map(c => c.name));
+
+    const descendantsOf = (name: string, seen = new Set<string>()): string[] => {
+      const children = codes.filter(c => c.parent === name && !seen.has(c.name)).map(c => c.name);
+      children.forEach(child => seen.add(child));
+      return children.flatMap(child => [child, ...descendantsOf(child, seen)]);
+    };
 
-    // Look for parent-child relationships in code names
     for (const code of codes) {
-      const potentialChildren = codes.filter(
-        c => c !== code && c.name.startsWith(code.name)
-      );
+      const children = codes.filter(c => c.parent === code.name);
+      if (children.length === 0) continue;
+
+      const descendants = descendantsOf(code.name);
+      const nested = descendants.length > children.length;
+      patterns.push({
+        type: 'hierarchy',
+        description: `"${code.name}" is a parent concept with ${children.length} sub-categories${nested ? ` and ${descendants.length - children.length} further sub-codes` : ''}`,
+        elements: [code.name, ...descendants],
+        frequency: descendants.length,
+        significance: code.parent && names.has(code.parent) ? 'low' : nested ? 'high' : 'medium',
+      });
+    }
 
-      if (potentialChildren.length > 0) {
-        patterns.push({
-          type: 'hierarchy',
-          description: `"${code.name}" is a parent concept with ${potentialChildren.length} sub-categories`,
-          elements: [code.name, ...potentialChildren.map(c => c.name)],
-          frequency: potentialChildren.length,
-          significance: 'medium',
+    return patterns;
+  }
+
+  /**
+   * Keyword-in-context lines for a node word or phrase ("shift*" matches by prefix), with up to
+   * width words of context on each side, never reaching outside the unit the node is in
+   */
+  async concordance(params: {
+    units: ConcordanceUnit[];
+    node: string;
+    width?: number;
+    sortBy?: 'position' | 'left' | 'right';
+  }): Promise<ConcordanceLine[]> {
+    const { units, node, width = 6, sortBy = 'position' } = params;
+    const lines: Array<ConcordanceLine & { leftWords: string[]; rightWords: string[] }> = [];
+
+    for (const unit of units) {
+      const tokens = tokenizeWithOffsets(unit.text);
+      for (const [first, last] of this.findNodeMatches(tokens.map(t => t.token), node)) {
+        const before = tokens.slice(Math.max(0, first - width), first);
+        const after = tokens.slice(last + 1, last + 1 + width);
+        const nodeStart = tokens[first].start;
+        const nodeEnd = tokens[last].end;
+
+        lines.push({
+          source: unit.source,
+          speaker: unit.speaker,
+          left: before.length > 0 ? this.collapse(unit.text.slice(before[0].start, nodeStart)) : '',
+          node: unit.text.slice(nodeStart, nodeEnd),
+          right: after.length > 0 ? this.collapse(unit.text.slice(nodeEnd, after[after.length - 1].end)) : '',
+          start: unit.start + nodeStart,
+          end: unit.start + nodeEnd,
+          leftWords: before.map(t => t.token).reverse(),
+          rightWords: after.map(t => t.token),
         });
       }
     }
 
-    return patterns;
+    // Left sorts on the word next to the node first, then outwards
+    if (sortBy !== 'position') {
+      const key = (line: typeof lines[number]) => (sortBy === 'left' ? line.leftWords : line.rightWords).join(' ');
+      lines.sort((a, b) => key(a).localeCompare(key(b)));
+    }
+
+    return lines.map(({ leftWords, rightWords, ...line }) => line);
+  }
+
+  /**
+   * Words that occur within span words of the node more often than their frequency predicts, with
+   * pointwise mutual information and log-likelihood (G²) from the 2x2 table of window tokens against
+   * the rest of the corpus. Collocates less frequent near the node than expected are left out.
+   */
+  async findCollocations(params: {
+    units: ConcordanceUnit[];
+    node: string;
+    span?: number;
+    minFrequency?: number;
+    excludeStopwords?: boolean;
+    sortBy?: 'logLikelihood' | 'pmi' | 'frequency';
+    limit?: number;
+  }): Promise<CollocationAnalysis> {
+    const { units, node, span = 4, minFrequency = 2, excludeStopwords = true, sortBy = 'logLikelihood', limit = 20 } = params;
+
+    const wordFrequency = new Map<string, number>();
+    const near = new Map<string, { left: number; right: number }>();
+    let tokenCount = 0;
+    let nodeFrequency = 0;
+    let windowTokens = 0;
+
+    for (const unit of units) {
+      const tokens = tokenizeWithOffsets(unit.text).map(t => t.token);
+      tokenCount += tokens.length;
+      tokens.forEach(token => wordFrequency.set(token, (wordFrequency.get(token) || 0) + 1));
+
+      const matches = this.findNodeMatches(tokens, node);
+      const inNode = new Set(matches.flatMap(([first, last]) => tokens.slice(first, last + 1).map((_, i) => first + i)));
+      nodeFrequency += matches.length;
+
+      for (const [first, last] of matches) {
+        const windows: Array<[number, number, 'left' | 'right']> = [
+          [Math.max(0, first - span), first, 'left'],
+          [last + 1, Math.min(tokens.length, last + 1 + span), 'right'],
+        ];
+        for (const [from, to, side] of windows) {
+          for (let i = from; i < to; i++) {
+            if (inNode.has(i)) continue;
+            windowTokens++;
+            const counts = near.get(tokens[i]) || { left: 0, right: 0 };
+            counts[side]++;
+            near.set(tokens[i], counts);
+          }
+        }
+      }
+    }
+
+    const collocates: Collocate[] = [];
+    for (const [word, { left, right }] of near) {
+      const frequency = left + right;
+      if (frequency < minFrequency) continue;
+      if (excludeStopwords && (STOPWORDS.has(word) || /^\d+$/.test(word))) continue;
+
+      const total = wordFrequency.get(word) || frequency;
+      const expected = (windowTokens * total) / tokenCount;
+      if (frequency <= expected) continue;
+
+      // The word in the node windows against the rest of the corpus
+      const g2 = logLikelihood(frequency, total - frequency, windowTokens, tokenCount - windowTokens);
+      collocates.push({
+        word,
+        frequency,
+        left,
+        right,
+        wordFrequency: total,
+        expected,
+        pmi: Math.log2(frequency / expected),
+        logLikelihood: g2,
+        significant: g2 >= 3.84,
+      });
+    }
+
+    collocates.sort((a, b) => b[sortBy] - a[sortBy] || b.frequency - a.frequency || a.word.localeCompare(b.word));
+
+    return {
+      node,
+      nodeFrequency,
+      tokens: tokenCount,
+      span,
+      collocates: collocates.slice(0, limit),
+    };
+  }
+
+  /**
+   * Token index ranges [first, last] where the words of the node occur in sequence
+   */
+  private findNodeMatches(tokens: string[], node: string): Array<[number, number]> {
+    const words = node.toLowerCase().replace(/’/g, "'").split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    const matchesWord = (token: string, word: string) =>
+      word.endsWith('*') ? token.startsWith(word.slice(0, -1)) : token === word;
+
+    const matches: Array<[number, number]> = [];
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      if (words.every((word, j) => matchesWord(tokens[i + j], word))) {
+        matches.push([i, i + words.length - 1]);
+        i += words.length - 1;
+      }
+    }
+    return matches;
+  }
+
+  private collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
   }
 
   /**
@@ -464,6 +679,124 @@ export class ThemeEngine {
     };
   }
 
+  /**
+   * Build a framework-analysis matrix with cases as rows and themes as columns
+   */
+  async compareAcrossCases(params: {
+    themes: Theme[];
+    cases: Array<{
+      name: string;
+      segments: Array<{ source: string; text: string; codes: string[] }>;
+    }>;
+  }): Promise<CaseThemeMatrix> {
+    const { themes, cases } = params;
+
+    const rows = cases.map(caseData => ({
+      case: caseData.name,
+      cells: themes.map(theme => {
+        const supporting = new Set(theme.supportingCodes);
+        const matching = caseData.segments.filter(s => s.codes.some(c => supporting.has(c)));
+        return this.buildCaseCell(matching, supporting);
+      }),
+    }));
+
+    const singleCaseThemes: Array<{ theme: string; case: string }> = [];
+    const absentThemes: string[] = [];
+
+    themes.forEach((theme, idx) => {
+      const present = rows.filter(r => r.cells[idx].segmentCount > 0);
+      if (present.length === 0) {
+        absentThemes.push(theme.name);
+      } else if (present.length === 1 && rows.length > 1) {
+        singleCaseThemes.push({ theme: theme.name, case: present[0].case });
+      }
+    });
+
+    return {
+      cases: cases.map(c => c.name),
+      themes: themes.map(t => t.name),
+      rows,
+      singleCaseThemes,
+      absentThemes,
+    };
+  }
+
+  /**
+   * Export a case-by-theme matrix as CSV or a Markdown table
+   */
+  exportCaseMatrix(matrix: CaseThemeMatrix, format: 'csv' | 'markdown'): string {
+    if (format === 'csv') {
+      const header = ['Case', ...matrix.themes.flatMap(t => [`${t} (segments)`, `${t} (summary)`, `${t} (quote)`])];
+      const lines = [header, ...matrix.rows.map(row => [
+        row.case,
+        ...row.cells.flatMap(cell => [String(cell.segmentCount), cell.summary, cell.quote || '']),
+      ])];
+
+      return lines.map(line => line.map(value => this.escapeCsv(value)).join(',')).join('\n') + '\n';
+    }
+
+    const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+    let markdown = `| Case | ${matrix.themes.map(escape).join(' | ')} |\n`;
+    markdown += `|---|${matrix.themes.map(() => '---').join('|')}|\n`;
+
+    for (const row of matrix.rows) {
+      const cells = row.cells.map(cell => {
+        if (cell.segmentCount === 0) return '—';
+        let content = `**${cell.segmentCount}** segment(s) · ${escape(cell.summary)}`;
+        if (cell.quote) content += `<br>"${escape(cell.quote)}"`;
+        return content;
+      });
+      markdown += `| ${escape(row.case)} | ${cells.join(' | ')} |\n`;
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Summarize the segments of one case that carry a theme
+   */
+  private buildCaseCell(
+    segments: Array<{ source: string; text: string; codes: string[] }>,
+    supporting: Set<string>
+  ): CaseThemeCell {
+    if (segments.length === 0) {
+      return { segmentCount: 0, sourceCount: 0, codes: [], summary: 'Not present' };
+    }
+
+    const codeCounts = new Map<string, number>();
+    for (const segment of segments) {
+      for (const code of segment.codes.filter(c => supporting.has(c))) {
+        codeCounts.set(code, (codeCounts.get(code) || 0) + 1);
+      }
+    }
+    const codes = [...codeCounts.entries()].sort((a, b) => b[1] - a[1]).map(([code]) => code);
+    const sourceCount = new Set(segments.map(s => s.source)).size;
+
+    // Prefer the segment carrying most of the theme's codes, then one of readable length
+    const representative = [...segments].sort((a, b) => {
+      const codeDiff = b.codes.filter(c => supporting.has(c)).length - a.codes.filter(c => supporting.has(c)).length;
+      if (codeDiff !== 0) return codeDiff;
+      return Math.abs(a.text.length - 150) - Math.abs(b.text.length - 150);
+    })[0];
+
+    const quote = representative.text.length > 200
+      ? `${representative.text.slice(0, 197).trimEnd()}...`
+      : representative.text;
+
+    return {
+      segmentCount: segments.length,
+      sourceCount,
+      codes,
+      quote,
+      summary: `${sourceCount} source(s); mainly ${codes.slice(0, 3).join(', ')}`,
+    };
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
   /**
    * Detect if a code contradicts a theme
    */
@@ -121,13 +121,37 @@ export class TheoryEngine {
   }
 
   /**
-   * Group codes into conceptual categories
+   * Group codes into conceptual categories. Branches of the codebook hierarchy become categories
+   * named after their top-level code; codes outside any branch are grouped by inferred concept.
    */
   private groupCodesIntoCategories(codes: Code[]): Map<string, Code[]> {
+    const byName = new Map(codes.map(c => [c.name, c]));
+    const parents = new Set(codes.filter(c => c.parent && byName.has(c.parent)).map(c => c.parent!));
+
+    const rootOf = (code: Code): Code => {
+      const seen = new Set<string>();
+      let current = code;
+      while (current.parent && byName.has(current.parent) && !seen.has(current.name)) {
+        seen.add(current.name);
+        current = byName.get(current.parent)!;
+      }
+      return current;
+    };
+
+    const branches = new Map<string, Code[]>();
     const groups = new Map<string, Code[]>();
 
     // Identify categories based on conceptual similarity
     for (const code of codes) {
+      const root = rootOf(code);
+      if (root !== code || parents.has(code.name)) {
+        if (!branches.has(root.name)) {
+          branches.set(root.name, []);
+        }
+        branches.get(root.name)!.push(code);
+        continue;
+      }
+
       const categoryName = this.inferCategoryName(code);
 
       if (!groups.has(categoryName)) {
@@ -138,7 +162,12 @@ export class TheoryEngine {
     }
 
     // Merge similar categories
-    return this.mergeSimilarCategories(groups);
+    const merged = this.mergeSimilarCategories(groups);
+    for (const [name, categoryCodes] of merged) {
+      branches.set(branches.has(name) ? `${name} (inferred)` : name, categoryCodes);
+    }
+
+    return branches;
   }
 
   /**
@@ -0,0 +1,202 @@
+/**
+ * Triangulation Engine - Compare themes across data sources, coders and analytic passes
+ */
+
+import type { Theme } from './theme-engine.js';
+
+export type TriangulationLens = 'sources' | 'coders' | 'passes';
+
+export type TriangulationVerdict = 'convergence' | 'complementarity' | 'dissonance' | 'silence';
+
+export interface TriangulationGroup {
+  name: string;
+  units: Array<{
+    source: string;
+    codes: string[];
+  }>;
+}
+
+export interface ThemeTriangulation {
+  theme: string;
+  verdict: TriangulationVerdict;
+  groups: Array<{
+    group: string;
+    coverage: number; // 0-1, share of the group's coded units carrying the theme
+    codes: string[];
+    sources: string[];
+  }>;
+  codeOverlap: number; // 0-1, mean pairwise Jaccard of the theme codes found per group
+  contradictions: string[];
+  explanation: string;
+}
+
+export interface TriangulationResult {
+  lens: TriangulationLens;
+  groups: string[];
+  themes: ThemeTriangulation[];
+  summary: Record<TriangulationVerdict, number>;
+}
+
+export class TriangulationEngine {
+  /**
+   * Triangulate each theme across groups of coded units
+   */
+  async triangulate(params: {
+    themes: Theme[];
+    groups: TriangulationGroup[];
+    lens: TriangulationLens;
+  }): Promise<TriangulationResult> {
+    const { themes, groups, lens } = params;
+
+    const results = themes.map(theme => this.triangulateTheme(theme, groups, lens));
+
+    const summary: Record<TriangulationVerdict, number> = {
+      convergence: 0,
+      complementarity: 0,
+      dissonance: 0,
+      silence: 0,
+    };
+    for (const result of results) {
+      summary[result.verdict]++;
+    }
+
+    return {
+      lens,
+      groups: groups.map(g => g.name),
+      themes: results,
+      summary,
+    };
+  }
+
+  /**
+   * Triangulate a single theme
+   */
+  private triangulateTheme(
+    theme: Theme,
+    groups: TriangulationGroup[],
+    lens: TriangulationLens
+  ): ThemeTriangulation {
+    const supporting = new Set(theme.supportingCodes);
+
+    const groupResults = groups.map(group => {
+      const matching = group.units.filter(u => u.codes.some(c => supporting.has(c)));
+      return {
+        group: group.name,
+        coverage: group.units.length > 0 ? matching.length / group.units.length : 0,
+        codes: [...new Set(matching.flatMap(u => u.codes.filter(c => supporting.has(c))))].sort(),
+        sources: [...new Set(matching.map(u => u.source))],
+      };
+    });
+
+    const present = groupResults.filter(g => g.coverage > 0);
+    const codeOverlap = this.meanPairwiseOverlap(present.map(g => g.codes));
+    const contradictions = this.findContradictions(theme, groups);
+
+    let verdict: TriangulationVerdict;
+    let explanation: string;
+
+    if (present.length === 0) {
+      verdict = 'silence';
+      explanation = `No ${this.describeGroups(lens)} provide coded evidence for this theme.`;
+    } else if (contradictions.length > 0) {
+      verdict = 'dissonance';
+      explanation = `Evidence conflicts: ${contradictions.join('; ')}.`;
+    } else if (groups.length < 2) {
+      verdict = 'complementarity';
+      explanation = `Only one group is available; add more ${this.describeGroups(lens)} to triangulate.`;
+    } else if (present.length < groups.length && lens !== 'sources') {
+      const missing = groupResults.filter(g => g.coverage === 0).map(g => g.group);
+      verdict = 'dissonance';
+      explanation = `Theme is identified by ${present.map(g => g.group).join(', ')} but not by ${missing.join(', ')}.`;
+    } else if (present.length === groups.length && codeOverlap >= 0.5) {
+      verdict = 'convergence';
+      explanation = `All ${groups.length} ${this.describeGroups(lens)} support the theme through largely the same codes (overlap ${(codeOverlap * 100).toFixed(0)}%).`;
+    } else if (present.length === 1) {
+      verdict = 'complementarity';
+      explanation = `Only ${present[0].group} data speaks to this theme; other ${this.describeGroups(lens)} add different facets.`;
+    } else if (present.length < groups.length) {
+      const missing = groupResults.filter(g => g.coverage === 0).map(g => g.group);
+      verdict = 'complementarity';
+      explanation = `${present.length} of ${groups.length} ${this.describeGroups(lens)} support the theme (code overlap ${(codeOverlap * 100).toFixed(0)}%); ${missing.join(', ')} data adds no evidence.`;
+    } else {
+      verdict = 'complementarity';
+      explanation = `All ${groups.length} ${this.describeGroups(lens)} support the theme, but through different codes (overlap ${(codeOverlap * 100).toFixed(0)}%).`;
+    }
+
+    return {
+      theme: theme.name,
+      verdict,
+      groups: groupResults,
+      codeOverlap,
+      contradictions,
+      explanation,
+    };
+  }
+
+  /**
+   * Mean pairwise Jaccard similarity of code sets
+   */
+  private meanPairwiseOverlap(codeSets: string[][]): number {
+    if (codeSets.length < 2) return codeSets.length === 1 ? 1 : 0;
+
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < codeSets.length; i++) {
+      for (let j = i + 1; j < codeSets.length; j++) {
+        const a = new Set(codeSets[i]);
+        const b = new Set(codeSets[j]);
+        const intersection = [...a].filter(c => b.has(c)).length;
+        const union = new Set([...a, ...b]).size;
+        total += union > 0 ? intersection / union : 0;
+        pairs++;
+      }
+    }
+
+    return total / pairs;
+  }
+
+  /**
+   * Find codes in any group that oppose the theme's emphasis
+   */
+  private findContradictions(theme: Theme, groups: TriangulationGroup[]): string[] {
+    const oppositions = [
+      ['positive', 'negative'],
+      ['success', 'failure'],
+      ['easy', 'difficult'],
+      ['support', 'isolation'],
+      ['support', 'obstacle'],
+      ['benefit', 'cost'],
+      ['trust', 'distrust'],
+    ];
+
+    const themeText = [theme.name, ...theme.supportingCodes].join(' ').toLowerCase();
+    const contradictions: string[] = [];
+
+    for (const group of groups) {
+      const groupCodes = new Set(group.units.flatMap(u => u.codes));
+
+      for (const code of groupCodes) {
+        if (theme.supportingCodes.includes(code)) continue;
+        const codeText = code.toLowerCase();
+
+        for (const [a, b] of oppositions) {
+          const opposes = (themeText.includes(a) && !themeText.includes(b) && codeText.includes(b)) ||
+            (themeText.includes(b) && !themeText.includes(a) && codeText.includes(a));
+
+          if (opposes) {
+            contradictions.push(`${group.name} contains "${code}"`);
+            break;
+          }
+        }
+      }
+    }
+
+    return contradictions;
+  }
+
+  private describeGroups(lens: TriangulationLens): string {
+    if (lens === 'coders') return 'coders';
+    if (lens === 'passes') return 'analytic passes';
+    return 'source types';
+  }
+}
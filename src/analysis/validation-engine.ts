@@ -0,0 +1,178 @@
+/**
+ * Validation Engine - Lint coded data against the codebook
+ * Checks segments against inclusion/exclusion criteria and the codebook for gaps and duplicates
+ */
+
+import stringSimilarity from 'string-similarity';
+import { contentWords, stem } from './text-utils.js';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export type ValidationRule =
+  | 'exclusion-violated'
+  | 'inclusion-unmet'
+  | 'missing-definition'
+  | 'near-duplicate'
+  | 'single-source'
+  | 'unused-code';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  rule: ValidationRule;
+  code: string;
+  segmentId?: number;
+  source?: string;
+  message: string;
+}
+
+export interface CodebookEntry {
+  name: string;
+  definition: string;
+  inclusionCriteria?: string[];
+  exclusionCriteria?: string[];
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  summary: Record<ValidationSeverity, number>;
+  checkedCodes: number;
+  checkedSegments: number;
+}
+
+const SEVERITY_ORDER: Record<ValidationSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export class ValidationEngine {
+  /**
+   * Validate coded segments and the codebook they use
+   */
+  async validateCoding(params: {
+    codes: CodebookEntry[];
+    segments: Array<{ id: number; source: string; text: string; codes: string[] }>;
+    duplicateThreshold?: number;
+  }): Promise<ValidationResult> {
+    const { codes, segments, duplicateThreshold = 0.8 } = params;
+    const issues: ValidationIssue[] = [];
+
+    const codebook = new Map(codes.map(c => [c.name, c]));
+
+    // Segment-level rules
+    for (const segment of segments) {
+      const segmentStems = new Set(contentWords(segment.text).map(stem));
+
+      for (const codeName of segment.codes) {
+        const code = codebook.get(codeName);
+        if (!code) continue;
+
+        for (const criterion of code.exclusionCriteria || []) {
+          if (this.matchesCriterion(segmentStems, criterion)) {
+            issues.push({
+              severity: 'error',
+              rule: 'exclusion-violated',
+              code: codeName,
+              segmentId: segment.id,
+              source: segment.source,
+              message: `Segment matches exclusion criterion "${criterion}"`,
+            });
+          }
+        }
+
+        const inclusion = code.inclusionCriteria || [];
+        if (inclusion.length > 0 && !inclusion.some(c => this.matchesCriterion(segmentStems, c))) {
+          issues.push({
+            severity: 'warning',
+            rule: 'inclusion-unmet',
+            code: codeName,
+            segmentId: segment.id,
+            source: segment.source,
+            message: `Segment meets none of the inclusion criteria (${inclusion.map(c => `"${c}"`).join(', ')})`,
+          });
+        }
+      }
+    }
+
+    // Code-level rules
+    for (const code of codes) {
+      if (!code.definition || code.definition.trim().length === 0) {
+        issues.push({
+          severity: 'warning',
+          rule: 'missing-definition',
+          code: code.name,
+          message: 'Code has no definition',
+        });
+      }
+
+      const coded = segments.filter(s => s.codes.includes(code.name));
+      const sources = new Set(coded.map(s => s.source));
+      if (coded.length === 0) {
+        issues.push({
+          severity: 'info',
+          rule: 'unused-code',
+          code: code.name,
+          message: 'Code is not applied to any segment',
+        });
+      } else if (sources.size === 1) {
+        issues.push({
+          severity: 'info',
+          rule: 'single-source',
+          code: code.name,
+          source: [...sources][0],
+          message: `Code is applied in only one source (${coded.length} segment(s))`,
+        });
+      }
+    }
+
+    for (let i = 0; i < codes.length; i++) {
+      for (let j = i + 1; j < codes.length; j++) {
+        const similarity = this.codeSimilarity(codes[i], codes[j]);
+        if (similarity >= duplicateThreshold) {
+          issues.push({
+            severity: 'warning',
+            rule: 'near-duplicate',
+            code: codes[i].name,
+            message: `Near-duplicate of "${codes[j].name}" (similarity ${(similarity * 100).toFixed(0)}%); consider merging`,
+          });
+        }
+      }
+    }
+
+    issues.sort((a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      a.code.localeCompare(b.code) ||
+      (a.segmentId || 0) - (b.segmentId || 0)
+    );
+
+    const summary: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const issue of issues) {
+      summary[issue.severity]++;
+    }
+
+    return {
+      issues,
+      summary,
+      checkedCodes: codes.length,
+      checkedSegments: segments.length,
+    };
+  }
+
+  /**
+   * A segment meets a criterion when it contains at least half of the criterion's content words
+   */
+  private matchesCriterion(segmentStems: Set<string>, criterion: string): boolean {
+    const criterionStems = [...new Set(contentWords(criterion).map(stem))];
+    if (criterionStems.length === 0) return false;
+
+    const matched = criterionStems.filter(s => segmentStems.has(s)).length;
+    return matched / criterionStems.length >= 0.5;
+  }
+
+  /**
+   * Similarity of two codes by name; identical definitions count as duplicates
+   */
+  private codeSimilarity(a: CodebookEntry, b: CodebookEntry): number {
+    const normalize = (text: string) => text.toLowerCase().replace(/[-_\s]+/g, ' ').trim();
+
+    if (a.definition && normalize(a.definition) === normalize(b.definition)) return 1;
+
+    return stringSimilarity.compareTwoStrings(normalize(a.name), normalize(b.name));
+  }
+}
@@ -11,21 +11,247 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { SQLiteAdapter } from './knowledge/storage/sqlite-adapter.js';
+import { CodebookManager } from './knowledge/codebook-manager.js';
+import { CodingStore } from './knowledge/coding-store.js';
+import { CaseSelector, DATA_SOURCE_TYPES, formatCaseFilter } from './knowledge/case-selector.js';
+import type { CaseFilter } from './knowledge/case-selector.js';
+import type { CodeTreeNode } from './knowledge/codebook-manager.js';
+import { CODEBOOK_FORMATS, detectCodebookFormat, formatCodebook, parseCodebook } from './knowledge/exchange/codebook-formats.js';
+import type { CodebookFormat } from './knowledge/exchange/codebook-formats.js';
+import { ProjectExchange } from './knowledge/exchange/qdpx.js';
+import { TranscriptParser, formatTimestamp } from './ingestion/transcript-parser.js';
 import { MethodologyRAG } from './rag/methodology-rag.js';
 import { z } from 'zod';
 import { CodingEngine } from './analysis/coding-engine.js';
+import type { Code } from './analysis/coding-engine.js';
+import type { Entity, CodedSegment, ParticipantAttributes, SpeakerRole } from './types/entities.js';
 import { ThemeEngine } from './analysis/theme-engine.js';
+import type { ConcordanceUnit, Theme } from './analysis/theme-engine.js';
+import { LexicalEngine } from './analysis/lexical-engine.js';
+import type { FrequencyRow, KeynessRow } from './analysis/lexical-engine.js';
 import { TheoryEngine } from './analysis/theory-engine.js';
+import type { GroundedTheoryResult } from './analysis/theory-engine.js';
+import { ReportEngine, REPORT_SECTIONS } from './analysis/report-engine.js';
+import { TriangulationEngine } from './analysis/triangulation-engine.js';
+import { QualityEngine, DEFAULT_QUALITY_CRITERIA } from './analysis/quality-engine.js';
+import { NarrativeEngine } from './analysis/narrative-engine.js';
+import { ComparisonEngine } from './analysis/comparison-engine.js';
+import type { ComparableSegment } from './analysis/comparison-engine.js';
+import { ValidationEngine } from './analysis/validation-engine.js';
+import type { ValidationSeverity } from './analysis/validation-engine.js';
+import { ReliabilityEngine, RELIABILITY_MEASURES } from './analysis/reliability-engine.js';
+import type { ReliabilityUnit } from './analysis/reliability-engine.js';
+import { ConceptMapEngine } from './analysis/concept-map-engine.js';
+import type { ConceptNode, ConceptEdge } from './analysis/concept-map-engine.js';
+import type { TriangulationGroup } from './analysis/triangulation-engine.js';
+import type { ReportData, ReportSection } from './analysis/report-engine.js';
+import type { Methodology, ReliabilityMeasure } from './types/methodology.js';
+import * as fs from 'fs';
+import * as path from 'path';
 
 
 const codingEngine = new CodingEngine();
 const themeEngine = new ThemeEngine();
+const lexicalEngine = new LexicalEngine();
 const theoryEngine = new TheoryEngine();
+const reportEngine = new ReportEngine();
+const triangulationEngine = new TriangulationEngine();
+const qualityEngine = new QualityEngine();
+const narrativeEngine = new NarrativeEngine();
+const comparisonEngine = new ComparisonEngine();
+const validationEngine = new ValidationEngine();
+const reliabilityEngine = new ReliabilityEngine();
+const conceptMapEngine = new ConceptMapEngine();
+const transcriptParser = new TranscriptParser();
 // Initialize core systems
 const db = new SQLiteAdapter();
+const codebookManager = new CodebookManager(db);
+const codingStore = new CodingStore(db);
+const caseSelector = new CaseSelector(db);
+const projectExchange = new ProjectExchange(db, codebookManager);
 const rag = new MethodologyRAG();
 
+/**
+ * Knowledge graph helpers
+ */
+
+const SPEAKER_ROLES = ['interviewer', 'participant', 'observer', 'unknown'] as const;
+
+// Interviewer prompts ("how did you feel...?") are left out of coding unless asked for
+const DEFAULT_SPEAKER_ROLES: SpeakerRole[] = ['participant', 'observer', 'unknown'];
+
+// Data sources a participant took part in
+function getParticipantSources(participantName: string): Entity[] {
+  return db.getRelations(participantName, 'participated_in')
+    .filter(r => r.from === participantName)
+    .map(r => db.getEntity(r.to))
+    .filter((e): e is Entity => e !== null);
+}
+
+// Attribute and source listing of a participant for tool responses
+function formatParticipant(projectName: string, participantName: string): string {
+  const participant = db.getEntity(participantName)!;
+  const attributes = (participant.metadata?.attributes as ParticipantAttributes | undefined) || {};
+  const sources = getParticipantSources(participantName);
+
+  let text = `Attributes:\n`;
+  for (const [key, value] of Object.entries(attributes)) {
+    text += `  • ${key}: ${value}\n`;
+  }
+  if (Object.keys(attributes).length === 0) text += `  (none)\n`;
+  text += `Data sources: ${sources.map(s => s.name.replace(`${projectName}__`, '')).join(', ') || '(none)'}\n`;
+  return text;
+}
+
+// Turns of a data source as coding or narrative units; sources without turns are segmented by the engines
+function getCodingUnits(
+  source: Entity,
+  speakerRoles: SpeakerRole[]
+): { units?: Array<{ text: string; start: number; end: number; role: SpeakerRole }>; skipped: number } {
+  const turns = db.getTurns(source.name);
+  if (turns.length === 0) return { skipped: 0 };
+
+  return {
+    units: turns.map(t => ({ text: t.text, start: t.startOffset, end: t.endOffset, role: t.role })),
+    skipped: turns.filter(t => !speakerRoles.includes(t.role)).length,
+  };
+}
+
+// Entities of one type in a project (codes retired by a merge are left out)
+function getProjectEntities(projectName: string, entityType: string): Entity[] {
+  return db.getEntitiesByType(entityType, projectName).filter(e => !e.metadata?.retired);
+}
+
+function toEngineCode(projectName: string, entity: Entity): Code {
+  const parent = entity.metadata?.parent as string | undefined;
+  return {
+    name: entity.name.replace(`${projectName}__code__`, ''),
+    definition: entity.observations[0] || '',
+    examples: (entity.metadata?.examples as string[]) || [],
+    frequency: (entity.metadata?.frequency as number) || 1,
+    type: (entity.metadata?.type as Code['type']) || 'constructed',
+    parent: parent ? parent.replace(`${projectName}__code__`, '') : undefined,
+  };
+}
+
+// Codebook codes as applied in the selected cases and speaker roles: codes never applied there are left
+// out, and with a case filter frequencies count the matching segments only. Codes without coded segments
+// (e.g., imported ones) are kept.
+function getCaseCodes(projectName: string, options: { where?: CaseFilter; speakerRoles?: SpeakerRole[] } = {}): Code[] {
+  const { where, speakerRoles } = options;
+  const sourceNames = where ? new Set(caseSelector.getProjectSources(projectName, where).map(s => s.name)) : null;
+  const codes: Code[] = [];
+
+  for (const entity of getProjectEntities(projectName, 'code')) {
+    const code = toEngineCode(projectName, entity);
+    const segments = where || speakerRoles ? db.getSegmentsByCode(entity.name) : [];
+    if (segments.length === 0) {
+      codes.push(code);
+      continue;
+    }
+
+    const selected = segments.filter(segment => {
+      const role = segment.metadata?.role as SpeakerRole | undefined;
+      return (!sourceNames || sourceNames.has(segment.source)) && (!speakerRoles || !role || speakerRoles.includes(role));
+    });
+    if (selected.length > 0) codes.push(where ? { ...code, frequency: selected.length } : code);
+  }
+  return codes;
+}
+
+// Text units of the selected data sources for close reading: the turns by the given speaker roles (and
+// speaker labels), or the whole content of a source without turns
+function getConcordanceUnits(
+  projectName: string,
+  options: { where?: CaseFilter; speakerRoles: SpeakerRole[]; speakers?: string[] }
+): { sources: number; units: ConcordanceUnit[]; skipped: number } {
+  const { where, speakerRoles, speakers } = options;
+  const labels = speakers?.map(s => s.toLowerCase());
+  const units: ConcordanceUnit[] = [];
+  let sources = 0;
+  let skipped = 0;
+
+  for (const source of caseSelector.getProjectSources(projectName, where)) {
+    const content = source.metadata?.content as string | undefined;
+    if (!content) continue;
+    sources++;
+    const sourceName = source.name.replace(`${projectName}__${source.entityType}__`, '');
+
+    const turns = db.getTurns(source.name);
+    if (turns.length === 0) {
+      if (!labels) units.push({ source: sourceName, text: content, start: 0 });
+      continue;
+    }
+
+    for (const turn of turns) {
+      const selected = speakerRoles.includes(turn.role)
+        && (!labels || (!!turn.speaker && labels.includes(turn.speaker.toLowerCase())));
+      if (!selected) {
+        skipped++;
+        continue;
+      }
+      units.push({
+        source: sourceName,
+        text: content.slice(turn.startOffset, turn.endOffset),
+        start: turn.startOffset,
+        speaker: turn.speaker,
+      });
+    }
+  }
+  return { sources, units, skipped };
+}
+
+// Look up the methodology a project was created with, by id or by name
+async function loadProjectMethodology(project: Entity): Promise<Methodology | null> {
+  const reference = project.metadata?.methodology as string | undefined;
+  if (!reference) return null;
+
+  const byId = await rag.getMethodology(reference);
+  if (byId) return byId;
+
+  const needle = reference.toLowerCase();
+  return rag.getAllMethodologies().find(m =>
+    m.id.toLowerCase().includes(needle) || m.name.toLowerCase().includes(needle)
+  ) || null;
+}
+
+// The passage around a search match: the matched words, their sentence, or the speaker turn they are in
+function expandMatch(
+  source: Entity,
+  content: string,
+  match: { start: number; end: number },
+  context: 'match' | 'sentence' | 'turn'
+): { start: number; end: number } {
+  if (context === 'match') return match;
+
+  const turn = db.getTurnAt(source.name, match.start);
+  if (turn && context === 'turn') return { start: turn.startOffset, end: turn.endOffset };
+
+  // A sentence never reaches past the turn it is in (nor into its speaker label)
+  const lower = turn?.startOffset ?? 0;
+  const upper = turn?.endOffset ?? content.length;
+
+  let start = match.start;
+  while (start > lower && !/[.!?\n]/.test(content[start - 1])) start--;
+  while (start < match.start && /\s/.test(content[start])) start++;
+
+  let end = match.end;
+  while (end < upper && !/[.!?\n]/.test(content[end])) end++;
+  if (end < upper && content[end] !== '\n') end++;
+  return { start, end };
+}
+
+// Quote citation: source, speaker and timestamp of the turn the segment starts in
+function citeSegment(projectName: string, segment: CodedSegment): string {
+  const turn = db.getTurnAt(segment.source, segment.startOffset);
+  const parts = [segment.source.replace(`${projectName}__`, '')];
+  if (turn?.speaker) parts.push(turn.speaker);
+  if (turn?.startTime !== undefined) parts.push(formatTimestamp(turn.startTime));
+  return parts.join(', ');
+}
+
 // Create MCP server
 const server = new Server(
   {
@@ -43,6 +269,12 @@ const server = new Server(
  * Tool Definitions
  */
 
+// Case selection shared by the analysis tools. Tools that work on one named source (autoCoding,
+// analyzeNarrative) or document the whole project (generateReport, assessQuality) take no filter, and
+// groupBy is only for the cross-case comparisons (compareThemesAcrossCases, triangulate)
+const caseFilterSchema = z.record(z.union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))]))
+  .describe('Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }');
+
 // 1. Methodology Selection & Management
 const selectMethodologySchema = z.object({
   intent: z.string().describe('What you want to do with your data'),
@@ -61,13 +293,104 @@ const listMethodologiesSchema = z.object({
 
 // 2. Coding Tools
 const autoCodingSchema = z.object({
-  text: z.string().describe('Text to analyze and code'),
+  text: z.string().optional().describe('Text to analyze and code: the content of sourceName by default, or an excerpt of it'),
   existingCodes: z.array(z.string()).optional().describe('Existing codes to consider'),
   methodology: z.string().optional().describe('Methodology to follow'),
+  projectName: z.string().optional().describe('Project to save codes and coded segments to'),
+  sourceName: z.string().optional().describe('Data source the coded text belongs to'),
+  coder: z.string().optional().describe('Coder to attribute the coded segments to (default: auto)'),
+  pass: z.string().optional().describe('Analytic pass label for the coded segments (default: initial)'),
+  speakerRoles: z.array(z.enum(SPEAKER_ROLES)).optional().describe('Speaker roles whose transcript turns to code (default: participant, observer, unknown)'),
+}).refine(p => p.text !== undefined || (p.projectName && p.sourceName), {
+  message: 'Provide text, or projectName and sourceName to code a stored data source',
+}).refine(p => !p.sourceName || p.projectName, {
+  message: 'sourceName requires projectName',
+});
+
+const searchDataSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  query: z.string().min(1).describe('Search query: words, "phrases", prefix*, NEAR(a b, 5), AND / OR / NOT'),
+  kinds: z.array(z.enum(['source', 'segment', 'memo', 'code'])).optional().describe('What to search (default: everything)'),
+  context: z.enum(['match', 'sentence', 'turn']).optional().describe('Passage around each match to return and code (default: sentence)'),
+  codeAs: z.string().optional().describe('Code to apply to every passage found in data sources'),
+  coder: z.string().optional().describe('Coder to attribute the coded passages to (default: auto)'),
+  pass: z.string().optional().describe('Analytic pass label for the coded passages (default: initial)'),
+  limit: z.number().int().min(1).max(500).optional().describe('Most hits to return (default: 50)'),
 });
 
 const refineCodebookSchema = z.object({
   projectName: z.string().describe('Project name'),
+  dryRun: z.boolean().optional().describe('Only propose merges without changing the codebook'),
+});
+
+const undoCodebookOperationSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  operationId: z.number().int().optional().describe('Operation to undo (default: the most recent one still in effect)'),
+});
+
+const renameCodeSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  code: z.string().describe('Code to rename'),
+  newName: z.string().describe('New name for the code'),
+  definition: z.string().optional().describe('Replacement definition'),
+});
+
+const splitCodeSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  code: z.string().describe('Code to split'),
+  into: z.array(z.object({
+    name: z.string().describe('Name of the new code'),
+    definition: z.string().optional().describe('Definition of the new code'),
+    segmentIds: z.array(z.number().int()).optional().describe('Segments to assign to this code'),
+  })).optional().describe('New codes; without segmentIds the segments are assigned by clustering'),
+  clusters: z.number().int().min(2).optional().describe('Number of new codes to propose by clustering (default: 2)'),
+  dryRun: z.boolean().optional().describe('Only show the proposed split'),
+});
+
+const moveCodeSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  code: z.string().describe('Code to move'),
+  parent: z.string().nullable().optional().describe('New parent code (omit or null for the top level)'),
+  position: z.number().int().min(1).optional().describe('Position among the new siblings, starting at 1 (default: last)'),
+});
+
+const manageCodeGroupSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  group: z.string().describe('Code group name (created if it does not exist)'),
+  description: z.string().optional().describe('What the codes in the group have in common'),
+  add: z.array(z.string()).optional().describe('Codes to add to the group'),
+  remove: z.array(z.string()).optional().describe('Codes to remove from the group'),
+});
+
+const listCodeTreeSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  group: z.string().optional().describe('Only show branches containing codes of this group'),
+});
+
+const importCodebookSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  content: z.string().optional().describe('Codebook content'),
+  inputPath: z.string().optional().describe('File to read the codebook from'),
+  format: z.enum(CODEBOOK_FORMATS as [CodebookFormat, ...CodebookFormat[]]).optional().describe('Codebook format (default: from the file extension or content)'),
+  dryRun: z.boolean().optional().describe('Show what would be imported without changing the project'),
+}).refine(p => p.content !== undefined || p.inputPath, {
+  message: 'Provide content or inputPath',
+});
+
+const exportCodebookSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  format: z.enum(CODEBOOK_FORMATS as [CodebookFormat, ...CodebookFormat[]]).optional().describe('Codebook format'),
+  outputPath: z.string().optional().describe('File to write the codebook to'),
+});
+
+const exportProjectSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  outputPath: z.string().describe('.qdpx file to write'),
+});
+
+const importProjectSchema = z.object({
+  inputPath: z.string().describe('.qdpx file to read'),
+  projectName: z.string().optional().describe('Name of the new project (default: the name stored in the file)'),
 });
 
 const mergeCodesSmartSchema = z.object({
@@ -75,32 +398,125 @@ const mergeCodesSmartSchema = z.object({
 });
 
 const suggestSubcodesSchema = z.object({
+  projectName: z.string().describe('Project name'),
   code: z.string().describe('Parent code to suggest subcodes for'),
+  clusters: z.number().int().min(2).optional().describe('Number of subcodes to propose (default: chosen from the data)'),
+});
+
+const acceptSubcodesSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  code: z.string().describe('Parent code whose stored proposal to accept'),
+  subcodes: z.array(z.object({
+    number: z.number().int().min(1).describe('Number of the proposed subcode, as listed by suggestSubcodes'),
+    name: z.string().optional().describe('Name to use instead of the proposed one'),
+    definition: z.string().optional().describe('Definition of the subcode'),
+  })).optional().describe('Proposed subcodes to accept (default: all)'),
 });
 
 // 3. Thematic Analysis Tools
+const validateCodingSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  minSeverity: z.enum(['error', 'warning', 'info']).optional().describe('Lowest severity to report'),
+  where: caseFilterSchema.optional(),
+});
+
 const extractThemesSchema = z.object({
   projectName: z.string().describe('Project name'),
   mode: z.enum(['inductive', 'deductive']).describe('Analysis mode'),
   depth: z.enum(['shallow', 'medium', 'deep']).optional(),
+  where: caseFilterSchema.optional(),
+});
+
+const analyzePatternsSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  where: caseFilterSchema.optional(),
 });
 
 const detectSaturationSchema = z.object({
   projectName: z.string().describe('Project name'),
   level: z.enum(['code', 'theme', 'theoretical']).describe('Level to check saturation'),
+  speakerRoles: z.array(z.enum(SPEAKER_ROLES)).optional().describe('Speaker roles whose transcript turns to code (default: participant, observer, unknown)'),
+  where: caseFilterSchema.optional(),
+});
+
+const concordanceSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  node: z.string().min(1).describe('Node word or phrase; a trailing * matches by prefix (e.g., "shift*")'),
+  width: z.number().int().min(1).max(30).optional().describe('Words of context on each side (default: 6)'),
+  sortBy: z.enum(['position', 'left', 'right']).optional().describe('Order of the concordance lines (default: position)'),
+  speakerRoles: z.array(z.enum(SPEAKER_ROLES)).optional().describe('Speaker roles whose transcript turns to read (default: participant, observer, unknown)'),
+  speakers: z.array(z.string()).optional().describe('Only read turns by these speaker labels (e.g., "P1")'),
+  where: caseFilterSchema.optional(),
+  limit: z.number().int().min(1).max(500).optional().describe('Most concordance lines to return (default: 50)'),
+  span: z.number().int().min(1).max(10).optional().describe('Collocation window in words on each side of the node (default: 4)'),
+  minFrequency: z.number().int().min(1).optional().describe('Fewest co-occurrences for a collocate (default: 2)'),
+  collocateSort: z.enum(['logLikelihood', 'pmi', 'frequency']).optional().describe('Order of the collocates (default: logLikelihood)'),
+  collocates: z.number().int().min(0).max(100).optional().describe('Most collocates to return; 0 leaves collocations out (default: 15)'),
+  includeStopwords: z.boolean().optional().describe('Keep function words as collocates (default: false)'),
+});
+
+const wordFrequencySchema = z.object({
+  projectName: z.string().describe('Project name'),
+  unit: z.enum(['word', 'lemma']).optional().describe('Count word forms or lemmas (default: lemma)'),
+  maxN: z.number().int().min(1).max(4).optional().describe('Longest n-gram to count (default: 2)'),
+  where: caseFilterSchema.optional(),
+  reference: caseFilterSchema.optional().describe('Data sources to compare against for keyness; the target is the where selection, or else the rest of the project'),
+  speakerRoles: z.array(z.enum(SPEAKER_ROLES)).optional().describe('Speaker roles whose transcript turns to count (default: participant, observer, unknown)'),
+  speakers: z.array(z.string()).optional().describe('Only count turns by these speaker labels (e.g., "P1")'),
+  includeStopwords: z.boolean().optional().describe('Count function words too (default: false)'),
+  minFrequency: z.number().int().min(1).optional().describe('Fewest occurrences for a term to be listed (default: 2)'),
+  limit: z.number().int().min(1).max(200).optional().describe('Most rows per table (default: 20)'),
+  name: z.string().regex(/^[\w-]+$/).optional().describe('Name to save the profile under (default: derived from where)'),
 });
 
 // 4. Validation Tools
 const findNegativeCasesSchema = z.object({
   theme: z.string().describe('Theme to find negative cases for'),
   threshold: z.enum(['weak', 'moderate', 'strong']).describe('Contradiction threshold'),
+  where: caseFilterSchema.optional(),
+});
+
+const compareThemesAcrossCasesSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  groupBy: z.string().optional().describe('Group cases by "source", "sourceType", "participant", or a data source or participant attribute'),
+  themes: z.array(z.string()).optional().describe('Themes to compare (default: all)'),
+  where: caseFilterSchema.optional(),
+  format: z.enum(['markdown', 'csv']).optional().describe('Matrix format'),
+  outputPath: z.string().optional().describe('File to write the matrix to'),
+});
+
+const triangulateSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  sources: z.array(z.string()).optional().describe('Data sources to triangulate (default: all)'),
+  across: z.enum(['sources', 'coders', 'passes']).optional().describe('Compare across source types, coders or analytic passes'),
+  groupBy: z.string().optional().describe('With across "sources": group sources by this case attribute instead of their type'),
+  themes: z.array(z.string()).optional().describe('Themes to triangulate (default: all)'),
+  where: caseFilterSchema.optional(),
 });
 
 const calculateReliabilitySchema = z.object({
-  segment: z.string().describe('Text segment coded by multiple coders'),
-  coder1Codes: z.array(z.string()).describe('Codes from first coder'),
-  coder2Codes: z.array(z.string()).describe('Codes from second coder'),
-  measure: z.enum(['cohens_kappa', 'percentage_agreement']).optional(),
+  projectName: z.string().optional().describe('Project whose coded segments to compare across coders'),
+  sources: z.array(z.string()).optional().describe('Data sources to include (default: all)'),
+  where: caseFilterSchema.optional(),
+  coders: z.array(z.string()).optional().describe('Coders to compare (default: all)'),
+  codes: z.array(z.string()).optional().describe('Codes to include (default: all)'),
+  units: z.array(z.object({
+    unit: z.string(),
+    codings: z.record(z.array(z.string())),
+  })).optional().describe('Explicit segment-by-coder matrix'),
+  segment: z.string().optional().describe('Text segment coded by multiple coders'),
+  coder1Codes: z.array(z.string()).optional().describe('Codes from first coder'),
+  coder2Codes: z.array(z.string()).optional().describe('Codes from second coder'),
+  measure: z.enum(RELIABILITY_MEASURES as [ReliabilityMeasure, ...ReliabilityMeasure[]]).optional(),
+  bootstrap: z.number().int().min(0).max(10000).optional().describe('Bootstrap resamples for confidence intervals'),
+  seed: z.number().int().optional().describe('Seed for reproducible bootstrap intervals'),
+}).refine(p => p.units || (p.coder1Codes && p.coder2Codes) || p.projectName, {
+  message: 'Provide projectName, units, or coder1Codes and coder2Codes',
+});
+
+const assessQualitySchema = z.object({
+  projectName: z.string().describe('Project name'),
+  methodology: z.string().optional().describe('Methodology whose quality criteria to apply (default: the project methodology)'),
 });
 
 // 5. Theory Building Tools
@@ -108,17 +524,55 @@ const buildGroundedTheorySchema = z.object({
   projectName: z.string().describe('Project name'),
   researchQuestion: z.string().describe('Research question'),
   paradigm: z.enum(['constructivist', 'objectivist']).optional(),
+  speakerRoles: z.array(z.enum(SPEAKER_ROLES)).optional().describe('Speaker roles whose transcript turns to code (default: participant, observer, unknown)'),
+  where: caseFilterSchema.optional(),
 });
 
 const generateConceptMapSchema = z.object({
   projectName: z.string().describe('Project name'),
   focus: z.string().optional().describe('Specific focus area'),
   style: z.enum(['hierarchical', 'network', 'process']).optional(),
+  depth: z.number().int().min(1).max(5).optional().describe('Steps around the focus to include'),
+  format: z.enum(['mermaid', 'graphml', 'cytoscape', 'json']).optional().describe('Output format'),
+  outputPath: z.string().optional().describe('File to write the map to'),
+  where: caseFilterSchema.optional(),
+});
+
+const compareSegmentsSchema = z.object({
+  segments: z.array(z.string()).optional().describe('Text segments to compare'),
+  projectName: z.string().optional().describe('Project the stored segments belong to (required with segmentIds or code)'),
+  segmentIds: z.array(z.number()).optional().describe('IDs of stored coded segments to compare'),
+  code: z.string().optional().describe('Compare all segments coded with this code'),
+  saveMemo: z.boolean().optional().describe('Save the comparison as an analytical memo'),
+  where: caseFilterSchema.optional(),
+}).refine(p => (p.segments?.length || 0) + (p.segmentIds?.length || 0) >= 2 || p.code, {
+  message: 'Provide at least two segments or segmentIds, or a code',
+}).refine(p => p.projectName || (!p.segmentIds?.length && !p.code && !p.saveMemo && !p.where), {
+  message: 'projectName is required to compare stored segments or a code, filter by case or save a memo',
+});
+
+const generateReportSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  sections: z.array(z.enum(REPORT_SECTIONS as [ReportSection, ...ReportSection[]])).optional().describe('Report sections to include'),
+  format: z.enum(['markdown', 'html', 'docx-xml']).optional().describe('Output format'),
+  outputPath: z.string().optional().describe('File to write the report to'),
+});
+
+const analyzeNarrativeSchema = z.object({
+  text: z.string().optional().describe('Narrative text to analyze (defaults to the content of sourceName)'),
+  participant: z.string().optional().describe('Participant ID'),
+  projectName: z.string().optional().describe('Project to save narrative episodes to'),
+  sourceName: z.string().optional().describe('Data source (usually an interview) to analyze'),
+  speakerRoles: z.array(z.enum(SPEAKER_ROLES)).optional().describe('Speaker roles whose transcript turns to analyze (default: participant, observer, unknown)'),
+}).refine(p => p.text !== undefined || (p.projectName && p.sourceName), {
+  message: 'Provide text, or projectName and sourceName to analyze a stored data source',
 });
 
 // 6. Project Management
 const createProjectSchema = z.object({
-  projectName: z.string().describe('Name of the research project'),
+  projectName: z.string().trim().min(1).refine(name => !name.includes('__'), {
+    message: 'Project names may not contain "__", which separates the project from the entity name',
+  }).describe('Name of the research project'),
   researchQuestions: z.array(z.string()).optional(),
   methodology: z.string().optional(),
 });
@@ -128,309 +582,700 @@ const addDataSourceSchema = z.object({
   sourceType: z.enum(['interview', 'observation', 'document']).describe('Type of data source'),
   name: z.string().describe('Name/identifier for the data source'),
   content: z.string().describe('The actual data content'),
+  format: z.enum(['auto', 'plain', 'speaker', 'vtt', 'srt', 'fieldnotes']).optional().describe('Transcript format (default: detected)'),
+  interviewers: z.array(z.string()).optional().describe('Speaker labels of the interviewers (default: Interviewer, I, Q, Moderator, ...)'),
   metadata: z.record(z.any()).optional(),
 });
 
+const participantAttributesSchema = z.object({
+  ageBand: z.string().regex(/^(\d+\s*-\s*\d+|\d+\+|<\s*\d+)$/, 'Age band must look like "25-34", "65+" or "<18"').optional(),
+  role: z.string().optional(),
+  site: z.string().optional(),
+  cohort: z.string().optional(),
+  wave: z.number().int().min(1).optional(),
+}).catchall(z.union([z.string(), z.number()]));
+
+const listProjectsSchema = z.object({});
+
+const deleteProjectSchema = z.object({
+  projectName: z.string().describe('Project to delete'),
+  confirm: z.boolean().optional().describe('Delete for real; without it only the contents are listed'),
+});
+
+const addParticipantSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  participantId: z.string().describe('Participant identifier, e.g. "P07"'),
+  attributes: participantAttributesSchema.optional().describe('Case classification attributes'),
+  sources: z.array(z.string()).optional().describe('Data sources the participant took part in'),
+});
+
+const setParticipantAttributesSchema = z.object({
+  projectName: z.string().describe('Project name'),
+  participantId: z.string().describe('Participant identifier'),
+  attributes: participantAttributesSchema.optional().describe('Attributes to set'),
+  clear: z.array(z.string()).optional().describe('Attributes to remove'),
+  sources: z.array(z.string()).optional().describe('Further data sources the participant took part in'),
+});
+
 /**
- * List available tools
+ * Available tools
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      // Methodology Management (3 tools)
-      {
-        name: 'selectMethodology',
-        description: 'Find and select the best qualitative research methodology for your needs. The system will search community-contributed methodologies and recommend the most suitable options.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            intent: { type: 'string', description: 'What you want to do with your data' },
-            dataType: { type: 'string', description: 'Type of data (interview, observation, document)' },
-            researchGoal: { type: 'string', enum: ['theory_building', 'description', 'exploration', 'evaluation'] },
-            sampleSize: { type: 'number', description: 'Number of data sources' },
-          },
-          required: ['intent'],
-        },
+const tools: Tool[] = [
+  // Methodology Management (3 tools)
+  {
+    name: 'selectMethodology',
+    description: 'Find and select the best qualitative research methodology for your needs. The system will search community-contributed methodologies and recommend the most suitable options.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        intent: { type: 'string', description: 'What you want to do with your data' },
+        dataType: { type: 'string', description: 'Type of data (interview, observation, document)' },
+        researchGoal: { type: 'string', enum: ['theory_building', 'description', 'exploration', 'evaluation'] },
+        sampleSize: { type: 'number', description: 'Number of data sources' },
       },
-      {
-        name: 'loadMethodology',
-        description: 'Load a specific methodology by ID and prepare for analysis',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            methodologyId: { type: 'string', description: 'ID of the methodology to load' },
-          },
-          required: ['methodologyId'],
-        },
+      required: ['intent'],
+    },
+  },
+  {
+    name: 'loadMethodology',
+    description: 'Load a specific methodology by ID and prepare for analysis',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        methodologyId: { type: 'string', description: 'ID of the methodology to load' },
       },
-      {
-        name: 'listMethodologies',
-        description: 'List all available methodologies, optionally filtered by category',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            category: { type: 'string', description: 'Filter by category' },
-          },
-        },
+      required: ['methodologyId'],
+    },
+  },
+  {
+    name: 'listMethodologies',
+    description: 'List all available methodologies, optionally filtered by category',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', description: 'Filter by category' },
       },
+    },
+  },
 
-      // Coding Tools (5 tools)
-      {
-        name: 'autoCoding',
-        description: 'AI-powered automatic coding of qualitative data. Analyzes text and suggests appropriate codes based on content and methodology.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            text: { type: 'string', description: 'Text to analyze and code' },
-            existingCodes: { type: 'array', items: { type: 'string' }, description: 'Existing codes to consider' },
-            methodology: { type: 'string', description: 'Methodology to follow' },
-          },
-          required: ['text'],
-        },
+  // Coding Tools (17 tools)
+  {
+    name: 'autoCoding',
+    description: 'AI-powered automatic coding of qualitative data. Analyzes text and suggests appropriate codes based on content and methodology.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Text to analyze and code: the content of sourceName by default, or an excerpt of it' },
+        existingCodes: { type: 'array', items: { type: 'string' }, description: 'Existing codes to consider' },
+        methodology: { type: 'string', description: 'Methodology to follow' },
+        projectName: { type: 'string', description: 'Project to save codes and coded segments to' },
+        sourceName: { type: 'string', description: 'Data source the coded text belongs to' },
+        coder: { type: 'string', description: 'Coder to attribute the coded segments to (default: auto)' },
+        pass: { type: 'string', description: 'Analytic pass label for the coded segments (default: initial)' },
+        speakerRoles: { type: 'array', items: { type: 'string', enum: ['interviewer', 'participant', 'observer', 'unknown'] }, description: 'Speaker roles whose transcript turns to code (default: participant, observer, unknown). Pass ["interviewer"] to code interviewer turns on their own' },
       },
-      {
-        name: 'refineCodebook',
-        description: 'Analyze and refine the codebook: merge duplicates, suggest hierarchy, improve definitions',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-          },
-          required: ['projectName'],
-        },
+    },
+  },
+  {
+    name: 'searchData',
+    description: 'Full-text search over data source text, coded segments, memos and code definitions. Supports "phrases", prefix*, NEAR(a b, 5) and AND / OR / NOT; returns ranked snippets with the offsets of each passage, and can code every passage found (codeAs).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        query: { type: 'string', description: 'Search query, e.g. "night shift", exhaust*, NEAR(night tired, 5), sleep AND NOT pills' },
+        kinds: { type: 'array', items: { type: 'string', enum: ['source', 'segment', 'memo', 'code'] }, description: 'What to search (default: everything)' },
+        context: { type: 'string', enum: ['match', 'sentence', 'turn'], description: 'Passage around each match to return and code: the matched words, their sentence or their speaker turn (default: sentence)' },
+        codeAs: { type: 'string', description: 'Code to apply to every passage found in data sources' },
+        coder: { type: 'string', description: 'Coder to attribute the coded passages to (default: auto)' },
+        pass: { type: 'string', description: 'Analytic pass label for the coded passages (default: initial)' },
+        limit: { type: 'number', description: 'Most hits to return (default: 50)' },
       },
-      {
-        name: 'mergeCodesSmart',
-        description: 'Intelligently suggest which codes should be merged based on semantic similarity',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            codes: { type: 'array', items: { type: 'string' }, description: 'Codes to analyze for potential merging' },
-          },
-          required: ['codes'],
-        },
+      required: ['projectName', 'query'],
+    },
+  },
+  {
+    name: 'refineCodebook',
+    description: 'Analyze and refine the codebook: merge similar codes into one, moving their coded segments and retiring the merged codes (each merge can be undone)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        dryRun: { type: 'boolean', description: 'Only propose merges without changing the codebook' },
       },
-      {
-        name: 'suggestSubcodes',
-        description: 'Suggest subcodes for a given code based on coded segments',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            code: { type: 'string', description: 'Code to suggest subcodes for' },
-          },
-          required: ['code'],
-        },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'undoCodebookOperation',
+    description: 'Reverse a codebook merge, rename or split by restoring the codes, segments and relations it changed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        operationId: { type: 'number', description: 'Operation to undo (default: the most recent one still in effect)' },
       },
-      {
-        name: 'validateCoding',
-        description: 'Check coding consistency and identify potential issues',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-          },
-          required: ['projectName'],
-        },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'renameCode',
+    description: 'Rename a code and update its coded segments, relations, theme code lists and memo links in one step',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        code: { type: 'string', description: 'Code to rename' },
+        newName: { type: 'string', description: 'New name for the code' },
+        definition: { type: 'string', description: 'Replacement definition' },
       },
-
-      // Thematic Analysis Tools (4 tools)
-      {
-        name: 'extractThemes',
-        description: 'Extract themes from coded data using inductive or deductive approach. Identifies patterns, generates theme descriptions, and assesses saturation.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            mode: { type: 'string', enum: ['inductive', 'deductive'], description: 'Analysis mode' },
-            depth: { type: 'string', enum: ['shallow', 'medium', 'deep'] },
+      required: ['projectName', 'code', 'newName'],
+    },
+  },
+  {
+    name: 'splitCode',
+    description: 'Split a code into two or more new codes, reassigning its segments as given or as proposed by clustering',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        code: { type: 'string', description: 'Code to split' },
+        into: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Name of the new code' },
+              definition: { type: 'string', description: 'Definition of the new code' },
+              segmentIds: { type: 'array', items: { type: 'number' }, description: 'Segments to assign to this code' },
+            },
+            required: ['name'],
           },
-          required: ['projectName', 'mode'],
+          description: 'New codes; without segmentIds the segments are assigned by clustering',
         },
+        clusters: { type: 'number', description: 'Number of new codes to propose by clustering (default: 2)' },
+        dryRun: { type: 'boolean', description: 'Only show the proposed split' },
       },
-      {
-        name: 'analyzePatterns',
-        description: 'Analyze patterns and relationships in coded data',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-          },
-          required: ['projectName'],
-        },
+      required: ['projectName', 'code'],
+    },
+  },
+  {
+    name: 'moveCode',
+    description: 'Move a code under another code (or to the top level) in the codebook hierarchy, at a chosen position',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        code: { type: 'string', description: 'Code to move' },
+        parent: { type: ['string', 'null'], description: 'New parent code (omit or null for the top level)' },
+        position: { type: 'number', description: 'Position among the new siblings, starting at 1 (default: last)' },
       },
-      {
-        name: 'detectSaturation',
-        description: 'Detect theoretical saturation at code, theme, or theoretical level. Estimates additional samples needed.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            level: { type: 'string', enum: ['code', 'theme', 'theoretical'], description: 'Level to check saturation' },
-          },
-          required: ['projectName', 'level'],
-        },
+      required: ['projectName', 'code'],
+    },
+  },
+  {
+    name: 'manageCodeGroup',
+    description: 'Create a code group, a set of codes that cuts across branches of the hierarchy, or change its members',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        group: { type: 'string', description: 'Code group name (created if it does not exist)' },
+        description: { type: 'string', description: 'What the codes in the group have in common' },
+        add: { type: 'array', items: { type: 'string' }, description: 'Codes to add to the group' },
+        remove: { type: 'array', items: { type: 'string' }, description: 'Codes to remove from the group' },
       },
-      {
-        name: 'compareThemesAcrossCases',
-        description: 'Compare how themes manifest across different cases or participant groups',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            groupBy: { type: 'string', description: 'How to group cases (e.g., "participant", "timepoint")' },
-          },
-          required: ['projectName'],
-        },
+      required: ['projectName', 'group'],
+    },
+  },
+  {
+    name: 'listCodeTree',
+    description: 'Show the codebook hierarchy with segment counts rolled up to parent codes, and the code groups',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        group: { type: 'string', description: 'Only show branches containing codes of this group' },
       },
-
-      // Theory Building Tools (3 tools)
-      {
-        name: 'buildGroundedTheory',
-        description: 'Guide through grounded theory development: open coding → axial coding → selective coding → theory',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            researchQuestion: { type: 'string', description: 'Research question' },
-            paradigm: { type: 'string', enum: ['constructivist', 'objectivist'] },
-          },
-          required: ['projectName', 'researchQuestion'],
-        },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'importCodebook',
+    description: 'Import a codebook (CSV with name, parent, definition, inclusion, exclusion, example columns; JSON codes; or REFI-QDA .qdc XML) into a project, e.g. to start deductive coding from a predefined codebook. Undoable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        content: { type: 'string', description: 'Codebook content' },
+        inputPath: { type: 'string', description: 'File to read the codebook from' },
+        format: { type: 'string', enum: ['csv', 'json', 'qdc'], description: 'Codebook format (default: from the file extension or content)' },
+        dryRun: { type: 'boolean', description: 'Show what would be imported without changing the project' },
       },
-      {
-        name: 'generateConceptMap',
-        description: 'Automatically generate concept map showing relationships between codes, themes, and concepts',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            focus: { type: 'string', description: 'Specific focus area' },
-            style: { type: 'string', enum: ['hierarchical', 'network', 'process'] },
-          },
-          required: ['projectName'],
-        },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'exportCodebook',
+    description: 'Export the project codebook with hierarchy, definitions, inclusion/exclusion criteria, examples and code groups as CSV, JSON or REFI-QDA .qdc XML',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        format: { type: 'string', enum: ['csv', 'json', 'qdc'], description: 'Codebook format (default: from the file extension, or json)' },
+        outputPath: { type: 'string', description: 'File to write the codebook to' },
       },
-      {
-        name: 'analyzeNarrative',
-        description: 'Analyze narrative structure using Labov model or other narrative frameworks',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            text: { type: 'string', description: 'Narrative text to analyze' },
-            participant: { type: 'string', description: 'Participant ID' },
-          },
-          required: ['text'],
-        },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'exportProject',
+    description: 'Export a project as a REFI-QDA .qdpx file (sources, users, codes, coded selections with character offsets, memos and sets) for ATLAS.ti, NVivo or MAXQDA',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        outputPath: { type: 'string', description: '.qdpx file to write' },
       },
-
-      // Validation Tools (4 tools)
-      {
-        name: 'findNegativeCases',
-        description: 'Find cases that contradict or deviate from established themes. Essential for theoretical rigor.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            theme: { type: 'string', description: 'Theme to find negative cases for' },
-            threshold: { type: 'string', enum: ['weak', 'moderate', 'strong'], description: 'Contradiction threshold' },
-          },
-          required: ['theme'],
-        },
+      required: ['projectName', 'outputPath'],
+    },
+  },
+  {
+    name: 'importProject',
+    description: 'Create a project from a REFI-QDA .qdpx file exported by ATLAS.ti, NVivo, MAXQDA or this server',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inputPath: { type: 'string', description: '.qdpx file to read' },
+        projectName: { type: 'string', description: 'Name of the new project (default: the name stored in the file)' },
       },
-      {
-        name: 'triangulate',
-        description: 'Perform triangulation across multiple data sources or methods',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            sources: { type: 'array', items: { type: 'string' }, description: 'Data sources to triangulate' },
-          },
-          required: ['projectName', 'sources'],
-        },
+      required: ['inputPath'],
+    },
+  },
+  {
+    name: 'mergeCodesSmart',
+    description: 'Intelligently suggest which codes should be merged based on semantic similarity',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        codes: { type: 'array', items: { type: 'string' }, description: 'Codes to analyze for potential merging' },
       },
-      {
-        name: 'calculateReliability',
-        description: 'Calculate inter-coder reliability (Cohen\'s Kappa, Krippendorff\'s Alpha, etc.)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            segment: { type: 'string', description: 'Text segment coded by multiple coders' },
-            coder1Codes: { type: 'array', items: { type: 'string' }, description: 'Codes from first coder' },
-            coder2Codes: { type: 'array', items: { type: 'string' }, description: 'Codes from second coder' },
-            measure: { type: 'string', enum: ['cohens_kappa', 'percentage_agreement'] },
-          },
-          required: ['segment', 'coder1Codes', 'coder2Codes'],
-        },
+      required: ['codes'],
+    },
+  },
+  {
+    name: 'suggestSubcodes',
+    description: 'Suggest subcodes for a code by clustering the content of its coded segments (TF-IDF), with member segments and coverage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        code: { type: 'string', description: 'Parent code to suggest subcodes for' },
+        clusters: { type: 'number', description: 'Number of subcodes to propose (default: chosen from the data)' },
       },
-      {
-        name: 'assessQuality',
-        description: 'Assess overall research quality based on established criteria (credibility, transferability, etc.)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
+      required: ['projectName', 'code'],
+    },
+  },
+  {
+    name: 'acceptSubcodes',
+    description: 'Turn the subcodes proposed by suggestSubcodes into child codes, moving their segments from the parent code',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        code: { type: 'string', description: 'Parent code whose stored proposal to accept' },
+        subcodes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              number: { type: 'number', description: 'Number of the proposed subcode, as listed by suggestSubcodes' },
+              name: { type: 'string', description: 'Name to use instead of the proposed one' },
+              definition: { type: 'string', description: 'Definition of the subcode' },
+            },
+            required: ['number'],
           },
-          required: ['projectName'],
+          description: 'Proposed subcodes to accept (default: all)',
         },
       },
-
-      // Comparison & Reporting Tools (2 tools)
-      {
-        name: 'compareSegments',
-        description: 'Compare multiple text segments for similarities and differences',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            segments: { type: 'array', items: { type: 'string' }, description: 'Text segments to compare' },
-          },
-          required: ['segments'],
-        },
+      required: ['projectName', 'code'],
+    },
+  },
+  {
+    name: 'validateCoding',
+    description: 'Lint coded segments against the codebook: exclusion/inclusion criteria, missing definitions, near-duplicate codes and single-source codes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        minSeverity: { type: 'string', enum: ['error', 'warning', 'info'], description: 'Lowest severity to report (default: info)' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
       },
-      {
-        name: 'generateReport',
-        description: 'Generate comprehensive analysis report with themes, quotes, statistics, and visualizations',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            sections: { type: 'array', items: { type: 'string' }, description: 'Report sections to include' },
+      required: ['projectName'],
+    },
+  },
+
+  // Thematic Analysis Tools (6 tools)
+  {
+    name: 'extractThemes',
+    description: 'Extract themes from coded data using inductive or deductive approach. Identifies patterns, generates theme descriptions, and assesses saturation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        mode: { type: 'string', enum: ['inductive', 'deductive'], description: 'Analysis mode' },
+        depth: { type: 'string', enum: ['shallow', 'medium', 'deep'] },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+      },
+      required: ['projectName', 'mode'],
+    },
+  },
+  {
+    name: 'analyzePatterns',
+    description: 'Analyze patterns and relationships in coded data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'concordance',
+    description: 'Keyword-in-context concordance for a word or phrase across a project\'s data sources, with collocation statistics (PMI, log-likelihood) for the node word. Filter by speaker role, speaker or participant attribute.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        node: { type: 'string', description: 'Node word or phrase; a trailing * matches by prefix (e.g., "shift*")' },
+        width: { type: 'number', description: 'Words of context on each side (default: 6)' },
+        sortBy: { type: 'string', enum: ['position', 'left', 'right'], description: 'Order of the concordance lines: by position in the data, or alphabetically by the left or right context nearest the node (default: position)' },
+        speakerRoles: { type: 'array', items: { type: 'string', enum: ['interviewer', 'participant', 'observer', 'unknown'] }, description: 'Speaker roles whose transcript turns to read (default: participant, observer, unknown)' },
+        speakers: { type: 'array', items: { type: 'string' }, description: 'Only read turns by these speaker labels (e.g., "P1")' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+        limit: { type: 'number', description: 'Most concordance lines to return (default: 50)' },
+        span: { type: 'number', description: 'Collocation window in words on each side of the node (default: 4)' },
+        minFrequency: { type: 'number', description: 'Fewest co-occurrences for a collocate (default: 2)' },
+        collocateSort: { type: 'string', enum: ['logLikelihood', 'pmi', 'frequency'], description: 'Order of the collocates (default: logLikelihood)' },
+        collocates: { type: 'number', description: 'Most collocates to return; 0 leaves collocations out (default: 15)' },
+        includeStopwords: { type: 'boolean', description: 'Keep function words as collocates (default: false)' },
+      },
+      required: ['projectName', 'node'],
+    },
+  },
+  {
+    name: 'wordFrequency',
+    description: 'Word and lemma frequencies, n-grams and type/token ratios for a project or a group of data sources, with keyness (log-likelihood) against a reference group. The profile is saved with the project.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        unit: { type: 'string', enum: ['word', 'lemma'], description: 'Count word forms or lemmas (default: lemma)' },
+        maxN: { type: 'number', description: 'Longest n-gram to count, 1-4 (default: 2)' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+        reference: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Data sources to compare against for keyness, e.g. { "site": "South" }; the target is the where selection, or else the rest of the project' },
+        speakerRoles: { type: 'array', items: { type: 'string', enum: ['interviewer', 'participant', 'observer', 'unknown'] }, description: 'Speaker roles whose transcript turns to count (default: participant, observer, unknown)' },
+        speakers: { type: 'array', items: { type: 'string' }, description: 'Only count turns by these speaker labels (e.g., "P1")' },
+        includeStopwords: { type: 'boolean', description: 'Count function words too (default: false)' },
+        minFrequency: { type: 'number', description: 'Fewest occurrences for a term to be listed (default: 2)' },
+        limit: { type: 'number', description: 'Most rows per table (default: 20)' },
+        name: { type: 'string', description: 'Name to save the profile under (default: derived from where)' },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'detectSaturation',
+    description: 'Detect theoretical saturation at code, theme, or theoretical level. Estimates additional samples needed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        level: { type: 'string', enum: ['code', 'theme', 'theoretical'], description: 'Level to check saturation' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+        speakerRoles: { type: 'array', items: { type: 'string', enum: ['interviewer', 'participant', 'observer', 'unknown'] }, description: 'Speaker roles whose transcript turns to code (default: participant, observer, unknown)' },
+      },
+      required: ['projectName', 'level'],
+    },
+  },
+  {
+    name: 'compareThemesAcrossCases',
+    description: 'Build a framework matrix of cases (data sources or attribute groups) by themes, with segment counts, a representative quote and a summary per cell',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        groupBy: { type: 'string', description: 'How to group cases: "source" (default), "sourceType", "participant", or a data source or participant attribute (e.g., "site", "ageBand", "wave")' },
+        themes: { type: 'array', items: { type: 'string' }, description: 'Themes to compare (default: all)' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+        format: { type: 'string', enum: ['markdown', 'csv'], description: 'Matrix format (default: markdown)' },
+        outputPath: { type: 'string', description: 'File to write the matrix to' },
+      },
+      required: ['projectName'],
+    },
+  },
+
+  // Theory Building Tools (3 tools)
+  {
+    name: 'buildGroundedTheory',
+    description: 'Guide through grounded theory development: open coding → axial coding → selective coding → theory',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        researchQuestion: { type: 'string', description: 'Research question' },
+        paradigm: { type: 'string', enum: ['constructivist', 'objectivist'] },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+        speakerRoles: { type: 'array', items: { type: 'string', enum: ['interviewer', 'participant', 'observer', 'unknown'] }, description: 'Speaker roles whose coded transcript turns to build the theory from (default: participant, observer, unknown)' },
+      },
+      required: ['projectName', 'researchQuestion'],
+    },
+  },
+  {
+    name: 'generateConceptMap',
+    description: 'Generate a concept map of stored codes, categories, themes and their relations as Mermaid, GraphML (Gephi) or Cytoscape JSON',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        focus: { type: 'string', description: 'Code, category or theme whose neighborhood to map' },
+        style: { type: 'string', enum: ['hierarchical', 'network', 'process'], description: 'hierarchical: themes/categories over codes; network: all relations incl. code co-occurrence; process: causal and sequential relations (default: network)' },
+        depth: { type: 'number', description: 'Steps around the focus to include (default: 1)' },
+        format: { type: 'string', enum: ['mermaid', 'graphml', 'cytoscape', 'json'], description: 'Output format (default: mermaid)' },
+        outputPath: { type: 'string', description: 'File to write the map to' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only map codes applied, and co-occurring, in data sources whose source or participant attributes match' },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'analyzeNarrative',
+    description: 'Analyze narrative structure using the Labov model: splits a source into narrative episodes and labels each clause as abstract, orientation, complicating action, evaluation, resolution or coda',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Narrative text to analyze (defaults to the content of sourceName)' },
+        participant: { type: 'string', description: 'Participant ID' },
+        projectName: { type: 'string', description: 'Project to save narrative episodes to' },
+        sourceName: { type: 'string', description: 'Data source (usually an interview) to analyze' },
+        speakerRoles: { type: 'array', items: { type: 'string', enum: ['interviewer', 'participant', 'observer', 'unknown'] }, description: 'Speaker roles whose transcript turns to analyze (default: participant, observer, unknown)' },
+      },
+    },
+  },
+
+  // Validation Tools (4 tools)
+  {
+    name: 'findNegativeCases',
+    description: 'Find cases that contradict or deviate from established themes. Essential for theoretical rigor.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        theme: { type: 'string', description: 'Theme to find negative cases for' },
+        threshold: { type: 'string', enum: ['weak', 'moderate', 'strong'], description: 'Contradiction threshold' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only look for negative cases among codes applied in data sources whose source or participant attributes match' },
+      },
+      required: ['theme'],
+    },
+  },
+  {
+    name: 'triangulate',
+    description: 'Perform triangulation across data source types, coders or analytic passes. Reports convergence, complementarity and dissonance per theme.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        sources: { type: 'array', items: { type: 'string' }, description: 'Data sources to triangulate (default: all)' },
+        across: { type: 'string', enum: ['sources', 'coders', 'passes'], description: 'Compare across source types, coders or analytic passes (default: sources)' },
+        groupBy: { type: 'string', description: 'With across "sources": group sources by a case attribute (e.g., "site", "cohort") instead of their type' },
+        themes: { type: 'array', items: { type: 'string' }, description: 'Themes to triangulate (default: all)' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'calculateReliability',
+    description: 'Calculate inter-coder reliability over a segment-by-code matrix: Cohen\'s kappa (per code and pooled), Fleiss\' kappa, Krippendorff\'s alpha, Scott\'s pi and percentage agreement, with bootstrap confidence intervals',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project whose coded segments to compare across coders (autoCoding with coder set); also records the run' },
+        sources: { type: 'array', items: { type: 'string' }, description: 'Data sources to include (default: all)' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only include data sources whose source or participant attributes match, e.g. { "site": "North", "ageBand": ["25-34", "35-44"] }' },
+        coders: { type: 'array', items: { type: 'string' }, description: 'Coders to compare (default: all)' },
+        codes: { type: 'array', items: { type: 'string' }, description: 'Codes to include (default: all)' },
+        units: {
+          type: 'array',
+          description: 'Explicit matrix: one entry per segment with the codes each coder applied',
+          items: {
+            type: 'object',
+            properties: {
+              unit: { type: 'string' },
+              codings: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } },
+            },
+            required: ['unit', 'codings'],
           },
-          required: ['projectName'],
         },
+        segment: { type: 'string', description: 'Text segment coded by multiple coders' },
+        coder1Codes: { type: 'array', items: { type: 'string' }, description: 'Codes from first coder' },
+        coder2Codes: { type: 'array', items: { type: 'string' }, description: 'Codes from second coder' },
+        measure: { type: 'string', enum: RELIABILITY_MEASURES, description: 'Headline measure to record (default: cohens_kappa)' },
+        bootstrap: { type: 'number', description: 'Bootstrap resamples for 95% confidence intervals (default: 1000, 0 disables)' },
+        seed: { type: 'number', description: 'Seed for reproducible bootstrap intervals' },
+      },
+    },
+  },
+  {
+    name: 'assessQuality',
+    description: 'Assess overall research quality against the quality criteria of the project methodology (credibility, transferability, etc.), using evidence stored in the knowledge graph',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        methodology: { type: 'string', description: 'Methodology whose quality criteria to apply (default: the project methodology)' },
+      },
+      required: ['projectName'],
+    },
+  },
+
+  // Comparison & Reporting Tools (2 tools)
+  {
+    name: 'compareSegments',
+    description: 'Constant comparison of segments: shared properties, differing dimensions, lexical overlap and shared co-codes, with a same/sibling/subcode suggestion',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        segments: { type: 'array', items: { type: 'string' }, description: 'Text segments to compare' },
+        projectName: { type: 'string', description: 'Project the stored segments belong to (required with segmentIds or code)' },
+        segmentIds: { type: 'array', items: { type: 'number' }, description: 'IDs of stored coded segments to compare' },
+        code: { type: 'string', description: 'Compare all segments coded with this code' },
+        saveMemo: { type: 'boolean', description: 'Save the comparison as an analytical memo linked to the segments' },
+        where: { type: 'object', additionalProperties: { type: ['string', 'number', 'array'] }, description: 'Only compare segments of the code from data sources whose source or participant attributes match' },
+      },
+    },
+  },
+  {
+    name: 'generateReport',
+    description: 'Generate comprehensive analysis report with themes, quotes, statistics, and visualizations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        sections: { type: 'array', items: { type: 'string', enum: REPORT_SECTIONS }, description: 'Report sections to include (default: all)' },
+        format: { type: 'string', enum: ['markdown', 'html', 'docx-xml'], description: 'Output format: Markdown, standalone HTML or Word flat XML (default: markdown)' },
+        outputPath: { type: 'string', description: 'File to write the report to' },
       },
+      required: ['projectName'],
+    },
+  },
 
-      // Project Management Tools (2 tools)
-      {
-        name: 'createProject',
-        description: 'Create a new qualitative research project',
-        inputSchema: {
+  // Project Management Tools (6 tools)
+  {
+    name: 'createProject',
+    description: 'Create a new qualitative research project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Name of the research project (may not contain "__")' },
+        researchQuestions: { type: 'array', items: { type: 'string' } },
+        methodology: { type: 'string' },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'addDataSource',
+    description: 'Add a new data source (interview, observation, document) to the project. Speaker-labelled transcripts, WebVTT/SRT captions and field notes are split into turns with speaker, timestamp and offsets.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        sourceType: { type: 'string', enum: ['interview', 'observation', 'document'] },
+        name: { type: 'string', description: 'Name/identifier for the data source' },
+        content: { type: 'string', description: 'The actual data content' },
+        format: { type: 'string', enum: ['auto', 'plain', 'speaker', 'vtt', 'srt', 'fieldnotes'], description: 'Transcript format: speaker-labelled ("P1: ..."), WebVTT, SRT, field notes or plain text (default: detected)' },
+        interviewers: { type: 'array', items: { type: 'string' }, description: 'Speaker labels of the interviewers (default: Interviewer, I, Q, Moderator, ...)' },
+        metadata: { type: 'object' },
+      },
+      required: ['projectName', 'sourceType', 'name', 'content'],
+    },
+  },
+  {
+    name: 'listProjects',
+    description: 'List the projects in the knowledge store with their data sources, codes, themes and coded segments',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'deleteProject',
+    description: 'Delete a project with all its data sources, codes, themes, memos, coded segments and codebook history. Lists what would be deleted unless confirm is true.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project to delete' },
+        confirm: { type: 'boolean', description: 'Delete for real; without it only the contents are listed' },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'addParticipant',
+    description: 'Add a participant with case classification attributes (age band, role, site, cohort, wave) and link them to the data sources they took part in. Analysis tools can then filter (where) and group (groupBy) cases by these attributes.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        participantId: { type: 'string', description: 'Participant identifier, e.g. "P07"' },
+        attributes: {
           type: 'object',
+          description: 'Case classification attributes; further study-specific attributes are allowed',
           properties: {
-            projectName: { type: 'string', description: 'Name of the research project' },
-            researchQuestions: { type: 'array', items: { type: 'string' } },
-            methodology: { type: 'string' },
+            ageBand: { type: 'string', description: 'Age band, e.g. "25-34", "65+" or "<18"' },
+            role: { type: 'string', description: 'Role, e.g. "nurse", "manager"' },
+            site: { type: 'string' },
+            cohort: { type: 'string' },
+            wave: { type: 'number', description: 'Data collection wave (1, 2, ...)' },
           },
-          required: ['projectName'],
+          additionalProperties: { type: ['string', 'number'] },
         },
+        sources: { type: 'array', items: { type: 'string' }, description: 'Data sources the participant took part in' },
       },
-      {
-        name: 'addDataSource',
-        description: 'Add a new data source (interview, observation, document) to the project',
-        inputSchema: {
+      required: ['projectName', 'participantId'],
+    },
+  },
+  {
+    name: 'setParticipantAttributes',
+    description: 'Update the attributes of a participant, or link them to further data sources',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string', description: 'Project name' },
+        participantId: { type: 'string', description: 'Participant identifier' },
+        attributes: {
           type: 'object',
+          description: 'Attributes to set',
           properties: {
-            projectName: { type: 'string', description: 'Project name' },
-            sourceType: { type: 'string', enum: ['interview', 'observation', 'document'] },
-            name: { type: 'string', description: 'Name/identifier for the data source' },
-            content: { type: 'string', description: 'The actual data content' },
-            metadata: { type: 'object' },
+            ageBand: { type: 'string', description: 'Age band, e.g. "25-34", "65+" or "<18"' },
+            role: { type: 'string', description: 'Role, e.g. "nurse", "manager"' },
+            site: { type: 'string' },
+            cohort: { type: 'string' },
+            wave: { type: 'number', description: 'Data collection wave (1, 2, ...)' },
           },
-          required: ['projectName', 'sourceType', 'name', 'content'],
+          additionalProperties: { type: ['string', 'number'] },
         },
+        clear: { type: 'array', items: { type: 'string' }, description: 'Attributes to remove' },
+        sources: { type: 'array', items: { type: 'string' }, description: 'Further data sources the participant took part in' },
       },
-    ],
-  };
-});
+      required: ['projectName', 'participantId'],
+    },
+  },
+];
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
 
 /**
  * Handle tool calls
@@ -552,30 +1397,182 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const parsed = addDataSourceSchema.parse(args);
 
         const sourceName = `${parsed.projectName}__${parsed.sourceType}__${parsed.name}`;
+        const transcript = transcriptParser.parse(parsed.content, parsed.format, {
+          sourceType: parsed.sourceType,
+          interviewers: parsed.interviewers,
+        });
+
+        db.transaction(() => {
+          db.createEntity({
+            name: sourceName,
+            entityType: parsed.sourceType,
+            observations: [
+              `Content length: ${transcript.content.length} characters`,
+              `Added: ${new Date().toISOString()}`,
+            ],
+            // Caller metadata may not replace the content the turn offsets refer to
+            metadata: {
+              ...parsed.metadata,
+              content: transcript.content,
+              format: transcript.format,
+              ...(transcript.speakers.length > 0 ? { speakers: transcript.speakers } : {}),
+              // Captions are stored as their spoken text; keep the original cues
+              ...(transcript.content !== parsed.content ? { rawContent: parsed.content } : {}),
+            },
+          });
+
+          db.createRelation({
+            from: sourceName,
+            to: parsed.projectName,
+            relationType: 'part_of',
+          });
+          db.setTurns(sourceName, transcript.turns);
+        });
+
+        let response = `✅ Added ${parsed.sourceType} "${parsed.name}" to project "${parsed.projectName}"\n\n`;
+        response += `Content length: ${transcript.content.length} characters\n`;
+        response += `Format: ${transcript.format}\n`;
+        if (transcript.turns.length > 0) {
+          const timed = transcript.turns.filter(t => t.startTime !== undefined);
+          response += `Turns: ${transcript.turns.length}${timed.length > 0 ? ` (${timed.length} with timestamps, up to ${formatTimestamp(Math.max(...timed.map(t => t.endTime ?? t.startTime!)))})` : ''}\n`;
+        }
+        for (const speaker of transcript.speakers) {
+          const turns = transcript.turns.filter(t => t.speaker === speaker);
+          response += `  • ${speaker} (${turns[0].role}): ${turns.length} turn(s)\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'addParticipant': {
+        const parsed = addParticipantSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found. Create a project first using createProject.`);
+        }
+        const participantName = `${parsed.projectName}__participant__${parsed.participantId}`;
+        if (db.getEntity(participantName)) {
+          throw new Error(`Participant "${parsed.participantId}" already exists. Use setParticipantAttributes to change it.`);
+        }
+        const sources = (parsed.sources || []).map(name => caseSelector.resolveDataSource(parsed.projectName, name));
+        const attributes: ParticipantAttributes = parsed.attributes || {};
 
         db.createEntity({
-          name: sourceName,
-          entityType: parsed.sourceType,
-          observations: [
-            `Content length: ${parsed.content.length} characters`,
-            `Added: ${new Date().toISOString()}`,
-          ],
-          metadata: {
-            content: parsed.content,
-            ...parsed.metadata,
-          },
+          name: participantName,
+          entityType: 'participant',
+          observations: Object.entries(attributes).map(([key, value]) => `${key}: ${value}`),
+          metadata: { attributes },
         });
+        for (const source of sources) {
+          db.createRelation({ from: participantName, to: source.name, relationType: 'participated_in' });
+        }
 
-        db.createRelation({
-          from: sourceName,
-          to: parsed.projectName,
-          relationType: 'part_of',
+        let response = `✅ Added participant "${parsed.participantId}" to project "${parsed.projectName}"\n\n`;
+        response += formatParticipant(parsed.projectName, participantName);
+        response += `\nFilter and group analyses by these attributes with "where" and "groupBy".\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'setParticipantAttributes': {
+        const parsed = setParticipantAttributesSchema.parse(args);
+
+        const participantName = `${parsed.projectName}__participant__${parsed.participantId}`;
+        const participant = db.getEntity(participantName);
+        if (!participant) {
+          throw new Error(`Participant "${parsed.participantId}" not found in project "${parsed.projectName}". Add it using addParticipant.`);
+        }
+        const sources = (parsed.sources || []).map(name => caseSelector.resolveDataSource(parsed.projectName, name));
+
+        const attributes: ParticipantAttributes = {
+          ...(participant.metadata?.attributes as ParticipantAttributes | undefined),
+          ...parsed.attributes,
+        };
+        for (const key of parsed.clear || []) delete attributes[key];
+
+        db.updateEntity(participantName, {
+          observations: Object.entries(attributes).map(([key, value]) => `${key}: ${value}`),
+          metadata: { ...participant.metadata, attributes },
         });
+        const linked = new Set(getParticipantSources(participantName).map(s => s.name));
+        for (const source of sources.filter(s => !linked.has(s.name))) {
+          db.createRelation({ from: participantName, to: source.name, relationType: 'participated_in' });
+        }
+
+        let response = `✅ Updated participant "${parsed.participantId}"\n\n`;
+        response += formatParticipant(parsed.projectName, participantName);
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'listProjects': {
+        listProjectsSchema.parse(args ?? {});
+
+        const projects = db.listProjects();
+        if (projects.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: 'No projects yet. Create one using createProject.',
+            }],
+          };
+        }
+
+        let response = `📁 PROJECTS (${projects.length})\n\n`;
+        for (const project of projects) {
+          const sources = DATA_SOURCE_TYPES.reduce((sum, type) => sum + (project.entities[type] || 0), 0);
+          response += `• ${project.name}${project.createdAt ? ` (created ${project.createdAt})` : ''}\n`;
+          response += `  Data sources: ${sources} | Codes: ${project.entities.code || 0} | Themes: ${project.entities.theme || 0} | `;
+          response += `Memos: ${project.entities.memo || 0} | Coded segments: ${project.segments}\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'deleteProject': {
+        const parsed = deleteProjectSchema.parse(args);
+
+        const summary = db.listProjects().find(p => p.name === parsed.projectName);
+        if (!summary) {
+          throw new Error(`Project "${parsed.projectName}" not found. Use listProjects to see the available projects.`);
+        }
+
+        const contents = Object.entries(summary.entities).map(([type, count]) => `  • ${type}: ${count}`).join('\n');
+        let response: string;
+        if (!parsed.confirm) {
+          response = `⚠️ Project "${parsed.projectName}" contains:\n\n`;
+          response += `${contents || '  (no entities)'}\n  • relations: ${summary.relations}\n  • coded segments: ${summary.segments}\n\n`;
+          response += `Nothing was deleted. Call deleteProject with confirm: true to delete it permanently.\n`;
+        } else {
+          db.deleteProject(parsed.projectName);
+          response = `🗑️ Deleted project "${parsed.projectName}"\n\n`;
+          response += `${contents || '  (no entities)'}\n  • relations: ${summary.relations}\n  • coded segments: ${summary.segments}\n`;
+        }
 
         return {
           content: [{
             type: 'text',
-            text: `✅ Added ${parsed.sourceType} "${parsed.name}" to project "${parsed.projectName}"\n\nContent length: ${parsed.content.length} characters`,
+            text: response,
           }],
         };
       }
@@ -584,14 +1581,44 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'autoCoding': {
         const parsed = autoCodingSchema.parse(args);
 
+        if (parsed.projectName && !db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found. Create a project first using createProject.`);
+        }
+
+        const source = parsed.projectName && parsed.sourceName
+          ? caseSelector.resolveDataSource(parsed.projectName, parsed.sourceName)
+          : null;
+        const text = parsed.text ?? ((source?.metadata?.content as string) || '');
+
+        // Text given with a source must be (part of) its content; segment offsets are shifted to match
+        const offset = source && parsed.text !== undefined ? codingStore.locateText(source, parsed.text) : 0;
+
+        // Codes imported from a predefined codebook are applied unless other codes are given
+        const existingCodes = parsed.existingCodes ?? (parsed.projectName
+          ? getProjectEntities(parsed.projectName, 'code')
+            .filter(e => e.metadata?.imported)
+            .map(e => e.name.replace(`${parsed.projectName}__code__`, ''))
+          : undefined);
+
+        // Transcripts are coded turn by turn rather than by paragraph
+        const speakerRoles = parsed.speakerRoles ?? DEFAULT_SPEAKER_ROLES;
+        const { units, skipped } = source && parsed.text === undefined
+          ? getCodingUnits(source, speakerRoles)
+          : { units: undefined, skipped: 0 };
+
         const result = await codingEngine.autoCoding({
-          text: parsed.text,
-          existingCodes: parsed.existingCodes,
+          text,
+          existingCodes,
           methodology: parsed.methodology,
+          units,
+          speakerRoles,
         });
 
         let response = `📊 AUTO-CODING RESULTS\n\n`;
-        response += `Text analyzed: ${parsed.text.length} characters\n`;
+        response += `Text analyzed: ${text.length} characters${units ? ` (${units.length - skipped} of ${units.length} turns)` : ''}\n`;
+        if (units) {
+          response += `Speaker roles: ${speakerRoles.join(', ')}${skipped > 0 ? ` (${skipped} other turns skipped)` : ''}\n`;
+        }
         response += `Codes generated: ${result.codes.length}\n\n`;
 
         response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
@@ -620,6 +1647,123 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         response += `- Theoretical codes: ${result.summary.theoreticalCodes}\n`;
         response += `- Avg codes per segment: ${result.summary.averageCodesPerSegment.toFixed(1)}\n`;
 
+        if (parsed.projectName && source) {
+          const segments = result.segments.map(s => ({ ...s, startIndex: s.startIndex + offset, endIndex: s.endIndex + offset }));
+          const saved = codingStore.saveCodingResult(parsed.projectName, source, { ...result, segments }, {
+            coder: parsed.coder,
+            pass: parsed.pass,
+          });
+
+          response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `✅ Saved ${saved.codes} codes and ${saved.segments} coded segments to project "${parsed.projectName}"\n`;
+          response += `Source: ${source.name}\n`;
+        } else if (parsed.projectName) {
+          for (const code of result.codes) {
+            codingStore.saveCode(parsed.projectName, code);
+          }
+
+          response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `✅ Saved ${result.codes.length} codes to project "${parsed.projectName}"\n`;
+          response += `Tip: Pass sourceName to also save coded segments linked to their data source.\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'searchData': {
+        const parsed = searchDataSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+        const codeAs = parsed.codeAs?.trim();
+        if (codeAs !== undefined && (codeAs.length === 0 || codeAs.includes('__'))) {
+          throw new Error(`Invalid code name "${parsed.codeAs}": it must be non-empty and must not contain "__"`);
+        }
+
+        const hits = db.searchText(parsed.query, {
+          project: parsed.projectName,
+          kinds: parsed.kinds,
+          limit: parsed.limit,
+        });
+        const context = parsed.context || 'sentence';
+
+        // Passages in data source text, once each even when a source and its segments both match
+        const passages = new Map<string, { source: Entity; start: number; end: number; text: string }>();
+        const hitPassages = hits.map(hit => {
+          const source = hit.source ? db.getEntity(hit.source) : null;
+          const content = (source?.metadata?.content as string | undefined) ?? '';
+          if (!source || !content) return [];
+
+          return hit.matches.map(match => {
+            const range = expandMatch(source, content, match, context);
+            const key = `${source.name}:${range.start}:${range.end}`;
+            if (!passages.has(key)) {
+              passages.set(key, { source, ...range, text: content.slice(range.start, range.end) });
+            }
+            return passages.get(key)!;
+          });
+        });
+
+        let response = `🔎 SEARCH: ${parsed.query}\n\n`;
+        response += `Hits: ${hits.length} | Passages in data sources: ${passages.size}\n\n`;
+
+        if (hits.length === 0) {
+          response += `No matches. Try a prefix (exhaust*), fewer words, or OR between alternatives.\n`;
+        }
+
+        for (const [idx, hit] of hits.entries()) {
+          response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          const where = hit.kind === 'segment' && hit.source
+            ? `segment ${hit.title} in ${hit.source.replace(`${parsed.projectName}__`, '')}`
+            : `${hit.kind} ${hit.title}`;
+          response += `${idx + 1}. ${where} (score ${hit.score.toFixed(2)})\n`;
+          response += `   ${hit.snippet.replace(/\s+/g, ' ')}\n`;
+
+          const shown = [...new Set(hitPassages[idx])];
+          for (const passage of shown.slice(0, 5)) {
+            const turn = db.getTurnAt(passage.source.name, passage.start);
+            const speaker = turn?.speaker ? `${turn.speaker}${turn.startTime !== undefined ? `, ${formatTimestamp(turn.startTime)}` : ''}: ` : '';
+            response += `   • [${passage.start}–${passage.end}] ${speaker}"${passage.text.slice(0, 160)}${passage.text.length > 160 ? '…' : ''}"\n`;
+          }
+          if (shown.length > 5) {
+            response += `   … and ${shown.length - 5} more passages\n`;
+          }
+          response += `\n`;
+        }
+
+        if (codeAs && passages.size > 0) {
+          const bySource = new Map<string, Array<{ source: Entity; start: number; end: number; text: string }>>();
+          for (const passage of passages.values()) {
+            bySource.set(passage.source.name, [...(bySource.get(passage.source.name) || []), passage]);
+          }
+
+          let segments = 0;
+          for (const sourcePassages of bySource.values()) {
+            const saved = codingStore.saveCodingResult(parsed.projectName, sourcePassages[0].source, {
+              codes: [{
+                name: codeAs,
+                definition: `Passages found by searching for ${parsed.query}`,
+                examples: sourcePassages.slice(0, 3).map(p => p.text.slice(0, 100)),
+                frequency: sourcePassages.length,
+                type: 'constructed',
+              }],
+              segments: sourcePassages.map(p => ({ text: p.text, codes: [codeAs], startIndex: p.start, endIndex: p.end })),
+            }, { coder: parsed.coder, pass: parsed.pass });
+            segments += saved.segments;
+          }
+
+          response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `✅ Coded ${segments} passages in ${bySource.size} data sources as "${codeAs}"\n`;
+        } else if (passages.size > 0) {
+          response += `💡 Pass codeAs to code these passages.\n`;
+        }
+
         return {
           content: [{
             type: 'text',
@@ -637,28 +1781,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Project "${parsed.projectName}" not found. Create a project first using createProject.`);
         }
 
-        // Get all code entities
-        const allEntities = db.searchEntities(parsed.projectName);
-        const codeEntities = allEntities.filter(e => e.entityType === 'code');
+        const codeEntities = getProjectEntities(parsed.projectName, 'code');
 
         if (codeEntities.length === 0) {
           throw new Error('No codes found in project. Run autoCoding first.');
         }
 
-        const codes = codeEntities.map(e => ({
-          name: e.name.replace(`${parsed.projectName}__code__`, ''),
-          definition: e.observations[0] || '',
-          examples: (e.metadata?.examples as string[]) || [],
-          frequency: (e.metadata?.frequency as number) || 1,
-          type: (e.metadata?.type as 'in_vivo' | 'constructed' | 'theoretical') || 'constructed',
-        }));
-
+        const codes = codeEntities.map(e => toEngineCode(parsed.projectName, e));
         const result = await codingEngine.refineCodebook(codes);
 
-        let response = `🔧 CODEBOOK REFINEMENT\n\n`;
+        let response = `🔧 CODEBOOK REFINEMENT${parsed.dryRun ? ' (dry run)' : ''}\n\n`;
         response += `Original codes: ${codes.length}\n`;
         response += `Refined codes: ${result.refined.length}\n`;
-        response += `Merges performed: ${result.merges.length}\n\n`;
+        response += `Merges ${parsed.dryRun ? 'proposed' : 'performed'}: ${result.merges.length}\n\n`;
 
         if (result.merges.length > 0) {
           response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
@@ -666,12 +1801,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           for (const merge of result.merges) {
             response += `• Merged: ${merge.from.join(', ')}\n`;
             response += `  → Into: ${merge.to}\n`;
-            response += `  Reason: ${merge.reason}\n\n`;
+            response += `  Reason: ${merge.reason}\n`;
+
+            if (!parsed.dryRun) {
+              const applied = codebookManager.mergeCodes(parsed.projectName, merge);
+              response += `  Operation #${applied.operation.id}: ${applied.movedSegments} segment(s) moved, ${applied.retired.length} code(s) retired\n`;
+            }
+            response += `\n`;
           }
         }
 
         response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
-        response += `✅ Codebook has been refined and saved.\n`;
+        if (parsed.dryRun) {
+          response += `ℹ️ Nothing was changed. Run again without dryRun to apply these merges.\n`;
+        } else if (result.merges.length > 0) {
+          response += `✅ Codebook has been refined and saved.\n`;
+          response += `Tip: Use undoCodebookOperation to reverse a merge.\n`;
+        } else {
+          response += `✅ No merges needed - all codes are sufficiently distinct.\n`;
+        }
 
         return {
           content: [{
@@ -681,51 +1829,496 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'extractThemes': {
-        const parsed = extractThemesSchema.parse(args);
+      case 'undoCodebookOperation': {
+        const parsed = undoCodebookOperationSchema.parse(args);
 
-        // Get all codes from the project
-        const projectEntity = db.getEntity(parsed.projectName);
-        if (!projectEntity) {
+        if (!db.getEntity(parsed.projectName)) {
           throw new Error(`Project "${parsed.projectName}" not found.`);
         }
 
-        const allEntities = db.searchEntities(parsed.projectName);
-        const codeEntities = allEntities.filter(e => e.entityType === 'code');
+        const operation = codebookManager.undo(parsed.projectName, parsed.operationId);
+        const restored = operation.snapshot.entities.filter(e => e.entity?.entityType === 'code');
+        const references = operation.snapshot.entities.filter(e => e.entity && e.entity.entityType !== 'code');
+        const removed = operation.snapshot.entities.filter(e => e.entity === null);
 
-        if (codeEntities.length === 0) {
-          throw new Error('No codes found. Run autoCoding first.');
-        }
+        let response = `↩️ CODEBOOK OPERATION UNDONE\n\n`;
+        response += `Operation #${operation.id} (${operation.operationType}): ${operation.summary}\n`;
+        response += `Recorded: ${operation.createdAt}\n\n`;
 
-        const codes = codeEntities.map(e => ({
-          name: e.name.replace(`${parsed.projectName}__code__`, ''),
-          definition: e.observations[0] || '',
-          examples: (e.metadata?.examples as string[]) || [],
-          frequency: (e.metadata?.frequency as number) || 1,
-          type: (e.metadata?.type as 'in_vivo' | 'constructed' | 'theoretical') || 'constructed',
-        }));
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        response += `Codes restored: ${restored.map(e => e.name.replace(`${parsed.projectName}__code__`, '')).join(', ') || 'none'}\n`;
+        if (removed.length > 0) {
+          response += `Codes removed: ${removed.map(e => e.name.replace(`${parsed.projectName}__code__`, '')).join(', ')}\n`;
+        }
+        if (references.length > 0) {
+          response += `Themes, memos and theory restored: ${references.map(e => e.name).join(', ')}\n`;
+        }
+        response += `Code applications restored: ${operation.snapshot.segmentCodes.length}\n`;
+        response += `Relations restored: ${operation.snapshot.relations.length}\n`;
+
+        const remaining = db.getCodebookOperations(parsed.projectName).filter(op => !op.undoneAt);
+        if (remaining.length > 0) {
+          response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `📜 OPERATIONS STILL IN EFFECT:\n\n`;
+          for (const op of remaining.slice(0, 10)) {
+            response += `• #${op.id} ${op.operationType}: ${op.summary}\n`;
+          }
+        }
 
-        const themes = await themeEngine.extractThemes({
-          codes,
-          mode: parsed.mode,
-          depth: parsed.depth,
-        });
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
 
-        // Store themes in knowledge graph
-        for (const theme of themes) {
-          db.createEntity({
-            name: `${parsed.projectName}__theme__${theme.name}`,
-            entityType: 'theme',
-            observations: [
-              theme.description,
-              `Prevalence: ${(theme.prevalence * 100).toFixed(1)}%`,
-              `Supporting codes: ${theme.supportingCodes.length}`,
-            ],
-            metadata: { theme },
-          });
+      case 'renameCode': {
+        const parsed = renameCodeSchema.parse(args);
 
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const operation = codebookManager.renameCode(parsed.projectName, parsed);
+        const snapshot = operation.snapshot;
+        const references = snapshot.entities.filter(e => e.entity && e.entity.entityType !== 'code');
+
+        let response = `✏️ CODE RENAMED\n\n`;
+        response += `${operation.summary}\n`;
+        response += `Operation #${operation.id}\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        response += `Code applications moved: ${snapshot.segmentCodes.length}\n`;
+        response += `Relations rewritten: ${snapshot.relations.filter(r => r.from === operation.details.from || r.to === operation.details.from).length}\n`;
+        response += `Themes, memos and theory updated: ${references.length}\n`;
+        for (const reference of references) {
+          response += `  • ${reference.name}\n`;
+        }
+
+        response += `\nTip: Use undoCodebookOperation with operationId ${operation.id} to reverse this rename.\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'splitCode': {
+        const parsed = splitCodeSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const codeName = `${parsed.projectName}__code__${parsed.code}`;
+        const segments = db.getSegmentsByCode(codeName);
+        if (segments.length === 0) {
+          throw new Error(`Code "${parsed.code}" has no coded segments to split.`);
+        }
+
+        // Use the researcher's assignment when every part lists its segments, otherwise cluster
+        const manual = parsed.into !== undefined && parsed.into.every(part => part.segmentIds !== undefined);
+        const into: Array<{ name: string; definition?: string; segmentIds: number[]; terms?: string[] }> = manual
+          ? parsed.into!.map(part => ({ name: part.name, definition: part.definition, segmentIds: part.segmentIds! }))
+          : (await codingEngine.proposeSplit({
+            code: parsed.code,
+            segments: segments.map(s => ({ id: s.id, text: s.text })),
+            clusters: parsed.clusters,
+            names: parsed.into?.map(part => part.name),
+          })).clusters.map((cluster, i) => ({ ...cluster, definition: parsed.into?.[i]?.definition }));
+
+        let response = `✂️ CODE SPLIT${parsed.dryRun ? ' (proposal)' : ''}\n\n`;
+        response += `Code: ${parsed.code} (${segments.length} segments)\n`;
+        response += `Assignment: ${manual ? 'given by researcher' : 'proposed by clustering segment vocabulary'}\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        for (const part of into) {
+          response += `📁 ${part.name} (${part.segmentIds.length} segment(s))\n`;
+          if (part.terms && part.terms.length > 0) {
+            response += `  Key terms: ${part.terms.join(', ')}\n`;
+          }
+          for (const id of part.segmentIds.slice(0, 3)) {
+            const segment = segments.find(s => s.id === id)!;
+            response += `  #${id} "${segment.text.slice(0, 80)}${segment.text.length > 80 ? '...' : ''}"\n`;
+          }
+          response += `\n`;
+        }
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        if (parsed.dryRun) {
+          response += `ℹ️ Nothing was changed. Run again without dryRun to apply, or pass "into" with segmentIds to adjust the assignment.\n`;
+        } else {
+          const result = codebookManager.splitCode(parsed.projectName, { code: parsed.code, into });
+          response += `✅ Operation #${result.operation.id}: ${result.movedSegments} segment(s) reassigned to ${result.created.length} new codes; "${parsed.code}" retired.\n`;
+          response += `Tip: Use undoCodebookOperation with operationId ${result.operation.id} to reverse this split.\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'moveCode': {
+        const parsed = moveCodeSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const operation = codebookManager.moveCode(parsed.projectName, parsed);
+
+        let response = `🌳 CODE MOVED\n\n`;
+        response += `${operation.summary}\n`;
+        response += `Operation #${operation.id}\n\n`;
+        response += `Tip: Use listCodeTree to review the hierarchy, or undoCodebookOperation to reverse this move.\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'manageCodeGroup': {
+        const parsed = manageCodeGroupSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const { group, codes } = codebookManager.updateCodeGroup(parsed.projectName, parsed);
+
+        let response = `📦 CODE GROUP: ${parsed.group}\n\n`;
+        if (group.metadata?.description) {
+          response += `${group.metadata.description}\n\n`;
+        }
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        response += `Codes (${codes.length}):\n`;
+        for (const code of codes) {
+          response += `  • ${code.replace(`${parsed.projectName}__code__`, '')}\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'listCodeTree': {
+        const parsed = listCodeTreeSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const tree = codebookManager.getCodeTree(parsed.projectName);
+        if (tree.length === 0) {
+          throw new Error('No codes found in project. Run autoCoding first.');
+        }
+
+        const flatten = (nodes: CodeTreeNode[]): CodeTreeNode[] => nodes.flatMap(n => [n, ...flatten(n.children)]);
+        const all = flatten(tree);
+
+        // Keep the branches that contain a code of the requested group
+        const prune = (nodes: CodeTreeNode[]): CodeTreeNode[] => nodes
+          .map(n => ({ ...n, children: prune(n.children) }))
+          .filter(n => n.groups.includes(parsed.group!) || n.children.length > 0);
+        const shown = parsed.group ? prune(tree) : tree;
+
+        let response = `🌳 CODE TREE: ${parsed.projectName}${parsed.group ? ` (group: ${parsed.group})` : ''}\n\n`;
+        response += `Codes: ${all.length} · Top-level: ${tree.length} · Max depth: ${Math.max(...all.map(n => n.depth)) + 1}\n\n`;
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        for (const node of flatten(shown)) {
+          const counts = node.children.length > 0
+            ? `${node.segments} own / ${node.totalSegments} total segments`
+            : `${node.segments} segment(s)`;
+          response += `${'  '.repeat(node.depth)}• ${node.label} (${counts})`;
+          response += node.groups.length > 0 ? ` [${node.groups.join(', ')}]\n` : `\n`;
+        }
+
+        const groupNames = [...new Set(all.flatMap(n => n.groups))].sort();
+        if (groupNames.length > 0) {
+          response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `📦 CODE GROUPS:\n\n`;
+          for (const groupName of groupNames) {
+            const members = all.filter(n => n.groups.includes(groupName));
+            response += `• ${groupName} (${members.length} codes): ${members.map(n => n.label).join(', ')}\n`;
+          }
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'importCodebook': {
+        const parsed = importCodebookSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found. Create a project first using createProject.`);
+        }
+
+        const inputPath = parsed.inputPath ? path.resolve(parsed.inputPath) : undefined;
+        const content = parsed.content ?? fs.readFileSync(inputPath!, 'utf-8');
+        const format = parsed.format || detectCodebookFormat(content, inputPath);
+        const codebook = parseCodebook(content, format);
+
+        let response = `📥 CODEBOOK IMPORT${parsed.dryRun ? ' (dry run)' : ''}\n\n`;
+        response += `Format: ${format}${inputPath ? ` · File: ${inputPath}` : ''}\n`;
+        response += `Codes: ${codebook.codes.length} · Groups: ${codebook.groups.length}\n\n`;
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        if (parsed.dryRun) {
+          for (const code of codebook.codes.slice(0, 30)) {
+            const exists = db.getEntity(`${parsed.projectName}__code__${code.name}`);
+            response += `• ${code.name}${code.parent ? ` (under ${code.parent})` : ''}${exists ? ' — updates existing code' : ''}\n`;
+            if (code.definition) response += `  ${code.definition}\n`;
+            response += `  Criteria: ${code.inclusionCriteria.length} inclusion, ${code.exclusionCriteria.length} exclusion · Examples: ${code.examples.length}\n`;
+          }
+          if (codebook.codes.length > 30) {
+            response += `... and ${codebook.codes.length - 30} more codes\n`;
+          }
+          response += `\nℹ️ Nothing was changed. Run again without dryRun to import.\n`;
+        } else {
+          const result = codebookManager.importCodebook(parsed.projectName, codebook, {
+            source: inputPath ? path.basename(inputPath) : format,
+          });
+          const label = (name: string) => name.replace(`${parsed.projectName}__code__`, '');
+
+          response += `✅ Created ${result.created.length} code(s)${result.created.length > 0 ? `: ${result.created.map(label).join(', ')}` : ''}\n`;
+          if (result.updated.length > 0) {
+            response += `🔄 Updated ${result.updated.length} existing code(s): ${result.updated.map(label).join(', ')}\n`;
+          }
+          if (result.groups.length > 0) {
+            response += `📦 Code groups: ${result.groups.map(g => g.replace(`${parsed.projectName}__codeGroup__`, '')).join(', ')}\n`;
+          }
+          response += `\nOperation #${result.operation.id} — use undoCodebookOperation to reverse it.\n`;
+          response += `Tip: autoCoding on this project now applies the imported codes; use listCodeTree to review the hierarchy.\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'exportCodebook': {
+        const parsed = exportCodebookSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const outputPath = parsed.outputPath ? path.resolve(parsed.outputPath) : undefined;
+        const format = parsed.format || (outputPath ? detectCodebookFormat('', outputPath) : 'json');
+        const codebook = codebookManager.exportCodebook(parsed.projectName);
+        if (codebook.codes.length === 0) {
+          throw new Error('No codes found in project. Run autoCoding or importCodebook first.');
+        }
+
+        const content = formatCodebook(codebook, format, { projectName: parsed.projectName });
+
+        if (outputPath) {
+          fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+          fs.writeFileSync(outputPath, content, 'utf-8');
+
+          return {
+            content: [{
+              type: 'text',
+              text: `📤 CODEBOOK EXPORTED\n\nFormat: ${format}\nCodes: ${codebook.codes.length} · Groups: ${codebook.groups.length}\n\n✅ Written to ${outputPath}`,
+            }],
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: content,
+          }],
+        };
+      }
+
+      case 'exportProject': {
+        const parsed = exportProjectSchema.parse(args);
+
+        const result = projectExchange.exportProject(parsed.projectName);
+        const outputPath = path.resolve(parsed.outputPath);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, result.archive);
+
+        let response = `📦 PROJECT EXPORTED (REFI-QDA .qdpx)\n\n`;
+        response += `Sources: ${result.sources} · Codes: ${result.codes} · Coded selections: ${result.segments} (${result.codings} codings)\n`;
+        response += `Users: ${result.users} · Memos: ${result.memos} · Sets: ${result.sets}\n\n`;
+        if (result.skipped.length > 0) {
+          response += `⚠️ Left out ${result.skipped.length} segment(s) whose text no longer matches their source: ${result.skipped.slice(0, 5).join(', ')}\n\n`;
+        }
+        response += `✅ Written to ${outputPath}\n`;
+        response += `Open it in ATLAS.ti, NVivo or MAXQDA through their REFI-QDA project import.\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'importProject': {
+        const parsed = importProjectSchema.parse(args);
+
+        const inputPath = path.resolve(parsed.inputPath);
+        const result = projectExchange.importProject(fs.readFileSync(inputPath), {
+          projectName: parsed.projectName,
+          fileName: path.basename(inputPath),
+        });
+
+        let response = `📦 PROJECT IMPORTED (REFI-QDA .qdpx)\n\n`;
+        response += `Project: ${result.project}\n`;
+        response += `Sources: ${result.sources} · Codes: ${result.codes} · Coded selections: ${result.segments} (${result.codings} codings)\n`;
+        response += `Users: ${result.users} · Memos: ${result.memos} · Sets: ${result.sets}\n\n`;
+        if (result.skipped.length > 0) {
+          response += `⚠️ Skipped ${result.skipped.length} source(s) without plain text: ${result.skipped.join(', ')}\n\n`;
+        }
+        response += `✅ Import complete. Use listCodeTree to review the codebook`;
+        response += result.operation ? ` (codebook import is operation #${result.operation.id}).\n` : `.\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'validateCoding': {
+        const parsed = validateCodingSchema.parse(args);
+
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const codeEntities = getProjectEntities(parsed.projectName, 'code');
+        if (codeEntities.length === 0) {
+          throw new Error('No codes found in project. Run autoCoding first.');
+        }
+
+        const codePrefix = `${parsed.projectName}__code__`;
+        const codes = codeEntities.map(e => ({
+          name: e.name.replace(codePrefix, ''),
+          definition: (e.metadata?.definition as string | undefined) ?? e.observations[0] ?? '',
+          inclusionCriteria: (e.metadata?.inclusionCriteria as string[]) || [],
+          exclusionCriteria: (e.metadata?.exclusionCriteria as string[]) || [],
+        }));
+
+        const segments = caseSelector.getProjectSources(parsed.projectName, parsed.where).flatMap(source =>
+          db.getSegmentsBySource(source.name).map(segment => ({
+            id: segment.id,
+            source: source.name.split('__').pop() || source.name,
+            text: segment.text,
+            codes: segment.codes.map(c => c.replace(codePrefix, '')),
+          }))
+        );
+
+        const result = await validationEngine.validateCoding({ codes, segments });
+
+        const severityOrder: ValidationSeverity[] = ['error', 'warning', 'info'];
+        const cutoff = severityOrder.indexOf(parsed.minSeverity || 'info');
+        const reported = result.issues.filter(i => severityOrder.indexOf(i.severity) <= cutoff);
+
+        const icons: Record<ValidationSeverity, string> = {
+          error: '✖',
+          warning: '⚠',
+          info: 'ℹ',
+        };
+
+        let response = `🧪 CODING VALIDATION\n\n`;
+        response += `Codes checked: ${result.checkedCodes}\n`;
+        response += `Segments checked: ${result.checkedSegments}\n`;
+        response += `Criteria defined: ${codes.filter(c => c.inclusionCriteria.length + c.exclusionCriteria.length > 0).length} code(s)\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        if (reported.length === 0) {
+          response += `✅ No issues found.\n\n`;
+        }
+        for (const issue of reported) {
+          const location = issue.segmentId !== undefined ? ` #${issue.segmentId} (${issue.source})` : '';
+          response += `${icons[issue.severity]} ${issue.severity.padEnd(7)} ${issue.rule.padEnd(18)} ${issue.code}${location}: ${issue.message}\n`;
+        }
+
+        response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        response += `${result.summary.error} error(s), ${result.summary.warning} warning(s), ${result.summary.info} info\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'extractThemes': {
+        const parsed = extractThemesSchema.parse(args);
+
+        // Get all codes from the project
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const codes = getCaseCodes(parsed.projectName, { where: parsed.where });
+
+        if (codes.length === 0) {
+          throw new Error(parsed.where
+            ? `No codes applied in data sources matching ${JSON.stringify(parsed.where)}.`
+            : 'No codes found. Run autoCoding first.');
+        }
+
+        // Themes from a case filter are named after it, so that they sit next to the project-wide ones
+        // instead of replacing them
+        const filterLabel = parsed.where ? formatCaseFilter(parsed.where) : null;
+        const themes = (await themeEngine.extractThemes({
+          codes,
+          mode: parsed.mode,
+          depth: parsed.depth,
+        })).map(theme => filterLabel ? { ...theme, name: `${theme.name} (${filterLabel})` } : theme);
+
+        // Store themes in knowledge graph, replacing those of an earlier run
+        let updatedThemes = 0;
+        for (const theme of themes) {
+          const themeName = `${parsed.projectName}__theme__${theme.name}`;
+          const observations = [
+            theme.description,
+            `Prevalence: ${(theme.prevalence * 100).toFixed(1)}%`,
+            `Supporting codes: ${theme.supportingCodes.length}`,
+          ];
+          const metadata = { theme, ...(parsed.where ? { where: parsed.where } : {}) };
+
+          if (db.getEntity(themeName)) {
+            db.updateEntity(themeName, { observations, metadata });
+            updatedThemes++;
+            continue;
+          }
+
+          db.createEntity({ name: themeName, entityType: 'theme', observations, metadata });
           db.createRelation({
-            from: `${parsed.projectName}__theme__${theme.name}`,
+            from: themeName,
             to: parsed.projectName,
             relationType: 'theme_of',
           });
@@ -734,6 +2327,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         let response = `🎨 THEME EXTRACTION (${parsed.mode})\n\n`;
         response += `Codes analyzed: ${codes.length}\n`;
         response += `Themes extracted: ${themes.length}\n`;
+        if (filterLabel) response += `Cases: ${filterLabel}\n`;
         response += `Depth: ${parsed.depth || 'medium'}\n\n`;
 
         response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
@@ -763,7 +2357,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
         }
 
-        response += `✅ Themes have been saved to the knowledge graph.\n`;
+        response += `✅ Themes have been saved to the knowledge graph`;
+        response += updatedThemes > 0 ? ` (${updatedThemes} from an earlier run updated).\n` : `.\n`;
 
         return {
           content: [{
@@ -782,24 +2377,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Project "${parsed.projectName}" not found.`);
         }
 
-        const relations = db.getRelations(parsed.projectName);
-        const sourceRelations = relations.filter(r => r.relationType === 'part_of');
+        const sources = caseSelector.getProjectSources(parsed.projectName, parsed.where);
 
-        if (sourceRelations.length < 2) {
-          throw new Error('Need at least 2 data sources to detect saturation.');
+        if (sources.length < 2) {
+          throw new Error(parsed.where
+            ? `Need at least 2 data sources matching ${JSON.stringify(parsed.where)} to detect saturation.`
+            : 'Need at least 2 data sources to detect saturation.');
         }
 
-        // Get codes for each source
+        // Get codes for each source, leaving out turns by other speaker roles
         const codesBySource = new Map();
+        const speakerRoles = parsed.speakerRoles ?? DEFAULT_SPEAKER_ROLES;
+        let skippedTurns = 0;
 
-        for (const rel of sourceRelations) {
-          const source = db.getEntity(rel.from);
-          if (source && source.metadata && source.metadata.content) {
+        for (const source of sources) {
+          if (source.metadata && source.metadata.content) {
+            const { units, skipped } = getCodingUnits(source, speakerRoles);
             const codingResult = await codingEngine.autoCoding({
               text: source.metadata.content as string,
               methodology: 'grounded',
+              units,
+              speakerRoles,
             });
-            codesBySource.set(rel.from, codingResult.codes);
+            codesBySource.set(source.name, codingResult.codes);
+            skippedTurns += skipped;
           }
         }
 
@@ -810,6 +2411,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         let response = `📊 SATURATION ANALYSIS (${parsed.level} level)\n\n`;
         response += `Data sources analyzed: ${codesBySource.size}\n`;
+        if (skippedTurns > 0) {
+          response += `Speaker roles: ${speakerRoles.join(', ')} (${skippedTurns} other turns skipped)\n`;
+        }
         response += `Saturation rate: ${(saturation.saturationRate * 100).toFixed(1)}%\n`;
         response += `Saturated: ${saturation.saturated ? '✅ YES' : '❌ NO'}\n\n`;
 
@@ -824,6 +2428,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         response += `💡 RECOMMENDATION:\n\n${saturation.recommendation}\n`;
 
+        // Keep a saturation history on the project for reporting
+        const saturationHistory = (projectEntity.metadata?.saturationHistory as any[]) || [];
+        db.updateEntity(parsed.projectName, {
+          metadata: {
+            ...projectEntity.metadata,
+            saturationHistory: [...saturationHistory, {
+              level: parsed.level,
+              saturationRate: saturation.saturationRate,
+              saturated: saturation.saturated,
+              sources: codesBySource.size,
+              recordedAt: new Date().toISOString(),
+            }],
+          },
+        });
+
         return {
           content: [{
             type: 'text',
@@ -833,29 +2452,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'analyzePatterns': {
-        const parsed = { projectName: (args as any).projectName };
+        const parsed = analyzePatternsSchema.parse(args);
 
-        // Get all codes
+        // Get the codes applied in the selected cases
         const projectEntity = db.getEntity(parsed.projectName);
         if (!projectEntity) {
           throw new Error(`Project "${parsed.projectName}" not found.`);
         }
 
-        const allEntities = db.searchEntities(parsed.projectName);
-        const codeEntities = allEntities.filter(e => e.entityType === 'code');
+        const codes = getCaseCodes(parsed.projectName, { where: parsed.where });
 
-        if (codeEntities.length === 0) {
-          throw new Error('No codes found. Run autoCoding first.');
+        if (codes.length === 0) {
+          throw new Error(parsed.where
+            ? `No codes applied in data sources matching ${JSON.stringify(parsed.where)}.`
+            : 'No codes found. Run autoCoding first.');
         }
 
-        const codes = codeEntities.map(e => ({
-          name: e.name.replace(`${parsed.projectName}__code__`, ''),
-          definition: e.observations[0] || '',
-          examples: (e.metadata?.examples as string[]) || [],
-          frequency: (e.metadata?.frequency as number) || 1,
-          type: (e.metadata?.type as 'in_vivo' | 'constructed' | 'theoretical') || 'constructed',
-        }));
-
         const patterns = await themeEngine.analyzePatterns(codes);
 
         let response = `🔍 PATTERN ANALYSIS\n\n`;
@@ -903,46 +2515,282 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'findNegativeCases': {
-        const parsed = findNegativeCasesSchema.parse(args);
+      case 'concordance': {
+        const parsed = concordanceSchema.parse(args);
 
-        // Get theme entity
-        const themeEntity = db.getEntity(parsed.theme);
-        if (!themeEntity || !themeEntity.metadata || !themeEntity.metadata.theme) {
-          throw new Error(`Theme "${parsed.theme}" not found. Run extractThemes first.`);
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
         }
 
-        const theme = themeEntity.metadata.theme as any;
+        const speakerRoles = parsed.speakerRoles ?? DEFAULT_SPEAKER_ROLES;
+        const { sources, units, skipped } = getConcordanceUnits(parsed.projectName, {
+          where: parsed.where,
+          speakerRoles,
+          speakers: parsed.speakers,
+        });
+        if (sources === 0) {
+          throw new Error(parsed.where
+            ? `No data sources with content match ${JSON.stringify(parsed.where)}.`
+            : 'No data sources with content found. Add data sources first.');
+        }
 
-        // Get all codes from the same project
-        const projectName = parsed.theme.split('__theme__')[0];
-        const allEntities = db.searchEntities(projectName);
-        const codeEntities = allEntities.filter(e => e.entityType === 'code');
-
-        const allCodes = codeEntities.map(e => ({
-          name: e.name.replace(`${projectName}__code__`, ''),
-          definition: e.observations[0] || '',
-          examples: (e.metadata?.examples as string[]) || [],
-          frequency: (e.metadata?.frequency as number) || 1,
-          type: (e.metadata?.type as 'in_vivo' | 'constructed' | 'theoretical') || 'constructed',
-        }));
+        const lines = await themeEngine.concordance({
+          units,
+          node: parsed.node,
+          width: parsed.width,
+          sortBy: parsed.sortBy,
+        });
+        const limit = parsed.limit ?? 50;
+        const shown = lines.slice(0, limit);
+
+        let response = `🔤 CONCORDANCE: "${parsed.node}"\n\n`;
+        response += `Data sources: ${sources} | Occurrences: ${lines.length}`;
+        response += parsed.sortBy && parsed.sortBy !== 'position' ? ` | Sorted by ${parsed.sortBy} context\n` : '\n';
+        if (skipped > 0) {
+          response += `Speaker roles: ${speakerRoles.join(', ')}${parsed.speakers ? ` | Speakers: ${parsed.speakers.join(', ')}` : ''} (${skipped} other turns skipped)\n`;
+        }
+        if (parsed.where) response += `Cases: ${JSON.stringify(parsed.where)}\n`;
+        response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-        const result = await themeEngine.findNegativeCases({
-          theme,
-          allCodes,
-          threshold: parsed.threshold || 'moderate',
+        if (lines.length === 0) {
+          response += `No occurrences of "${parsed.node}" in the selected data.\n`;
+          return {
+            content: [{
+              type: 'text',
+              text: response,
+            }],
+          };
+        }
+
+        // Left contexts are right-aligned so that the node words line up
+        const clip = 60;
+        const lefts = shown.map(line => line.left.length > clip ? '…' + line.left.slice(-(clip - 1)) : line.left);
+        const leftWidth = Math.max(...lefts.map(left => left.length));
+
+        response += `📜 KEYWORD IN CONTEXT:\n\n`;
+        shown.forEach((line, i) => {
+          const right = line.right.length > clip ? line.right.slice(0, clip - 1) + '…' : line.right;
+          const where = `${line.source}${line.speaker ? ` (${line.speaker})` : ''} @${line.start}`;
+          response += `${lefts[i].padStart(leftWidth)}  [${line.node}]  ${right}   — ${where}\n`;
         });
+        if (lines.length > shown.length) {
+          response += `\n... and ${lines.length - shown.length} more lines (raise limit to see them)\n`;
+        }
 
-        let response = `🔍 NEGATIVE CASE ANALYSIS\n\n`;
-        response += `Theme: ${theme.name}\n`;
-        response += `Threshold: ${parsed.threshold || 'moderate'}\n`;
-        response += `Negative cases found: ${result.negativeCases.length}\n\n`;
+        const collocateLimit = parsed.collocates ?? 15;
+        if (collocateLimit > 0) {
+          const collocation = await themeEngine.findCollocations({
+            units,
+            node: parsed.node,
+            span: parsed.span,
+            minFrequency: parsed.minFrequency,
+            excludeStopwords: !parsed.includeStopwords,
+            sortBy: parsed.collocateSort,
+            limit: collocateLimit,
+          });
 
-        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `🔗 COLLOCATES (±${collocation.span} words, ${collocation.tokens} tokens, node ×${collocation.nodeFrequency}):\n\n`;
 
-        if (result.negativeCases.length > 0) {
-          response += `⚠️ CONTRADICTING CODES:\n\n`;
-          for (const nc of result.negativeCases) {
+          if (collocation.collocates.length === 0) {
+            response += `No word co-occurs with "${parsed.node}" often enough (minimum ${parsed.minFrequency ?? 2}).\n`;
+          }
+          for (const collocate of collocation.collocates) {
+            response += `• ${collocate.word}${collocate.significant ? ' *' : ''} — ${collocate.frequency} near the node (${collocate.left} left, ${collocate.right} right), ${collocate.wordFrequency} overall\n`;
+            response += `  PMI: ${collocate.pmi.toFixed(2)} | Log-likelihood: ${collocate.logLikelihood.toFixed(2)} | Expected: ${collocate.expected.toFixed(2)}\n`;
+          }
+          if (collocation.collocates.some(c => c.significant)) {
+            response += `\n* log-likelihood ≥ 3.84 (p < 0.05)\n`;
+          }
+        }
+
+        response += `\n💡 Use searchData with codeAs to code passages containing "${parsed.node}".\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'wordFrequency': {
+        const parsed = wordFrequencySchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const speakerRoles = parsed.speakerRoles ?? DEFAULT_SPEAKER_ROLES;
+        const unitOptions = { speakerRoles, speakers: parsed.speakers };
+        // One text per data source, so that the range of a term counts sources
+        const textsBySource = (units: ConcordanceUnit[]) => {
+          const texts = new Map<string, string[]>();
+          units.forEach(unit => texts.set(unit.source, [...(texts.get(unit.source) || []), unit.text]));
+          return texts;
+        };
+
+        const reference = parsed.reference
+          ? textsBySource(getConcordanceUnits(parsed.projectName, { ...unitOptions, where: parsed.reference }).units)
+          : null;
+        const target = textsBySource(getConcordanceUnits(parsed.projectName, { ...unitOptions, where: parsed.where }).units);
+        if (reference && !parsed.where) {
+          reference.forEach((_, source) => target.delete(source));
+        }
+
+        if (target.size === 0) {
+          throw new Error(parsed.where
+            ? `No data sources with content match ${JSON.stringify(parsed.where)}.`
+            : 'No data sources with content found. Add data sources first.');
+        }
+        if (reference && reference.size === 0) {
+          throw new Error(`No data sources with content match the reference ${JSON.stringify(parsed.reference)}.`);
+        }
+
+        const texts = [...target.values()].map(parts => parts.join('\n\n'));
+        const unit = parsed.unit ?? 'lemma';
+        const options = {
+          unit,
+          excludeStopwords: !parsed.includeStopwords,
+          minFrequency: parsed.minFrequency ?? 2,
+          limit: parsed.limit ?? 20,
+        };
+
+        const profile = await lexicalEngine.profile({ texts, maxN: parsed.maxN, ...options });
+        const keyness = reference
+          ? await lexicalEngine.keyness({
+            texts,
+            referenceTexts: [...reference.values()].map(parts => parts.join('\n\n')),
+            ...options,
+          })
+          : null;
+
+        const escape = (value: string) => value.replace(/\|/g, '\\|');
+        const table = (header: string[], rows: string[][]) =>
+          `| ${header.join(' | ')} |\n|${header.map(() => '---').join('|')}|\n`
+          + rows.map(row => `| ${row.map(escape).join(' | ')} |\n`).join('');
+        const frequencyTable = (label: string, rows: FrequencyRow[], withForms: boolean) => table(
+          ['#', label, 'Frequency', 'Per 1,000', 'Sources', ...(withForms ? ['Forms'] : [])],
+          rows.map((row, i) => [
+            String(i + 1), row.term, String(row.frequency), row.perThousand.toFixed(1), String(row.range),
+            ...(withForms ? [(row.forms || []).join(', ')] : []),
+          ])
+        );
+        const keynessTable = (rows: KeynessRow[]) => table(
+          ['Term', 'Target', 'Reference', 'Log-likelihood', 'Log ratio'],
+          rows.map(row => [
+            row.term, String(row.frequency), String(row.referenceFrequency),
+            `${row.logLikelihood.toFixed(2)}${row.significant ? ' *' : ''}`, row.logRatio.toFixed(2),
+          ])
+        );
+
+        const unitLabel = unit === 'lemma' ? 'Lemma' : 'Word';
+        const ngramLabels: Record<number, string> = { 2: 'BIGRAMS', 3: 'TRIGRAMS', 4: '4-GRAMS' };
+
+        let response = `📚 WORD FREQUENCY: ${parsed.projectName}\n\n`;
+        response += `Data sources: ${profile.texts}`;
+        if (parsed.where) response += ` | Cases: ${JSON.stringify(parsed.where)}`;
+        response += `\nTokens: ${profile.tokens} | Word types: ${profile.types} | Lemmas: ${profile.lemmas}\n`;
+        response += `Type/token ratio: ${profile.typeTokenRatio.toFixed(3)}`;
+        response += profile.standardisedTypeTokenRatio !== undefined
+          ? ` | Standardised TTR (1,000-token chunks): ${profile.standardisedTypeTokenRatio.toFixed(3)}\n`
+          : ` | Standardised TTR: n/a (fewer than 1,000 tokens)\n`;
+        if (parsed.speakers || speakerRoles !== DEFAULT_SPEAKER_ROLES) {
+          response += `Speaker roles: ${speakerRoles.join(', ')}${parsed.speakers ? ` | Speakers: ${parsed.speakers.join(', ')}` : ''}\n`;
+        }
+        response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        response += `📊 TOP ${unit === 'lemma' ? 'LEMMAS' : 'WORDS'}:\n\n`;
+        response += profile.terms.length > 0
+          ? frequencyTable(unitLabel, profile.terms, unit === 'lemma')
+          : `No ${unit}s occur ${options.minFrequency} or more times.\n`;
+
+        for (const { n, rows } of profile.ngrams) {
+          if (rows.length === 0) continue;
+          response += `\n📊 TOP ${ngramLabels[n] || `${n}-GRAMS`}:\n\n`;
+          response += frequencyTable('N-gram', rows, false);
+        }
+
+        if (keyness) {
+          response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+          response += `⚖️ KEYNESS against ${JSON.stringify(parsed.reference)} (${reference!.size} sources, ${keyness.referenceTokens} tokens):\n\n`;
+          response += `Overused in the target:\n\n`;
+          response += keyness.positive.length > 0 ? keynessTable(keyness.positive) : 'None.\n';
+          response += `\nUnderused in the target:\n\n`;
+          response += keyness.negative.length > 0 ? keynessTable(keyness.negative) : 'None.\n';
+          response += `\n* log-likelihood ≥ 3.84 (p < 0.05)\n`;
+        }
+
+        // Save the profile with the project, replacing an earlier one of the same name
+        const filterLabel = (filter?: CaseFilter) => filter
+          ? Object.entries(filter).map(([key, value]) => [key, ...[value].flat()].join('-')).join('_').replace(/[^\w-]+/g, '-')
+          : 'all';
+        const label = parsed.name
+          ?? (parsed.reference ? `${filterLabel(parsed.where)}_vs_${filterLabel(parsed.reference)}` : filterLabel(parsed.where));
+        const profileName = `${parsed.projectName}__lexical_profile__${label}`;
+        const observations = [
+          `Tokens: ${profile.tokens}`,
+          `Type/token ratio: ${profile.typeTokenRatio.toFixed(3)}`,
+          `Top ${unit}s: ${profile.terms.slice(0, 5).map(row => row.term).join(', ') || 'none'}`,
+        ];
+        const metadata = {
+          profile,
+          keyness,
+          where: parsed.where,
+          reference: parsed.reference,
+          speakerRoles,
+          speakers: parsed.speakers,
+          createdAt: new Date().toISOString(),
+        };
+
+        if (db.getEntity(profileName)) {
+          db.updateEntity(profileName, { observations, metadata });
+        } else {
+          db.createEntity({ name: profileName, entityType: 'lexical_profile', observations, metadata });
+          db.createRelation({ from: profileName, to: parsed.projectName, relationType: 'profile_of' });
+        }
+
+        response += `\n✅ Saved as ${profileName}\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'findNegativeCases': {
+        const parsed = findNegativeCasesSchema.parse(args);
+
+        // Get theme entity
+        const themeEntity = db.getEntity(parsed.theme);
+        if (!themeEntity || !themeEntity.metadata || !themeEntity.metadata.theme) {
+          throw new Error(`Theme "${parsed.theme}" not found. Run extractThemes first.`);
+        }
+
+        const theme = themeEntity.metadata.theme as any;
+
+        // Get the codes of the same project, as applied in the selected cases
+        const projectName = parsed.theme.split('__theme__')[0];
+        const allCodes = getCaseCodes(projectName, { where: parsed.where });
+
+        const result = await themeEngine.findNegativeCases({
+          theme,
+          allCodes,
+          threshold: parsed.threshold || 'moderate',
+        });
+
+        let response = `🔍 NEGATIVE CASE ANALYSIS\n\n`;
+        response += `Theme: ${theme.name}\n`;
+        response += `Threshold: ${parsed.threshold || 'moderate'}\n`;
+        response += `Negative cases found: ${result.negativeCases.length}\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        if (result.negativeCases.length > 0) {
+          response += `⚠️ CONTRADICTING CODES:\n\n`;
+          for (const nc of result.negativeCases) {
             response += `• ${nc.code} (${nc.strength})\n`;
             response += `  Contradiction: ${nc.contradiction}\n\n`;
           }
@@ -952,6 +2800,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         response += `💡 RECOMMENDATION:\n\n${result.recommendation}\n`;
 
+        // Record the check on the theme so quality assessment can see it
+        db.updateEntity(parsed.theme, {
+          metadata: {
+            ...themeEntity.metadata,
+            negativeCaseCheck: {
+              threshold: parsed.threshold || 'moderate',
+              negativeCases: result.negativeCases,
+              checkedAt: new Date().toISOString(),
+            },
+          },
+        });
+
         return {
           content: [{
             type: 'text',
@@ -962,58 +2822,161 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'calculateReliability': {
         const parsed = calculateReliabilitySchema.parse(args);
+        const measure = parsed.measure || 'cohens_kappa';
 
-        // Calculate Cohen's Kappa
-        const coder1Set = new Set(parsed.coder1Codes);
-        const coder2Set = new Set(parsed.coder2Codes);
+        const projectEntity = parsed.projectName ? db.getEntity(parsed.projectName) : null;
+        if (parsed.projectName && !projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
 
-        const agreements = parsed.coder1Codes.filter(c => coder2Set.has(c)).length;
-        const disagreements1 = parsed.coder1Codes.filter(c => !coder2Set.has(c)).length;
-        const disagreements2 = parsed.coder2Codes.filter(c => !coder1Set.has(c)).length;
+        let units: ReliabilityUnit[];
+        let mode: string;
 
-        const total = agreements + disagreements1 + disagreements2;
+        if (parsed.units) {
+          mode = 'explicit matrix';
+          units = parsed.units.map(u => ({ id: u.unit, ratings: u.codings }));
+        } else if (parsed.coder1Codes && parsed.coder2Codes) {
+          mode = 'single segment';
+          units = [{ id: 'segment', ratings: { coder1: parsed.coder1Codes, coder2: parsed.coder2Codes } }];
+        } else {
+          mode = 'project coded segments';
+          const projectName = parsed.projectName as string;
+          const codePrefix = `${projectName}__code__`;
+          const sources = (parsed.sources
+            ? parsed.sources.map(name => caseSelector.resolveDataSource(projectName, name))
+            : caseSelector.getProjectSources(projectName))
+            .filter(source => !parsed.where || caseSelector.matchesCaseFilter(projectName, source, parsed.where));
+
+          units = [];
+          for (const source of sources) {
+            const codings = db.getCodings(source.name)
+              .filter(c => !parsed.coders || parsed.coders.includes(c.coder));
+
+            // A coder who coded anything in a source is taken to have read all of its segments
+            const sourceCoders = new Set(codings.map(c => c.coder));
+            const bySegment = new Map<number, Map<string, string[]>>();
+            for (const coding of codings) {
+              if (!bySegment.has(coding.segmentId)) bySegment.set(coding.segmentId, new Map());
+              const segmentCodings = bySegment.get(coding.segmentId)!;
+              if (!segmentCodings.has(coding.coder)) segmentCodings.set(coding.coder, []);
+              segmentCodings.get(coding.coder)!.push(coding.code.replace(codePrefix, ''));
+            }
 
-        const po = total > 0 ? agreements / total : 0; // observed agreement
-        const pe = 0.5; // expected agreement by chance (simplified)
-        const kappa = pe < 1 ? (po - pe) / (1 - pe) : 1;
+            for (const [segmentId, segmentCodings] of bySegment.entries()) {
+              const ratings: Record<string, string[] | null> = {};
+              for (const coder of parsed.coders || [...sourceCoders]) {
+                ratings[coder] = sourceCoders.has(coder) ? segmentCodings.get(coder) || [] : null;
+              }
+              units.push({ id: `#${segmentId} (${source.name.split('__').pop()})`, ratings });
+            }
+          }
 
-        let interpretation: string;
-        if (kappa > 0.8) interpretation = 'Excellent agreement';
-        else if (kappa > 0.6) interpretation = 'Substantial agreement';
-        else if (kappa > 0.4) interpretation = 'Moderate agreement';
-        else if (kappa > 0.2) interpretation = 'Fair agreement';
-        else interpretation = 'Poor agreement';
+          if (units.length === 0) {
+            throw new Error('No coded segments found. Run autoCoding with projectName, sourceName and coder for each coder first.');
+          }
+        }
+
+        const coders = parsed.coders || [...new Set(units.flatMap(u => Object.keys(u.ratings)))].sort();
+        if (coders.length < 2) {
+          throw new Error(`Found ${coders.length} coder(s); at least two are needed. Code the same sources with autoCoding using different coder names.`);
+        }
+
+        const report = await reliabilityEngine.calculateReliability({
+          units,
+          coders,
+          codes: parsed.codes,
+          bootstrap: parsed.bootstrap,
+          seed: parsed.seed,
+        });
 
-        const percentageAgreement = ((agreements / Math.max(parsed.coder1Codes.length, parsed.coder2Codes.length)) * 100).toFixed(1);
+        const labels: Record<ReliabilityMeasure, string> = {
+          cohens_kappa: 'Cohen\'s kappa (κ)',
+          krippendorffs_alpha: 'Krippendorff\'s alpha (α)',
+          fleiss_kappa: 'Fleiss\' kappa',
+          scotts_pi: 'Scott\'s pi (π)',
+          percentage_agreement: 'Percentage agreement',
+        };
+        const format = (value: number | null) => value === null ? 'n/a' : value.toFixed(3);
+        const formatCI = (ci?: [number, number]) => ci ? ` [95% CI ${ci[0].toFixed(3)}, ${ci[1].toFixed(3)}]` : '';
 
         let response = `📊 INTER-CODER RELIABILITY\n\n`;
-        response += `Segment: "${parsed.segment.slice(0, 100)}${parsed.segment.length > 100 ? '...' : ''}"\n`;
-        response += `Measure: ${parsed.measure || 'cohens_kappa'}\n\n`;
+        if (parsed.segment) {
+          response += `Segment: "${parsed.segment.slice(0, 100)}${parsed.segment.length > 100 ? '...' : ''}"\n`;
+        }
+        response += `Data: ${mode}\n`;
+        response += `Coders: ${report.coders.join(', ')}\n`;
+        response += `Segments: ${report.units} | Codes: ${report.codes.length}\n\n`;
 
         response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-        response += `📈 RESULTS:\n\n`;
-        response += `Cohen's Kappa (κ): ${kappa.toFixed(3)}\n`;
-        response += `Interpretation: ${interpretation}\n`;
-        response += `Percentage Agreement: ${percentageAgreement}%\n\n`;
+        response += `📈 POOLED RESULTS:\n\n`;
+        for (const m of RELIABILITY_MEASURES) {
+          response += `${m === measure ? '▶' : ' '} ${labels[m].padEnd(26)} ${format(report.pooled[m])}${formatCI(report.confidenceIntervals[m])}\n`;
+        }
+        response += `\nInterpretation: ${report.interpretation}\n\n`;
+
+        if (report.codes.length > 0) {
+          response += `📋 PER CODE (weakest first):\n\n`;
+          const byAgreement = [...report.codes].sort((a, b) =>
+            (a.scores.cohens_kappa ?? Infinity) - (b.scores.cohens_kappa ?? Infinity)
+          );
+          for (const code of byAgreement) {
+            response += `• ${code.code}: κ ${format(code.scores.cohens_kappa)}${formatCI(code.confidenceIntervals.cohens_kappa)}, `;
+            response += `α ${format(code.scores.krippendorffs_alpha)}, `;
+            response += `agreement ${((code.scores.percentage_agreement ?? 0) * 100).toFixed(1)}% (${code.units} segments)\n`;
+          }
+          response += `\n`;
+        }
 
-        response += `Agreements: ${agreements}\n`;
-        response += `Disagreements (Coder 1 only): ${disagreements1}\n`;
-        response += `Disagreements (Coder 2 only): ${disagreements2}\n`;
-        response += `Total comparisons: ${total}\n\n`;
+        if (report.disagreements.length > 0) {
+          response += `⚖️ DISAGREEMENTS (${report.disagreements.length}):\n\n`;
+          for (const disagreement of report.disagreements.slice(0, 15)) {
+            response += `• ${disagreement.unit} "${disagreement.code}": applied by ${disagreement.appliedBy.join(', ')}, not by ${disagreement.omittedBy.join(', ')}\n`;
+          }
+          if (report.disagreements.length > 15) {
+            response += `  ... and ${report.disagreements.length - 15} more\n`;
+          }
+          response += `\n`;
+        }
 
         response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
+        const headline = report.pooled[measure];
+
+        if (projectEntity && headline !== null) {
+          const reliabilityRuns = (projectEntity.metadata?.reliabilityRuns as any[]) || [];
+          db.updateEntity(projectEntity.name, {
+            metadata: {
+              ...projectEntity.metadata,
+              reliabilityRuns: [...reliabilityRuns, {
+                measure,
+                value: headline,
+                confidenceInterval: report.confidenceIntervals[measure],
+                coders: report.coders,
+                units: report.units,
+                recordedAt: new Date().toISOString(),
+              }],
+            },
+          });
+        }
+
         response += `💡 RECOMMENDATION:\n\n`;
-        if (kappa < 0.6) {
-          response += `Reliability is below the 0.6 threshold. Consider:\n`;
-          response += `1. Refining code definitions\n`;
+        if (headline === null) {
+          response += `${labels[measure]} is undefined for this data. Chance-corrected measures need several segments `;
+          response += `coded by every coder, including segments where codes are absent.\n`;
+        } else if (headline < 0.6 || (report.pooled.krippendorffs_alpha ?? 1) < 0.667) {
+          response += `Reliability is below the accepted threshold. Consider:\n`;
+          response += `1. Refining definitions of the weakest codes listed above\n`;
           response += `2. Additional coder training\n`;
-          response += `3. Discussing disagreements\n`;
+          response += `3. Discussing the listed disagreements\n`;
         } else {
           response += `Reliability is acceptable for qualitative research. Continue coding!\n`;
         }
 
+        if (projectEntity && headline !== null) {
+          response += `\n✅ Recorded ${measure} = ${headline.toFixed(3)} in the project reliability log\n`;
+        }
+
         return {
           content: [{
             type: 'text',
@@ -1033,26 +2996,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         // Get all data sources for this project
-        const relations = db.getRelations(parsed.projectName);
-        const dataSources = relations
-          .filter(r => r.relationType === 'part_of')
-          .map(r => db.getEntity(r.from))
-          .filter(e => e !== null);
+        const dataSources = caseSelector.getProjectSources(parsed.projectName, parsed.where);
 
         if (dataSources.length === 0) {
-          throw new Error(`No data sources found for project "${parsed.projectName}". Add data sources using addDataSource.`);
+          throw new Error(parsed.where
+            ? `No data sources in project "${parsed.projectName}" match ${JSON.stringify(parsed.where)}.`
+            : `No data sources found for project "${parsed.projectName}". Add data sources using addDataSource.`);
         }
 
-        // Extract codes from all data sources
-        const allCodes: any[] = [];
+        // Use the project's codebook, with its hierarchy, or code all data sources afresh when there is none.
+        // Codes only ever applied to turns by other speaker roles (e.g., interviewer prompts) are left out.
+        const speakerRoles = parsed.speakerRoles ?? DEFAULT_SPEAKER_ROLES;
+        const allCodes: Code[] = getCaseCodes(parsed.projectName, { where: parsed.where, speakerRoles });
 
-        for (const source of dataSources) {
-          if (source && source.metadata && source.metadata.content) {
-            const codingResult = await codingEngine.autoCoding({
-              text: source.metadata.content as string,
-              methodology: 'grounded',
-            });
-            allCodes.push(...codingResult.codes);
+        if (allCodes.length === 0) {
+          for (const source of dataSources) {
+            if (source && source.metadata && source.metadata.content) {
+              const codingResult = await codingEngine.autoCoding({
+                text: source.metadata.content as string,
+                methodology: 'grounded',
+                units: getCodingUnits(source, speakerRoles).units,
+                speakerRoles,
+              });
+              allCodes.push(...codingResult.codes);
+            }
           }
         }
 
@@ -1214,65 +3181,864 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'suggestSubcodes': {
         const parsed = suggestSubcodesSchema.parse(args);
 
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const codeName = `${parsed.projectName}__code__${parsed.code}`;
+        const codeEntity = db.getEntity(codeName);
+        if (!codeEntity || codeEntity.entityType !== 'code') {
+          throw new Error(`Code "${parsed.code}" not found in project "${parsed.projectName}".`);
+        }
+
+        const segments = db.getSegmentsByCode(codeName);
+        const suggestion = await codingEngine.suggestSubcodes({
+          code: parsed.code,
+          segments: segments.map(s => ({ id: s.id, text: s.text })),
+          clusters: parsed.clusters,
+        });
+
+        // Keep the proposal on the code so that acceptSubcodes can turn it into child codes
+        db.updateEntity(codeName, {
+          metadata: {
+            ...codeEntity.metadata,
+            subcodeProposal: {
+              createdAt: new Date().toISOString(),
+              segmentCount: segments.length,
+              subcodes: suggestion.subcodes.map(({ name, segmentIds, terms, coverage }) => ({ name, segmentIds, terms, coverage })),
+            },
+          },
+        });
+
         let response = `🌳 SUBCODE SUGGESTIONS FOR: ${parsed.code}\n\n`;
+        response += `Segments analyzed: ${segments.length}\n`;
+        response += `Clusters: ${suggestion.subcodes.length} (separation ${suggestion.silhouette.toFixed(2)}, cohesion ${suggestion.cohesion.toFixed(2)})\n\n`;
         response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-        // Generate smart subcode suggestions based on code name and context
-        const codeType = parsed.code.toLowerCase();
-        let suggestions: string[] = [];
-
-        // Pattern-based subcode generation
-        if (codeType.includes('stress') || codeType.includes('anxiety')) {
-          suggestions = [
-            `${parsed.code}__academic`,
-            `${parsed.code}__social`,
-            `${parsed.code}__financial`,
-            `${parsed.code}__health`,
-          ];
-        } else if (codeType.includes('coping') || codeType.includes('strategy')) {
-          suggestions = [
-            `${parsed.code}__problem-focused`,
-            `${parsed.code}__emotion-focused`,
-            `${parsed.code}__avoidance`,
-            `${parsed.code}__seeking-support`,
-          ];
-        } else if (codeType.includes('experience') || codeType.includes('feeling')) {
-          suggestions = [
-            `${parsed.code}__positive`,
-            `${parsed.code}__negative`,
-            `${parsed.code}__mixed`,
-            `${parsed.code}__neutral`,
-          ];
-        } else if (codeType.includes('process') || codeType.includes('change')) {
-          suggestions = [
-            `${parsed.code}__initial`,
-            `${parsed.code}__developing`,
-            `${parsed.code}__established`,
-            `${parsed.code}__outcome`,
-          ];
+        response += `💡 SUGGESTED SUBCODES:\n\n`;
+        suggestion.subcodes.forEach((subcode, index) => {
+          response += `${index + 1}. ${subcode.name} — ${subcode.segmentIds.length} segment(s), ${(subcode.coverage * 100).toFixed(0)}% coverage\n`;
+          response += `   Distinguishing terms: ${subcode.terms.join(', ') || '—'}\n`;
+          response += `   Segments: ${subcode.segmentIds.map(id => `#${id}`).join(', ')}\n`;
+          for (const example of subcode.examples.slice(0, 2)) {
+            response += `   "${example}${example.length >= 100 ? '...' : ''}"\n`;
+          }
+          response += `\n`;
+        });
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        if (suggestion.silhouette < 0.1) {
+          response += `⚠️ The clusters overlap strongly; the code may be coherent enough without subcodes.\n`;
+        }
+        response += `Tip: Use acceptSubcodes to create these as child codes of "${parsed.code}" (you can pick and rename them).\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'acceptSubcodes': {
+        const parsed = acceptSubcodesSchema.parse(args);
+
+        if (!db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const codeName = `${parsed.projectName}__code__${parsed.code}`;
+        const proposal = db.getEntity(codeName)?.metadata?.subcodeProposal as {
+          subcodes: Array<{ name: string; segmentIds: number[]; terms: string[]; coverage: number }>;
+        } | undefined;
+        if (!proposal) {
+          throw new Error(`No subcode proposal stored for "${parsed.code}". Run suggestSubcodes first.`);
+        }
+
+        const picks: Array<{ number: number; name?: string; definition?: string }> =
+          parsed.subcodes || proposal.subcodes.map((_, index) => ({ number: index + 1 }));
+        const subcodes = picks.map(pick => {
+          const proposed = proposal.subcodes[pick.number - 1];
+          if (!proposed) {
+            throw new Error(`Proposal has no subcode number ${pick.number} (1-${proposal.subcodes.length})`);
+          }
+          return {
+            name: pick.name || proposed.name,
+            definition: pick.definition || `Segments of "${parsed.code}" about ${proposed.terms.slice(0, 3).join(', ')}`,
+            segmentIds: proposed.segmentIds,
+          };
+        });
+
+        const operation = codebookManager.createSubcodes(parsed.projectName, { code: parsed.code, subcodes });
+        const remaining = db.getSegmentsByCode(codeName).length;
+
+        let response = `🌳 SUBCODES CREATED UNDER: ${parsed.code}\n\n`;
+        for (const subcode of subcodes) {
+          response += `• ${subcode.name} (${subcode.segmentIds.length} segment(s))\n`;
+          response += `  ${subcode.definition}\n`;
+        }
+        response += `\n${remaining} segment(s) remain coded with "${parsed.code}" itself.\n`;
+        response += `Operation #${operation.id} — use undoCodebookOperation to reverse it, or listCodeTree to review the hierarchy.\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'compareSegments': {
+        const parsed = compareSegmentsSchema.parse(args);
+        const codePrefix = `${parsed.projectName}__code__`;
+
+        if (parsed.projectName && !db.getEntity(parsed.projectName)) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const stored: CodedSegment[] = [];
+        const projectSources = new Set(parsed.projectName ? caseSelector.getProjectSources(parsed.projectName).map(s => s.name) : []);
+        for (const id of parsed.segmentIds || []) {
+          const segment = db.getSegment(id);
+          if (!segment || !projectSources.has(segment.source)) {
+            throw new Error(`Segment ${id} not found in project "${parsed.projectName}"`);
+          }
+          stored.push(segment);
+        }
+
+        const focusCode = parsed.code
+          ? (parsed.code.startsWith(codePrefix) ? parsed.code : `${codePrefix}${parsed.code}`)
+          : undefined;
+        if (focusCode) {
+          if (!db.getEntity(focusCode)) {
+            throw new Error(`Code "${parsed.code}" not found in project "${parsed.projectName}".`);
+          }
+          const caseSources = parsed.where
+            ? new Set(caseSelector.getProjectSources(parsed.projectName!, parsed.where).map(s => s.name))
+            : null;
+          stored.push(...db.getSegmentsByCode(focusCode)
+            .filter(s => !caseSources || caseSources.has(s.source))
+            .filter(s => !stored.some(o => o.id === s.id)));
+        }
+
+        const segments: ComparableSegment[] = [
+          ...(parsed.segments || []).map((text, idx) => ({ label: `Segment ${idx + 1}`, text, codes: [] })),
+          ...stored.map(s => ({
+            label: `#${s.id} (${s.source.split('__').pop()})`,
+            text: s.text,
+            codes: s.codes.map(c => c.replace(codePrefix, '')),
+          })),
+        ];
+
+        if (segments.length < 2) {
+          throw new Error(`Only ${segments.length} segment(s) found; at least two are needed for comparison.`);
+        }
+
+        const comparison = await comparisonEngine.compareSegments({
+          segments,
+          focusCode: focusCode?.replace(codePrefix, ''),
+        });
+
+        const suggestionLabels: Record<string, string> = {
+          same_code: 'Same code',
+          sibling_code: 'Sibling codes',
+          new_subcode: 'New subcode',
+        };
+
+        let response = `🔍 CONSTANT COMPARISON\n\n`;
+        response += `Segments: ${comparison.segments.length}${focusCode ? ` coded "${focusCode.replace(codePrefix, '')}"` : ''}\n`;
+        response += `Lexical overlap: ${(comparison.lexicalOverlap * 100).toFixed(1)}%\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        response += `🤝 SHARED PROPERTIES:\n`;
+        for (const property of comparison.sharedProperties) {
+          response += `  • ${property}\n`;
+        }
+        response += `  • Shared terms: ${comparison.sharedTerms.join(', ') || 'none'}\n`;
+        if (comparison.sharedCodes.length > 0) {
+          response += `  • Shared codes: ${comparison.sharedCodes.join(', ')}\n`;
+        }
+        if (comparison.coCodes.length > 0) {
+          response += `  • Co-codes: ${comparison.coCodes.map(c => `${c.code} (${c.segments})`).join(', ')}\n`;
+        }
+        response += `\n`;
+
+        response += `↔️ DIFFERING DIMENSIONS:\n`;
+        if (comparison.differingDimensions.length === 0) {
+          response += `  • None\n`;
+        }
+        for (const dimension of comparison.differingDimensions) {
+          response += `  • ${dimension.dimension}: ${dimension.values.map((v, i) => `${comparison.segments[i]} ${v}`).join(' | ')}\n`;
+        }
+        response += `\n`;
+
+        response += `📝 DISTINCTIVE TERMS:\n`;
+        for (const entry of comparison.distinctiveTerms) {
+          response += `  • ${entry.segment}: ${entry.terms.join(', ') || '—'}\n`;
+        }
+        response += `\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        response += `💡 SUGGESTION: ${suggestionLabels[comparison.suggestion]}\n`;
+        response += `${comparison.rationale}\n`;
+
+        if (parsed.saveMemo && parsed.projectName) {
+          const memoName = `${parsed.projectName}__memo__comparison-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+          const content = response.replace(/^🔍 CONSTANT COMPARISON\n\n/, '');
+
+          db.createEntity({
+            name: memoName,
+            entityType: 'memo',
+            observations: [comparison.rationale],
+            metadata: {
+              memoType: 'analytical',
+              content,
+              linkedEntities: [...new Set([...stored.map(s => s.source), ...(focusCode ? [focusCode] : [])])],
+              segmentIds: stored.map(s => s.id),
+              comparison,
+            },
+          });
+
+          for (const segment of stored) {
+            db.createRelation({
+              from: memoName,
+              to: segment.source,
+              relationType: 'reflects_on',
+              metadata: {
+                segmentId: segment.id,
+                startIndex: segment.startOffset,
+                endIndex: segment.endOffset,
+              },
+            });
+          }
+          if (focusCode) {
+            db.createRelation({ from: memoName, to: focusCode, relationType: 'reflects_on' });
+          }
+
+          response += `\n✅ Saved analytical memo ${memoName}\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'generateReport': {
+        const parsed = generateReportSchema.parse(args);
+
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const methodology = await loadProjectMethodology(projectEntity);
+        const codeEntities = getProjectEntities(parsed.projectName, 'code');
+
+        const themes = getProjectEntities(parsed.projectName, 'theme')
+          .filter(e => e.metadata?.theme)
+          .map(e => {
+            const theme = e.metadata!.theme as any;
+            const quotes: ReportData['themes'][number]['quotes'] = [];
+
+            for (const code of theme.supportingCodes as string[]) {
+              for (const segment of db.getSegmentsByCode(`${parsed.projectName}__code__${code}`)) {
+                if (quotes.length >= 3) break;
+                if (quotes.some(q => q.text === segment.text)) continue;
+                quotes.push({ text: segment.text, source: citeSegment(parsed.projectName, segment) });
+              }
+            }
+            if (quotes.length === 0) {
+              quotes.push(...(theme.examples as string[]).slice(0, 2).map(text => ({ text })));
+            }
+
+            return {
+              name: theme.name as string,
+              description: theme.description as string,
+              prevalence: theme.prevalence as number,
+              supportingCodes: theme.supportingCodes as string[],
+              quotes,
+            };
+          });
+
+        const theoryEntity = db.getEntity(`${parsed.projectName}__theory`);
+        const theory = theoryEntity?.metadata?.theory as any;
+
+        const data: ReportData = {
+          project: {
+            name: projectEntity.name,
+            methodology: projectEntity.metadata?.methodology,
+            createdAt: projectEntity.createdAt,
+            observations: projectEntity.observations,
+          },
+          methodology: methodology
+            ? { name: methodology.name, description: methodology.description, stages: methodology.stages }
+            : undefined,
+          researchQuestions: (projectEntity.metadata?.researchQuestions as string[]) || [],
+          dataSources: caseSelector.getProjectSources(parsed.projectName).map(source => ({
+            name: source.name.replace(`${parsed.projectName}__`, ''),
+            type: source.entityType,
+            characters: ((source.metadata?.content as string) || '').length,
+            codedSegments: db.getSegmentsBySource(source.name).length,
+          })),
+          codebook: codeEntities.map(e => {
+            const code = toEngineCode(parsed.projectName, e);
+            return { name: code.name, definition: code.definition, frequency: code.frequency, type: code.type };
+          }),
+          themes,
+          theory: theory
+            ? {
+              coreCategory: theory.coreCategory.name,
+              description: theory.coreCategory.description,
+              storyline: theory.storyline,
+              framework: theory.theoreticalFramework,
+              stage: theory.stage,
+              completeness: theory.completeness,
+              supportingCategories: theory.supportingCategories.map((c: any) => c.name),
+            }
+            : undefined,
+          saturation: (projectEntity.metadata?.saturationHistory as ReportData['saturation']) || [],
+          memos: getProjectEntities(parsed.projectName, 'memo').map(e => ({
+            name: e.name.replace(`${parsed.projectName}__memo__`, ''),
+            memoType: (e.metadata?.memoType as string) || 'analytical',
+            content: (e.metadata?.content as string) || e.observations.join('\n'),
+            createdAt: e.createdAt,
+          })),
+        };
+
+        const report = reportEngine.generateReport(data, {
+          format: parsed.format,
+          sections: parsed.sections,
+        });
+
+        if (parsed.outputPath) {
+          const outputPath = path.resolve(parsed.outputPath);
+          fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+          fs.writeFileSync(outputPath, report.content, 'utf-8');
+
+          return {
+            content: [{
+              type: 'text',
+              text: `📄 REPORT GENERATED\n\nFormat: ${report.format}\nSections: ${report.sections.join(', ')}\nMethodology template: ${methodology?.name || 'none'}\n\n✅ Written to ${outputPath}`,
+            }],
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: report.content,
+          }],
+        };
+      }
+
+      case 'compareThemesAcrossCases': {
+        const parsed = compareThemesAcrossCasesSchema.parse(args);
+        const groupBy = parsed.groupBy || 'source';
+        const format = parsed.format || 'markdown';
+
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const themeEntities = getProjectEntities(parsed.projectName, 'theme')
+          .filter(e => e.metadata?.theme)
+          .filter(e => !parsed.themes || parsed.themes.some(t => e.name === t || e.metadata!.theme.name === t));
+
+        if (themeEntities.length === 0) {
+          throw new Error('No themes found. Run extractThemes first.');
+        }
+
+        const sources = caseSelector.getProjectSources(parsed.projectName, parsed.where);
+        if (sources.length === 0) {
+          throw new Error(parsed.where
+            ? `No data sources in project "${parsed.projectName}" match ${JSON.stringify(parsed.where)}.`
+            : `No data sources found for project "${parsed.projectName}". Add data sources using addDataSource.`);
+        }
+
+        const codePrefix = `${parsed.projectName}__code__`;
+        const cases = new Map<string, Array<{ source: string; text: string; codes: string[] }>>();
+        for (const source of sources) {
+          const key = caseSelector.getCaseKey(parsed.projectName, source, groupBy);
+          if (!cases.has(key)) cases.set(key, []);
+          for (const segment of db.getSegmentsBySource(source.name)) {
+            cases.get(key)!.push({
+              source: source.name,
+              text: segment.text,
+              codes: segment.codes.map(c => c.replace(codePrefix, '')),
+            });
+          }
+        }
+
+        const matrix = await themeEngine.compareAcrossCases({
+          themes: themeEntities.map(e => e.metadata!.theme),
+          cases: [...cases.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, segments]) => ({ name, segments })),
+        });
+
+        const table = themeEngine.exportCaseMatrix(matrix, format);
+
+        let response = `🧮 CROSS-CASE MATRIX (grouped by ${groupBy})\n\n`;
+        response += `Cases: ${matrix.cases.length} | Themes: ${matrix.themes.length}\n\n`;
+
+        if (matrix.singleCaseThemes.length > 0 || matrix.absentThemes.length > 0) {
+          response += `🚩 FLAGS:\n`;
+          for (const flag of matrix.singleCaseThemes) {
+            response += `  • "${flag.theme}" is present only in ${flag.case}\n`;
+          }
+          for (const theme of matrix.absentThemes) {
+            response += `  • "${theme}" has no coded segments in any case\n`;
+          }
+          response += `\n`;
+        }
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        if (parsed.outputPath) {
+          const outputPath = path.resolve(parsed.outputPath);
+          fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+          fs.writeFileSync(outputPath, table, 'utf-8');
+          response += `✅ ${format === 'csv' ? 'CSV' : 'Markdown'} matrix written to ${outputPath}\n`;
         } else {
-          // Generic dimensional subcoding
-          suggestions = [
-            `${parsed.code}__type-a`,
-            `${parsed.code}__type-b`,
-            `${parsed.code}__intensity-high`,
-            `${parsed.code}__intensity-low`,
-            `${parsed.code}__context-specific`,
-          ];
+          response += table;
         }
 
-        response += `💡 SUGGESTED SUBCODES:\n\n`;
-        for (const subcode of suggestions) {
-          response += `  • ${subcode}\n`;
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'triangulate': {
+        const parsed = triangulateSchema.parse(args);
+        const lens = parsed.across || 'sources';
+
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const sources = (parsed.sources
+          ? parsed.sources.map(name => caseSelector.resolveDataSource(parsed.projectName, name))
+          : caseSelector.getProjectSources(parsed.projectName))
+          .filter(source => !parsed.where || caseSelector.matchesCaseFilter(parsed.projectName, source, parsed.where));
+
+        if (sources.length === 0) {
+          throw new Error(parsed.where
+            ? `No data sources in project "${parsed.projectName}" match ${JSON.stringify(parsed.where)}.`
+            : `No data sources found for project "${parsed.projectName}". Add data sources using addDataSource.`);
+        }
+
+        const themeEntities = getProjectEntities(parsed.projectName, 'theme')
+          .filter(e => e.metadata?.theme)
+          .filter(e => !parsed.themes || parsed.themes.some(t => e.name === t || e.metadata!.theme.name === t));
+
+        if (themeEntities.length === 0) {
+          throw new Error('No themes found. Run extractThemes first.');
         }
 
+        // Build coded units per group; codes are compared by their short names
+        const codePrefix = `${parsed.projectName}__code__`;
+        const groups = new Map<string, TriangulationGroup>();
+        const addUnit = (groupName: string, source: string, codes: string[]) => {
+          if (!groups.has(groupName)) groups.set(groupName, { name: groupName, units: [] });
+          groups.get(groupName)!.units.push({ source, codes: codes.map(c => c.replace(codePrefix, '')) });
+        };
+
+        for (const source of sources) {
+          if (lens === 'sources') {
+            for (const segment of db.getSegmentsBySource(source.name)) {
+              if (segment.codes.length > 0) {
+                const groupName = parsed.groupBy ? caseSelector.getCaseKey(parsed.projectName, source, parsed.groupBy) : source.entityType;
+                addUnit(groupName, source.name, segment.codes);
+              }
+            }
+            continue;
+          }
+
+          const unitCodes = new Map<string, string[]>();
+          for (const coding of db.getCodings(source.name)) {
+            const key = `${lens === 'coders' ? coding.coder : coding.pass}\u0000${coding.segmentId}`;
+            if (!unitCodes.has(key)) unitCodes.set(key, []);
+            unitCodes.get(key)!.push(coding.code);
+          }
+          for (const [key, codes] of unitCodes.entries()) {
+            addUnit(key.split('\u0000')[0], source.name, codes);
+          }
+        }
+
+        if (groups.size === 0) {
+          throw new Error('No coded segments found for these sources. Run autoCoding with projectName and sourceName first.');
+        }
+
+        const result = await triangulationEngine.triangulate({
+          themes: themeEntities.map(e => e.metadata!.theme),
+          groups: [...groups.values()],
+          lens,
+        });
+
+        // Record which sources each theme was triangulated with, replacing earlier results for this lens
+        for (const [idx, themeResult] of result.themes.entries()) {
+          const themeName = themeEntities[idx].name;
+          const previous = db.getRelations(themeName, 'triangulates_with').filter(r => r.from === themeName);
+          for (const rel of previous) {
+            db.deleteRelation(rel.from, rel.to, rel.relationType);
+          }
+          for (const rel of previous.filter(r => r.metadata?.lens !== lens)) {
+            db.createRelation(rel);
+          }
+
+          for (const group of themeResult.groups) {
+            for (const source of group.sources) {
+              db.createRelation({
+                from: themeName,
+                to: source,
+                relationType: 'triangulates_with',
+                metadata: {
+                  lens,
+                  group: group.group,
+                  verdict: themeResult.verdict,
+                  coverage: group.coverage,
+                },
+              });
+            }
+          }
+        }
+
+        const icons: Record<string, string> = {
+          convergence: '✅',
+          complementarity: '🧩',
+          dissonance: '⚠️',
+          silence: '⬜',
+        };
+
+        let response = `🔺 TRIANGULATION (across ${lens})\n\n`;
+        response += `Groups compared: ${result.groups.join(', ')}\n`;
+        response += `Themes: ${result.themes.length}\n`;
+        response += `Convergence: ${result.summary.convergence} | Complementarity: ${result.summary.complementarity} | `;
+        response += `Dissonance: ${result.summary.dissonance} | Silence: ${result.summary.silence}\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        for (const themeResult of result.themes) {
+          response += `${icons[themeResult.verdict]} ${themeResult.theme}: ${themeResult.verdict.toUpperCase()}\n`;
+          response += `  ${themeResult.explanation}\n`;
+          for (const group of themeResult.groups) {
+            response += `  • ${group.group}: ${(group.coverage * 100).toFixed(1)}% of coded units`;
+            response += group.codes.length > 0 ? ` (${group.codes.join(', ')})\n` : `\n`;
+          }
+          response += `\n`;
+        }
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        response += `✅ Saved triangulates_with relations between themes and their supporting sources.\n`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'assessQuality': {
+        const parsed = assessQualitySchema.parse(args);
+
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const methodology = parsed.methodology
+          ? await loadProjectMethodology({ ...projectEntity, metadata: { methodology: parsed.methodology } })
+          : await loadProjectMethodology(projectEntity);
+        if (parsed.methodology && !methodology) {
+          throw new Error(`Methodology ${parsed.methodology} not found`);
+        }
+
+        const sources = caseSelector.getProjectSources(parsed.projectName);
+        const codeEntities = getProjectEntities(parsed.projectName, 'code');
+        const themeEntities = getProjectEntities(parsed.projectName, 'theme').filter(e => e.metadata?.theme);
+
+        const memos: Record<string, number> = {};
+        for (const memo of getProjectEntities(parsed.projectName, 'memo')) {
+          const memoType = (memo.metadata?.memoType as string) || 'analytical';
+          memos[memoType] = (memos[memoType] || 0) + 1;
+        }
+
+        const totalWords = sources.reduce((sum, s) =>
+          sum + ((s.metadata?.content as string) || '').split(/\s+/).filter(Boolean).length, 0);
+        const saturationHistory = (projectEntity.metadata?.saturationHistory as any[]) || [];
+
+        const assessment = await qualityEngine.assessQuality({
+          methodology: methodology?.name || 'Trustworthiness (Lincoln & Guba)',
+          criteria: methodology?.qualityCriteria || DEFAULT_QUALITY_CRITERIA,
+          evidence: {
+            sources: sources.length,
+            sourceTypes: [...new Set(sources.map(s => s.entityType))],
+            averageSourceWords: sources.length > 0 ? totalWords / sources.length : 0,
+            codes: codeEntities.length,
+            codesWithDefinitions: codeEntities.filter(e => (e.observations[0] || '').trim().length > 0).length,
+            themes: themeEntities.length,
+            themesWithSegments: themeEntities.filter(e =>
+              (e.metadata!.theme.supportingCodes as string[]).some(code =>
+                db.getSegmentsByCode(`${parsed.projectName}__code__${code}`).length > 0
+              )
+            ).length,
+            memos,
+            negativeCaseChecks: themeEntities.filter(e => e.metadata?.negativeCaseCheck).length,
+            negativeCasesFound: themeEntities.reduce((sum, e) =>
+              sum + ((e.metadata?.negativeCaseCheck?.negativeCases as any[]) || []).length, 0),
+            reliabilityRuns: (projectEntity.metadata?.reliabilityRuns as any[]) || [],
+            saturation: saturationHistory[saturationHistory.length - 1],
+            triangulations: themeEntities.reduce((sum, e) =>
+              sum + db.getRelations(e.name, 'triangulates_with').length, 0),
+            hasTheory: db.getEntity(`${parsed.projectName}__theory`) !== null,
+          },
+        });
+
+        const icons: Record<string, string> = { met: '☑', partial: '◐', unmet: '☐', manual: '?' };
+
+        let response = `🏅 QUALITY ASSESSMENT\n\n`;
+        response += `Project: ${parsed.projectName}\n`;
+        response += `Criteria from: ${assessment.methodology}\n`;
+        response += `${assessment.summary}\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        for (const criterion of assessment.criteria) {
+          const score = criterion.score === null ? 'n/a' : `${(criterion.score * 100).toFixed(0)}%`;
+          response += `${icons[criterion.status]} ${criterion.criterion} — ${criterion.status.toUpperCase()} (${score})\n`;
+          response += `  ${criterion.descriptions.join('; ')}\n`;
+          for (const ev of criterion.evidence) {
+            response += `  Evidence: ${ev}\n`;
+          }
+          for (const gap of criterion.gaps) {
+            response += `  Gap: ${gap}\n`;
+          }
+          for (const action of criterion.nextActions) {
+            response += `  → ${action}\n`;
+          }
+          response += `\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'generateConceptMap': {
+        const parsed = generateConceptMapSchema.parse(args);
+        const style = parsed.style || 'network';
+        const format = parsed.format || 'mermaid';
+
+        const projectEntity = db.getEntity(parsed.projectName);
+        if (!projectEntity) {
+          throw new Error(`Project "${parsed.projectName}" not found.`);
+        }
+
+        const codePrefix = `${parsed.projectName}__code__`;
+        const nodes: ConceptNode[] = [];
+        const edges: ConceptEdge[] = [];
+
+        // With a case filter, codes not applied in the selected cases are left out and the rest weighted
+        // by their segments there
+        for (const code of getCaseCodes(parsed.projectName, { where: parsed.where })) {
+          nodes.push({
+            id: `${codePrefix}${code.name}`,
+            label: code.name,
+            type: 'code',
+            weight: code.frequency || 1,
+            quotes: code.examples.slice(0, 2),
+          });
+        }
+
+        for (const entity of getProjectEntities(parsed.projectName, 'theme').filter(e => e.metadata?.theme)) {
+          const theme = entity.metadata!.theme as Theme;
+          nodes.push({ id: entity.name, label: theme.name, type: 'theme', weight: theme.prevalence });
+          for (const code of theme.supportingCodes) {
+            edges.push({ from: entity.name, to: `${codePrefix}${code}`, type: 'contains' });
+          }
+        }
+
+        for (const entity of getProjectEntities(parsed.projectName, 'category')) {
+          nodes.push({ id: entity.name, label: entity.name.replace(`${parsed.projectName}__category__`, ''), type: 'category' });
+        }
+
+        // Categories of a stored grounded theory, with the core category's relationships
+        const theory = db.getEntity(`${parsed.projectName}__theory`)?.metadata?.theory as GroundedTheoryResult | undefined;
+        if (theory) {
+          const categoryId = (name: string) => `${parsed.projectName}__category__${name}`;
+          const core = categoryId(theory.coreCategory.name);
+          nodes.push({ id: core, label: theory.coreCategory.name, type: 'core_category' });
+
+          for (const category of theory.supportingCategories) {
+            nodes.push({ id: categoryId(category.name), label: category.name, type: 'category' });
+            edges.push({ from: core, to: categoryId(category.name), type: 'contains' });
+            for (const code of category.relatedCodes) {
+              edges.push({ from: categoryId(category.name), to: `${codePrefix}${code}`, type: 'contains' });
+            }
+          }
+          for (const relationship of theory.coreCategory.relationships) {
+            if (relationship.relationshipType === 'part_of') continue;
+            edges.push({ from: core, to: categoryId(relationship.relatedCategory), type: relationship.relationshipType });
+          }
+        }
+
+        // Relations stored between mapped concepts
+        const nodeIds = new Set(nodes.map(n => n.id));
+        for (const relation of db.getProjectRelations(parsed.projectName)) {
+          if (nodeIds.has(relation.from) && nodeIds.has(relation.to)) {
+            edges.push({ from: relation.from, to: relation.to, type: relation.relationType });
+          }
+        }
+
+        // Code co-occurrence within coded segments
+        for (const source of caseSelector.getProjectSources(parsed.projectName, parsed.where)) {
+          for (const segment of db.getSegmentsBySource(source.name)) {
+            const codes = [...new Set(segment.codes)].sort();
+            for (let i = 0; i < codes.length; i++) {
+              for (let j = i + 1; j < codes.length; j++) {
+                edges.push({ from: codes[i], to: codes[j], type: 'co_occurs', weight: 1 });
+              }
+            }
+          }
+        }
+
+        if (nodes.length === 0) {
+          throw new Error('No codes or themes found. Run autoCoding and extractThemes first.');
+        }
+
+        const map = await conceptMapEngine.generateConceptMap({
+          nodes,
+          edges,
+          style,
+          focus: parsed.focus,
+          depth: parsed.depth,
+          format,
+        });
+
+        let response = `🗺️ CONCEPT MAP (${style}${parsed.focus ? `, focus: ${parsed.focus}` : ''})\n\n`;
+        response += `Concepts: ${map.nodes.length} | Relations: ${map.edges.length} | Format: ${format}\n\n`;
+        response += `${map.interpretation}\n`;
+        for (const implication of map.theoreticalImplications || []) {
+          response += `  • ${implication}\n`;
+        }
         response += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
-        response += `📝 RATIONALE:\n\n`;
-        response += `These subcodes follow dimensional analysis principles:\n`;
-        response += `- Breaking down the parent code into meaningful dimensions\n`;
-        response += `- Capturing variations in properties or contexts\n`;
-        response += `- Enabling more nuanced analysis\n\n`;
-        response += `Tip: You can customize these suggestions based on your data.\n`;
+
+        if (parsed.outputPath) {
+          const outputPath = path.resolve(parsed.outputPath);
+          fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+          fs.writeFileSync(outputPath, map.content, 'utf-8');
+          response += `✅ Written to ${outputPath}\n`;
+        } else {
+          response += format === 'mermaid' ? `\`\`\`mermaid\n${map.content}\`\`\`\n` : map.content;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: response,
+          }],
+        };
+      }
+
+      case 'analyzeNarrative': {
+        const parsed = analyzeNarrativeSchema.parse(args);
+
+        const source = parsed.projectName && parsed.sourceName
+          ? caseSelector.resolveDataSource(parsed.projectName, parsed.sourceName)
+          : null;
+        const text = parsed.text ?? ((source?.metadata?.content as string) || '');
+
+        // Transcripts are analyzed turn by turn, so speaker labels and interviewer questions stay out of the clauses
+        const speakerRoles = parsed.speakerRoles ?? DEFAULT_SPEAKER_ROLES;
+        const { units, skipped } = source && parsed.text === undefined
+          ? getCodingUnits(source, speakerRoles)
+          : { units: undefined, skipped: 0 };
+
+        const analysis = await narrativeEngine.analyzeNarrative({ text, units, speakerRoles });
+
+        const labels: Record<string, string> = {
+          abstract: 'Abstract',
+          orientation: 'Orientation',
+          complicating_action: 'Complicating action',
+          evaluation: 'Evaluation',
+          resolution: 'Resolution',
+          coda: 'Coda',
+        };
+
+        let response = `📖 NARRATIVE ANALYSIS (Labov)\n\n`;
+        if (parsed.participant) {
+          response += `Participant: ${parsed.participant}\n`;
+        }
+        if (units) {
+          response += `Turns analyzed: ${units.length - skipped} of ${units.length} (${speakerRoles.join(', ')})\n`;
+        }
+        response += `Episodes: ${analysis.episodes.length} (${analysis.narrativeEpisodes} narrative)\n`;
+        response += `Elements: ${Object.entries(analysis.elementCounts).map(([e, n]) => `${labels[e]} ${n}`).join(', ')}\n\n`;
+
+        response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        for (const episode of analysis.episodes.filter(e => e.isNarrative)) {
+          response += `📌 Episode ${episode.index + 1} [${episode.startIndex}-${episode.endIndex}]\n`;
+          response += `Structure: ${episode.structure}\n`;
+          response += `Completeness: ${(episode.completeness * 100).toFixed(0)}%\n\n`;
+          for (const clause of episode.clauses) {
+            response += `  ${labels[clause.element].padEnd(20)} ${clause.text}\n`;
+          }
+          response += `\n`;
+          response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+        }
+
+        response += `💡 INTERPRETATION:\n\n${analysis.interpretation}\n`;
+
+        if (source) {
+          // Replace episodes from an earlier analysis of this source
+          for (const rel of db.getRelations(source.name, 'analyzes')) {
+            if (db.getEntity(rel.from)?.entityType === 'narrative') {
+              db.deleteRelation(rel.from, rel.to, rel.relationType);
+              db.deleteEntity(rel.from);
+            }
+          }
+
+          for (const episode of analysis.episodes.filter(e => e.isNarrative)) {
+            const episodeName = `${source.name}__narrative__${episode.index + 1}`;
+            db.createEntity({
+              name: episodeName,
+              entityType: 'narrative',
+              observations: [
+                `Structure: ${episode.structure}`,
+                `Completeness: ${(episode.completeness * 100).toFixed(0)}%`,
+              ],
+              metadata: {
+                episode,
+                participant: parsed.participant,
+              },
+            });
+            db.createRelation({
+              from: episodeName,
+              to: source.name,
+              relationType: 'analyzes',
+              metadata: {
+                startIndex: episode.startIndex,
+                endIndex: episode.endIndex,
+              },
+            });
+          }
+
+          response += `\n✅ Saved ${analysis.narrativeEpisodes} narrative episode(s) linked to ${source.name}\n`;
+        }
 
         return {
           content: [{
@@ -1320,7 +4086,7 @@ async function main() {
   await server.connect(transport);
 
   console.error('✅ QualAI MCP Server ready!');
-  console.error('📚 Available tools: 20');
+  console.error(`📚 Available tools: ${tools.length}`);
   console.error('🧠 Methodologies loaded:', rag.getAllMethodologies().length);
 }
 
@@ -0,0 +1,270 @@
+/**
+ * Transcript Parser - splits data sources into speaker turns
+ * Reads speaker-labelled transcripts ("Interviewer: ..." / "P1: ..."), WebVTT and SRT captions,
+ * and field notes with optional timestamps
+ */
+
+import type { SpeakerRole, Turn } from '../types/entities.js';
+
+export type TranscriptFormat = 'plain' | 'speaker' | 'vtt' | 'srt' | 'fieldnotes';
+
+export type ParsedTurn = Omit<Turn, 'id' | 'source'>;
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  content: string; // text to store; captions are reduced to their spoken text
+  turns: ParsedTurn[];
+  speakers: string[];
+}
+
+// Speaker labels that mark the researcher's side of an interview
+const INTERVIEWER_LABELS = /^(interviewer|int|i|q|moderator|facilitator|researcher)\b\.?(\s*\d+)?$/i;
+
+// "P1: ...", "Interviewer: ...", "María: ...", optionally preceded or followed by a timestamp. Labels
+// start with a capital or an uncased letter (as in Korean or Chinese names) and have up to three words.
+const SPEAKER_LINE = /^(?:\[?(\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?)\]?\s+)?([\p{Lu}\p{Lt}\p{Lo}][\p{L}\p{M}\p{N}_.'-]*(?: [\p{L}\p{M}\p{N}_.'-]+){0,2})(?:\s*[[(](\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?)[\])])?\s*:(?:\s+|$)/u;
+
+const CAPTION_LABEL = /^([\p{Lu}\p{Lt}\p{Lo}][\p{L}\p{M}\p{N}_.'-]*(?: [\p{L}\p{M}\p{N}_.'-]+){0,2}):\s+/u;
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+const NOTE_TIMESTAMP = /^\[?(\d{1,2}:\d{2}(?::\d{2})?)\s*(am|pm)?\]?\s*[-–—:]?\s*/i;
+
+export class TranscriptParser {
+  /**
+   * Parse a data source. With format 'auto' the format is detected from the content
+   * (observations default to field notes).
+   */
+  parse(
+    raw: string,
+    format: TranscriptFormat | 'auto' = 'auto',
+    options: { sourceType?: string; interviewers?: string[] } = {}
+  ): ParsedTranscript {
+    const resolved = format === 'auto' ? this.detectFormat(raw, options.sourceType, options.interviewers) : format;
+    const roleOf = (speaker?: string): SpeakerRole => {
+      if (!speaker) return 'unknown';
+      const interviewer = options.interviewers
+        ? options.interviewers.some(name => name.toLowerCase() === speaker.toLowerCase())
+        : INTERVIEWER_LABELS.test(speaker);
+      return interviewer ? 'interviewer' : 'participant';
+    };
+
+    let result: Omit<ParsedTranscript, 'speakers'>;
+    switch (resolved) {
+      case 'speaker':
+        result = { format: resolved, content: raw, turns: this.parseSpeakerLabelled(raw, roleOf, options.interviewers) };
+        break;
+      case 'vtt':
+      case 'srt':
+        result = { format: resolved, ...this.parseCaptions(raw, roleOf, options.interviewers) };
+        break;
+      case 'fieldnotes':
+        result = { format: resolved, content: raw, turns: this.parseFieldNotes(raw) };
+        break;
+      default:
+        result = { format: 'plain', content: raw, turns: [] };
+    }
+
+    return {
+      ...result,
+      speakers: [...new Set(result.turns.map(t => t.speaker).filter((s): s is string => !!s))],
+    };
+  }
+
+  detectFormat(raw: string, sourceType?: string, interviewers?: string[]): TranscriptFormat {
+    const text = raw.replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('WEBVTT')) return 'vtt';
+    if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(text)) return 'srt';
+
+    const labels = text.split(/\r?\n/).map(line => SPEAKER_LINE.exec(line)?.[2].trim()).filter((l): l is string => !!l);
+    const speakers = this.speakerLabels(labels, interviewers);
+    if (labels.filter(label => speakers.has(label)).length >= 2) return 'speaker';
+    return sourceType === 'observation' ? 'fieldnotes' : 'plain';
+  }
+
+  /**
+   * The labels that name speakers: one-word labels ("P1", "María"), interviewers, and longer labels used
+   * on more than one line. A sentence that only happens to contain a colon ("So basically: ...") is not a turn.
+   */
+  private speakerLabels(labels: string[], interviewers?: string[]): Set<string> {
+    const counts = new Map<string, number>();
+    labels.forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+
+    return new Set([...counts].filter(([label, count]) =>
+      count > 1 ||
+      !label.includes(' ') ||
+      (interviewers
+        ? interviewers.some(name => name.toLowerCase() === label.toLowerCase())
+        : INTERVIEWER_LABELS.test(label))
+    ).map(([label]) => label));
+  }
+
+  private parseSpeakerLabelled(
+    raw: string,
+    roleOf: (speaker?: string) => SpeakerRole,
+    interviewers?: string[]
+  ): ParsedTurn[] {
+    const turns: ParsedTurn[] = [];
+    const lines = raw.split('\n');
+    const speakers = this.speakerLabels(
+      lines.map(line => SPEAKER_LINE.exec(line)?.[2].trim()).filter((l): l is string => !!l),
+      interviewers
+    );
+    let offset = 0;
+
+    for (const line of lines) {
+      const candidate = SPEAKER_LINE.exec(line);
+      const match = candidate && speakers.has(candidate[2].trim()) ? candidate : null;
+      const lineText = line.replace(/\r$/, '');
+
+      if (match) {
+        const timestamp = match[1] || match[3];
+        const start = offset + match[0].length;
+        turns.push({
+          index: turns.length,
+          speaker: match[2].trim(),
+          role: roleOf(match[2].trim()),
+          ...(timestamp ? { startTime: parseTimestamp(timestamp) } : {}),
+          startOffset: start,
+          endOffset: offset + lineText.trimEnd().length,
+          text: '',
+        });
+      } else if (turns.length > 0 && lineText.trim()) {
+        // Continuation lines belong to the turn above
+        turns[turns.length - 1].endOffset = offset + lineText.trimEnd().length;
+      }
+      offset += line.length + 1;
+    }
+
+    for (const [i, turn] of turns.entries()) {
+      // A label on a line of its own: the turn starts on the next line
+      const text = raw.slice(turn.startOffset, Math.max(turn.startOffset, turn.endOffset));
+      turn.startOffset += text.length - text.trimStart().length;
+      turn.text = text.trim();
+      if (turn.startTime !== undefined && turns[i + 1]?.startTime !== undefined) {
+        turn.endTime = turns[i + 1].startTime;
+      }
+    }
+    return turns.filter(turn => turn.text.trim().length > 0).map((turn, index) => ({ ...turn, index }));
+  }
+
+  /**
+   * Captions become one turn per run of cues by the same speaker; the stored content is
+   * the spoken text, one "Speaker: text" paragraph per turn
+   */
+  private parseCaptions(
+    raw: string,
+    roleOf: (speaker?: string) => SpeakerRole,
+    interviewers?: string[]
+  ): { content: string; turns: ParsedTurn[] } {
+    const cues: Array<{ speaker?: string; label?: RegExpExecArray; start: number; end: number; text: string }> = [];
+
+    for (const block of raw.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/)) {
+      const lines = block.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+      const timingLine = lines.findIndex(line => CUE_TIMING.test(line));
+      if (timingLine === -1) continue; // header, NOTE and STYLE blocks
+
+      const [, start, end] = CUE_TIMING.exec(lines[timingLine])!;
+      let text = lines.slice(timingLine + 1).join(' ');
+      let speaker = /<v(?:\.[\w.-]+)?\s+([^>]+)>/.exec(text)?.[1]?.trim();
+      text = text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+      const label = speaker ? undefined : CAPTION_LABEL.exec(text) || undefined;
+      if (!speaker && !label && text.startsWith('- ')) {
+        text = text.slice(2);
+      }
+      if (text) cues.push({ speaker, label, start: parseTimestamp(start), end: parseTimestamp(end), text });
+    }
+
+    // Text before a colon names the speaker only when it reads as a speaker label
+    const speakers = this.speakerLabels(cues.flatMap(cue => cue.label ? [cue.label[1].trim()] : []), interviewers);
+    for (const cue of cues) {
+      if (cue.label && speakers.has(cue.label[1].trim())) {
+        cue.speaker = cue.label[1].trim();
+        cue.text = cue.text.slice(cue.label[0].length);
+      }
+    }
+
+    let content = '';
+    const turns: ParsedTurn[] = [];
+    for (const cue of cues) {
+      const last = turns[turns.length - 1];
+      if (last && cue.speaker && last.speaker === cue.speaker) {
+        content += ' ' + cue.text;
+        last.endOffset = content.length;
+        last.endTime = cue.end;
+        last.text = content.slice(last.startOffset);
+        continue;
+      }
+
+      if (content) content += '\n\n';
+      if (cue.speaker) content += `${cue.speaker}: `;
+      const startOffset = content.length;
+      content += cue.text;
+      turns.push({
+        index: turns.length,
+        speaker: cue.speaker,
+        role: roleOf(cue.speaker),
+        startTime: cue.start,
+        endTime: cue.end,
+        startOffset,
+        endOffset: content.length,
+        text: cue.text,
+      });
+    }
+
+    return { content: content ? content + '\n' : '', turns };
+  }
+
+  // One entry per paragraph, timed when it starts with a clock time such as "[10:32]" or "10:32 pm -"
+  private parseFieldNotes(raw: string): ParsedTurn[] {
+    const turns: ParsedTurn[] = [];
+    for (const match of raw.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g)) {
+      const paragraph = match[0].trimEnd();
+      const leading = paragraph.length - paragraph.trimStart().length;
+      const timestamp = NOTE_TIMESTAMP.exec(paragraph.trimStart());
+      const skip = leading + (timestamp ? timestamp[0].length : 0);
+      const start = (match.index || 0) + skip;
+      const text = paragraph.slice(skip);
+      if (!text.trim()) continue;
+
+      let startTime: number | undefined;
+      if (timestamp) {
+        // A clock time has hours and minutes, not minutes and seconds
+        startTime = parseTimestamp(timestamp[1]) * (timestamp[1].split(':').length === 2 ? 60 : 1);
+        if (timestamp[2]) {
+          const hours = Math.floor(startTime / 3600) % 12 + (timestamp[2].toLowerCase() === 'pm' ? 12 : 0);
+          startTime = hours * 3600 + (startTime % 3600);
+        }
+      }
+
+      turns.push({
+        index: turns.length,
+        role: 'observer',
+        ...(startTime !== undefined ? { startTime } : {}),
+        startOffset: start,
+        endOffset: start + text.length,
+        text,
+      });
+    }
+    return turns;
+  }
+}
+
+/**
+ * "01:02:03.500", "02:03,5" or "2:03" as seconds
+ */
+export function parseTimestamp(timestamp: string): number {
+  const parts = timestamp.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Seconds as "HH:MM:SS", the form quotes are cited with
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60]
+    .map(n => String(n).padStart(2, '0'))
+    .join(':');
+}
@@ -0,0 +1,105 @@
+/**
+ * Case Selector - selects a project's data sources (cases) by their source and participant attributes
+ * A data source matches a filter when, for every attribute, one of its values is among those accepted
+ */
+
+import { SQLiteAdapter } from './storage/sqlite-adapter.js';
+import type { Entity, ParticipantAttributes } from '../types/entities.js';
+
+export const DATA_SOURCE_TYPES = ['interview', 'observation', 'document'];
+
+// Accepted values by attribute, e.g. { site: 'North', ageBand: ['25-34', '35-44'] }
+export type CaseFilter = Record<string, string | number | Array<string | number>>;
+
+export class CaseSelector {
+  constructor(private db: SQLiteAdapter) {}
+
+  /**
+   * A data source of the project, by its entity name or by the short name given to addDataSource.
+   * Sources of other projects are not found, whichever name is used.
+   */
+  resolveDataSource(projectName: string, sourceName: string): Entity {
+    const candidates = this.getProjectSources(projectName)
+      .filter(source => source.name === sourceName || source.name.endsWith(`__${sourceName}`));
+    const direct = candidates.find(source => source.name === sourceName);
+    if (direct) {
+      return direct;
+    }
+
+    if (candidates.length === 0) {
+      throw new Error(`Data source "${sourceName}" not found in project "${projectName}". Add it using addDataSource.`);
+    }
+    if (candidates.length > 1) {
+      throw new Error(`Data source name "${sourceName}" is ambiguous. Use one of: ${candidates.map(c => c.name).join(', ')}`);
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * All data sources (interviews, observations, documents) attached to a project, optionally only
+   * the cases matching the filter
+   */
+  getProjectSources(projectName: string, where?: CaseFilter): Entity[] {
+    return this.db.getRelations(projectName, 'part_of')
+      .filter(r => r.to === projectName)
+      .map(r => this.db.getEntity(r.from))
+      .filter((e): e is Entity => e !== null && DATA_SOURCE_TYPES.includes(e.entityType))
+      .filter(source => !where || this.matchesCaseFilter(projectName, source, where));
+  }
+
+  /**
+   * Participants linked to a data source with participated_in
+   */
+  getSourceParticipants(source: Entity): Entity[] {
+    return this.db.getRelations(source.name, 'participated_in')
+      .filter(r => r.to === source.name)
+      .map(r => this.db.getEntity(r.from))
+      .filter((e): e is Entity => e !== null && e.entityType === 'participant');
+  }
+
+  /**
+   * Values of a case attribute for a data source: its short name, its type, its participants, one of
+   * its metadata attributes, or else the attribute of its participants (several for a focus group)
+   */
+  getCaseValues(projectName: string, source: Entity, attribute: string): string[] {
+    if (attribute === 'source') return [source.name.replace(`${projectName}__${source.entityType}__`, '')];
+    if (attribute === 'sourceType') return [source.entityType];
+
+    const participants = this.getSourceParticipants(source);
+    if (attribute === 'participant') {
+      return participants.map(p => p.name.replace(`${projectName}__participant__`, '')).sort();
+    }
+
+    const value = source.metadata?.[attribute];
+    if (value !== undefined && value !== null && value !== '') return [String(value)];
+
+    const values = participants
+      .map(p => (p.metadata?.attributes as ParticipantAttributes | undefined)?.[attribute])
+      .filter(v => v !== undefined && v !== '')
+      .map(String);
+    return [...new Set(values)].sort();
+  }
+
+  /**
+   * Group key of a data source for a case attribute; sources without the attribute share "(no attribute)"
+   */
+  getCaseKey(projectName: string, source: Entity, groupBy: string): string {
+    const values = this.getCaseValues(projectName, source, groupBy);
+    return values.length > 0 ? values.join(', ') : `(no ${groupBy})`;
+  }
+
+  matchesCaseFilter(projectName: string, source: Entity, where: CaseFilter): boolean {
+    return Object.entries(where).every(([attribute, expected]) => {
+      const accepted = (Array.isArray(expected) ? expected : [expected]).map(String);
+      return this.getCaseValues(projectName, source, attribute).some(value => accepted.includes(value));
+    });
+  }
+}
+
+/**
+ * A case filter as a short label, e.g. "site=North, ageBand=25-34|35-44"
+ */
+export function formatCaseFilter(where: CaseFilter): string {
+  return Object.entries(where).map(([attribute, value]) => `${attribute}=${[value].flat().join('|')}`).join(', ');
+}
@@ -0,0 +1,938 @@
+/**
+ * Codebook Manager - applies codebook operations to the knowledge graph
+ * Every operation runs in one transaction and is logged with a snapshot so it can be undone
+ */
+
+import { SQLiteAdapter } from './storage/sqlite-adapter.js';
+import { CodebookOperation, CodebookSnapshot, Entity } from '../types/entities.js';
+import type { Codebook, CodebookEntry } from './exchange/codebook-formats.js';
+
+export interface MergeCodesParams {
+  from: string[];
+  to: string;
+  reason?: string;
+}
+
+export interface MergeResult {
+  operation: CodebookOperation;
+  target: string;
+  retired: string[];
+  movedSegments: number;
+}
+
+export interface RenameCodeParams {
+  code: string;
+  newName: string;
+  definition?: string;
+}
+
+export interface SplitCodeParams {
+  code: string;
+  into: Array<{ name: string; definition?: string; segmentIds: number[] }>;
+  reason?: string;
+}
+
+export interface SubcodeParams {
+  code: string;
+  subcodes: Array<{ name: string; definition?: string; segmentIds: number[] }>;
+}
+
+export interface MoveCodeParams {
+  code: string;
+  parent?: string | null; // null or omitted moves the code to the top level
+  position?: number; // 1-based place among its new siblings (default: last)
+}
+
+export interface CodeGroupParams {
+  group: string;
+  description?: string;
+  add?: string[];
+  remove?: string[];
+}
+
+export interface CodeTreeNode {
+  name: string;
+  label: string;
+  definition: string;
+  depth: number;
+  segments: number; // segments coded with this code itself
+  totalSegments: number; // distinct segments coded with this code or any descendant
+  groups: string[];
+  children: CodeTreeNode[];
+}
+
+export interface ImportResult {
+  operation: CodebookOperation;
+  created: string[];
+  updated: string[];
+  groups: string[];
+}
+
+export interface SplitResult {
+  operation: CodebookOperation;
+  created: string[];
+  movedSegments: number;
+}
+
+export class CodebookManager {
+  constructor(private db: SQLiteAdapter) {}
+
+  /**
+   * Merge codes into a target code: move their segments, relations and theme/memo references, combine
+   * definitions and examples, and retire the merged codes with a derived_from link from the target
+   */
+  mergeCodes(projectName: string, params: MergeCodesParams): MergeResult {
+    const target = this.codeName(projectName, params.to);
+    const sources = [...new Set(params.from.map(name => this.codeName(projectName, name)))]
+      .filter(name => name !== target);
+
+    if (sources.length === 0) {
+      throw new Error('Nothing to merge: give at least one code other than the target');
+    }
+
+    const sourceEntities = sources.map(name => this.requireActiveCode(name));
+    const existingTarget = this.db.getEntity(target);
+    if (existingTarget?.metadata?.retired) {
+      throw new Error(`Code "${this.shortName(projectName, target)}" was retired by operation #${existingTarget.metadata.retired.operationId}`);
+    }
+
+    const reason = params.reason || 'Merged by researcher';
+    const summary = `Merged ${sources.map(s => this.shortName(projectName, s)).join(', ')} into ${this.shortName(projectName, target)}`;
+
+    return this.db.transaction(() => {
+      const references = sources.flatMap(source => this.findReferences(projectName, source));
+      const snapshot = this.db.captureSnapshot([target, ...sources, ...references.map(e => e.name)]);
+      const operationId = this.db.recordCodebookOperation({
+        project: projectName,
+        operationType: 'merge',
+        summary,
+        details: { from: sources, to: target, reason },
+        snapshot,
+      });
+
+      const merged = [existingTarget, ...sourceEntities].filter((e): e is Entity => e !== null);
+      const definition = this.combineDefinitions(merged);
+      const metadata = {
+        ...(existingTarget?.metadata || {}),
+        definition,
+        examples: [...new Set(merged.flatMap(e => (e.metadata?.examples as string[]) || []))].slice(0, 10),
+        frequency: merged.reduce((sum, e) => sum + ((e.metadata?.frequency as number) || 0), 0),
+        inclusionCriteria: this.union(merged, 'inclusionCriteria'),
+        exclusionCriteria: this.union(merged, 'exclusionCriteria'),
+      };
+
+      if (existingTarget) {
+        this.db.updateEntity(target, {
+          observations: [definition, ...existingTarget.observations.slice(1)],
+          metadata,
+        });
+      } else {
+        this.db.createEntity({
+          name: target,
+          entityType: 'code',
+          observations: [definition],
+          metadata: {
+            ...metadata,
+            type: sourceEntities[0].metadata?.type || 'constructed',
+            parent: sourceEntities.find(e => e.metadata?.parent)?.metadata?.parent,
+          },
+        });
+      }
+
+      let movedSegments = 0;
+      for (const source of sourceEntities) {
+        movedSegments += this.db.moveSegmentCodes(source.name, target);
+        this.db.moveRelations(source.name, target, ['derived_from']);
+        this.rewriteReferences(projectName, source.name, [target]);
+
+        this.db.updateEntity(source.name, {
+          metadata: {
+            ...source.metadata,
+            retired: { operationId, mergedInto: target, reason, retiredAt: new Date().toISOString() },
+          },
+        });
+        this.db.createRelation({
+          from: target,
+          to: source.name,
+          relationType: 'derived_from',
+          metadata: { operationId, operation: 'merge' },
+        });
+      }
+
+      // A segment coded with several of the merged codes counts once
+      const coded = this.db.getSegmentsByCode(target).length;
+      if (coded > 0) {
+        this.db.updateEntity(target, { metadata: { ...this.db.getEntity(target)!.metadata, frequency: coded } });
+      }
+
+      return {
+        operation: this.completeOperation(operationId),
+        target,
+        retired: sources,
+        movedSegments,
+      };
+    });
+  }
+
+  /**
+   * Give a code a new name, carrying its segments, relations and every theme, theory and memo reference along
+   */
+  renameCode(projectName: string, params: RenameCodeParams): CodebookOperation {
+    const code = this.requireActiveCode(this.codeName(projectName, params.code));
+    const newName = this.codeName(projectName, this.validateLabel(params.newName));
+
+    if (newName === code.name) {
+      throw new Error('The new name is the same as the current one');
+    }
+    if (this.db.getEntity(newName)) {
+      throw new Error(`Code "${this.shortName(projectName, newName)}" already exists; merge the codes instead`);
+    }
+
+    const summary = `Renamed ${this.shortName(projectName, code.name)} to ${this.shortName(projectName, newName)}`;
+
+    return this.db.transaction(() => {
+      const references = this.findReferences(projectName, code.name);
+      const operationId = this.db.recordCodebookOperation({
+        project: projectName,
+        operationType: 'rename',
+        summary,
+        details: { from: code.name, to: newName },
+        snapshot: this.db.captureSnapshot([code.name, newName, ...references.map(e => e.name)]),
+      });
+
+      const observations = [...code.observations];
+      const metadata = { ...code.metadata };
+      if (params.definition !== undefined) {
+        observations[0] = params.definition;
+        metadata.definition = params.definition;
+      }
+
+      this.db.createEntity({ name: newName, entityType: 'code', observations, metadata });
+      this.db.moveSegmentCodes(code.name, newName);
+      this.db.moveRelations(code.name, newName);
+      this.rewriteReferences(projectName, code.name, [newName]);
+      this.db.deleteEntity(code.name);
+
+      return this.completeOperation(operationId);
+    });
+  }
+
+  /**
+   * Divide a code's segments among two or more new codes. Every segment must be assigned to exactly
+   * one new code; relations and references are copied to all of them and the original code is retired.
+   */
+  splitCode(projectName: string, params: SplitCodeParams): SplitResult {
+    const code = this.requireActiveCode(this.codeName(projectName, params.code));
+    const targets = params.into.map(part => ({ ...part, name: this.codeName(projectName, this.validateLabel(part.name)) }));
+
+    if (targets.length < 2) {
+      throw new Error('A split needs at least two new codes');
+    }
+    if (new Set(targets.map(t => t.name)).size !== targets.length) {
+      throw new Error('The new codes must have different names');
+    }
+    for (const target of targets) {
+      if (this.db.getEntity(target.name)) {
+        throw new Error(`Code "${this.shortName(projectName, target.name)}" already exists`);
+      }
+    }
+
+    const segments = this.db.getSegmentsByCode(code.name);
+    const assignment = new Map<number, string>();
+    for (const target of targets) {
+      for (const id of target.segmentIds) {
+        if (!segments.some(s => s.id === id)) {
+          throw new Error(`Segment #${id} is not coded with "${this.shortName(projectName, code.name)}"`);
+        }
+        if (assignment.has(id)) {
+          throw new Error(`Segment #${id} is assigned to more than one new code`);
+        }
+        assignment.set(id, target.name);
+      }
+    }
+    const unassigned = segments.filter(s => !assignment.has(s.id));
+    if (unassigned.length > 0) {
+      throw new Error(`Assign every segment of the code; missing: ${unassigned.map(s => `#${s.id}`).join(', ')}`);
+    }
+
+    const reason = params.reason || 'Split by researcher';
+    const summary = `Split ${this.shortName(projectName, code.name)} into ${targets.map(t => this.shortName(projectName, t.name)).join(', ')}`;
+    const definition = (code.metadata?.definition as string) || code.observations[0] || '';
+
+    return this.db.transaction(() => {
+      const references = this.findReferences(projectName, code.name);
+      const operationId = this.db.recordCodebookOperation({
+        project: projectName,
+        operationType: 'split',
+        summary,
+        details: { from: code.name, into: targets.map(t => ({ name: t.name, segmentIds: t.segmentIds })), reason },
+        snapshot: this.db.captureSnapshot([code.name, ...targets.map(t => t.name), ...references.map(e => e.name)]),
+      });
+
+      for (const target of targets) {
+        const targetDefinition = target.definition || definition;
+        this.db.createEntity({
+          name: target.name,
+          entityType: 'code',
+          observations: [targetDefinition],
+          metadata: {
+            definition: targetDefinition,
+            examples: segments.filter(s => assignment.get(s.id) === target.name).map(s => s.text.slice(0, 100)).slice(0, 10),
+            frequency: target.segmentIds.length,
+            type: code.metadata?.type || 'constructed',
+            parent: code.metadata?.parent,
+            inclusionCriteria: code.metadata?.inclusionCriteria || [],
+            exclusionCriteria: code.metadata?.exclusionCriteria || [],
+          },
+        });
+        this.db.moveSegmentCodes(code.name, target.name, target.segmentIds);
+      }
+
+      // Segment-anchored relations follow their segment; all others are copied to every new code
+      for (const relation of this.db.getRelations(code.name)) {
+        if (relation.relationType === 'derived_from') continue;
+
+        const segmentTarget = relation.metadata?.segmentId !== undefined ? assignment.get(relation.metadata.segmentId) : undefined;
+        const replacements = segmentTarget ? [segmentTarget] : targets.map(t => t.name);
+        for (const replacement of replacements) {
+          this.db.createRelation({
+            ...relation,
+            from: relation.from === code.name ? replacement : relation.from,
+            to: relation.to === code.name ? replacement : relation.to,
+          });
+        }
+        this.db.deleteRelation(relation.from, relation.to, relation.relationType);
+      }
+
+      this.rewriteReferences(projectName, code.name, targets.map(t => t.name));
+      this.db.updateEntity(code.name, {
+        metadata: {
+          ...code.metadata,
+          retired: { operationId, splitInto: targets.map(t => t.name), reason, retiredAt: new Date().toISOString() },
+        },
+      });
+      for (const target of targets) {
+        this.db.createRelation({
+          from: target.name,
+          to: code.name,
+          relationType: 'derived_from',
+          metadata: { operationId, operation: 'split' },
+        });
+      }
+
+      return {
+        operation: this.completeOperation(operationId),
+        created: targets.map(t => t.name),
+        movedSegments: segments.length,
+      };
+    });
+  }
+
+  /**
+   * Create child codes under a code and move the given segments from the parent to them.
+   * Segments not given to any child stay with the parent.
+   */
+  createSubcodes(projectName: string, params: SubcodeParams): CodebookOperation {
+    const parent = this.requireActiveCode(this.codeName(projectName, params.code));
+    const subcodes = params.subcodes.map(sub => ({ ...sub, name: this.codeName(projectName, this.validateLabel(sub.name)) }));
+
+    if (subcodes.length === 0) {
+      throw new Error('Give at least one subcode');
+    }
+    if (new Set(subcodes.map(s => s.name)).size !== subcodes.length) {
+      throw new Error('The subcodes must have different names');
+    }
+    for (const sub of subcodes) {
+      if (this.db.getEntity(sub.name)) {
+        throw new Error(`Code "${this.shortName(projectName, sub.name)}" already exists`);
+      }
+    }
+
+    const segments = this.db.getSegmentsByCode(parent.name);
+    const assigned = new Set<number>();
+    for (const id of subcodes.flatMap(s => s.segmentIds)) {
+      if (!segments.some(s => s.id === id)) {
+        throw new Error(`Segment #${id} is not coded with "${this.shortName(projectName, parent.name)}"`);
+      }
+      if (assigned.has(id)) {
+        throw new Error(`Segment #${id} is assigned to more than one subcode`);
+      }
+      assigned.add(id);
+    }
+
+    const siblings = this.childrenOf(projectName, parent.name).length;
+    const summary = `Added subcodes ${subcodes.map(s => this.shortName(projectName, s.name)).join(', ')} under ${this.shortName(projectName, parent.name)}`;
+
+    return this.db.transaction(() => {
+      const operationId = this.db.recordCodebookOperation({
+        project: projectName,
+        operationType: 'subcode',
+        summary,
+        details: { parent: parent.name, subcodes: subcodes.map(s => ({ name: s.name, segmentIds: s.segmentIds })) },
+        snapshot: this.db.captureSnapshot([parent.name, ...subcodes.map(s => s.name)]),
+      });
+
+      subcodes.forEach((sub, index) => {
+        const definition = sub.definition || `Aspect of ${this.shortName(projectName, parent.name)}`;
+        this.db.createEntity({
+          name: sub.name,
+          entityType: 'code',
+          observations: [definition],
+          metadata: {
+            definition,
+            examples: segments.filter(s => sub.segmentIds.includes(s.id)).map(s => s.text.slice(0, 100)).slice(0, 10),
+            frequency: sub.segmentIds.length,
+            type: parent.metadata?.type || 'constructed',
+            parent: parent.name,
+            order: siblings + index + 1,
+          },
+        });
+        this.db.moveSegmentCodes(parent.name, sub.name, sub.segmentIds);
+        this.db.moveSegmentRelations(parent.name, sub.name, sub.segmentIds);
+      });
+
+      // A stored subcode proposal is used up once subcodes are created
+      if (parent.metadata?.subcodeProposal) {
+        const { subcodeProposal, ...metadata } = parent.metadata;
+        this.db.updateEntity(parent.name, { metadata });
+      }
+
+      return this.completeOperation(operationId);
+    });
+  }
+
+  /**
+   * Place a code under a new parent (or at the top level) at a given position among its siblings
+   */
+  moveCode(projectName: string, params: MoveCodeParams): CodebookOperation {
+    const code = this.requireActiveCode(this.codeName(projectName, params.code));
+    const parent = params.parent ? this.requireActiveCode(this.codeName(projectName, params.parent)).name : undefined;
+
+    if (parent && (parent === code.name || this.ancestorsOf(parent).includes(code.name))) {
+      throw new Error(`Cannot move "${this.shortName(projectName, code.name)}" under its own descendant`);
+    }
+
+    const oldParent = code.metadata?.parent as string | undefined;
+    const oldSiblings = this.childrenOf(projectName, oldParent).filter(e => e.name !== code.name);
+    const newSiblings = parent === oldParent ? oldSiblings : this.childrenOf(projectName, parent);
+    const position = Math.min(Math.max((params.position || newSiblings.length + 1) - 1, 0), newSiblings.length);
+    const ordered = [...newSiblings.slice(0, position), code, ...newSiblings.slice(position)];
+
+    const summary = `Moved ${this.shortName(projectName, code.name)} ${parent ? `under ${this.shortName(projectName, parent)}` : 'to the top level'} at position ${position + 1}`;
+
+    return this.db.transaction(() => {
+      const operationId = this.db.recordCodebookOperation({
+        project: projectName,
+        operationType: 'move',
+        summary,
+        details: { code: code.name, from: oldParent || null, to: parent || null, position: position + 1 },
+        snapshot: this.db.captureSnapshot([...oldSiblings, ...ordered].map(e => e.name)),
+      });
+
+      const siblingLists = parent === oldParent ? [ordered] : [oldSiblings, ordered];
+      for (const siblings of siblingLists) {
+        siblings.forEach((sibling, index) => {
+          const metadata: Record<string, any> = { ...sibling.metadata, order: index + 1 };
+          if (sibling.name === code.name) {
+            if (parent) {
+              metadata.parent = parent;
+            } else {
+              delete metadata.parent;
+            }
+          }
+          this.db.updateEntity(sibling.name, { metadata });
+        });
+      }
+
+      return this.completeOperation(operationId);
+    });
+  }
+
+  /**
+   * Create a code group or change its description and members. Groups are sets of codes that
+   * cut across branches of the hierarchy, linked to their codes with contains relations.
+   */
+  updateCodeGroup(projectName: string, params: CodeGroupParams): { group: Entity; codes: string[] } {
+    const label = this.validateLabel(params.group);
+    const name = `${projectName}__codeGroup__${label}`;
+    const add = (params.add || []).map(c => this.requireActiveCode(this.codeName(projectName, c)).name);
+    const remove = (params.remove || []).map(c => this.codeName(projectName, c));
+
+    return this.db.transaction(() => {
+      const existing = this.db.getEntity(name);
+      if (!existing) {
+        this.db.createEntity({
+          name,
+          entityType: 'codeGroup',
+          observations: [params.description || ''],
+          metadata: { description: params.description || '' },
+        });
+      } else if (params.description !== undefined) {
+        this.db.updateEntity(name, {
+          observations: [params.description],
+          metadata: { ...existing.metadata, description: params.description },
+        });
+      }
+
+      const members = new Set(this.groupMembers(name));
+      for (const code of add) {
+        if (members.has(code)) continue;
+        this.db.createRelation({ from: name, to: code, relationType: 'contains' });
+        members.add(code);
+      }
+      for (const code of remove) {
+        this.db.deleteRelation(name, code, 'contains');
+        members.delete(code);
+      }
+
+      return { group: this.db.getEntity(name)!, codes: [...members] };
+    });
+  }
+
+  /**
+   * The active codes of a project as a tree, ordered within each level, with segment counts
+   * rolled up from descendants to their ancestors
+   */
+  getCodeTree(projectName: string): CodeTreeNode[] {
+    const codes = this.db.getEntitiesByType('code', projectName).filter(e => !e.metadata?.retired);
+    const names = new Set(codes.map(c => c.name));
+
+    const groups = new Map<string, string[]>();
+    for (const group of this.db.getEntitiesByType('codeGroup', projectName)) {
+      for (const code of this.groupMembers(group.name)) {
+        groups.set(code, [...(groups.get(code) || []), group.name.replace(`${projectName}__codeGroup__`, '')]);
+      }
+    }
+
+    const build = (entity: Entity, depth: number, seen: Set<string>): { node: CodeTreeNode; segmentIds: Set<number> } => {
+      const own = this.db.getSegmentsByCode(entity.name).map(s => s.id);
+      const segmentIds = new Set(own);
+      const children = this.sortSiblings(codes.filter(c => c.metadata?.parent === entity.name && !seen.has(c.name)))
+        .map(child => build(child, depth + 1, new Set([...seen, child.name])));
+      children.forEach(child => child.segmentIds.forEach(id => segmentIds.add(id)));
+
+      return {
+        node: {
+          name: entity.name,
+          label: this.shortName(projectName, entity.name),
+          definition: (entity.metadata?.definition as string) || entity.observations[0] || '',
+          depth,
+          segments: own.length,
+          totalSegments: segmentIds.size,
+          groups: groups.get(entity.name) || [],
+          children: children.map(child => child.node),
+        },
+        segmentIds,
+      };
+    };
+
+    // Codes whose parent is missing or retired are shown at the top level
+    return this.sortSiblings(codes.filter(c => !c.metadata?.parent || !names.has(c.metadata.parent)))
+      .map(root => build(root, 0, new Set([root.name])).node);
+  }
+
+  /**
+   * Add the codes and groups of an external codebook to a project as one undoable operation.
+   * New codes are created with their parent, criteria and examples; codes that already exist keep
+   * their segments and get the imported definition, criteria and examples added.
+   */
+  importCodebook(projectName: string, codebook: Codebook, options: { source?: string } = {}): ImportResult {
+    const entries = codebook.codes.map(code => ({
+      ...code,
+      name: this.validateLabel(code.name),
+      parent: code.parent ? this.validateLabel(code.parent) : undefined,
+    }));
+    if (entries.length === 0) {
+      throw new Error('The codebook has no codes');
+    }
+
+    const labels = new Set<string>();
+    for (const entry of entries) {
+      if (labels.has(entry.name)) {
+        throw new Error(`Code "${entry.name}" appears more than once in the codebook`);
+      }
+      labels.add(entry.name);
+    }
+
+    const existing = new Map<string, Entity>();
+    for (const entry of entries) {
+      const entity = this.db.getEntity(this.codeName(projectName, entry.name));
+      if (!entity) continue;
+      if (entity.entityType !== 'code' || entity.metadata?.retired) {
+        throw new Error(`"${entry.name}" is already used by a ${entity.metadata?.retired ? 'retired code' : entity.entityType} in project "${projectName}"`);
+      }
+      existing.set(entry.name, entity);
+    }
+
+    // Parents must be in the codebook or already in the project, and must not form a cycle
+    const parentOf = new Map<string, string | undefined>();
+    for (const entry of entries) {
+      if (entry.parent && !labels.has(entry.parent)) {
+        this.requireActiveCode(this.codeName(projectName, entry.parent));
+      }
+      const current = existing.get(entry.name)?.metadata?.parent as string | undefined;
+      parentOf.set(entry.name, entry.parent || (current ? this.shortName(projectName, current) : undefined));
+    }
+    for (const entry of entries) {
+      const seen = new Set([entry.name]);
+      let parent = parentOf.get(entry.name);
+      while (parent && parentOf.has(parent)) {
+        if (seen.has(parent)) {
+          throw new Error(`The codebook places "${entry.name}" under its own descendant`);
+        }
+        seen.add(parent);
+        parent = parentOf.get(parent);
+      }
+    }
+
+    const groups = codebook.groups.map(group => ({ ...group, name: this.validateLabel(group.name) }));
+    for (const group of groups) {
+      for (const code of group.codes.filter(c => !labels.has(c))) {
+        this.requireActiveCode(this.codeName(projectName, code));
+      }
+    }
+
+    const names = entries.map(e => this.codeName(projectName, e.name));
+    const groupNames = groups.map(g => `${projectName}__codeGroup__${g.name}`);
+    const created = entries.filter(e => !existing.has(e.name)).map(e => this.codeName(projectName, e.name));
+    const updated = entries.filter(e => existing.has(e.name)).map(e => this.codeName(projectName, e.name));
+    const summary = `Imported ${entries.length} code(s)${options.source ? ` from ${options.source}` : ''}` +
+      ` (${created.length} new, ${updated.length} updated)`;
+
+    return this.db.transaction(() => {
+      const operationId = this.db.recordCodebookOperation({
+        project: projectName,
+        operationType: 'import',
+        summary,
+        details: { source: options.source, created, updated, groups: groupNames },
+        snapshot: this.db.captureSnapshot([...names, ...groupNames]),
+      });
+
+      // New codes go after the existing children of their parent, in codebook order
+      const nextOrder = new Map<string, number>();
+      const order = (parent: string | undefined) => {
+        const key = parent || '';
+        if (!nextOrder.has(key)) nextOrder.set(key, this.childrenOf(projectName, parent).length + 1);
+        const value = nextOrder.get(key)!;
+        nextOrder.set(key, value + 1);
+        return value;
+      };
+
+      const orders = new Map(entries.map(entry => [
+        entry.name,
+        !existing.has(entry.name) || entry.parent ? order(entry.parent ? this.codeName(projectName, entry.parent) : undefined) : undefined,
+      ]));
+
+      for (const entry of entries) {
+        const name = this.codeName(projectName, entry.name);
+        const parent = entry.parent ? this.codeName(projectName, entry.parent) : undefined;
+        const entity = existing.get(entry.name);
+
+        if (!entity) {
+          this.db.createEntity({
+            name,
+            entityType: 'code',
+            observations: [entry.definition],
+            metadata: {
+              definition: entry.definition,
+              examples: entry.examples.slice(0, 10),
+              inclusionCriteria: entry.inclusionCriteria,
+              exclusionCriteria: entry.exclusionCriteria,
+              frequency: 0,
+              type: 'theoretical',
+              ...(parent ? { parent } : {}),
+              order: orders.get(entry.name),
+              ...(entry.color ? { color: entry.color } : {}),
+              ...(entry.guid ? { guid: entry.guid } : {}),
+              imported: { operationId, source: options.source },
+            },
+          });
+          continue;
+        }
+
+        const definition = entry.definition || (entity.metadata?.definition as string) || entity.observations[0] || '';
+        const merged = this.mergeEntry(entity, entry);
+        this.db.updateEntity(name, {
+          observations: [definition, ...entity.observations.slice(1)],
+          metadata: {
+            ...entity.metadata,
+            ...merged,
+            definition,
+            ...(parent && parent !== entity.metadata?.parent ? { parent, order: orders.get(entry.name) } : {}),
+            ...(entry.color ? { color: entry.color } : {}),
+            ...(entry.guid ? { guid: entry.guid } : {}),
+          },
+        });
+      }
+
+      for (const group of groups) {
+        this.updateCodeGroup(projectName, { group: group.name, description: group.description, add: group.codes });
+        if (group.guid) {
+          const entity = this.db.getEntity(`${projectName}__codeGroup__${group.name}`)!;
+          this.db.updateEntity(entity.name, { metadata: { ...entity.metadata, guid: group.guid } });
+        }
+      }
+
+      return {
+        operation: this.completeOperation(operationId),
+        created,
+        updated,
+        groups: groupNames,
+      };
+    });
+  }
+
+  /**
+   * The active codes of a project in tree order, with their groups, ready to be written out
+   */
+  exportCodebook(projectName: string): Codebook {
+    const codes: CodebookEntry[] = [];
+    const visit = (entity: Entity, parent: string | undefined, seen: Set<string>) => {
+      codes.push({
+        name: this.shortName(projectName, entity.name),
+        parent: parent ? this.shortName(projectName, parent) : undefined,
+        definition: (entity.metadata?.definition as string) || entity.observations[0] || '',
+        inclusionCriteria: (entity.metadata?.inclusionCriteria as string[]) || [],
+        exclusionCriteria: (entity.metadata?.exclusionCriteria as string[]) || [],
+        examples: (entity.metadata?.examples as string[]) || [],
+        color: entity.metadata?.color,
+        guid: entity.metadata?.guid,
+      });
+      for (const child of this.childrenOf(projectName, entity.name).filter(c => !seen.has(c.name))) {
+        visit(child, entity.name, new Set([...seen, child.name]));
+      }
+    };
+    for (const root of this.childrenOf(projectName, undefined)) {
+      visit(root, undefined, new Set([root.name]));
+    }
+
+    const exported = new Set(codes.map(c => c.name));
+    const groups = this.db.getEntitiesByType('codeGroup', projectName)
+      .map(group => ({
+        name: group.name.replace(`${projectName}__codeGroup__`, ''),
+        description: (group.metadata?.description as string) || undefined,
+        codes: this.groupMembers(group.name).map(code => this.shortName(projectName, code)).filter(code => exported.has(code)),
+        guid: group.metadata?.guid,
+      }));
+
+    return { codes, groups };
+  }
+
+  /**
+   * Reverse an operation (the most recent one by default) by restoring its snapshot.
+   * Refuses when a later operation that is still in effect touched the same entities.
+   */
+  undo(projectName: string, operationId?: number): CodebookOperation {
+    const operations = this.db.getCodebookOperations(projectName);
+    const operation = operationId === undefined
+      ? operations.find(op => !op.undoneAt)
+      : operations.find(op => op.id === operationId);
+
+    if (!operation) {
+      throw new Error(operationId === undefined
+        ? `No codebook operations to undo in project "${projectName}"`
+        : `Codebook operation #${operationId} not found in project "${projectName}"`);
+    }
+    if (operation.undoneAt) {
+      throw new Error(`Codebook operation #${operation.id} was already undone on ${operation.undoneAt}`);
+    }
+
+    const touched = new Set(operation.snapshot.entities.map(e => e.name));
+    const blocking = operations.filter(op =>
+      op.id > operation.id && !op.undoneAt && op.snapshot.entities.some(e => touched.has(e.name))
+    );
+    if (blocking.length > 0) {
+      throw new Error(`Undo operation(s) ${blocking.map(op => `#${op.id}`).join(', ')} first; they changed the same codes`);
+    }
+
+    // Restoring the snapshot would discard codings, relations or edits made since the operation
+    const changed = this.changedSince(operation);
+    if (changed.length > 0) {
+      throw new Error(
+        `Cannot undo operation #${operation.id}: ${changed.map(name => `"${this.shortName(projectName, name).replace(`${projectName}__`, '')}"`).join(', ')} ` +
+        'changed after it (e.g., new codings), and undoing would discard that work'
+      );
+    }
+
+    this.db.transaction(() => {
+      this.db.restoreSnapshot(operation.snapshot);
+      this.db.markCodebookOperationUndone(operation.id);
+    });
+
+    return this.db.getCodebookOperation(operation.id)!;
+  }
+
+  // Record the state an operation left behind and return the operation
+  private completeOperation(operationId: number): CodebookOperation {
+    this.db.recordCodebookOperationResult(operationId);
+    return this.db.getCodebookOperation(operationId)!;
+  }
+
+  /**
+   * Snapshotted entities whose entity, relations or code applications differ from how the operation
+   * left them. Operations recorded before results were kept cannot be checked.
+   */
+  private changedSince(operation: CodebookOperation): string[] {
+    if (!operation.result) return [];
+    const current = this.db.captureSnapshot(operation.snapshot.entities.map(e => e.name));
+
+    const stateOf = (snapshot: CodebookSnapshot, name: string) => {
+      const entity = snapshot.entities.find(e => e.name === name)?.entity;
+      return JSON.stringify({
+        entity: entity ? [entity.entityType, entity.observations, entity.metadata ?? null] : null,
+        relations: snapshot.relations
+          .filter(r => r.from === name || r.to === name)
+          .map(r => JSON.stringify([r.from, r.to, r.relationType, r.metadata ?? null]))
+          .sort(),
+        codings: snapshot.segmentCodes
+          .filter(c => c.code === name)
+          .map(c => `${c.segmentId}|${c.coder}|${c.pass}`)
+          .sort(),
+      });
+    };
+
+    return current.entities
+      .map(e => e.name)
+      .filter(name => stateOf(current, name) !== stateOf(operation.result!, name));
+  }
+
+  private codeName(projectName: string, name: string): string {
+    return name.startsWith(`${projectName}__code__`) ? name : `${projectName}__code__${name}`;
+  }
+
+  private shortName(projectName: string, name: string): string {
+    return name.replace(`${projectName}__code__`, '');
+  }
+
+  private validateLabel(label: string): string {
+    const trimmed = label.trim();
+    if (trimmed.length === 0 || trimmed.includes('__')) {
+      throw new Error(`Invalid code name "${label}": it must be non-empty and must not contain "__"`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Child codes, themes, the grounded theory and memos of the project that mention a code by name
+   */
+  private findReferences(projectName: string, code: string): Entity[] {
+    const short = this.shortName(projectName, code);
+    const children = this.db.getEntitiesByType('code', projectName)
+      .filter(e => e.metadata?.parent === code);
+    const themes = this.db.getEntitiesByType('theme', projectName)
+      .filter(e => ((e.metadata?.theme?.supportingCodes as string[]) || []).includes(short));
+    const memos = this.db.getEntitiesByType('memo', projectName)
+      .filter(e => ((e.metadata?.linkedEntities as string[]) || []).includes(code));
+    const theory = this.db.getEntity(`${projectName}__theory`);
+    const theoryCategories = (theory?.metadata?.theory?.supportingCategories as Array<{ relatedCodes: string[] }>) || [];
+
+    return [
+      ...children,
+      ...themes,
+      ...memos,
+      ...(theory && theoryCategories.some(c => c.relatedCodes.includes(short)) ? [theory] : []),
+    ];
+  }
+
+  /**
+   * Replace a code name with its replacement(s) in child code, theme, theory and memo metadata.
+   * Children of a code that is split move up to its parent, since they cannot belong to every part.
+   */
+  private rewriteReferences(projectName: string, code: string, replacements: string[]): void {
+    const short = this.shortName(projectName, code);
+    const shortReplacements = replacements.map(r => this.shortName(projectName, r));
+    const ownParent = this.db.getEntity(code)?.metadata?.parent as string | undefined;
+
+    for (const entity of this.findReferences(projectName, code)) {
+      const metadata = structuredClone(entity.metadata!);
+
+      if (entity.entityType === 'code') {
+        const parent = replacements.length === 1 && replacements[0] !== entity.name ? replacements[0] : ownParent;
+        if (parent) {
+          metadata.parent = parent;
+        } else {
+          delete metadata.parent;
+        }
+      } else if (entity.entityType === 'theme') {
+        metadata.theme.supportingCodes = this.replaceIn(metadata.theme.supportingCodes, short, shortReplacements);
+      } else if (entity.entityType === 'memo') {
+        metadata.linkedEntities = this.replaceIn(metadata.linkedEntities, code, replacements);
+      } else {
+        for (const category of metadata.theory.supportingCategories) {
+          category.relatedCodes = this.replaceIn(category.relatedCodes, short, shortReplacements);
+        }
+      }
+
+      this.db.updateEntity(entity.name, { metadata });
+    }
+  }
+
+  private replaceIn(list: string[], value: string, replacements: string[]): string[] {
+    return [...new Set(list.flatMap(item => (item === value ? replacements : [item])))];
+  }
+
+  private requireActiveCode(name: string): Entity {
+    const entity = this.db.getEntity(name);
+    if (!entity || entity.entityType !== 'code') {
+      throw new Error(`Code "${name}" not found`);
+    }
+    if (entity.metadata?.retired) {
+      throw new Error(`Code "${name}" was already retired by operation #${entity.metadata.retired.operationId}`);
+    }
+    return entity;
+  }
+
+  private combineDefinitions(entities: Entity[]): string {
+    const definitions = entities
+      .map(e => ((e.metadata?.definition as string) || e.observations[0] || '').trim())
+      .filter(d => d.length > 0);
+
+    return [...new Set(definitions)].join('; ');
+  }
+
+  private mergeEntry(entity: Entity, entry: CodebookEntry): Record<string, string[]> {
+    const combine = (key: string, values: string[], limit?: number) =>
+      [...new Set([...((entity.metadata?.[key] as string[]) || []), ...values])].slice(0, limit);
+
+    return {
+      examples: combine('examples', entry.examples, 10),
+      inclusionCriteria: combine('inclusionCriteria', entry.inclusionCriteria),
+      exclusionCriteria: combine('exclusionCriteria', entry.exclusionCriteria),
+    };
+  }
+
+  private union(entities: Entity[], key: 'inclusionCriteria' | 'exclusionCriteria'): string[] {
+    return [...new Set(entities.flatMap(e => (e.metadata?.[key] as string[]) || []))];
+  }
+
+  private childrenOf(projectName: string, parent: string | undefined): Entity[] {
+    const codes = this.db.getEntitiesByType('code', projectName).filter(e => !e.metadata?.retired);
+    const names = new Set(codes.map(c => c.name));
+
+    return this.sortSiblings(codes.filter(c => parent
+      ? c.metadata?.parent === parent
+      : !c.metadata?.parent || !names.has(c.metadata.parent)));
+  }
+
+  private ancestorsOf(name: string): string[] {
+    const ancestors: string[] = [];
+    let parent = this.db.getEntity(name)?.metadata?.parent as string | undefined;
+    while (parent && !ancestors.includes(parent)) {
+      ancestors.push(parent);
+      parent = this.db.getEntity(parent)?.metadata?.parent;
+    }
+    return ancestors;
+  }
+
+  // Explicitly ordered codes first, the rest alphabetically
+  private sortSiblings(codes: Entity[]): Entity[] {
+    return [...codes].sort((a, b) =>
+      ((a.metadata?.order as number) ?? Infinity) - ((b.metadata?.order as number) ?? Infinity) ||
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  private groupMembers(group: string): string[] {
+    return this.db.getRelations(group, 'contains').filter(r => r.from === group).map(r => r.to);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Coding Store - saves the codes and coded segments of coding runs to the knowledge graph
+ * Segments and codings are deduplicated, so a code's frequency counts the segments it is applied to
+ * and does not grow when the same source is coded again
+ */
+
+import { SQLiteAdapter } from './storage/sqlite-adapter.js';
+import type { Entity } from '../types/entities.js';
+import type { Code, CodingResult } from '../analysis/coding-engine.js';
+
+export class CodingStore {
+  constructor(private db: SQLiteAdapter) {}
+
+  /**
+   * Create or update a code entity, merging examples. Frequency is the number of coded segments once
+   * the code has any; codes saved without segments accumulate the frequency of each run. A code merged
+   * into another is saved as that code, and a code retired by a split is taken up again.
+   */
+  saveCode(projectName: string, code: Code): string {
+    const codeName = this.activeCodeName(`${projectName}__code__${code.name}`);
+    const existing = this.db.getEntity(codeName);
+
+    if (!existing) {
+      this.db.createEntity({
+        name: codeName,
+        entityType: 'code',
+        observations: [code.definition],
+        metadata: {
+          definition: code.definition,
+          examples: code.examples.slice(0, 10),
+          frequency: code.frequency,
+          type: code.type,
+        },
+      });
+      return codeName;
+    }
+
+    // The codes a split created stay as they are; the split code only counts its new codings
+    const { retired, ...metadata } = existing.metadata || {};
+    const examples = [...((metadata.examples as string[]) || []), ...code.examples];
+    const segments = this.db.getSegmentsByCode(codeName).length;
+    const frequency = retired ? 0 : (metadata.frequency as number) || 0;
+    this.db.updateEntity(codeName, {
+      metadata: {
+        ...metadata,
+        examples: [...new Set(examples)].slice(0, 10),
+        frequency: segments > 0 ? segments : frequency + code.frequency,
+      },
+    });
+    return codeName;
+  }
+
+  // Follow merges to the code a retired code lives on in
+  private activeCodeName(codeName: string): string {
+    const seen = new Set<string>();
+    let entity = this.db.getEntity(codeName);
+    while (entity?.metadata?.retired?.mergedInto && !seen.has(entity.name)) {
+      seen.add(entity.name);
+      codeName = entity.metadata.retired.mergedInto as string;
+      entity = this.db.getEntity(codeName);
+    }
+    return codeName;
+  }
+
+  /**
+   * Offset of a text in the content of a data source, so that a run on an excerpt can be saved against
+   * the source. Text that is not part of the source is refused.
+   */
+  locateText(source: Entity, text: string): number {
+    const content = (source.metadata?.content as string) || '';
+    const offset = text.length > 0 ? content.indexOf(text) : -1;
+    if (offset === -1) {
+      throw new Error(`The text to code is not part of data source "${source.name}"; code the source itself or an excerpt of its content`);
+    }
+    return offset;
+  }
+
+  /**
+   * Save the codes and coded segments of one coding run against a data source. Only codings not
+   * already stored are added; the counts returned are of what this run added.
+   */
+  saveCodingResult(
+    projectName: string,
+    source: Entity,
+    result: Pick<CodingResult, 'codes' | 'segments'>,
+    attribution: { coder?: string; pass?: string } = {}
+  ): {
+    codes: number;
+    segments: number;
+  } {
+    return this.db.transaction(() => {
+      const codeNames = new Map<string, string>();
+      for (const code of result.codes) {
+        codeNames.set(code.name, this.saveCode(projectName, code));
+      }
+
+      let segments = 0;
+      const coded = new Set<string>();
+      for (const segment of result.segments) {
+        if (segment.codes.length === 0) continue;
+
+        const turn = this.db.getTurnAt(source.name, segment.startIndex);
+        const segmentId = this.db.createSegment({
+          source: source.name,
+          startOffset: segment.startIndex,
+          endOffset: segment.endIndex,
+          text: segment.text,
+          metadata: turn ? {
+            turn: turn.index,
+            speaker: turn.speaker,
+            role: turn.role,
+            startTime: turn.startTime,
+          } : undefined,
+        });
+
+        let added = false;
+        for (const code of segment.codes) {
+          const codeName = codeNames.get(code) || this.activeCodeName(`${projectName}__code__${code}`);
+          if (!this.db.addSegmentCode(segmentId, codeName, attribution)) continue;
+
+          added = true;
+          coded.add(codeName);
+          this.db.createRelation({
+            from: codeName,
+            to: source.name,
+            relationType: 'codes',
+            metadata: {
+              segmentId,
+              startIndex: segment.startIndex,
+              endIndex: segment.endIndex,
+            },
+          });
+        }
+        if (added) segments++;
+      }
+
+      // Frequencies follow the stored codings, whatever the run itself counted
+      for (const codeName of new Set([...codeNames.values(), ...coded])) {
+        const entity = this.db.getEntity(codeName);
+        const frequency = this.db.getSegmentsByCode(codeName).length;
+        if (entity && frequency > 0) {
+          this.db.updateEntity(codeName, { metadata: { ...entity.metadata, frequency } });
+        }
+      }
+
+      return { codes: codeNames.size, segments };
+    });
+  }
+}
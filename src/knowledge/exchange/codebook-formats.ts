@@ -0,0 +1,357 @@
+/**
+ * Codebook formats - reading and writing codebooks as CSV, JSON and REFI-QDA codebook XML (.qdc)
+ */
+
+import { randomUUID } from 'crypto';
+import { parseXml, renderXml, xmlElement, childElement, childElements } from './xml.js';
+import type { XmlElement } from './xml.js';
+
+export type CodebookFormat = 'csv' | 'json' | 'qdc';
+
+export const CODEBOOK_FORMATS: CodebookFormat[] = ['csv', 'json', 'qdc'];
+
+export const QDC_NAMESPACE = 'urn:QDA-XML:codebook:1.0';
+
+export interface CodebookEntry {
+  name: string;
+  parent?: string; // name of the parent code
+  definition: string;
+  inclusionCriteria: string[];
+  exclusionCriteria: string[];
+  examples: string[];
+  color?: string;
+  guid?: string; // REFI-QDA identifier, kept so that re-exports match
+}
+
+export interface CodebookGroup {
+  name: string;
+  description?: string;
+  codes: string[];
+  guid?: string;
+}
+
+export interface Codebook {
+  codes: CodebookEntry[];
+  groups: CodebookGroup[];
+}
+
+const CSV_COLUMNS = ['name', 'parent', 'definition', 'inclusion', 'exclusion', 'example'] as const;
+
+// Spreadsheet headings accepted for each CSV column
+const CSV_ALIASES: Record<typeof CSV_COLUMNS[number], string[]> = {
+  name: ['name', 'code', 'code name', 'label'],
+  parent: ['parent', 'parent code', 'category'],
+  definition: ['definition', 'description', 'meaning'],
+  inclusion: ['inclusion', 'inclusion criteria', 'include', 'when to use'],
+  exclusion: ['exclusion', 'exclusion criteria', 'exclude', 'when not to use'],
+  example: ['example', 'examples', 'anchor example'],
+};
+
+// Labelled lines that carry criteria and examples inside a REFI-QDA code description
+const DESCRIPTION_LABELS: Array<[RegExp, 'inclusionCriteria' | 'exclusionCriteria' | 'examples', string]> = [
+  [/^inclusion( criteria)?:\s*/i, 'inclusionCriteria', 'Inclusion'],
+  [/^exclusion( criteria)?:\s*/i, 'exclusionCriteria', 'Exclusion'],
+  [/^examples?:\s*/i, 'examples', 'Example'],
+];
+
+export function parseCodebook(content: string, format: CodebookFormat): Codebook {
+  switch (format) {
+    case 'csv':
+      return parseCsvCodebook(content);
+    case 'json':
+      return parseJsonCodebook(content);
+    case 'qdc':
+      return codebookFromXml(parseXml(content));
+  }
+}
+
+export function formatCodebook(codebook: Codebook, format: CodebookFormat, options: { projectName?: string } = {}): string {
+  switch (format) {
+    case 'csv':
+      return formatCsvCodebook(codebook);
+    case 'json':
+      return formatJsonCodebook(codebook, options.projectName);
+    case 'qdc':
+      return renderXml(
+        xmlElement('CodeBook', { origin: 'qualai-mcp' }, codebookToXml(codebook)),
+        QDC_NAMESPACE
+      );
+  }
+}
+
+/**
+ * Guess the format from a file name, falling back to the content
+ */
+export function detectCodebookFormat(content: string, fileName?: string): CodebookFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension && (CODEBOOK_FORMATS as string[]).includes(extension)) {
+    return extension as CodebookFormat;
+  }
+  const start = content.trimStart();
+  if (start.startsWith('<')) return 'qdc';
+  if (start.startsWith('{') || start.startsWith('[')) return 'json';
+  return 'csv';
+}
+
+/**
+ * Read the <Codes> and <Sets> of a REFI-QDA codebook or project element
+ */
+export function codebookFromXml(root: XmlElement): Codebook {
+  const codes: CodebookEntry[] = [];
+  const byGuid = new Map<string, string>();
+
+  // Other tools allow the same name in different branches; code names here must be unique
+  const used = new Set<string>();
+  const uniqueName = (label: string, parent?: string) => {
+    const base = label.replace(/_{2,}/g, '_');
+    let name = used.has(base) && parent ? `${base} (${parent})` : base;
+    for (let n = 2; used.has(name); n++) name = `${base} ${n}`;
+    used.add(name);
+    return name;
+  };
+
+  const visit = (element: XmlElement, parent?: string) => {
+    const label = element.attributes.name?.trim();
+    if (!label) throw new Error('Every <Code> needs a name attribute');
+    const name = uniqueName(label, parent);
+
+    const description = childElement(element, 'Description')?.text || '';
+    codes.push({
+      name,
+      parent,
+      ...parseDescription(description),
+      color: element.attributes.color,
+      guid: element.attributes.guid,
+    });
+    if (element.attributes.guid) byGuid.set(element.attributes.guid, name);
+
+    for (const child of childElements(element, 'Code')) visit(child, name);
+  };
+
+  const codesElement = root.name === 'Codes' ? root : childElement(root, 'Codes');
+  for (const code of codesElement ? childElements(codesElement, 'Code') : []) visit(code);
+
+  const setsElement = childElement(root, 'Sets');
+  const groups = (setsElement ? childElements(setsElement, 'Set') : []).map(set => ({
+    name: set.attributes.name?.trim() || 'set',
+    description: childElement(set, 'Description')?.text.trim() || undefined,
+    codes: childElements(set, 'MemberCode')
+      .map(member => byGuid.get(member.attributes.targetGUID))
+      .filter((name): name is string => name !== undefined),
+    guid: set.attributes.guid,
+  }));
+
+  return { codes, groups };
+}
+
+/**
+ * The <Codes> and <Sets> elements for a codebook, nested by parent
+ */
+export function codebookToXml(codebook: Codebook): XmlElement[] {
+  const guids = new Map(codebook.codes.map(code => [code.name, code.guid || randomUUID()]));
+  const names = new Set(codebook.codes.map(code => code.name));
+
+  const build = (code: CodebookEntry): XmlElement => {
+    const description = formatDescription(code);
+    return xmlElement(
+      'Code',
+      { guid: guids.get(code.name), name: code.name, isCodable: true, color: code.color },
+      [
+        ...(description ? [xmlElement('Description', {}, [], description)] : []),
+        ...codebook.codes.filter(child => child.parent === code.name).map(build),
+      ]
+    );
+  };
+
+  const elements = [
+    xmlElement('Codes', {}, codebook.codes.filter(code => !code.parent || !names.has(code.parent)).map(build)),
+  ];
+
+  if (codebook.groups.length > 0) {
+    elements.push(xmlElement('Sets', {}, codebook.groups.map(group => xmlElement(
+      'Set',
+      { guid: group.guid || randomUUID(), name: group.name },
+      [
+        ...(group.description ? [xmlElement('Description', {}, [], group.description)] : []),
+        ...group.codes
+          .filter(code => guids.has(code))
+          .map(code => xmlElement('MemberCode', { targetGUID: guids.get(code) })),
+      ]
+    ))));
+  }
+
+  return elements;
+}
+
+function parseDescription(description: string): Pick<CodebookEntry, 'definition' | 'inclusionCriteria' | 'exclusionCriteria' | 'examples'> {
+  const result = { definition: '', inclusionCriteria: [] as string[], exclusionCriteria: [] as string[], examples: [] as string[] };
+  const definition: string[] = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const label = DESCRIPTION_LABELS.find(([pattern]) => pattern.test(trimmed));
+    if (label) {
+      const value = trimmed.replace(label[0], '').trim();
+      if (value) result[label[1]].push(value);
+    } else if (trimmed) {
+      definition.push(trimmed);
+    }
+  }
+
+  result.definition = definition.join(' ');
+  return result;
+}
+
+function formatDescription(code: CodebookEntry): string {
+  const lines = code.definition ? [code.definition] : [];
+  for (const [, key, label] of DESCRIPTION_LABELS) {
+    for (const value of code[key]) lines.push(`${label}: ${value}`);
+  }
+  return lines.join('\n');
+}
+
+function parseCsvCodebook(content: string): Codebook {
+  const rows = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) return { codes: [], groups: [] };
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const column = (key: typeof CSV_COLUMNS[number]) => header.findIndex(h => CSV_ALIASES[key].includes(h));
+  const indexes = Object.fromEntries(CSV_COLUMNS.map(key => [key, column(key)])) as Record<typeof CSV_COLUMNS[number], number>;
+  if (indexes.name === -1) {
+    throw new Error(`CSV codebook needs a "name" column (found: ${rows[0].join(', ')})`);
+  }
+
+  const cell = (row: string[], key: typeof CSV_COLUMNS[number]) => (indexes[key] === -1 ? '' : (row[indexes[key]] || '').trim());
+
+  return {
+    codes: rows.slice(1).map(row => ({
+      name: cell(row, 'name'),
+      parent: cell(row, 'parent') || undefined,
+      definition: cell(row, 'definition'),
+      inclusionCriteria: splitList(cell(row, 'inclusion')),
+      exclusionCriteria: splitList(cell(row, 'exclusion')),
+      examples: cell(row, 'example') ? cell(row, 'example').split(/\r?\n/).map(e => e.trim()).filter(Boolean) : [],
+    })).filter(code => code.name !== ''),
+    groups: [],
+  };
+}
+
+function formatCsvCodebook(codebook: Codebook): string {
+  const lines = [
+    [...CSV_COLUMNS],
+    ...codebook.codes.map(code => [
+      code.name,
+      code.parent || '',
+      code.definition,
+      code.inclusionCriteria.join('\n'),
+      code.exclusionCriteria.join('\n'),
+      code.examples.join('\n'),
+    ]),
+  ];
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Accepts an array of codes or { codes, groups }, with codes in the project's Code entity shape
+ * (definition, examples, inclusionCriteria, exclusionCriteria; parent directly or in metadata)
+ */
+function parseJsonCodebook(content: string): Codebook {
+  const data = JSON.parse(content);
+  const codes: any[] = Array.isArray(data) ? data : data?.codes;
+  if (!Array.isArray(codes)) {
+    throw new Error('JSON codebook must be an array of codes or an object with a "codes" array');
+  }
+
+  const label = (name: unknown) => {
+    const text = String(name ?? '').trim();
+    return text.includes('__code__') ? text.slice(text.lastIndexOf('__code__') + 8) : text;
+  };
+  const list = (value: unknown) => (Array.isArray(value) ? value.map(String) : typeof value === 'string' ? splitList(value) : []);
+
+  return {
+    codes: codes.map(code => ({
+      name: label(code.name),
+      parent: code.parent || code.metadata?.parent ? label(code.parent || code.metadata.parent) : undefined,
+      definition: String(code.definition ?? code.metadata?.definition ?? code.observations?.[0] ?? ''),
+      inclusionCriteria: list(code.inclusionCriteria ?? code.metadata?.inclusionCriteria),
+      exclusionCriteria: list(code.exclusionCriteria ?? code.metadata?.exclusionCriteria),
+      examples: list(code.examples ?? code.metadata?.examples),
+      color: code.color ?? code.metadata?.color,
+      guid: code.guid ?? code.metadata?.guid,
+    })).filter(code => code.name !== ''),
+    groups: (Array.isArray(data?.groups) ? data.groups : []).map((group: any) => ({
+      name: String(group.name),
+      description: group.description,
+      codes: (group.codes || []).map(label),
+      guid: group.guid,
+    })),
+  };
+}
+
+function formatJsonCodebook(codebook: Codebook, projectName?: string): string {
+  return JSON.stringify({
+    project: projectName,
+    exportedAt: new Date().toISOString(),
+    codes: codebook.codes.map(code => ({
+      name: code.name,
+      entityType: 'code',
+      observations: [code.definition],
+      definition: code.definition,
+      examples: code.examples,
+      inclusionCriteria: code.inclusionCriteria,
+      exclusionCriteria: code.exclusionCriteria,
+      metadata: { parent: code.parent, color: code.color, guid: code.guid },
+    })),
+    groups: codebook.groups,
+  }, null, 2) + '\n';
+}
+
+// Criteria cells hold one criterion per line, or several separated by semicolons
+function splitList(value: string): string[] {
+  const items = /\r?\n/.test(value) ? value.split(/\r?\n/) : value.split(';');
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
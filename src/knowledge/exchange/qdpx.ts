@@ -0,0 +1,468 @@
+/**
+ * Project Exchange - REFI-QDA project (.qdpx) import and export
+ *
+ * A .qdpx file is a ZIP archive with the project in project.qde and the plain text of each
+ * source under sources/. Sources map to data source entities, codes to code entities, coded
+ * selections to segments with their code applications (coder and analytic pass), notes to memos
+ * and sets to code groups.
+ */
+
+import { randomUUID } from 'crypto';
+import { SQLiteAdapter } from '../storage/sqlite-adapter.js';
+import { CodebookManager } from '../codebook-manager.js';
+import { CodebookOperation, Entity } from '../../types/entities.js';
+import { codebookFromXml, codebookToXml } from './codebook-formats.js';
+import { parseXml, renderXml, xmlElement, childElement, childElements } from './xml.js';
+import type { XmlElement } from './xml.js';
+import { readZip, writeZip } from './zip.js';
+import { TranscriptParser } from '../../ingestion/transcript-parser.js';
+
+export const QDPX_NAMESPACE = 'urn:QDA-XML:project:1.0';
+
+// Extension attributes for what REFI-QDA has no place for, such as the analytic pass of a coding
+export const QUALAI_NAMESPACE = 'urn:qualai-mcp:qdpx:1.0';
+
+const SOURCE_TYPES = ['interview', 'observation', 'document'];
+
+export interface ProjectExchangeCounts {
+  users: number;
+  sources: number;
+  codes: number;
+  segments: number;
+  codings: number;
+  memos: number;
+  sets: number;
+}
+
+export interface ProjectExportResult extends ProjectExchangeCounts {
+  archive: Buffer;
+  skipped: string[]; // segments whose text could not be located in their source
+}
+
+export interface ProjectImportResult extends ProjectExchangeCounts {
+  project: string;
+  operation?: CodebookOperation; // the codebook import, undoable on its own
+  skipped: string[]; // sources without plain text, such as PDF, image or audio sources
+}
+
+export class ProjectExchange {
+  private transcriptParser = new TranscriptParser();
+
+  constructor(private db: SQLiteAdapter, private codebookManager: CodebookManager) {}
+
+  exportProject(projectName: string): ProjectExportResult {
+    const project = this.db.getEntity(projectName);
+    if (!project || project.entityType !== 'project') {
+      throw new Error(`Project "${projectName}" not found`);
+    }
+
+    const skipped: string[] = [];
+    const files = new Map<string, Buffer>();
+    const users = new Map<string, string>();
+    const userGuid = (name: string) => {
+      if (!users.has(name)) users.set(name, randomUUID());
+      return users.get(name)!;
+    };
+
+    const codebook = this.codebookManager.exportCodebook(projectName);
+    for (const code of codebook.codes) code.guid ||= randomUUID();
+    const codeGuids = new Map(codebook.codes.map(code => [`${projectName}__code__${code.name}`, code.guid!]));
+
+    const memos = this.db.getEntitiesByType('memo', projectName)
+      .map(memo => ({ memo, guid: (memo.metadata?.guid as string) || randomUUID() }));
+    const noteRefs = (matches: (memo: Entity) => boolean) => memos
+      .filter(({ memo }) => matches(memo))
+      .map(({ guid }) => xmlElement('NoteRef', { targetGUID: guid }));
+    const linksTo = (name: string) => (memo: Entity) => ((memo.metadata?.linkedEntities as string[]) || []).includes(name);
+
+    const sources = this.projectSources(projectName);
+    const sourceGuids = new Map<string, string>();
+    const sourceElements = sources.map(source => {
+      const guid = (source.metadata?.guid as string) || randomUUID();
+      const content = (source.metadata?.content as string) || '';
+      sourceGuids.set(source.name, guid);
+      files.set(`sources/${guid}.txt`, Buffer.from(content, 'utf-8'));
+
+      const codings = this.db.getCodings(source.name);
+      const selections = this.db.getSegmentsBySource(source.name).flatMap(segment => {
+        const range = this.locate(content, segment.startOffset, segment.endOffset, segment.text);
+        if (!range) {
+          skipped.push(`segment #${segment.id} in ${source.name}`);
+          return [];
+        }
+
+        const segmentCodings = codings.filter(c => c.segmentId === segment.id && codeGuids.has(c.code));
+        const description = segment.metadata?.description as string | undefined;
+        return [xmlElement('PlainTextSelection', {
+          guid: (segment.metadata?.guid as string) || randomUUID(),
+          name: segment.text.slice(0, 60),
+          startPosition: toCodePoints(content, range[0]),
+          endPosition: toCodePoints(content, range[1]),
+          creatingUser: segmentCodings.length > 0 ? userGuid(segmentCodings[0].coder) : undefined,
+        }, [
+          ...(description ? [xmlElement('Description', {}, [], description)] : []),
+          ...segmentCodings.map(coding => xmlElement('Coding', {
+            guid: randomUUID(),
+            creatingUser: userGuid(coding.coder),
+            'qualai:pass': coding.pass,
+          }, [
+            xmlElement('CodeRef', { targetGUID: codeGuids.get(coding.code) }),
+          ])),
+          ...noteRefs(memo => ((memo.metadata?.segmentIds as number[]) || []).includes(segment.id)),
+        ])];
+      });
+
+      return xmlElement('TextSource', {
+        guid,
+        name: source.name.replace(`${projectName}__${source.entityType}__`, ''),
+        plainTextPath: `internal://${guid}.txt`,
+      }, [
+        xmlElement('Description', {}, [], labelledLines({ Type: [source.entityType] }, source.metadata?.description)),
+        ...selections,
+        ...noteRefs(linksTo(source.name)),
+      ]);
+    });
+
+    const [codesElement] = codebookToXml({ codes: codebook.codes, groups: [] });
+    this.addCodeNoteRefs(codesElement, guid => {
+      const code = [...codeGuids].find(([, g]) => g === guid)?.[0];
+      return code ? noteRefs(linksTo(code)) : [];
+    });
+
+    const noteElements = memos.map(({ memo, guid }) => xmlElement('Note', {
+      guid,
+      name: memo.name.replace(`${projectName}__memo__`, ''),
+      creatingUser: memo.metadata?.author ? userGuid(memo.metadata.author as string) : undefined,
+    }, [
+      xmlElement('Description', {}, [], labelledLines({ Type: [(memo.metadata?.memoType as string) || 'analytical'] })),
+      xmlElement('PlainTextContent', {}, [], (memo.metadata?.content as string) || memo.observations.join('\n')),
+    ]));
+
+    const setElements = codebook.groups.map(group => {
+      const groupName = `${projectName}__codeGroup__${group.name}`;
+      const memberSources = this.db.getRelations(groupName, 'contains')
+        .filter(r => r.from === groupName && sourceGuids.has(r.to))
+        .map(r => xmlElement('MemberSource', { targetGUID: sourceGuids.get(r.to) }));
+      return xmlElement('Set', { guid: group.guid || randomUUID(), name: group.name }, [
+        ...(group.description ? [xmlElement('Description', {}, [], group.description)] : []),
+        ...group.codes.map(code => xmlElement('MemberCode', { targetGUID: codeGuids.get(`${projectName}__code__${code}`) })),
+        ...memberSources,
+      ]);
+    });
+
+    const root = xmlElement('Project', {
+      'xmlns:qualai': QUALAI_NAMESPACE,
+      name: projectName,
+      origin: 'qualai-mcp',
+      creationDateTime: new Date().toISOString(),
+    }, [
+      xmlElement('Users', {}, [...users].map(([name, guid]) => xmlElement('User', { guid, name }))),
+      xmlElement('CodeBook', {}, [codesElement]),
+      xmlElement('Sources', {}, sourceElements),
+      ...(noteElements.length > 0 ? [xmlElement('Notes', {}, noteElements)] : []),
+      ...(setElements.length > 0 ? [xmlElement('Sets', {}, setElements)] : []),
+      xmlElement('Description', {}, [], labelledLines({
+        'Research question': (project.metadata?.researchQuestions as string[]) || [],
+        Methodology: project.metadata?.methodology ? [project.metadata.methodology as string] : [],
+      })),
+    ]);
+    files.set('project.qde', Buffer.from(renderXml(root, QDPX_NAMESPACE), 'utf-8'));
+
+    const segments = sourceElements.flatMap(s => childElements(s, 'PlainTextSelection'));
+    return {
+      archive: writeZip(files),
+      users: users.size,
+      sources: sources.length,
+      codes: codebook.codes.length,
+      segments: segments.length,
+      codings: segments.reduce((sum, s) => sum + childElements(s, 'Coding').length, 0),
+      memos: memos.length,
+      sets: setElements.length,
+      skipped,
+    };
+  }
+
+  /**
+   * Create a new project from a .qdpx archive
+   */
+  importProject(archive: Buffer, options: { projectName?: string; fileName?: string } = {}): ProjectImportResult {
+    const files = readZip(archive);
+    const qde = files.get('project.qde') || [...files].find(([name]) => name.endsWith('.qde'))?.[1];
+    if (!qde) {
+      throw new Error('Not a REFI-QDA project: project.qde is missing');
+    }
+    const root = parseXml(qde.toString('utf-8'));
+    if (root.name !== 'Project') {
+      throw new Error(`Not a REFI-QDA project: the root element is <${root.name}>`);
+    }
+
+    const projectName = (options.projectName || root.attributes.name || '').trim();
+    if (!projectName || projectName.includes('__')) {
+      throw new Error('Give a project name without "__"');
+    }
+    if (this.db.getEntity(projectName)) {
+      throw new Error(`Project "${projectName}" already exists; import into a new project name`);
+    }
+
+    const users = new Map((childElement(root, 'Users')?.children || [])
+      .map(user => [user.attributes.guid, user.attributes.name || user.attributes.guid]));
+    const coderOf = (element: XmlElement) => users.get(element.attributes.creatingUser) || element.attributes.creatingUser;
+
+    const codesElement = childElement(root, 'CodeBook') && childElement(childElement(root, 'CodeBook')!, 'Codes');
+    const setsElement = childElement(root, 'Sets');
+    const codebook = codebookFromXml(xmlElement('CodeBook', {}, [codesElement, setsElement].filter((e): e is XmlElement => !!e)));
+    const codeNames = new Map(codebook.codes.map(code => [code.guid, `${projectName}__code__${code.name}`]));
+
+    // Memo links collected from the NoteRefs of codes, sources and selections
+    const noteLinks = new Map<string, { entities: string[]; segmentIds: number[] }>();
+    const link = (element: XmlElement, entity?: string, segmentId?: number) => {
+      for (const ref of childElements(element, 'NoteRef')) {
+        const links = noteLinks.get(ref.attributes.targetGUID) || { entities: [], segmentIds: [] };
+        if (entity && !links.entities.includes(entity)) links.entities.push(entity);
+        if (segmentId !== undefined) links.segmentIds.push(segmentId);
+        noteLinks.set(ref.attributes.targetGUID, links);
+      }
+    };
+
+    return this.db.transaction(() => {
+      const description = parseLabelledLines(childElement(root, 'Description')?.text || '');
+      const researchQuestions = description.labels['Research question'] || [];
+      const methodology = description.labels.Methodology?.[0];
+      this.db.createEntity({
+        name: projectName,
+        entityType: 'project',
+        observations: [
+          `Research Questions: ${researchQuestions.join('; ') || 'Not specified'}`,
+          `Methodology: ${methodology || 'Not specified'}`,
+          `Created: ${new Date().toISOString()}`,
+        ],
+        metadata: {
+          researchQuestions: researchQuestions.length > 0 ? researchQuestions : undefined,
+          methodology,
+          origin: root.attributes.origin,
+        },
+      });
+
+      const operation = codebook.codes.length > 0
+        ? this.codebookManager.importCodebook(projectName, codebook, { source: options.fileName || 'qdpx' }).operation
+        : undefined;
+
+      const walkCodes = (element: XmlElement) => {
+        for (const code of childElements(element, 'Code')) {
+          link(code, codeNames.get(code.attributes.guid));
+          walkCodes(code);
+        }
+      };
+      if (codesElement) walkCodes(codesElement);
+
+      const skipped: string[] = [];
+      const sourceNames = new Map<string, string>();
+      const used = new Set<string>();
+      let segments = 0;
+      let codings = 0;
+
+      for (const element of childElement(root, 'Sources')?.children || []) {
+        const content = this.sourceText(element, files);
+        if (content === null) {
+          skipped.push(element.attributes.name || element.attributes.guid);
+          continue;
+        }
+
+        const sourceDescription = parseLabelledLines(childElement(element, 'Description')?.text || '');
+        const type = SOURCE_TYPES.find(t => t === sourceDescription.labels.Type?.[0]) || 'document';
+        let label = (element.attributes.name || element.attributes.guid).replace(/_{2,}/g, '_');
+        for (let n = 2; used.has(`${type}/${label}`); n++) label = `${element.attributes.name} ${n}`;
+        used.add(`${type}/${label}`);
+
+        // Transcripts get their speaker turns as with addDataSource. Captions would be reduced to their
+        // spoken text, which the selection positions do not refer to, so they are kept as plain text.
+        const parsed = this.transcriptParser.parse(content, 'auto', { sourceType: type });
+        const transcript = parsed.content === content ? parsed : null;
+
+        const sourceName = `${projectName}__${type}__${label}`;
+        sourceNames.set(element.attributes.guid, sourceName);
+        this.db.createEntity({
+          name: sourceName,
+          entityType: type as Entity['entityType'],
+          observations: [
+            `Content length: ${content.length} characters`,
+            `Added: ${new Date().toISOString()}`,
+          ],
+          metadata: {
+            content,
+            guid: element.attributes.guid,
+            format: transcript?.format || 'plain',
+            ...(transcript && transcript.speakers.length > 0 ? { speakers: transcript.speakers } : {}),
+            ...(sourceDescription.text ? { description: sourceDescription.text } : {}),
+          },
+        });
+        this.db.createRelation({ from: sourceName, to: projectName, relationType: 'part_of' });
+        if (transcript) this.db.setTurns(sourceName, transcript.turns);
+        link(element, sourceName);
+
+        for (const selection of childElements(element, 'PlainTextSelection')) {
+          const startOffset = fromCodePoints(content, Number(selection.attributes.startPosition));
+          const endOffset = fromCodePoints(content, Number(selection.attributes.endPosition));
+          const selectionDescription = childElement(selection, 'Description')?.text.trim();
+          const segmentId = this.db.createSegment({
+            source: sourceName,
+            startOffset,
+            endOffset,
+            text: content.slice(startOffset, endOffset),
+            metadata: {
+              guid: selection.attributes.guid,
+              ...(selectionDescription ? { description: selectionDescription } : {}),
+            },
+          });
+          segments++;
+          link(selection, undefined, segmentId);
+
+          for (const coding of childElements(selection, 'Coding')) {
+            const code = codeNames.get(childElement(coding, 'CodeRef')?.attributes.targetGUID);
+            const attribution = { coder: coderOf(coding) || coderOf(selection), pass: coding.attributes.pass };
+            if (!code || !this.db.addSegmentCode(segmentId, code, attribution)) continue;
+
+            this.db.createRelation({
+              from: code,
+              to: sourceName,
+              relationType: 'codes',
+              metadata: { segmentId, startIndex: startOffset, endIndex: endOffset },
+            });
+            codings++;
+          }
+        }
+      }
+
+      for (const code of codeNames.values()) {
+        const entity = this.db.getEntity(code)!;
+        this.db.updateEntity(code, {
+          metadata: { ...entity.metadata, frequency: this.db.getSegmentsByCode(code).length },
+        });
+      }
+
+      // Sets can also hold sources; code groups keep them as members next to the codes
+      for (const set of setsElement ? childElements(setsElement, 'Set') : []) {
+        const group = codebook.groups.find(g => g.guid === set.attributes.guid);
+        if (!group || !operation) continue;
+        for (const member of childElements(set, 'MemberSource')) {
+          const source = sourceNames.get(member.attributes.targetGUID);
+          if (source) {
+            this.db.createRelation({ from: `${projectName}__codeGroup__${group.name}`, to: source, relationType: 'contains' });
+          }
+        }
+      }
+
+      const notes = childElement(root, 'Notes')?.children || [];
+      const memoLabels = new Set<string>();
+      for (const note of notes) {
+        const noteDescription = parseLabelledLines(childElement(note, 'Description')?.text || '');
+        const content = this.sourceText(note, files) || '';
+        let label = (note.attributes.name || 'note').replace(/_{2,}/g, '_');
+        for (let n = 2; memoLabels.has(label); n++) label = `${note.attributes.name || 'note'} ${n}`;
+        memoLabels.add(label);
+
+        const links = noteLinks.get(note.attributes.guid) || { entities: [], segmentIds: [] };
+        const memoName = `${projectName}__memo__${label}`;
+        this.db.createEntity({
+          name: memoName,
+          entityType: 'memo',
+          observations: [content.split('\n')[0].slice(0, 200)],
+          metadata: {
+            memoType: noteDescription.labels.Type?.[0] || 'analytical',
+            content,
+            linkedEntities: links.entities,
+            ...(links.segmentIds.length > 0 ? { segmentIds: links.segmentIds } : {}),
+            guid: note.attributes.guid,
+            ...(coderOf(note) ? { author: coderOf(note) } : {}),
+          },
+        });
+        for (const source of links.entities.filter(e => [...sourceNames.values()].includes(e))) {
+          this.db.createRelation({ from: memoName, to: source, relationType: 'reflects_on' });
+        }
+      }
+
+      return {
+        project: projectName,
+        operation,
+        users: users.size,
+        sources: sourceNames.size,
+        codes: codebook.codes.length,
+        segments,
+        codings,
+        memos: notes.length,
+        sets: codebook.groups.length,
+        skipped,
+      };
+    });
+  }
+
+  private projectSources(projectName: string): Entity[] {
+    return this.db.getRelations(projectName, 'part_of')
+      .filter(r => r.to === projectName)
+      .map(r => this.db.getEntity(r.from))
+      .filter((e): e is Entity => e !== null && SOURCE_TYPES.includes(e.entityType));
+  }
+
+  // Stored offsets can drift from the text (e.g. after edits); fall back to searching for the segment text
+  private locate(content: string, start: number, end: number, text: string): [number, number] | null {
+    if (content.slice(start, end) === text) return [start, end];
+    const found = content.indexOf(text);
+    return found === -1 ? null : [found, found + text.length];
+  }
+
+  private sourceText(element: XmlElement, files: Map<string, Buffer>): string | null {
+    const inline = childElement(element, 'PlainTextContent');
+    if (inline) return inline.text;
+
+    const path = element.attributes.plainTextPath;
+    if (!path?.startsWith('internal://')) return null;
+    const file = files.get(`sources/${path.slice('internal://'.length)}`);
+    return file ? file.toString('utf-8') : null;
+  }
+
+  // NoteRefs follow the Description of a code and come before its subcodes
+  private addCodeNoteRefs(element: XmlElement, refsFor: (guid: string) => XmlElement[]): void {
+    for (const code of childElements(element, 'Code')) {
+      const refs = refsFor(code.attributes.guid);
+      const at = code.children.findIndex(child => child.name === 'Code');
+      code.children.splice(at === -1 ? code.children.length : at, 0, ...refs);
+      this.addCodeNoteRefs(code, refsFor);
+    }
+  }
+}
+
+// REFI-QDA positions count Unicode code points; JavaScript strings index UTF-16 code units
+function toCodePoints(text: string, index: number): number {
+  return Array.from(text.slice(0, index)).length;
+}
+
+function fromCodePoints(text: string, position: number): number {
+  let index = 0;
+  for (let n = 0; n < position && index < text.length; n++) {
+    index += text.codePointAt(index)! > 0xffff ? 2 : 1;
+  }
+  return index;
+}
+
+// Descriptions carry our own fields as "Label: value" lines after any free text
+function labelledLines(labels: Record<string, string[]>, text?: string): string {
+  const lines = text ? [text] : [];
+  for (const [label, values] of Object.entries(labels)) {
+    for (const value of values) lines.push(`${label}: ${value}`);
+  }
+  return lines.join('\n');
+}
+
+function parseLabelledLines(description: string): { text: string; labels: Record<string, string[]> } {
+  const labels: Record<string, string[]> = {};
+  const text: string[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const match = /^(Type|Research question|Methodology):\s*(.+)$/.exec(line.trim());
+    if (match) {
+      (labels[match[1]] ||= []).push(match[2].trim());
+    } else if (line.trim()) {
+      text.push(line.trim());
+    }
+  }
+  return { text: text.join('\n'), labels };
+}
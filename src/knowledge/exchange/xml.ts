@@ -0,0 +1,178 @@
+/**
+ * Minimal XML reading and writing for the exchange formats (REFI-QDA codebooks and projects).
+ * Handles elements, attributes, text, CDATA and character references; namespace prefixes are dropped.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated text content directly inside this element
+}
+
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+  while (i < source.length) {
+    if (source[i] !== '<') {
+      const end = source.indexOf('<', i);
+      const text = source.slice(i, end === -1 ? source.length : end);
+      if (stack.length > 0) stack[stack.length - 1].text += decodeEntities(text);
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith('<!--', i)) {
+      i = skipTo(source, '-->', i);
+    } else if (source.startsWith('<![CDATA[', i)) {
+      const end = source.indexOf(']]>', i);
+      if (end === -1) throw new Error('Invalid XML: unterminated CDATA section');
+      if (stack.length > 0) stack[stack.length - 1].text += source.slice(i + 9, end);
+      i = end + 3;
+    } else if (source.startsWith('<?', i)) {
+      i = skipTo(source, '?>', i);
+    } else if (source.startsWith('<!', i)) {
+      i = skipTo(source, '>', i);
+    } else if (source[i + 1] === '/') {
+      const end = skipTo(source, '>', i);
+      const name = localName(source.slice(i + 2, end - 1).trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`Invalid XML: unexpected closing tag </${name}>`);
+      }
+      i = end;
+    } else {
+      const end = findTagEnd(source, i);
+      const selfClosing = source[end - 2] === '/';
+      const body = source.slice(i + 1, selfClosing ? end - 2 : end - 1);
+      const match = /^([^\s/>]+)/.exec(body);
+      if (!match) throw new Error(`Invalid XML at position ${i}`);
+
+      const element: XmlElement = { name: localName(match[1]), attributes: {}, children: [], text: '' };
+      const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(body.slice(match[1].length))) !== null) {
+        if (attribute[1] === 'xmlns' || attribute[1].startsWith('xmlns:')) continue;
+        element.attributes[localName(attribute[1])] = decodeEntities(attribute[3] ?? attribute[4]);
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (!root) {
+        root = element;
+      } else {
+        throw new Error('Invalid XML: more than one root element');
+      }
+      if (!selfClosing) stack.push(element);
+      i = end;
+    }
+  }
+
+  if (!root) throw new Error('Invalid XML: no root element');
+  if (stack.length > 0) throw new Error(`Invalid XML: <${stack[stack.length - 1].name}> is not closed`);
+  return root;
+}
+
+/**
+ * Render an element tree with two-space indentation. Elements with text keep it on one line.
+ */
+export function renderXml(element: XmlElement, namespace?: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>\n${renderElement(element, 0, namespace)}\n`;
+}
+
+export function xmlElement(
+  name: string,
+  attributes: Record<string, string | number | boolean | undefined> = {},
+  children: XmlElement[] = [],
+  text = ''
+): XmlElement {
+  const defined: Record<string, string> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) defined[key] = String(value);
+  }
+  return { name, attributes: defined, children, text };
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+// Characters XML 1.0 does not allow, even as character references
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Escape text content, dropping characters XML cannot carry. Carriage returns are written as
+ * references, since parsers turn literal ones into line feeds.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r/g, '&#13;');
+}
+
+/**
+ * Escape an attribute value. Line feeds and tabs are written as references too, since parsers
+ * normalize literal whitespace in attributes to spaces.
+ */
+function escapeAttribute(value: string): string {
+  return escapeXml(value)
+    .replace(/\n/g, '&#10;')
+    .replace(/\t/g, '&#9;');
+}
+
+function renderElement(element: XmlElement, depth: number, namespace?: string): string {
+  const indent = '  '.repeat(depth);
+  const attributes = [
+    ...(namespace ? [`xmlns="${escapeAttribute(namespace)}"`] : []),
+    ...Object.entries(element.attributes).map(([key, value]) => `${key}="${escapeAttribute(value)}"`),
+  ];
+  const open = `${indent}<${element.name}${attributes.length > 0 ? ' ' + attributes.join(' ') : ''}`;
+
+  if (element.children.length === 0) {
+    return element.text ? `${open}>${escapeXml(element.text)}</${element.name}>` : `${open}/>`;
+  }
+  const children = element.children.map(child => renderElement(child, depth + 1)).join('\n');
+  return `${open}>\n${children}\n${indent}</${element.name}>`;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (entity, ref: string) => {
+    if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+    if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[ref] ?? entity;
+  });
+}
+
+function skipTo(source: string, terminator: string, from: number): number {
+  const end = source.indexOf(terminator, from);
+  if (end === -1) throw new Error(`Invalid XML: missing "${terminator}"`);
+  return end + terminator.length;
+}
+
+// The end of a start tag, skipping ">" inside quoted attribute values
+function findTagEnd(source: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  throw new Error('Invalid XML: unterminated tag');
+}
@@ -0,0 +1,235 @@
+/**
+ * Numbered schema migrations for the knowledge store
+ * Each migration runs once, in its own transaction, and the version reached is recorded in
+ * graph_metadata. Never edit a released migration; add a new one instead.
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: Database.Database): void;
+}
+
+// Databases created before versioning already have some of these tables, so migrations 1-4
+// only create what is missing
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Entities, relations and graph metadata',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS entities (
+        name TEXT PRIMARY KEY,
+        entity_type TEXT NOT NULL,
+        observations TEXT NOT NULL,
+        metadata TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_entity_type ON entities(entity_type);
+
+      CREATE TABLE IF NOT EXISTS relations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_entity TEXT NOT NULL,
+        to_entity TEXT NOT NULL,
+        relation_type TEXT NOT NULL,
+        metadata TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (from_entity) REFERENCES entities(name) ON DELETE CASCADE,
+        FOREIGN KEY (to_entity) REFERENCES entities(name) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_from_entity ON relations(from_entity);
+      CREATE INDEX IF NOT EXISTS idx_to_entity ON relations(to_entity);
+      CREATE INDEX IF NOT EXISTS idx_relation_type ON relations(relation_type);
+
+      CREATE TABLE IF NOT EXISTS graph_metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `),
+  },
+  {
+    version: 2,
+    description: 'Coded segments (character-offset anchored) and code applications by coder and pass',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS segments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL,
+        start_offset INTEGER NOT NULL,
+        end_offset INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        metadata TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (source) REFERENCES entities(name) ON DELETE CASCADE,
+        UNIQUE (source, start_offset, end_offset)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_segment_range ON segments(source, start_offset, end_offset);
+
+      CREATE TABLE IF NOT EXISTS segment_codes (
+        segment_id INTEGER NOT NULL,
+        code TEXT NOT NULL,
+        coder TEXT NOT NULL DEFAULT 'auto',
+        pass TEXT NOT NULL DEFAULT 'initial',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (segment_id, code, coder, pass),
+        FOREIGN KEY (segment_id) REFERENCES segments(id) ON DELETE CASCADE,
+        FOREIGN KEY (code) REFERENCES entities(name) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_segment_code ON segment_codes(code);
+      CREATE INDEX IF NOT EXISTS idx_segment_coder ON segment_codes(coder);
+    `),
+  },
+  {
+    version: 3,
+    description: 'Codebook operation log with snapshots for undo',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS codebook_operations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project TEXT NOT NULL,
+        operation_type TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        details TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        undone_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_codebook_operation_project ON codebook_operations(project);
+    `),
+  },
+  {
+    version: 4,
+    description: 'Speaker turns (transcript turns, caption cues, field note entries)',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS turns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL,
+        turn_index INTEGER NOT NULL,
+        speaker TEXT,
+        role TEXT NOT NULL DEFAULT 'unknown',
+        start_time REAL,
+        end_time REAL,
+        start_offset INTEGER NOT NULL,
+        end_offset INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        FOREIGN KEY (source) REFERENCES entities(name) ON DELETE CASCADE,
+        UNIQUE (source, turn_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_turn_range ON turns(source, start_offset, end_offset);
+    `),
+  },
+  {
+    version: 5,
+    description: 'Project ids on entities and relations, filled in from the entity name prefixes',
+    up: db => {
+      const hasProjectColumn = (table: string) => (db.prepare(`PRAGMA table_info(${table})`).all() as any[])
+        .some(column => column.name === 'project_id');
+
+      if (!hasProjectColumn('entities')) {
+        db.exec('ALTER TABLE entities ADD COLUMN project_id TEXT');
+      }
+      if (!hasProjectColumn('relations')) {
+        db.exec('ALTER TABLE relations ADD COLUMN project_id TEXT');
+      }
+
+      // A project is its own; everything else carries the "project__" prefix
+      db.exec(`
+        UPDATE entities SET project_id = CASE
+          WHEN entity_type = 'project' THEN name
+          WHEN instr(name, '__') > 1 THEN substr(name, 1, instr(name, '__') - 1)
+        END
+        WHERE project_id IS NULL;
+
+        UPDATE relations SET project_id = COALESCE(
+          (SELECT project_id FROM entities WHERE name = relations.from_entity),
+          (SELECT project_id FROM entities WHERE name = relations.to_entity)
+        )
+        WHERE project_id IS NULL;
+
+        CREATE INDEX IF NOT EXISTS idx_entity_project ON entities(project_id, entity_type);
+        CREATE INDEX IF NOT EXISTS idx_relation_project ON relations(project_id, relation_type);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Full-text search index over data source content, coded segments, memos and code definitions',
+    up: db => {
+      db.exec(`
+        CREATE VIRTUAL TABLE search_index USING fts5(
+          kind UNINDEXED,
+          ref UNINDEXED,
+          project UNINDEXED,
+          title,
+          body,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER search_entity_insert AFTER INSERT ON entities BEGIN
+          INSERT INTO search_index (kind, ref, project, title, body) ${searchableEntity('NEW')};
+        END;
+
+        CREATE TRIGGER search_entity_update AFTER UPDATE ON entities BEGIN
+          DELETE FROM search_index WHERE ref = OLD.name AND kind != 'segment';
+          INSERT INTO search_index (kind, ref, project, title, body) ${searchableEntity('NEW')};
+        END;
+
+        CREATE TRIGGER search_entity_delete AFTER DELETE ON entities BEGIN
+          DELETE FROM search_index WHERE ref = OLD.name AND kind != 'segment';
+        END;
+
+        CREATE TRIGGER search_segment_insert AFTER INSERT ON segments BEGIN
+          INSERT INTO search_index (kind, ref, project, title, body)
+          VALUES ('segment', CAST(NEW.id AS TEXT), (SELECT project_id FROM entities WHERE name = NEW.source), '', NEW.text);
+        END;
+
+        CREATE TRIGGER search_segment_update AFTER UPDATE OF text ON segments BEGIN
+          UPDATE search_index SET body = NEW.text WHERE kind = 'segment' AND ref = CAST(NEW.id AS TEXT);
+        END;
+
+        CREATE TRIGGER search_segment_delete AFTER DELETE ON segments BEGIN
+          DELETE FROM search_index WHERE kind = 'segment' AND ref = CAST(OLD.id AS TEXT);
+        END;
+
+        INSERT INTO search_index (kind, ref, project, title, body) ${searchableEntity('entities', 'FROM entities')};
+
+        INSERT INTO search_index (kind, ref, project, title, body)
+        SELECT 'segment', CAST(s.id AS TEXT), e.project_id, '', s.text
+        FROM segments s LEFT JOIN entities e ON e.name = s.source;
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'State of the affected codes after each codebook operation, to detect later changes before an undo',
+    up: db => db.exec('ALTER TABLE codebook_operations ADD COLUMN result TEXT'),
+  },
+];
+
+// The search_index row of an entity: data sources and memos by their content, active codes by their
+// definition, each titled with its short name
+function searchableEntity(row: string, from = ''): string {
+  const prefix = `${row}.project_id || '__' || ${row}.entity_type || '__'`;
+  return `
+    SELECT
+      CASE ${row}.entity_type WHEN 'memo' THEN 'memo' WHEN 'code' THEN 'code' ELSE 'source' END,
+      ${row}.name,
+      ${row}.project_id,
+      CASE WHEN substr(${row}.name, 1, length(${prefix})) = ${prefix}
+        THEN substr(${row}.name, length(${prefix}) + 1) ELSE ${row}.name END,
+      COALESCE(CASE ${row}.entity_type
+        WHEN 'code' THEN COALESCE(json_extract(${row}.metadata, '$.definition'), json_extract(${row}.observations, '$[0]'))
+        ELSE json_extract(${row}.metadata, '$.content') END, '')
+    ${from}
+    WHERE ${row}.entity_type IN ('interview', 'observation', 'document', 'memo', 'code')
+      AND NOT COALESCE(json_extract(${row}.metadata, '$.retired'), 0)`;
+}
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
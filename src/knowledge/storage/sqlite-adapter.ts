@@ -3,10 +3,121 @@
  */
 
 import Database from 'better-sqlite3';
-import { Entity, Relation, KnowledgeGraph } from '../../types/entities.js';
+import {
+  Entity,
+  Relation,
+  KnowledgeGraph,
+  CodedSegment,
+  SegmentCoding,
+  CodebookOperation,
+  CodebookSnapshot,
+  Turn,
+  ProjectSummary,
+  SearchHit,
+  SearchKind,
+} from '../../types/entities.js';
+import { MIGRATIONS, SCHEMA_VERSION } from './migrations.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+// Markers around the matched terms in search_index highlight() output
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const SEGMENT_SELECT = `
+  SELECT s.*, json_group_array(DISTINCT sc.code) AS codes
+  FROM segments s
+  LEFT JOIN segment_codes sc ON sc.segment_id = s.id
+`;
+
+// Project an entity belongs to: a project is its own, everything else carries the "project__" name prefix
+// (project names may not contain "__")
+function projectOf(entity: Pick<Entity, 'name' | 'entityType'>): string | null {
+  if (entity.entityType === 'project') return entity.name;
+  const separator = entity.name.indexOf('__');
+  return separator > 0 ? entity.name.slice(0, separator) : null;
+}
+
+function toEntity(row: any): Entity {
+  return {
+    name: row.name,
+    entityType: row.entity_type,
+    observations: JSON.parse(row.observations),
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRelation(row: any): Relation {
+  return {
+    from: row.from_entity,
+    to: row.to_entity,
+    relationType: row.relation_type,
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+  };
+}
+
+function toOperation(row: any): CodebookOperation {
+  return {
+    id: row.id,
+    project: row.project,
+    operationType: row.operation_type,
+    summary: row.summary,
+    details: JSON.parse(row.details),
+    snapshot: JSON.parse(row.snapshot),
+    result: row.result ? JSON.parse(row.result) : undefined,
+    createdAt: row.created_at,
+    undoneAt: row.undone_at || undefined,
+  };
+}
+
+function toTurn(row: any): Turn {
+  return {
+    id: row.id,
+    source: row.source,
+    index: row.turn_index,
+    speaker: row.speaker ?? undefined,
+    role: row.role,
+    startTime: row.start_time ?? undefined,
+    endTime: row.end_time ?? undefined,
+    startOffset: row.start_offset,
+    endOffset: row.end_offset,
+    text: row.text,
+  };
+}
+
+// Offsets of the marked terms in highlighted text, as positions in the text without markers
+function markedRanges(marked: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let position = 0;
+  let start = -1;
+  for (const char of marked) {
+    if (char === MATCH_START) {
+      start = position;
+    } else if (char === MATCH_END) {
+      ranges.push({ start, end: position });
+    } else {
+      position += char.length;
+    }
+  }
+  return ranges;
+}
+
+function toSegment(row: any): CodedSegment {
+  return {
+    id: row.id,
+    source: row.source,
+    startOffset: row.start_offset,
+    endOffset: row.end_offset,
+    text: row.text,
+    codes: (JSON.parse(row.codes) as Array<string | null>).filter((c): c is string => c !== null),
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+  };
+}
+
 export class SQLiteAdapter {
   private db: Database.Database;
 
@@ -21,62 +132,63 @@ export class SQLiteAdapter {
     }
 
     this.db = new Database(actualPath);
-    this.initialize();
-  }
-
-  private initialize() {
-    // Create entities table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS entities (
-        name TEXT PRIMARY KEY,
-        entity_type TEXT NOT NULL,
-        observations TEXT NOT NULL,
-        metadata TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    this.initialize(actualPath);
+  }
+
+  /**
+   * Bring the schema up to date, one migration per transaction. A database written by a newer
+   * version is refused rather than read with a schema this version does not know; a database
+   * file with data is backed up next to itself before it is migrated.
+   */
+  private initialize(databasePath: string) {
+    const version = this.getSchemaVersion();
+    if (version > SCHEMA_VERSION) {
+      this.db.close();
+      throw new Error(
+        `Database ${databasePath} has schema version ${version}, but this version of QualAI supports up to ${SCHEMA_VERSION}. ` +
+        'Update QualAI to open it.'
       );
+    }
 
-      CREATE INDEX IF NOT EXISTS idx_entity_type ON entities(entity_type);
-    `);
+    const pending = MIGRATIONS.filter(m => m.version > version);
+    if (pending.length === 0) return;
 
-    // Create relations table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS relations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        from_entity TEXT NOT NULL,
-        to_entity TEXT NOT NULL,
-        relation_type TEXT NOT NULL,
-        metadata TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (from_entity) REFERENCES entities(name) ON DELETE CASCADE,
-        FOREIGN KEY (to_entity) REFERENCES entities(name) ON DELETE CASCADE
-      );
+    const hasTables = (this.db.prepare(`SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name = 'entities'`).get() as any).count > 0;
+    if (hasTables && databasePath !== ':memory:') {
+      const backupPath = `${databasePath}.v${version}.bak`;
+      if (!fs.existsSync(backupPath)) this.db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+    }
 
-      CREATE INDEX IF NOT EXISTS idx_from_entity ON relations(from_entity);
-      CREATE INDEX IF NOT EXISTS idx_to_entity ON relations(to_entity);
-      CREATE INDEX IF NOT EXISTS idx_relation_type ON relations(relation_type);
-    `);
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        migration.up(this.db);
+        this.setGraphMetadata(SCHEMA_VERSION_KEY, String(migration.version));
+      })();
+    }
+  }
 
-    // Create graph metadata table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS graph_metadata (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+  /**
+   * The schema version recorded in graph_metadata (0 for a new database or one created before versioning)
+   */
+  getSchemaVersion(): number {
+    const table = this.db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'graph_metadata'`).get();
+    if (!table) return 0;
+
+    const row = this.db.prepare('SELECT value FROM graph_metadata WHERE key = ?').get(SCHEMA_VERSION_KEY) as any;
+    return row ? Number(row.value) : 0;
   }
 
   // Entity operations
   createEntity(entity: Entity): void {
     const stmt = this.db.prepare(`
-      INSERT INTO entities (name, entity_type, observations, metadata, created_at, updated_at)
-      VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      INSERT INTO entities (name, entity_type, project_id, observations, metadata, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
     `);
 
     stmt.run(
       entity.name,
       entity.entityType,
+      projectOf(entity),
       JSON.stringify(entity.observations),
       entity.metadata ? JSON.stringify(entity.metadata) : null
     );
@@ -86,44 +198,23 @@ export class SQLiteAdapter {
     const stmt = this.db.prepare('SELECT * FROM entities WHERE name = ?');
     const row = stmt.get(name) as any;
 
-    if (!row) return null;
-
-    return {
-      name: row.name,
-      entityType: row.entity_type,
-      observations: JSON.parse(row.observations),
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
+    return row ? toEntity(row) : null;
   }
 
   getAllEntities(): Entity[] {
     const stmt = this.db.prepare('SELECT * FROM entities ORDER BY created_at DESC');
-    const rows = stmt.all() as any[];
-
-    return rows.map(row => ({
-      name: row.name,
-      entityType: row.entity_type,
-      observations: JSON.parse(row.observations),
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return (stmt.all() as any[]).map(toEntity);
   }
 
-  getEntitiesByType(entityType: string): Entity[] {
-    const stmt = this.db.prepare('SELECT * FROM entities WHERE entity_type = ? ORDER BY created_at DESC');
-    const rows = stmt.all(entityType) as any[];
+  /**
+   * Entities of one type, optionally only those of one project
+   */
+  getEntitiesByType(entityType: string, project?: string): Entity[] {
+    const rows = project
+      ? this.db.prepare('SELECT * FROM entities WHERE entity_type = ? AND project_id = ? ORDER BY created_at DESC').all(entityType, project)
+      : this.db.prepare('SELECT * FROM entities WHERE entity_type = ? ORDER BY created_at DESC').all(entityType);
 
-    return rows.map(row => ({
-      name: row.name,
-      entityType: row.entity_type,
-      observations: JSON.parse(row.observations),
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return (rows as any[]).map(toEntity);
   }
 
   updateEntity(name: string, updates: Partial<Entity>): void {
@@ -146,9 +237,21 @@ export class SQLiteAdapter {
     );
   }
 
+  /**
+   * Remove an entity with what hangs off it: its relations, the segments and turns of a data source
+   * and the applications of a code. better-sqlite3 enforces foreign keys, so the schema's ON DELETE
+   * CASCADE clauses would remove these rows too; deleting them here keeps the cleanup in one place
+   * for connections opened with foreign keys turned off.
+   */
   deleteEntity(name: string): void {
-    const stmt = this.db.prepare('DELETE FROM entities WHERE name = ?');
-    stmt.run(name);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM segment_codes WHERE code = ? OR segment_id IN (SELECT id FROM segments WHERE source = ?)')
+        .run(name, name);
+      this.db.prepare('DELETE FROM segments WHERE source = ?').run(name);
+      this.db.prepare('DELETE FROM turns WHERE source = ?').run(name);
+      this.db.prepare('DELETE FROM relations WHERE from_entity = ? OR to_entity = ?').run(name, name);
+      this.db.prepare('DELETE FROM entities WHERE name = ?').run(name);
+    })();
   }
 
   addObservation(entityName: string, observation: string): void {
@@ -169,14 +272,19 @@ export class SQLiteAdapter {
   // Relation operations
   createRelation(relation: Relation): void {
     const stmt = this.db.prepare(`
-      INSERT INTO relations (from_entity, to_entity, relation_type, metadata)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO relations (from_entity, to_entity, relation_type, project_id, metadata)
+      VALUES (?, ?, ?, COALESCE(
+        (SELECT project_id FROM entities WHERE name = ?),
+        (SELECT project_id FROM entities WHERE name = ?)
+      ), ?)
     `);
 
     stmt.run(
       relation.from,
       relation.to,
       relation.relationType,
+      relation.from,
+      relation.to,
       relation.metadata ? JSON.stringify(relation.metadata) : null
     );
   }
@@ -198,12 +306,18 @@ export class SQLiteAdapter {
     const stmt = this.db.prepare(query);
     const rows = stmt.all(...params) as any[];
 
-    return rows.map(row => ({
-      from: row.from_entity,
-      to: row.to_entity,
-      relationType: row.relation_type,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-    }));
+    return rows.map(toRelation);
+  }
+
+  /**
+   * Relations within one project, optionally of one type
+   */
+  getProjectRelations(project: string, relationType?: string): Relation[] {
+    const rows = relationType
+      ? this.db.prepare('SELECT * FROM relations WHERE project_id = ? AND relation_type = ? ORDER BY id').all(project, relationType)
+      : this.db.prepare('SELECT * FROM relations WHERE project_id = ? ORDER BY id').all(project);
+
+    return (rows as any[]).map(toRelation);
   }
 
   deleteRelation(from: string, to: string, relationType: string): void {
@@ -214,6 +328,351 @@ export class SQLiteAdapter {
     stmt.run(from, to, relationType);
   }
 
+  // Segment operations
+  createSegment(segment: Omit<CodedSegment, 'id' | 'codes'>): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO segments (source, start_offset, end_offset, text, metadata)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(source, start_offset, end_offset) DO UPDATE SET text = excluded.text
+      RETURNING id
+    `);
+
+    const row = stmt.get(
+      segment.source,
+      segment.startOffset,
+      segment.endOffset,
+      segment.text,
+      segment.metadata ? JSON.stringify(segment.metadata) : null
+    ) as any;
+
+    return row.id;
+  }
+
+  addSegmentCode(segmentId: number, code: string, attribution: { coder?: string; pass?: string } = {}): boolean {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO segment_codes (segment_id, code, coder, pass)
+      VALUES (?, ?, ?, ?)
+    `);
+    return stmt.run(segmentId, code, attribution.coder || 'auto', attribution.pass || 'initial').changes > 0;
+  }
+
+  removeSegmentCode(segmentId: number, code: string, coder?: string): void {
+    if (coder) {
+      this.db.prepare('DELETE FROM segment_codes WHERE segment_id = ? AND code = ? AND coder = ?').run(segmentId, code, coder);
+    } else {
+      this.db.prepare('DELETE FROM segment_codes WHERE segment_id = ? AND code = ?').run(segmentId, code);
+    }
+  }
+
+  /**
+   * Individual code applications (who applied which code in which pass) for a source
+   */
+  getCodings(source: string): SegmentCoding[] {
+    const rows = this.db.prepare(`
+      SELECT sc.segment_id, sc.code, sc.coder, sc.pass
+      FROM segment_codes sc
+      JOIN segments s ON s.id = sc.segment_id
+      WHERE s.source = ?
+      ORDER BY s.start_offset, sc.code
+    `).all(source) as any[];
+
+    return rows.map(row => ({
+      segmentId: row.segment_id,
+      code: row.code,
+      coder: row.coder,
+      pass: row.pass,
+    }));
+  }
+
+  getSegment(id: number): CodedSegment | null {
+    const row = this.db.prepare(`${SEGMENT_SELECT} WHERE s.id = ? GROUP BY s.id`).get(id) as any;
+    return row ? toSegment(row) : null;
+  }
+
+  getSegmentsBySource(source: string): CodedSegment[] {
+    const rows = this.db.prepare(`
+      ${SEGMENT_SELECT}
+      WHERE s.source = ?
+      GROUP BY s.id
+      ORDER BY s.start_offset, s.end_offset
+    `).all(source) as any[];
+
+    return rows.map(toSegment);
+  }
+
+  /**
+   * Segments of a source that overlap the half-open character range [start, end)
+   */
+  getSegmentsInRange(source: string, start: number, end: number): CodedSegment[] {
+    const rows = this.db.prepare(`
+      ${SEGMENT_SELECT}
+      WHERE s.source = ? AND s.start_offset < ? AND s.end_offset > ?
+      GROUP BY s.id
+      ORDER BY s.start_offset, s.end_offset
+    `).all(source, end, start) as any[];
+
+    return rows.map(toSegment);
+  }
+
+  getSegmentsByCode(code: string): CodedSegment[] {
+    const rows = this.db.prepare(`
+      ${SEGMENT_SELECT}
+      WHERE s.id IN (SELECT segment_id FROM segment_codes WHERE code = ?)
+      GROUP BY s.id
+      ORDER BY s.source, s.start_offset
+    `).all(code) as any[];
+
+    return rows.map(toSegment);
+  }
+
+  getCodesBySource(source: string): Array<{ code: string; segments: number }> {
+    const rows = this.db.prepare(`
+      SELECT sc.code AS code, COUNT(DISTINCT sc.segment_id) AS segments
+      FROM segment_codes sc
+      JOIN segments s ON s.id = sc.segment_id
+      WHERE s.source = ?
+      GROUP BY sc.code
+      ORDER BY segments DESC, sc.code
+    `).all(source) as any[];
+
+    return rows.map(row => ({ code: row.code, segments: row.segments }));
+  }
+
+  deleteSegment(id: number): void {
+    this.db.prepare('DELETE FROM segment_codes WHERE segment_id = ?').run(id);
+    this.db.prepare('DELETE FROM segments WHERE id = ?').run(id);
+  }
+
+  // Turn operations
+  /**
+   * Replace the turns of a source with a freshly parsed set
+   */
+  setTurns(source: string, turns: Array<Omit<Turn, 'id' | 'source'>>): void {
+    const insert = this.db.prepare(`
+      INSERT INTO turns (source, turn_index, speaker, role, start_time, end_time, start_offset, end_offset, text)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM turns WHERE source = ?').run(source);
+      for (const turn of turns) {
+        insert.run(
+          source,
+          turn.index,
+          turn.speaker ?? null,
+          turn.role,
+          turn.startTime ?? null,
+          turn.endTime ?? null,
+          turn.startOffset,
+          turn.endOffset,
+          turn.text
+        );
+      }
+    });
+  }
+
+  getTurns(source: string): Turn[] {
+    const rows = this.db.prepare('SELECT * FROM turns WHERE source = ? ORDER BY turn_index').all(source) as any[];
+    return rows.map(toTurn);
+  }
+
+  /**
+   * The turn a character offset of a source falls in, if any
+   */
+  getTurnAt(source: string, offset: number): Turn | null {
+    const row = this.db.prepare(`
+      SELECT * FROM turns
+      WHERE source = ? AND start_offset <= ? AND end_offset > ?
+      ORDER BY turn_index
+      LIMIT 1
+    `).get(source, offset, offset) as any;
+    return row ? toTurn(row) : null;
+  }
+
+  // Codebook operations
+  /**
+   * Run a function inside a single SQLite transaction; any thrown error rolls everything back
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  /**
+   * Move applications of one code to another (all of them, or only on the given segments),
+   * keeping coder and pass attribution. Returns the number of segments that were moved.
+   */
+  moveSegmentCodes(fromCode: string, toCode: string, segmentIds?: number[]): number {
+    const filter = segmentIds ? ` AND segment_id IN (${segmentIds.map(() => '?').join(', ')})` : '';
+    const params = segmentIds || [];
+
+    const moved = this.db.prepare(
+      `SELECT COUNT(DISTINCT segment_id) AS count FROM segment_codes WHERE code = ?${filter}`
+    ).get(fromCode, ...params) as any;
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO segment_codes (segment_id, code, coder, pass, created_at)
+      SELECT segment_id, ?, coder, pass, created_at FROM segment_codes WHERE code = ?${filter}
+    `).run(toCode, fromCode, ...params);
+    this.db.prepare(`DELETE FROM segment_codes WHERE code = ?${filter}`).run(fromCode, ...params);
+
+    return moved.count;
+  }
+
+  /**
+   * Point relations at a different entity on either end, dropping any that become duplicates
+   */
+  moveRelations(fromEntity: string, toEntity: string, excludeTypes: string[] = []): void {
+    const exclusion = excludeTypes.length > 0
+      ? ` AND relation_type NOT IN (${excludeTypes.map(() => '?').join(', ')})`
+      : '';
+
+    this.db.prepare(`UPDATE relations SET from_entity = ? WHERE from_entity = ?${exclusion}`)
+      .run(toEntity, fromEntity, ...excludeTypes);
+    this.db.prepare(`UPDATE relations SET to_entity = ? WHERE to_entity = ?${exclusion}`)
+      .run(toEntity, fromEntity, ...excludeTypes);
+
+    this.db.prepare(`
+      DELETE FROM relations
+      WHERE (from_entity = ? OR to_entity = ?)
+        AND id NOT IN (
+          SELECT MIN(id) FROM relations
+          GROUP BY from_entity, to_entity, relation_type, IFNULL(metadata, '')
+        )
+    `).run(toEntity, toEntity);
+  }
+
+  /**
+   * Move the relations anchored to the given segments (metadata.segmentId) from one entity to another
+   */
+  moveSegmentRelations(fromEntity: string, toEntity: string, segmentIds: number[]): void {
+    if (segmentIds.length === 0) return;
+    this.db.prepare(`
+      UPDATE relations SET from_entity = ?
+      WHERE from_entity = ? AND json_extract(metadata, '$.segmentId') IN (${segmentIds.map(() => '?').join(', ')})
+    `).run(toEntity, fromEntity, ...segmentIds);
+  }
+
+  /**
+   * Capture the named entities with every relation and code application that involves them
+   */
+  captureSnapshot(names: string[]): CodebookSnapshot {
+    const unique = [...new Set(names)];
+    const placeholders = unique.map(() => '?').join(', ');
+
+    const entities = unique.map(name => ({ name, entity: this.getEntity(name) }));
+
+    const relations = (this.db.prepare(`
+      SELECT * FROM relations
+      WHERE from_entity IN (${placeholders}) OR to_entity IN (${placeholders})
+      ORDER BY id
+    `).all(...unique, ...unique) as any[]).map(toRelation);
+
+    const segmentCodes = (this.db.prepare(`
+      SELECT segment_id, code, coder, pass FROM segment_codes
+      WHERE code IN (${placeholders})
+    `).all(...unique) as any[]).map(row => ({
+      segmentId: row.segment_id,
+      code: row.code,
+      coder: row.coder,
+      pass: row.pass,
+    }));
+
+    return { entities, relations, segmentCodes };
+  }
+
+  /**
+   * Put the snapshotted entities, relations and code applications back exactly as captured
+   */
+  restoreSnapshot(snapshot: CodebookSnapshot): void {
+    const names = snapshot.entities.map(e => e.name);
+    const placeholders = names.map(() => '?').join(', ');
+
+    this.db.prepare(`DELETE FROM relations WHERE from_entity IN (${placeholders}) OR to_entity IN (${placeholders})`)
+      .run(...names, ...names);
+    this.db.prepare(`DELETE FROM segment_codes WHERE code IN (${placeholders})`).run(...names);
+
+    const upsertEntity = this.db.prepare(`
+      INSERT INTO entities (name, entity_type, project_id, observations, metadata, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(name) DO UPDATE SET
+        entity_type = excluded.entity_type,
+        observations = excluded.observations,
+        metadata = excluded.metadata,
+        updated_at = excluded.updated_at
+    `);
+
+    for (const { name, entity } of snapshot.entities) {
+      if (!entity) {
+        this.deleteEntity(name);
+        continue;
+      }
+      upsertEntity.run(
+        name,
+        entity.entityType,
+        projectOf(entity),
+        JSON.stringify(entity.observations),
+        entity.metadata ? JSON.stringify(entity.metadata) : null,
+        entity.createdAt || null
+      );
+    }
+
+    for (const relation of snapshot.relations) {
+      this.createRelation(relation);
+    }
+
+    for (const coding of snapshot.segmentCodes) {
+      this.addSegmentCode(coding.segmentId, coding.code, { coder: coding.coder, pass: coding.pass });
+    }
+  }
+
+  recordCodebookOperation(operation: Omit<CodebookOperation, 'id' | 'createdAt' | 'undoneAt'>): number {
+    const row = this.db.prepare(`
+      INSERT INTO codebook_operations (project, operation_type, summary, details, snapshot)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING id
+    `).get(
+      operation.project,
+      operation.operationType,
+      operation.summary,
+      JSON.stringify(operation.details),
+      JSON.stringify(operation.snapshot)
+    ) as any;
+
+    return row.id;
+  }
+
+  /**
+   * Record how an operation left the entities it snapshotted, so that an undo can tell whether
+   * anything changed them since
+   */
+  recordCodebookOperationResult(id: number): void {
+    const operation = this.getCodebookOperation(id);
+    if (!operation) throw new Error(`Codebook operation #${id} not found`);
+
+    const result = this.captureSnapshot(operation.snapshot.entities.map(e => e.name));
+    this.db.prepare('UPDATE codebook_operations SET result = ? WHERE id = ?').run(JSON.stringify(result), id);
+  }
+
+  getCodebookOperation(id: number): CodebookOperation | null {
+    const row = this.db.prepare('SELECT * FROM codebook_operations WHERE id = ?').get(id) as any;
+    return row ? toOperation(row) : null;
+  }
+
+  /**
+   * Operations recorded for a project, most recent first
+   */
+  getCodebookOperations(project: string): CodebookOperation[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM codebook_operations WHERE project = ? ORDER BY id DESC'
+    ).all(project) as any[];
+
+    return rows.map(toOperation);
+  }
+
+  markCodebookOperationUndone(id: number): void {
+    this.db.prepare(`UPDATE codebook_operations SET undone_at = datetime('now') WHERE id = ?`).run(id);
+  }
+
   // Graph operations
   getFullGraph(): KnowledgeGraph {
     const entities = this.getAllEntities();
@@ -229,9 +688,60 @@ export class SQLiteAdapter {
   }
 
   clearGraph(): void {
+    this.db.exec('DELETE FROM codebook_operations');
+    this.db.exec('DELETE FROM turns');
+    this.db.exec('DELETE FROM segment_codes');
+    this.db.exec('DELETE FROM segments');
     this.db.exec('DELETE FROM relations');
     this.db.exec('DELETE FROM entities');
-    this.db.exec('DELETE FROM graph_metadata');
+    this.db.prepare('DELETE FROM graph_metadata WHERE key != ?').run(SCHEMA_VERSION_KEY);
+  }
+
+  /**
+   * Every project with the number of entities of each type, relations and coded segments it holds
+   */
+  listProjects(): ProjectSummary[] {
+    const projects = this.db.prepare(`SELECT * FROM entities WHERE entity_type = 'project' ORDER BY name`).all() as any[];
+    const countEntities = this.db.prepare(`
+      SELECT entity_type, COUNT(*) AS count FROM entities
+      WHERE project_id = ? AND entity_type != 'project'
+      GROUP BY entity_type ORDER BY entity_type
+    `);
+    const countRelations = this.db.prepare('SELECT COUNT(*) AS count FROM relations WHERE project_id = ?');
+    const countSegments = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM segments
+      WHERE source IN (SELECT name FROM entities WHERE project_id = ?)
+    `);
+
+    return projects.map(row => ({
+      name: row.name,
+      createdAt: row.created_at,
+      entities: Object.fromEntries((countEntities.all(row.name) as any[]).map(r => [r.entity_type, r.count])),
+      relations: (countRelations.get(row.name) as any).count,
+      segments: (countSegments.get(row.name) as any).count,
+    }));
+  }
+
+  /**
+   * Remove a project with all its entities, relations, coded segments, turns and codebook history
+   */
+  deleteProject(project: string): ProjectSummary | null {
+    const summary = this.listProjects().find(p => p.name === project);
+    if (!summary) return null;
+
+    this.db.transaction(() => {
+      const owned = `SELECT name FROM entities WHERE project_id = ?`;
+      this.db.prepare(`DELETE FROM segment_codes WHERE segment_id IN (SELECT id FROM segments WHERE source IN (${owned})) OR code IN (${owned})`)
+        .run(project, project);
+      this.db.prepare(`DELETE FROM segments WHERE source IN (${owned})`).run(project);
+      this.db.prepare(`DELETE FROM turns WHERE source IN (${owned})`).run(project);
+      this.db.prepare(`DELETE FROM relations WHERE project_id = ? OR from_entity IN (${owned}) OR to_entity IN (${owned})`)
+        .run(project, project, project);
+      this.db.prepare('DELETE FROM codebook_operations WHERE project = ?').run(project);
+      this.db.prepare('DELETE FROM entities WHERE project_id = ?').run(project);
+    })();
+
+    return summary;
   }
 
   // Metadata operations
@@ -266,22 +776,73 @@ export class SQLiteAdapter {
     `);
 
     const searchPattern = `%${query}%`;
-    const rows = stmt.all(searchPattern, searchPattern) as any[];
+    return (stmt.all(searchPattern, searchPattern) as any[]).map(toEntity);
+  }
 
-    return rows.map(row => ({
-      name: row.name,
-      entityType: row.entity_type,
-      observations: JSON.parse(row.observations),
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+  /**
+   * Full-text search over data source content, coded segments, memos and code definitions, best
+   * matches first. Takes FTS5 query syntax: "night shift" (phrase), exhaust* (prefix),
+   * NEAR(night tired, 5), AND / OR / NOT.
+   */
+  searchText(query: string, options: { project?: string; kinds?: SearchKind[]; limit?: number } = {}): SearchHit[] {
+    const conditions = ['search_index MATCH ?'];
+    const params: any[] = [query];
+    if (options.project) {
+      conditions.push('project = ?');
+      params.push(options.project);
+    }
+    if (options.kinds && options.kinds.length > 0) {
+      conditions.push(`kind IN (${options.kinds.map(() => '?').join(', ')})`);
+      params.push(...options.kinds);
+    }
+
+    let rows: any[];
+    try {
+      rows = this.db.prepare(`
+        SELECT kind, ref, project, title, -bm25(search_index) AS score,
+          snippet(search_index, 4, '[', ']', '…', 16) AS snippet,
+          highlight(search_index, 4, ?, ?) AS marked
+        FROM search_index
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY bm25(search_index)
+        LIMIT ?
+      `).all(MATCH_START, MATCH_END, ...params, options.limit ?? 50) as any[];
+    } catch (error) {
+      // Malformed queries (unbalanced quotes, stray operators) fail in the MATCH
+      if (error instanceof Error && (error as Error & { code?: string }).code === 'SQLITE_ERROR') {
+        throw new Error(`Invalid search query "${query}": ${error.message}`);
+      }
+      throw error;
+    }
+
+    return rows.map(row => {
+      const hit: SearchHit = {
+        kind: row.kind,
+        ref: row.ref,
+        project: row.project,
+        title: row.title,
+        score: row.score,
+        snippet: row.snippet,
+        matches: markedRanges(row.marked),
+      };
+      if (row.kind === 'source') hit.source = row.ref;
+      if (row.kind === 'segment') {
+        const segment = this.getSegment(Number(row.ref));
+        if (segment) {
+          hit.source = segment.source;
+          hit.title = `#${segment.id}`;
+          hit.matches = hit.matches.map(m => ({ start: m.start + segment.startOffset, end: m.end + segment.startOffset }));
+        }
+      }
+      return hit;
+    });
   }
 
   // Statistics
   getStatistics() {
     const entityCount = this.db.prepare('SELECT COUNT(*) as count FROM entities').get() as any;
     const relationCount = this.db.prepare('SELECT COUNT(*) as count FROM relations').get() as any;
+    const segmentCount = this.db.prepare('SELECT COUNT(*) as count FROM segments').get() as any;
 
     const entityTypeStats = this.db.prepare(`
       SELECT entity_type, COUNT(*) as count
@@ -300,6 +861,7 @@ export class SQLiteAdapter {
     return {
       totalEntities: entityCount.count,
       totalRelations: relationCount.count,
+      totalSegments: segmentCount.count,
       entitiesByType: entityTypeStats,
       relationsByType: relationTypeStats,
     };
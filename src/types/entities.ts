@@ -27,7 +27,9 @@ export type EntityType =
   | 'finding'
   | 'concept'
   | 'category'
-  | 'grounded_theory';
+  | 'grounded_theory'
+  | 'narrative'
+  | 'lexical_profile';
 
 export interface Relation {
   from: string;
@@ -55,7 +57,101 @@ export type RelationType =
   | 'causes'
   | 'influences'
   | 'theory_of'
-  | 'theme_of';
+  | 'theme_of'
+  | 'profile_of';
+
+export interface ProjectSummary {
+  name: string;
+  createdAt?: string;
+  entities: Record<string, number>; // count per entity type
+  relations: number;
+  segments: number;
+}
+
+export type SearchKind = 'source' | 'segment' | 'memo' | 'code';
+
+export interface SearchHit {
+  kind: SearchKind;
+  ref: string; // entity name, or segment id for segments
+  project: string | null;
+  title: string;
+  score: number; // higher is a better match
+  snippet: string; // matched terms in [brackets]
+  source?: string; // data source the text belongs to (sources and segments)
+  matches: Array<{ start: number; end: number }>; // matched terms: offsets into the source text for sources and segments, else into the text searched
+}
+
+export interface CodedSegment {
+  id: number;
+  source: string;
+  startOffset: number;
+  endOffset: number;
+  text: string;
+  codes: string[];
+  metadata?: Record<string, any>;
+}
+
+export interface SegmentCoding {
+  segmentId: number;
+  code: string;
+  coder: string;
+  pass: string;
+}
+
+/**
+ * Case classification attributes of a participant; studies may add attributes of their own
+ */
+export interface ParticipantAttributes {
+  ageBand?: string; // e.g., "25-34", "65+"
+  role?: string;
+  site?: string;
+  cohort?: string;
+  wave?: number;
+  [attribute: string]: string | number | undefined;
+}
+
+export type SpeakerRole = 'interviewer' | 'participant' | 'observer' | 'unknown';
+
+/**
+ * One speaker turn (or caption cue, or field note entry) of a data source. Offsets locate the
+ * spoken text in the stored content; times are seconds from the start of the recording.
+ */
+export interface Turn {
+  id: number;
+  source: string;
+  index: number;
+  speaker?: string;
+  role: SpeakerRole;
+  startTime?: number;
+  endTime?: number;
+  startOffset: number;
+  endOffset: number;
+  text: string;
+}
+
+export type CodebookOperationType = 'merge' | 'rename' | 'split' | 'move' | 'subcode' | 'import';
+
+/**
+ * State of the entities, relations and code applications touched by a codebook operation,
+ * taken before the operation ran. An entity recorded as null did not exist yet.
+ */
+export interface CodebookSnapshot {
+  entities: Array<{ name: string; entity: Entity | null }>;
+  relations: Relation[];
+  segmentCodes: SegmentCoding[];
+}
+
+export interface CodebookOperation {
+  id: number;
+  project: string;
+  operationType: CodebookOperationType;
+  summary: string;
+  details: Record<string, any>;
+  snapshot: CodebookSnapshot;
+  result?: CodebookSnapshot; // the snapshotted names as the operation left them
+  createdAt?: string;
+  undoneAt?: string;
+}
 
 export interface KnowledgeGraph {
   entities: Entity[];
@@ -219,8 +219,15 @@ export interface SaturationAnalysis {
   estimatedAdditionalSamples: number;
 }
 
+export type ReliabilityMeasure =
+  | 'cohens_kappa'
+  | 'krippendorffs_alpha'
+  | 'fleiss_kappa'
+  | 'scotts_pi'
+  | 'percentage_agreement';
+
 export interface IntercoderReliability {
-  measure: 'cohens_kappa' | 'krippendorffs_alpha' | 'percentage_agreement';
+  measure: ReliabilityMeasure;
   value: number;
   interpretation: string;
   disagreements: Array<{
@@ -234,7 +241,7 @@ export interface IntercoderReliability {
 }
 
 export interface ConceptMap {
-  format: 'mermaid' | 'json' | 'graphml';
+  format: 'mermaid' | 'json' | 'graphml' | 'cytoscape';
   content: string;
   nodes: Array<{
     id: string;
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../src/knowledge/storage/sqlite-adapter';
+import { CaseSelector, formatCaseFilter } from '../src/knowledge/case-selector';
+import type { Entity } from '../src/types/entities';
+
+describe('CaseSelector', () => {
+  let db: SQLiteAdapter;
+  let selector: CaseSelector;
+
+  const source = (name: string): Entity => db.getEntity(name)!;
+
+  const addSource = (shortName: string, entityType: string, metadata: Record<string, unknown> = {}) => {
+    const name = `study__${entityType}__${shortName}`;
+    db.createEntity({ name, entityType, observations: [], metadata });
+    db.createRelation({ from: name, to: 'study', relationType: 'part_of' });
+    return name;
+  };
+
+  const addParticipant = (shortName: string, attributes: Record<string, string>, sources: string[]) => {
+    const name = `study__participant__${shortName}`;
+    db.createEntity({ name, entityType: 'participant', observations: [], metadata: { attributes } });
+    sources.forEach(to => db.createRelation({ from: name, to, relationType: 'participated_in' }));
+  };
+
+  beforeEach(() => {
+    db = new SQLiteAdapter(':memory:');
+    selector = new CaseSelector(db);
+    db.createEntity({ name: 'study', entityType: 'project', observations: [] });
+
+    const p01 = addSource('P01', 'interview');
+    const p02 = addSource('P02', 'interview', { site: 'South' });
+    const group = addSource('FG1', 'interview');
+    addSource('ward-3', 'observation');
+    db.createEntity({ name: 'study__memo__note', entityType: 'memo', observations: [] });
+    db.createRelation({ from: 'study__memo__note', to: 'study', relationType: 'part_of' });
+
+    addParticipant('P01', { site: 'North', ageBand: '25-34' }, [p01]);
+    addParticipant('P02', { site: 'North', ageBand: '35-44' }, [p02]);
+    addParticipant('P03', { site: 'North', ageBand: '45-54' }, [group]);
+    addParticipant('P04', { site: 'South', ageBand: '25-34' }, [group]);
+  });
+
+  it('should list the data sources of a project', () => {
+    expect(selector.getProjectSources('study').map(s => s.name).sort()).toEqual([
+      'study__interview__FG1',
+      'study__interview__P01',
+      'study__interview__P02',
+      'study__observation__ward-3',
+    ]);
+  });
+
+  it('should resolve a data source by entity or short name within its project only', () => {
+    db.createEntity({ name: 'other', entityType: 'project', observations: [] });
+    db.createEntity({ name: 'other__interview__P09', entityType: 'interview', observations: [] });
+    db.createRelation({ from: 'other__interview__P09', to: 'other', relationType: 'part_of' });
+
+    expect(selector.resolveDataSource('study', 'P01').name).toBe('study__interview__P01');
+    expect(selector.resolveDataSource('study', 'interview__P02').name).toBe('study__interview__P02');
+    expect(selector.resolveDataSource('study', 'study__observation__ward-3').name).toBe('study__observation__ward-3');
+    expect(selector.resolveDataSource('other', 'P09').name).toBe('other__interview__P09');
+
+    expect(() => selector.resolveDataSource('study', 'other__interview__P09')).toThrow('not found in project "study"');
+    expect(() => selector.resolveDataSource('study', 'P09')).toThrow('not found in project "study"');
+    expect(() => selector.resolveDataSource('other', 'study__interview__P01')).toThrow('not found in project "other"');
+    expect(() => selector.resolveDataSource('study', 'study__memo__note')).toThrow('not found');
+  });
+
+  it('should take attribute values from the source before its participants', () => {
+    expect(selector.getCaseValues('study', source('study__interview__P01'), 'site')).toEqual(['North']);
+    expect(selector.getCaseValues('study', source('study__interview__P02'), 'site')).toEqual(['South']);
+    expect(selector.getCaseValues('study', source('study__interview__P01'), 'source')).toEqual(['P01']);
+    expect(selector.getCaseValues('study', source('study__observation__ward-3'), 'sourceType')).toEqual(['observation']);
+    expect(selector.getCaseValues('study', source('study__interview__FG1'), 'participant')).toEqual(['P03', 'P04']);
+  });
+
+  it('should give every value of a focus group and none for a missing attribute', () => {
+    expect(selector.getCaseValues('study', source('study__interview__FG1'), 'site')).toEqual(['North', 'South']);
+    expect(selector.getCaseValues('study', source('study__observation__ward-3'), 'site')).toEqual([]);
+    expect(selector.getCaseValues('study', source('study__interview__P01'), 'role')).toEqual([]);
+  });
+
+  it('should bucket sources by group key, with sources lacking the attribute together', () => {
+    const buckets = new Map<string, string[]>();
+    for (const s of selector.getProjectSources('study')) {
+      const key = selector.getCaseKey('study', s, 'ageBand');
+      buckets.set(key, [...(buckets.get(key) || []), s.name.replace('study__', '')]);
+    }
+
+    expect(Object.fromEntries(buckets)).toEqual({
+      '25-34': ['interview__P01'],
+      '35-44': ['interview__P02'],
+      '25-34, 45-54': ['interview__FG1'],
+      '(no ageBand)': ['observation__ward-3'],
+    });
+  });
+
+  it('should match a source when any of its values is accepted, for every attribute', () => {
+    const names = (where: Parameters<CaseSelector['getProjectSources']>[1]) =>
+      selector.getProjectSources('study', where).map(s => s.name.replace('study__interview__', '')).sort();
+
+    expect(names({ site: 'North' })).toEqual(['FG1', 'P01']);
+    expect(names({ site: 'South' })).toEqual(['FG1', 'P02']);
+    expect(names({ ageBand: ['35-44', '45-54'] })).toEqual(['FG1', 'P02']);
+    expect(names({ site: 'North', ageBand: '25-34' })).toEqual(['FG1', 'P01']);
+    expect(names({ sourceType: 'interview', participant: 'P04' })).toEqual(['FG1']);
+  });
+
+  it('should exclude sources without the attribute and return nothing when no case matches', () => {
+    expect(selector.getProjectSources('study', { site: ['North', 'South'] })).toHaveLength(3);
+    expect(selector.getProjectSources('study', { site: 'East' })).toEqual([]);
+    expect(selector.getProjectSources('study', { unknown: 'x' })).toEqual([]);
+    expect(selector.getProjectSources('other', { site: 'North' })).toEqual([]);
+  });
+
+  it('should format a filter as a label', () => {
+    expect(formatCaseFilter({ site: 'North', ageBand: ['25-34', '35-44'] })).toBe('site=North, ageBand=25-34|35-44');
+  });
+});
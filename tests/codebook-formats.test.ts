@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseCodebook, formatCodebook, detectCodebookFormat } from '../src/knowledge/exchange/codebook-formats';
+import type { Codebook } from '../src/knowledge/exchange/codebook-formats';
+import { parseXml, renderXml, xmlElement } from '../src/knowledge/exchange/xml';
+
+describe('codebook formats', () => {
+  const codebook: Codebook = {
+    codes: [
+      {
+        name: 'support',
+        definition: 'Help from others, "practical" or emotional',
+        inclusionCriteria: ['Help is received'],
+        exclusionCriteria: [],
+        examples: ['they helped'],
+      },
+      {
+        name: 'peer-support',
+        parent: 'support',
+        definition: 'Help from colleagues',
+        inclusionCriteria: ['Colleague gives help', 'Same ward'],
+        exclusionCriteria: ['Help from managers'],
+        examples: ['my colleagues covered', 'we swap shifts'],
+      },
+    ],
+    groups: [{ name: 'night-shift', description: 'Night work', codes: ['peer-support'] }],
+  };
+
+  it('should read spreadsheet headings and split criteria cells', () => {
+    const csv = [
+      'Code,Parent code,Description,Inclusion criteria,Exclusion criteria,Example',
+      'support,,Help from others,Help is received,,they helped',
+      'peer-support,support,"Help from colleagues, at work",Colleague gives help; Same ward,Help from managers,"my colleagues ""covered"""',
+    ].join('\r\n');
+
+    const parsed = parseCodebook(csv, 'csv');
+
+    expect(parsed.codes).toHaveLength(2);
+    expect(parsed.codes[1]).toEqual({
+      name: 'peer-support',
+      parent: 'support',
+      definition: 'Help from colleagues, at work',
+      inclusionCriteria: ['Colleague gives help', 'Same ward'],
+      exclusionCriteria: ['Help from managers'],
+      examples: ['my colleagues "covered"'],
+    });
+    expect(() => parseCodebook('definition\nx', 'csv')).toThrow('"name" column');
+  });
+
+  it('should round-trip through CSV and JSON', () => {
+    const fromCsv = parseCodebook(formatCodebook(codebook, 'csv'), 'csv');
+    expect(fromCsv.codes).toEqual(codebook.codes);
+
+    const fromJson = parseCodebook(formatCodebook(codebook, 'json', { projectName: 'study' }), 'json');
+    expect(fromJson.codes.map(({ color, guid, ...code }) => code)).toEqual(codebook.codes);
+    expect(fromJson.groups[0].codes).toEqual(['peer-support']);
+  });
+
+  it('should accept project code entities as JSON', () => {
+    const parsed = parseCodebook(JSON.stringify([{
+      name: 'study__code__humor',
+      entityType: 'code',
+      observations: ['Joking about work'],
+      metadata: { parent: 'study__code__coping', exclusionCriteria: ['Sarcasm'] },
+    }]), 'json');
+
+    expect(parsed.codes[0]).toMatchObject({ name: 'humor', parent: 'coping', definition: 'Joking about work', exclusionCriteria: ['Sarcasm'] });
+  });
+
+  it('should nest codes and keep criteria and sets in REFI-QDA codebook XML', () => {
+    const xml = formatCodebook(codebook, 'qdc');
+
+    expect(xml).toContain('<CodeBook xmlns="urn:QDA-XML:codebook:1.0"');
+    expect(xml).toContain('Exclusion: Help from managers');
+    expect(xml).toContain('&quot;practical&quot;');
+
+    const parsed = parseCodebook(xml, 'qdc');
+    expect(parsed.codes.map(({ guid, color, ...code }) => code)).toEqual(codebook.codes);
+    expect(parsed.codes.every(code => code.guid)).toBe(true);
+    expect(parsed.groups).toMatchObject([{ name: 'night-shift', description: 'Night work', codes: ['peer-support'] }]);
+  });
+
+  it('should keep line breaks and tabs and drop control characters in REFI-QDA XML', () => {
+    const description = 'Help from others.\r\nIncludes:\tpractical help\nand emotional\u0007 support';
+    const xml = renderXml(xmlElement('Codes', {}, [
+      xmlElement('Code', { guid: 'c1', name: 'support', isCodable: true, note: description }, [
+        xmlElement('Description', {}, [], description),
+      ]),
+    ]));
+
+    expect(xml).not.toMatch(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+    expect(xml).toContain('note="Help from others.&#13;&#10;Includes:&#9;practical help&#10;and emotional support"');
+
+    const expected = 'Help from others.\r\nIncludes:\tpractical help\nand emotional support';
+    const code = parseXml(xml).children[0];
+    expect(code.attributes.note).toBe(expected);
+    expect(code.children[0].text).toBe(expected);
+
+    const groups = [{ ...codebook.groups[0], description }];
+    const parsed = parseCodebook(formatCodebook({ ...codebook, groups }, 'qdc'), 'qdc');
+    expect(parsed.groups[0].description).toBe(expected);
+  });
+
+  it('should read codebooks written by other tools', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<!-- exported -->
+<qda:CodeBook xmlns:qda="urn:QDA-XML:codebook:1.0" origin="Other QDA">
+  <qda:Codes>
+    <qda:Code guid="A1" name="Stress &amp; strain" isCodable="true" color="#ff0000">
+      <qda:Description><![CDATA[Pressure <at> work]]></qda:Description>
+      <qda:Code guid="A2" name="Workload" isCodable="true"/>
+    </qda:Code>
+  </qda:Codes>
+</qda:CodeBook>`;
+
+    const parsed = parseCodebook(xml, 'qdc');
+
+    expect(parsed.codes).toMatchObject([
+      { name: 'Stress & strain', definition: 'Pressure <at> work', color: '#ff0000', guid: 'A1' },
+      { name: 'Workload', parent: 'Stress & strain', definition: '' },
+    ]);
+  });
+
+  it('should detect the format from the file name or content', () => {
+    expect(detectCodebookFormat('', 'book.QDC')).toBe('qdc');
+    expect(detectCodebookFormat('[{"name":"a"}]')).toBe('json');
+    expect(detectCodebookFormat('name,definition\n')).toBe('csv');
+  });
+});
@@ -0,0 +1,397 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../src/knowledge/storage/sqlite-adapter';
+import { CodebookManager } from '../src/knowledge/codebook-manager';
+import { CodingStore } from '../src/knowledge/coding-store';
+
+describe('CodebookManager', () => {
+  let db: SQLiteAdapter;
+  let manager: CodebookManager;
+  let first: number;
+  let second: number;
+
+  beforeEach(() => {
+    db = new SQLiteAdapter(':memory:');
+    manager = new CodebookManager(db);
+
+    db.createEntity({ name: 'study', entityType: 'project', observations: [] });
+    db.createEntity({ name: 'study__interview__P07', entityType: 'interview', observations: [] });
+    db.createEntity({
+      name: 'study__code__support',
+      entityType: 'code',
+      observations: ['Help from others'],
+      metadata: { definition: 'Help from others', examples: ['they helped'], frequency: 2 },
+    });
+    db.createEntity({
+      name: 'study__code__peer-support',
+      entityType: 'code',
+      observations: ['Help from colleagues'],
+      metadata: { definition: 'Help from colleagues', examples: ['my colleagues'], frequency: 3, exclusionCriteria: ['managers'] },
+    });
+    db.createEntity({ name: 'study__theme__coping', entityType: 'theme', observations: [] });
+    db.createRelation({ from: 'study__theme__coping', to: 'study__code__peer-support', relationType: 'contains' });
+
+    first = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 20, text: 'they helped' });
+    second = db.createSegment({ source: 'study__interview__P07', startOffset: 30, endOffset: 50, text: 'my colleagues' });
+    db.addSegmentCode(first, 'study__code__support');
+    db.addSegmentCode(first, 'study__code__peer-support', { coder: 'ana' });
+    db.addSegmentCode(second, 'study__code__peer-support', { coder: 'ana' });
+  });
+
+  describe('mergeCodes', () => {
+    it('should move segments and relations to the target and retire the merged code', () => {
+      const result = manager.mergeCodes('study', { from: ['support', 'peer-support'], to: 'support' });
+
+      expect(result.retired).toEqual(['study__code__peer-support']);
+      expect(result.movedSegments).toBe(2);
+      expect(db.getSegmentsByCode('study__code__support').map(s => s.id)).toEqual([first, second]);
+      expect(db.getSegmentsByCode('study__code__peer-support')).toHaveLength(0);
+      expect(db.getCodings('study__interview__P07').filter(c => c.coder === 'ana')).toHaveLength(2);
+
+      expect(db.getRelations('study__theme__coping', 'contains')[0].to).toBe('study__code__support');
+      expect(db.getRelations('study__code__support', 'derived_from')).toEqual([{
+        from: 'study__code__support',
+        to: 'study__code__peer-support',
+        relationType: 'derived_from',
+        metadata: { operationId: result.operation.id, operation: 'merge' },
+      }]);
+      expect(db.getEntity('study__code__peer-support')!.metadata!.retired.mergedInto).toBe('study__code__support');
+    });
+
+    it('should combine definitions, examples and criteria', () => {
+      manager.mergeCodes('study', { from: ['peer-support'], to: 'support' });
+
+      const target = db.getEntity('study__code__support')!;
+      expect(target.observations[0]).toBe('Help from others; Help from colleagues');
+      expect(target.metadata).toMatchObject({
+        examples: ['they helped', 'my colleagues'],
+        frequency: 2,
+        exclusionCriteria: ['managers'],
+      });
+    });
+
+    it('should leave the graph untouched when the merge fails', () => {
+      expect(() => manager.mergeCodes('study', { from: ['peer-support', 'missing'], to: 'support' })).toThrow('not found');
+
+      expect(db.getSegmentsByCode('study__code__peer-support')).toHaveLength(2);
+      expect(db.getCodebookOperations('study')).toHaveLength(0);
+    });
+  });
+
+  describe('undo', () => {
+    it('should restore codes, code applications and relations', () => {
+      manager.mergeCodes('study', { from: ['peer-support'], to: 'support' });
+      const undone = manager.undo('study');
+
+      expect(undone.undoneAt).toBeDefined();
+      expect(db.getEntity('study__code__peer-support')!.metadata!.retired).toBeUndefined();
+      expect(db.getEntity('study__code__support')!.observations).toEqual(['Help from others']);
+      expect(db.getSegmentsByCode('study__code__support').map(s => s.id)).toEqual([first]);
+      expect(db.getSegmentsByCode('study__code__peer-support').map(s => s.id)).toEqual([first, second]);
+      expect(db.getRelations('study__theme__coping', 'contains')[0].to).toBe('study__code__peer-support');
+      expect(db.getRelations(undefined, 'derived_from')).toHaveLength(0);
+    });
+
+    it('should remove a target code that the merge created', () => {
+      manager.mergeCodes('study', { from: ['support', 'peer-support'], to: 'mutual-help' });
+      expect(db.getSegmentsByCode('study__code__mutual-help')).toHaveLength(2);
+
+      manager.undo('study');
+
+      expect(db.getEntity('study__code__mutual-help')).toBeNull();
+      expect(db.getSegmentsByCode('study__code__support')).toHaveLength(1);
+    });
+
+    it('should refuse to undo past a later operation on the same codes', () => {
+      db.createEntity({ name: 'study__code__help', entityType: 'code', observations: [''] });
+      const merge = manager.mergeCodes('study', { from: ['peer-support'], to: 'support' });
+      manager.mergeCodes('study', { from: ['help'], to: 'support' });
+
+      expect(() => manager.undo('study', merge.operation.id)).toThrow('Undo operation(s) #2 first');
+
+      manager.undo('study');
+      manager.undo('study');
+      expect(() => manager.undo('study')).toThrow('No codebook operations to undo');
+    });
+  });
+
+  describe('undo after later coding', () => {
+    let third: number;
+
+    beforeEach(() => {
+      third = db.createSegment({ source: 'study__interview__P07', startOffset: 60, endOffset: 80, text: 'we cover for each other' });
+    });
+
+    it('should refuse to undo a rename once the new code was applied to more segments', () => {
+      const rename = manager.renameCode('study', { code: 'peer-support', newName: 'colleague-support' });
+      new CodingStore(db).saveCodingResult('study', db.getEntity('study__interview__P07')!, {
+        codes: [{ name: 'colleague-support', definition: 'Help from colleagues', examples: [], frequency: 1, type: 'constructed' }],
+        segments: [{ text: 'we cover for each other', codes: ['colleague-support'], startIndex: 60, endIndex: 80 }],
+      });
+
+      expect(() => manager.undo('study', rename.id)).toThrow('"colleague-support" changed after it');
+
+      expect(db.getSegmentsByCode('study__code__colleague-support').map(s => s.id)).toEqual([first, second, third]);
+      expect(db.getCodebookOperation(rename.id)!.undoneAt).toBeUndefined();
+    });
+
+    it('should refuse to undo a split once a new code or the split code was applied again', () => {
+      const split = manager.splitCode('study', {
+        code: 'peer-support',
+        into: [{ name: 'practical-help', segmentIds: [first] }, { name: 'emotional-help', segmentIds: [second] }],
+      });
+      db.addSegmentCode(third, 'study__code__emotional-help');
+
+      expect(() => manager.undo('study')).toThrow('"emotional-help" changed after it');
+      expect(db.getSegmentsByCode('study__code__emotional-help').map(s => s.id)).toEqual([second, third]);
+
+      db.removeSegmentCode(third, 'study__code__emotional-help');
+      db.addSegmentCode(third, 'study__code__peer-support');
+
+      expect(() => manager.undo('study', split.operation.id)).toThrow('"peer-support" changed after it');
+      expect(db.getSegmentsByCode('study__code__peer-support').map(s => s.id)).toEqual([third]);
+    });
+
+    it('should undo once the later coding is removed again', () => {
+      manager.renameCode('study', { code: 'peer-support', newName: 'colleague-support' });
+      db.addSegmentCode(third, 'study__code__colleague-support');
+      db.removeSegmentCode(third, 'study__code__colleague-support');
+
+      manager.undo('study');
+
+      expect(db.getSegmentsByCode('study__code__peer-support').map(s => s.id)).toEqual([first, second]);
+    });
+  });
+
+  describe('renameCode', () => {
+    it('should carry segments, relations and references to the new name', () => {
+      db.createEntity({
+        name: 'study__theme__solidarity',
+        entityType: 'theme',
+        observations: [],
+        metadata: { theme: { name: 'solidarity', supportingCodes: ['peer-support', 'support'] } },
+      });
+      db.createEntity({
+        name: 'study__memo__m1',
+        entityType: 'memo',
+        observations: [],
+        metadata: { linkedEntities: ['study__interview__P07', 'study__code__peer-support'] },
+      });
+
+      manager.renameCode('study', { code: 'peer-support', newName: 'colleague-support' });
+
+      expect(db.getEntity('study__code__peer-support')).toBeNull();
+      expect(db.getEntity('study__code__colleague-support')!.observations).toEqual(['Help from colleagues']);
+      expect(db.getSegmentsByCode('study__code__colleague-support').map(s => s.id)).toEqual([first, second]);
+      expect(db.getRelations('study__theme__coping', 'contains')[0].to).toBe('study__code__colleague-support');
+      expect(db.getEntity('study__theme__solidarity')!.metadata!.theme.supportingCodes).toEqual(['colleague-support', 'support']);
+      expect(db.getEntity('study__memo__m1')!.metadata!.linkedEntities).toContain('study__code__colleague-support');
+
+      manager.undo('study');
+
+      expect(db.getEntity('study__code__colleague-support')).toBeNull();
+      expect(db.getSegmentsByCode('study__code__peer-support')).toHaveLength(2);
+      expect(db.getEntity('study__theme__solidarity')!.metadata!.theme.supportingCodes).toEqual(['peer-support', 'support']);
+    });
+
+    it('should refuse a name that is already taken', () => {
+      expect(() => manager.renameCode('study', { code: 'peer-support', newName: 'support' })).toThrow('already exists');
+    });
+  });
+
+  describe('splitCode', () => {
+    it('should send each segment and its relations to its new code', () => {
+      db.createRelation({ from: 'study__code__peer-support', to: 'study__interview__P07', relationType: 'codes', metadata: { segmentId: first } });
+      db.createRelation({ from: 'study__code__peer-support', to: 'study__interview__P07', relationType: 'codes', metadata: { segmentId: second } });
+
+      const result = manager.splitCode('study', {
+        code: 'peer-support',
+        into: [
+          { name: 'practical-help', segmentIds: [first] },
+          { name: 'emotional-help', definition: 'Comfort from colleagues', segmentIds: [second] },
+        ],
+      });
+
+      expect(result.created).toEqual(['study__code__practical-help', 'study__code__emotional-help']);
+      expect(db.getSegmentsByCode('study__code__practical-help').map(s => s.id)).toEqual([first]);
+      expect(db.getSegmentsByCode('study__code__emotional-help').map(s => s.id)).toEqual([second]);
+      expect(db.getRelations('study__code__practical-help', 'codes')[0].metadata).toEqual({ segmentId: first });
+      expect(db.getRelations('study__theme__coping', 'contains').map(r => r.to).sort())
+        .toEqual(['study__code__emotional-help', 'study__code__practical-help']);
+      expect(db.getEntity('study__code__emotional-help')!.observations).toEqual(['Comfort from colleagues']);
+      expect(db.getEntity('study__code__peer-support')!.metadata!.retired.splitInto).toHaveLength(2);
+      expect(db.getRelations('study__code__peer-support', 'derived_from')).toHaveLength(2);
+
+      manager.undo('study');
+
+      expect(db.getEntity('study__code__practical-help')).toBeNull();
+      expect(db.getRelations('study__code__peer-support', 'codes')).toHaveLength(2);
+      expect(db.getRelations('study__theme__coping', 'contains')[0].to).toBe('study__code__peer-support');
+    });
+
+    it('should require every segment to be assigned exactly once', () => {
+      expect(() => manager.splitCode('study', {
+        code: 'peer-support',
+        into: [{ name: 'a', segmentIds: [first] }, { name: 'b', segmentIds: [] }],
+      })).toThrow(`missing: #${second}`);
+
+      expect(() => manager.splitCode('study', {
+        code: 'peer-support',
+        into: [{ name: 'a', segmentIds: [first, second] }, { name: 'b', segmentIds: [second] }],
+      })).toThrow('more than one new code');
+    });
+  });
+
+  describe('code hierarchy', () => {
+    beforeEach(() => {
+      db.createEntity({ name: 'study__code__family', entityType: 'code', observations: ['Help at home'] });
+      const third = db.createSegment({ source: 'study__interview__P07', startOffset: 60, endOffset: 80, text: 'my partner' });
+      db.addSegmentCode(third, 'study__code__family');
+    });
+
+    it('should nest and order codes and roll segment counts up', () => {
+      manager.moveCode('study', { code: 'peer-support', parent: 'support' });
+      manager.moveCode('study', { code: 'family', parent: 'support', position: 1 });
+
+      const tree = manager.getCodeTree('study');
+      expect(tree.map(n => n.label)).toEqual(['support']);
+      expect(tree[0].children.map(n => n.label)).toEqual(['family', 'peer-support']);
+      expect(tree[0].children[1].depth).toBe(1);
+      expect(tree[0].segments).toBe(1);
+      expect(tree[0].totalSegments).toBe(3);
+    });
+
+    it('should refuse to create a cycle', () => {
+      manager.moveCode('study', { code: 'peer-support', parent: 'support' });
+
+      expect(() => manager.moveCode('study', { code: 'support', parent: 'peer-support' })).toThrow('own descendant');
+    });
+
+    it('should keep children attached through rename, merge and split', () => {
+      manager.moveCode('study', { code: 'family', parent: 'peer-support' });
+
+      manager.renameCode('study', { code: 'peer-support', newName: 'colleagues' });
+      expect(db.getEntity('study__code__family')!.metadata!.parent).toBe('study__code__colleagues');
+
+      manager.mergeCodes('study', { from: ['colleagues'], to: 'support' });
+      expect(db.getEntity('study__code__family')!.metadata!.parent).toBe('study__code__support');
+
+      db.createEntity({ name: 'study__code__care', entityType: 'code', observations: [''] });
+      manager.moveCode('study', { code: 'support', parent: 'care' });
+      manager.splitCode('study', {
+        code: 'support',
+        into: [{ name: 'practical-help', segmentIds: [first] }, { name: 'emotional-help', segmentIds: [second] }],
+      });
+      expect(db.getEntity('study__code__family')!.metadata!.parent).toBe('study__code__care');
+      expect(db.getEntity('study__code__practical-help')!.metadata!.parent).toBe('study__code__care');
+    });
+
+    it('should collect codes from different branches in a group', () => {
+      manager.moveCode('study', { code: 'peer-support', parent: 'support' });
+      manager.updateCodeGroup('study', { group: 'night-shift', description: 'Night work', add: ['peer-support', 'family'] });
+      const { codes } = manager.updateCodeGroup('study', { group: 'night-shift', remove: ['family'], add: ['peer-support'] });
+
+      expect(codes).toEqual(['study__code__peer-support']);
+      expect(manager.getCodeTree('study')[1].children[0].groups).toEqual(['night-shift']);
+    });
+  });
+
+  describe('createSubcodes', () => {
+    it('should move the chosen segments to new child codes and keep the rest on the parent', () => {
+      db.updateEntity('study__code__peer-support', {
+        metadata: { ...db.getEntity('study__code__peer-support')!.metadata, subcodeProposal: { subcodes: [] } },
+      });
+
+      const operation = manager.createSubcodes('study', {
+        code: 'peer-support',
+        subcodes: [{ name: 'colleague-advice', definition: 'Advice from colleagues', segmentIds: [second] }],
+      });
+
+      expect(operation.operationType).toBe('subcode');
+      expect(db.getSegmentsByCode('study__code__peer-support').map(s => s.id)).toEqual([first]);
+      expect(db.getSegmentsByCode('study__code__colleague-advice').map(s => s.id)).toEqual([second]);
+      expect(db.getEntity('study__code__colleague-advice')!.metadata!.parent).toBe('study__code__peer-support');
+      expect(db.getEntity('study__code__peer-support')!.metadata!.subcodeProposal).toBeUndefined();
+      expect(manager.getCodeTree('study').find(n => n.label === 'peer-support')!.totalSegments).toBe(2);
+
+      manager.undo('study');
+
+      expect(db.getEntity('study__code__colleague-advice')).toBeNull();
+      expect(db.getSegmentsByCode('study__code__peer-support')).toHaveLength(2);
+    });
+
+    it('should refuse segments that are not coded with the parent', () => {
+      const other = db.createSegment({ source: 'study__interview__P07', startOffset: 90, endOffset: 99, text: 'nobody' });
+
+      expect(() => manager.createSubcodes('study', {
+        code: 'peer-support',
+        subcodes: [{ name: 'nobody', segmentIds: [other] }],
+      })).toThrow();
+      expect(db.getCodebookOperations('study')).toHaveLength(0);
+    });
+  });
+
+  describe('importCodebook', () => {
+    const codebook = {
+      codes: [
+        { name: 'workload', definition: 'Amount of work', inclusionCriteria: ['Tasks per shift'], exclusionCriteria: [], examples: [] },
+        { name: 'understaffing', parent: 'workload', definition: 'Too few staff', inclusionCriteria: [], exclusionCriteria: ['Sick leave'], examples: ['we were two'] },
+        { name: 'support', definition: '', inclusionCriteria: ['Any help'], exclusionCriteria: [], examples: ['a hug'] },
+      ],
+      groups: [{ name: 'stressors', codes: ['understaffing'] }],
+    };
+
+    it('should create new codes with their hierarchy and enrich existing ones', () => {
+      const result = manager.importCodebook('study', codebook, { source: 'book.csv' });
+
+      expect(result.created).toEqual(['study__code__workload', 'study__code__understaffing']);
+      expect(result.updated).toEqual(['study__code__support']);
+      expect(db.getEntity('study__code__understaffing')!.metadata).toMatchObject({
+        parent: 'study__code__workload',
+        exclusionCriteria: ['Sick leave'],
+        type: 'theoretical',
+        imported: { operationId: result.operation.id, source: 'book.csv' },
+      });
+      expect(db.getEntity('study__code__support')!.metadata).toMatchObject({
+        definition: 'Help from others',
+        examples: ['they helped', 'a hug'],
+        inclusionCriteria: ['Any help'],
+      });
+      expect(db.getSegmentsByCode('study__code__support')).toHaveLength(1);
+      expect(manager.getCodeTree('study').find(n => n.label === 'workload')!.children[0].groups).toEqual(['stressors']);
+
+      manager.undo('study');
+
+      expect(db.getEntity('study__code__workload')).toBeNull();
+      expect(db.getEntity('study__codeGroup__stressors')).toBeNull();
+      expect(db.getEntity('study__code__support')!.metadata!.examples).toEqual(['they helped']);
+    });
+
+    it('should reject unknown parents and cycles without changing anything', () => {
+      expect(() => manager.importCodebook('study', {
+        codes: [{ name: 'a', parent: 'missing', definition: '', inclusionCriteria: [], exclusionCriteria: [], examples: [] }],
+        groups: [],
+      })).toThrow('not found');
+
+      expect(() => manager.importCodebook('study', {
+        codes: [
+          { name: 'a', parent: 'b', definition: '', inclusionCriteria: [], exclusionCriteria: [], examples: [] },
+          { name: 'b', parent: 'a', definition: '', inclusionCriteria: [], exclusionCriteria: [], examples: [] },
+        ],
+        groups: [],
+      })).toThrow('own descendant');
+
+      expect(db.getCodebookOperations('study')).toHaveLength(0);
+    });
+
+    it('should export what it imported', () => {
+      manager.importCodebook('study', codebook);
+
+      const exported = manager.exportCodebook('study');
+      const understaffing = exported.codes.find(c => c.name === 'understaffing')!;
+
+      expect(exported.codes.map(c => c.name)).toEqual(['workload', 'understaffing', 'peer-support', 'support']);
+      expect(understaffing).toMatchObject({ parent: 'workload', definition: 'Too few staff', exclusionCriteria: ['Sick leave'] });
+      expect(exported.groups).toEqual([{ name: 'stressors', description: undefined, codes: ['understaffing'], guid: undefined }]);
+    });
+  });
+});
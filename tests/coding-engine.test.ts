@@ -101,6 +101,36 @@ describe('CodingEngine', () => {
       // Theoretical codes should emerge in grounded theory
       expect(result.summary.theoreticalCodes).toBeGreaterThanOrEqual(0);
     });
+
+    it('should anchor segment offsets to the text they were cut from', async () => {
+      const long = 'Night work wears people down over time. '.repeat(14) + 'Nobody talks about the sleep debt';
+      const text = '  I feel stressed at work.\n\n\nMy colleagues help me cope.  \n \n\n' + long + '\n';
+      const result = await engine.autoCoding({ text });
+
+      expect(result.segments.length).toBeGreaterThan(3);
+      for (const segment of result.segments) {
+        expect(text.slice(segment.startIndex, segment.endIndex)).toBe(segment.text);
+      }
+      expect(result.segments[0].text).toBe('I feel stressed at work.');
+      expect(result.segments[1].text).toBe('My colleagues help me cope.');
+      expect(result.segments[result.segments.length - 1].text).toBe('Nobody talks about the sleep debt');
+    });
+
+    it('should only code units spoken in the given roles', async () => {
+      const text = 'Interviewer: How did you feel about nights?\nP1: I feel exhausted after every shift.';
+      const result = await engine.autoCoding({
+        text,
+        units: [
+          { text: 'How did you feel about nights?', start: 13, end: 43, role: 'interviewer' },
+          { text: 'I feel exhausted after every shift.', start: 48, end: 83, role: 'participant' },
+        ],
+        speakerRoles: ['participant'],
+      });
+
+      expect(result.segments.map(s => s.startIndex)).toEqual([48]);
+      expect(result.codes.some(c => c.name.startsWith('feel-exhausted'))).toBe(true);
+      expect(result.codes.some(c => c.name.startsWith('feel-about'))).toBe(false);
+    });
   });
 
   describe('refineCodebook', () => {
@@ -170,4 +200,68 @@ describe('CodingEngine', () => {
       }
     });
   });
+
+  describe('proposeSplit', () => {
+    const segments = [
+      { id: 1, text: 'My colleagues covered my shift when my child was ill.' },
+      { id: 2, text: 'The night shift colleagues always covered for each other.' },
+      { id: 3, text: 'My family cooked dinner so I could sleep after nights.' },
+      { id: 4, text: 'My partner and family kept the house quiet so I could sleep.' },
+    ];
+
+    it('should separate segments with different vocabulary', async () => {
+      const result = await engine.proposeSplit({ code: 'support', segments });
+
+      const groups = result.clusters.map(c => [...c.segmentIds].sort());
+      expect(groups).toContainEqual([1, 2]);
+      expect(groups).toContainEqual([3, 4]);
+      expect(result.clusters.map(c => c.name).every(name => name.startsWith('support-'))).toBe(true);
+      expect(new Set(result.clusters.map(c => c.name)).size).toBe(2);
+    });
+
+    it('should use the given names and be deterministic', async () => {
+      const first = await engine.proposeSplit({ code: 'support', segments, names: ['work-support', 'home-support'] });
+      const second = await engine.proposeSplit({ code: 'support', segments, names: ['work-support', 'home-support'] });
+
+      expect(first.clusters.map(c => c.name)).toEqual(['work-support', 'home-support']);
+      expect(second).toEqual(first);
+      expect(first.cohesion).toBeGreaterThan(0);
+    });
+
+    it('should need at least two segments', async () => {
+      await expect(engine.proposeSplit({ code: 'support', segments: segments.slice(0, 1) })).rejects.toThrow('at least 2 segments');
+    });
+  });
+
+  describe('suggestSubcodes', () => {
+    const segments = [
+      { id: 1, text: 'My colleagues covered my shift when my child was ill.' },
+      { id: 2, text: 'The night shift colleagues always covered for each other.' },
+      { id: 3, text: 'Colleagues swapped a shift with me at short notice.' },
+      { id: 4, text: 'My family cooked dinner so I could sleep after nights.' },
+      { id: 5, text: 'My partner and family kept the house quiet so I could sleep.' },
+    ];
+
+    it('should group segments by content and name subcodes after their terms', async () => {
+      const result = await engine.suggestSubcodes({ code: 'support', segments });
+
+      const groups = result.subcodes.map(s => [...s.segmentIds].sort());
+      expect(groups).toContainEqual([1, 2, 3]);
+      expect(groups).toContainEqual([4, 5]);
+      expect(result.subcodes[0].coverage).toBeCloseTo(0.6);
+      expect(result.subcodes.find(s => s.segmentIds.includes(4))!.name).toMatch(/famili|sleep/);
+      expect(result.silhouette).toBeGreaterThan(0);
+    });
+
+    it('should honour a requested number of subcodes', async () => {
+      const result = await engine.suggestSubcodes({ code: 'support', segments, clusters: 3 });
+
+      expect(result.subcodes).toHaveLength(3);
+      expect(result.subcodes.flatMap(s => s.segmentIds).sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should need at least three segments', async () => {
+      await expect(engine.suggestSubcodes({ code: 'support', segments: segments.slice(0, 2) })).rejects.toThrow('at least 3 coded segments');
+    });
+  });
 });
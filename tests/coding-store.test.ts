@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../src/knowledge/storage/sqlite-adapter';
+import { CodingStore } from '../src/knowledge/coding-store';
+import { CodebookManager } from '../src/knowledge/codebook-manager';
+import type { CodingResult } from '../src/analysis/coding-engine';
+import type { Entity } from '../src/types/entities';
+
+describe('CodingStore', () => {
+  let db: SQLiteAdapter;
+  let store: CodingStore;
+  let source: Entity;
+
+  const result: Pick<CodingResult, 'codes' | 'segments'> = {
+    codes: [
+      { name: 'fatigue', definition: 'Tiredness from work', examples: ['I feel exhausted'], frequency: 2, type: 'in_vivo' },
+      { name: 'peer-support', definition: 'Help from colleagues', examples: ['colleagues help'], frequency: 1, type: 'constructed' },
+    ],
+    segments: [
+      { text: 'I feel exhausted.', codes: ['fatigue'], startIndex: 0, endIndex: 17 },
+      { text: 'My colleagues help, but I am still exhausted.', codes: ['fatigue', 'peer-support'], startIndex: 18, endIndex: 63 },
+      { text: 'Nothing to code here.', codes: [], startIndex: 64, endIndex: 85 },
+    ],
+  };
+
+  beforeEach(() => {
+    db = new SQLiteAdapter(':memory:');
+    store = new CodingStore(db);
+    db.createEntity({ name: 'study', entityType: 'project', observations: [] });
+    db.createEntity({ name: 'study__interview__P07', entityType: 'interview', observations: [] });
+    source = db.getEntity('study__interview__P07')!;
+  });
+
+  it('should save codes, coded segments and code relations', () => {
+    expect(store.saveCodingResult('study', source, result)).toEqual({ codes: 2, segments: 2 });
+
+    expect(db.getSegmentsBySource('study__interview__P07').map(s => s.codes.sort())).toEqual([
+      ['study__code__fatigue'],
+      ['study__code__fatigue', 'study__code__peer-support'],
+    ]);
+    expect(db.getEntity('study__code__fatigue')?.metadata?.frequency).toBe(2);
+    expect(db.getEntity('study__code__peer-support')?.metadata?.frequency).toBe(1);
+    expect(db.getRelations('study__code__fatigue', 'codes')).toHaveLength(2);
+  });
+
+  it('should not count the same codings again when a source is coded again', () => {
+    store.saveCodingResult('study', source, result);
+
+    expect(store.saveCodingResult('study', source, result)).toEqual({ codes: 2, segments: 0 });
+
+    expect(db.getSegmentsBySource('study__interview__P07')).toHaveLength(2);
+    expect(db.getEntity('study__code__fatigue')?.metadata?.frequency).toBe(2);
+    expect(db.getEntity('study__code__peer-support')?.metadata?.frequency).toBe(1);
+    expect(db.getRelations('study__code__fatigue', 'codes')).toHaveLength(2);
+  });
+
+  it('should count codings added by a later run', () => {
+    store.saveCodingResult('study', source, result);
+    store.saveCodingResult('study', source, {
+      codes: [{ name: 'fatigue', definition: 'Tiredness from work', examples: ['worn out'], frequency: 1, type: 'in_vivo' }],
+      segments: [{ text: 'Worn out by nights.', codes: ['fatigue'], startIndex: 86, endIndex: 105 }],
+    });
+
+    const fatigue = db.getEntity('study__code__fatigue');
+    expect(fatigue?.metadata?.frequency).toBe(3);
+    expect(fatigue?.metadata?.examples).toEqual(['I feel exhausted', 'worn out']);
+  });
+
+  it('should locate an excerpt in the source content and refuse other text', () => {
+    const content = 'I feel exhausted. My colleagues help, but I am still exhausted.';
+    db.updateEntity(source.name, { metadata: { content } });
+    const stored = db.getEntity(source.name)!;
+
+    expect(store.locateText(stored, content)).toBe(0);
+    expect(store.locateText(stored, 'My colleagues help')).toBe(18);
+    expect(() => store.locateText(stored, 'Something else entirely.')).toThrow(/not part of data source/);
+    expect(() => store.locateText(stored, '')).toThrow(/not part of data source/);
+
+    // A run on the excerpt is saved at the excerpt's place in the source
+    const offset = store.locateText(stored, 'but I am still exhausted.');
+    store.saveCodingResult('study', stored, {
+      codes: [result.codes[0]],
+      segments: [{ text: 'but I am still exhausted.', codes: ['fatigue'], startIndex: offset, endIndex: offset + 25 }],
+    });
+    const [segment] = db.getSegmentsBySource(source.name);
+    expect(content.slice(segment.startOffset, segment.endOffset)).toBe(segment.text);
+  });
+
+  it('should save codings of a merged code to the code it was merged into', () => {
+    store.saveCodingResult('study', source, result);
+    new CodebookManager(db).mergeCodes('study', { from: ['fatigue'], to: 'peer-support' });
+
+    expect(store.saveCodingResult('study', source, {
+      codes: [result.codes[0]],
+      segments: [{ text: 'Worn out by nights.', codes: ['fatigue'], startIndex: 86, endIndex: 105 }],
+    })).toEqual({ codes: 1, segments: 1 });
+
+    expect(db.getSegmentsByCode('study__code__fatigue')).toHaveLength(0);
+    expect(db.getSegmentsByCode('study__code__peer-support')).toHaveLength(3);
+    expect(db.getEntity('study__code__peer-support')?.metadata?.frequency).toBe(3);
+    expect(db.getEntity('study__code__fatigue')?.metadata?.retired).toBeDefined();
+  });
+
+  it('should take a split code up again for new codings', () => {
+    store.saveCodingResult('study', source, result);
+    const [first, second] = db.getSegmentsByCode('study__code__fatigue').map(s => s.id);
+    new CodebookManager(db).splitCode('study', {
+      code: 'fatigue',
+      into: [{ name: 'physical-fatigue', segmentIds: [first] }, { name: 'emotional-fatigue', segmentIds: [second] }],
+    });
+
+    store.saveCodingResult('study', source, {
+      codes: [result.codes[0]],
+      segments: [{ text: 'Worn out by nights.', codes: ['fatigue'], startIndex: 86, endIndex: 105 }],
+    });
+
+    const fatigue = db.getEntity('study__code__fatigue')!;
+    expect(fatigue.metadata?.retired).toBeUndefined();
+    expect(fatigue.metadata?.frequency).toBe(1);
+    expect(db.getSegmentsByCode('study__code__fatigue').map(s => s.text)).toEqual(['Worn out by nights.']);
+    expect(db.getSegmentsByCode('study__code__physical-fatigue').map(s => s.id)).toEqual([first]);
+  });
+
+  it('should accumulate the frequency of codes saved without segments', () => {
+    store.saveCode('study', result.codes[0]);
+    store.saveCode('study', result.codes[0]);
+
+    expect(db.getEntity('study__code__fatigue')?.metadata?.frequency).toBe(4);
+  });
+});
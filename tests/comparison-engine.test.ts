@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ComparisonEngine } from '../src/analysis/comparison-engine';
+
+describe('ComparisonEngine', () => {
+  const engine = new ComparisonEngine();
+
+  describe('compareSegments', () => {
+    it('should report shared terms, co-codes and lexical overlap', async () => {
+      const result = await engine.compareSegments({
+        segments: [
+          { label: 'A', text: 'My colleagues supported me through the night shift.', codes: ['peer-support', 'night-work'] },
+          { label: 'B', text: 'Colleagues support each other on every night shift.', codes: ['peer-support', 'night-work'] },
+        ],
+        focusCode: 'peer-support',
+      });
+
+      expect(result.sharedTerms).toEqual(expect.arrayContaining(['colleagues', 'night', 'shift']));
+      expect(result.sharedTerms).toContain('supported');
+      expect(result.coCodes).toEqual([{ code: 'night-work', segments: 2 }]);
+      expect(result.lexicalOverlap).toBeGreaterThan(0.5);
+      expect(result.pairwiseOverlap).toHaveLength(1);
+    });
+
+    it('should separate shared properties from differing dimensions', async () => {
+      const result = await engine.compareSegments({
+        segments: [
+          { label: 'A', text: 'I was so exhausted after the shift.', codes: [] },
+          { label: 'B', text: 'We are happy with the new rota.', codes: [] },
+        ],
+      });
+
+      const valence = result.differingDimensions.find(d => d.dimension === 'valence');
+      expect(valence?.values).toEqual(['negative', 'positive']);
+      expect(result.differingDimensions.map(d => d.dimension)).toContain('agency');
+      expect(result.sharedProperties).toContain('certainty: assertive');
+    });
+
+    it('should suggest the same code for closely matching segments', async () => {
+      const result = await engine.compareSegments({
+        segments: [
+          { label: 'A', text: 'Talking with colleagues helps me cope.', codes: ['peer-support'] },
+          { label: 'B', text: 'Talking with my colleagues helps me cope.', codes: ['peer-support'] },
+        ],
+        focusCode: 'peer-support',
+      });
+
+      expect(result.suggestion).toBe('same_code');
+    });
+
+    it('should suggest a subcode when segments of one code vary on several dimensions', async () => {
+      const result = await engine.compareSegments({
+        segments: [
+          { label: 'A', text: 'I felt completely alone and exhausted last winter.', codes: ['coping'] },
+          { label: 'B', text: 'Maybe we will plan better breaks together.', codes: ['coping'] },
+        ],
+        focusCode: 'coping',
+      });
+
+      expect(result.suggestion).toBe('new_subcode');
+      expect(result.rationale).toContain('"coping"');
+    });
+
+    it('should suggest sibling codes for unrelated uncoded segments', async () => {
+      const result = await engine.compareSegments({
+        segments: [
+          { label: 'A', text: 'The canteen closes early.', codes: [] },
+          { label: 'B', text: 'Patients arrive by ambulance at night.', codes: [] },
+        ],
+      });
+
+      expect(result.suggestion).toBe('sibling_code');
+      expect(result.sharedTerms).toEqual([]);
+    });
+
+    it('should require at least two segments', async () => {
+      await expect(engine.compareSegments({
+        segments: [{ label: 'A', text: 'Only one.', codes: [] }],
+      })).rejects.toThrow('At least two segments');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { ConceptMapEngine } from '../src/analysis/concept-map-engine';
+import type { ConceptNode, ConceptEdge } from '../src/analysis/concept-map-engine';
+
+describe('ConceptMapEngine', () => {
+  const engine = new ConceptMapEngine();
+
+  const nodes: ConceptNode[] = [
+    { id: 'theme:coping', label: 'Coping', type: 'theme' },
+    { id: 'code:peer-support', label: 'peer-support', type: 'code' },
+    { id: 'code:humor', label: 'humor', type: 'code' },
+    { id: 'code:exhaustion', label: 'exhaustion', type: 'code' },
+    { id: 'code:night-work', label: 'night-work', type: 'code' },
+    { id: 'code:orphan', label: 'orphan', type: 'code' },
+  ];
+
+  const edges: ConceptEdge[] = [
+    { from: 'theme:coping', to: 'code:peer-support', type: 'contains' },
+    { from: 'theme:coping', to: 'code:humor', type: 'contains' },
+    { from: 'code:peer-support', to: 'code:humor', type: 'co_occurs', weight: 1 },
+    { from: 'code:peer-support', to: 'code:humor', type: 'co_occurs', weight: 1 },
+    { from: 'code:night-work', to: 'code:exhaustion', type: 'causes' },
+    { from: 'code:exhaustion', to: 'code:peer-support', type: 'leads_to' },
+    { from: 'code:missing', to: 'code:humor', type: 'co_occurs' },
+  ];
+
+  describe('generateConceptMap', () => {
+    it('should keep only containment in hierarchical maps', async () => {
+      const map = await engine.generateConceptMap({ nodes, edges, style: 'hierarchical' });
+
+      expect(map.edges.every(e => e.type === 'contains')).toBe(true);
+      expect(map.nodes.map(n => n.id).sort()).toEqual(['code:humor', 'code:peer-support', 'theme:coping']);
+      expect(map.content.startsWith('flowchart TD')).toBe(true);
+      expect(map.theoreticalImplications).toContain('3 code(s) are not yet placed under a category or theme');
+    });
+
+    it('should merge repeated relations into weighted edges in network maps', async () => {
+      const map = await engine.generateConceptMap({ nodes, edges, style: 'network' });
+
+      const cooccurrence = map.edges.filter(e => e.type === 'co_occurs');
+      expect(cooccurrence).toEqual([{ from: 'code:peer-support', to: 'code:humor', type: 'co_occurs', weight: 2 }]);
+      expect(map.nodes).toHaveLength(6);
+      expect(map.content).toContain('---|2|');
+    });
+
+    it('should keep causal and sequential relations in process maps', async () => {
+      const map = await engine.generateConceptMap({ nodes, edges, style: 'process' });
+
+      expect(map.edges.map(e => e.type).sort()).toEqual(['causes', 'leads_to']);
+      expect(map.theoreticalImplications).toEqual([
+        'Conditions that start the process: night-work',
+        'Outcomes of the process: peer-support',
+      ]);
+    });
+
+    it('should limit the map to the neighborhood of a focus', async () => {
+      const oneStep = await engine.generateConceptMap({ nodes, edges, style: 'network', focus: 'exhaustion' });
+      expect(oneStep.nodes.map(n => n.label).sort()).toEqual(['exhaustion', 'night-work', 'peer-support']);
+
+      const twoSteps = await engine.generateConceptMap({ nodes, edges, style: 'network', focus: 'exhaustion', depth: 2 });
+      expect(twoSteps.nodes.map(n => n.label)).toContain('Coping');
+
+      await expect(engine.generateConceptMap({ nodes, edges, focus: 'unknown' })).rejects.toThrow('does not match');
+    });
+
+    it('should render GraphML and Cytoscape JSON', async () => {
+      const graphml = await engine.generateConceptMap({ nodes, edges, style: 'hierarchical', format: 'graphml' });
+      expect(graphml.content).toContain('<graph id="concept-map" edgedefault="directed">');
+      expect(graphml.content).toContain('<edge id="');
+      expect(graphml.content).toContain('<data key="label">Coping</data>');
+
+      const cytoscape = await engine.generateConceptMap({ nodes, edges, style: 'network', format: 'cytoscape' });
+      const parsed = JSON.parse(cytoscape.content);
+      expect(parsed.elements.nodes).toHaveLength(6);
+      expect(parsed.elements.edges[0].data).toHaveProperty('source');
+      expect(parsed.elements.edges[0].data).toHaveProperty('target');
+    });
+  });
+});
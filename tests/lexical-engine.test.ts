@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { LexicalEngine } from '../src/analysis/lexical-engine';
+
+describe('LexicalEngine', () => {
+  const engine = new LexicalEngine();
+
+  const nights = [
+    'The night shifts were exhausting. Night shifts drain me.',
+    'I was exhausted after night shifts, and the children cried.',
+  ];
+  const days = [
+    'Day shifts are calm. The day shift went well.',
+    'Days feel calm.',
+  ];
+
+  describe('profile', () => {
+    it('should count lemmas with their word forms and the texts they occur in', async () => {
+      const profile = await engine.profile({ texts: nights });
+
+      expect(profile.texts).toBe(2);
+      expect(profile.tokens).toBe(19);
+      expect(profile.typeTokenRatio).toBeCloseTo(profile.types / profile.tokens, 10);
+      expect(profile.standardisedTypeTokenRatio).toBeUndefined();
+
+      const [night, shift] = profile.terms;
+      expect(night).toMatchObject({ term: 'night', frequency: 3, range: 2, forms: ['night'] });
+      expect(shift).toMatchObject({ term: 'shift', frequency: 3, forms: ['shifts'] });
+      expect(night.perThousand).toBeCloseTo(3 / 19 * 1000, 5);
+      expect(profile.terms.map(t => t.term)).toContain('child');
+    });
+
+    it('should leave out stopwords unless asked to keep them', async () => {
+      const filtered = await engine.profile({ texts: nights, unit: 'word' });
+      expect(filtered.terms.map(t => t.term)).not.toContain('the');
+
+      const all = await engine.profile({ texts: nights, unit: 'word', excludeStopwords: false });
+      expect(all.terms.find(t => t.term === 'the')?.frequency).toBe(2);
+      expect(all.terms.find(t => t.term === 'shifts')?.forms).toBeUndefined();
+    });
+
+    it('should count n-grams within sentences, not across them', async () => {
+      const profile = await engine.profile({ texts: nights, unit: 'word', maxN: 3, minFrequency: 2 });
+
+      expect(profile.ngrams.map(g => g.n)).toEqual([2, 3]);
+      expect(profile.ngrams[0].rows).toEqual([
+        { term: 'night shifts', frequency: 3, perThousand: expect.any(Number), range: 2 },
+      ]);
+
+      const bigrams = (await engine.profile({ texts: nights, unit: 'word' })).ngrams[0].rows.map(r => r.term);
+      expect(bigrams).not.toContain('exhausting night');
+    });
+  });
+
+  describe('keyness', () => {
+    it('should rank terms over- and underused against the reference by log-likelihood', async () => {
+      const keyness = await engine.keyness({ texts: nights, referenceTexts: days, minFrequency: 3 });
+
+      expect(keyness.tokens).toBe(19);
+      expect(keyness.positive.map(r => r.term)).toEqual(['night']);
+      expect(keyness.negative.map(r => r.term)).toEqual(['day', 'shift']);
+
+      // "day": 0 of 19 target tokens against 3 of 12 reference tokens, with 28 other tokens in all
+      const [day] = keyness.negative;
+      const expected = 2 * (19 * Math.log(19 / (19 * 28 / 31)) + 3 * Math.log(3 / (12 * 3 / 31)) + 9 * Math.log(9 / (12 * 28 / 31)));
+      expect(day.logLikelihood).toBeCloseTo(expected, 10);
+      expect(day.logRatio).toBeCloseTo(Math.log2((0.5 / 19) / (3 / 12)), 10);
+      expect(day.significant).toBe(true);
+      expect(keyness.negative[1]).toMatchObject({ frequency: 3, referenceFrequency: 2, significant: false });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { NarrativeEngine } from '../src/analysis/narrative-engine';
+
+describe('NarrativeEngine', () => {
+  const engine = new NarrativeEngine();
+
+  const story = 'Let me tell you about my first night shift. It was a cold winter night in 2019, and there were only two of us on the ward. ' +
+    'Suddenly the alarm went off, and then I ran to bed four. I felt so scared. ' +
+    'In the end the patient was fine. To this day I check that monitor first.';
+
+  describe('analyzeNarrative', () => {
+    it('should label clauses with Labov elements', async () => {
+      const result = await engine.analyzeNarrative({ text: story });
+      const clauses = result.episodes[0].clauses;
+
+      expect(clauses[0].element).toBe('abstract');
+      expect(clauses.some(c => c.element === 'orientation')).toBe(true);
+      expect(clauses.filter(c => c.element === 'complicating_action').length).toBeGreaterThanOrEqual(2);
+      expect(clauses.some(c => c.element === 'evaluation' && c.text.includes('scared'))).toBe(true);
+      expect(clauses.some(c => c.element === 'resolution')).toBe(true);
+      expect(clauses[clauses.length - 1].element).toBe('coda');
+    });
+
+    it('should keep clause offsets aligned with the source text', async () => {
+      const text = `Interviewer: Tell me more.\n\n${story}`;
+      const result = await engine.analyzeNarrative({ text });
+
+      for (const episode of result.episodes) {
+        for (const clause of episode.clauses) {
+          expect(text.slice(clause.startIndex, clause.endIndex)).toBe(clause.text);
+        }
+      }
+    });
+
+    it('should only analyze the turns of the given speaker roles', async () => {
+      const question = 'Interviewer: Then what happened when you called the doctor and went back?';
+      const answer = `P1: ${story}`;
+      const text = `${question}\n\n${answer}`;
+      const answerStart = question.length + 2 + 'P1: '.length;
+
+      const result = await engine.analyzeNarrative({
+        text,
+        units: [
+          { text: question.slice('Interviewer: '.length), start: 'Interviewer: '.length, role: 'interviewer' },
+          { text: story, start: answerStart, role: 'participant' },
+        ],
+        speakerRoles: ['participant'],
+      });
+
+      const clauses = result.episodes.flatMap(e => e.clauses);
+      expect(clauses[0].element).toBe('abstract');
+      expect(clauses.some(c => /Interviewer|P1:|doctor/.test(c.text))).toBe(false);
+      for (const clause of clauses) {
+        expect(text.slice(clause.startIndex, clause.endIndex)).toBe(clause.text);
+      }
+    });
+
+    it('should start a new episode when a new story is announced', async () => {
+      const result = await engine.analyzeNarrative({
+        text: 'Then the doctor came and we talked. I remember the day I quit. I walked out and never came back.',
+      });
+
+      expect(result.episodes).toHaveLength(2);
+      expect(result.episodes[1].clauses[0].element).toBe('abstract');
+    });
+
+    it('should not treat description as narrative', async () => {
+      const result = await engine.analyzeNarrative({
+        text: 'Night shifts are hard. Most nurses prefer days.',
+      });
+
+      expect(result.narrativeEpisodes).toBe(0);
+      expect(result.interpretation).toContain('No fully formed narratives');
+    });
+
+    it('should report completeness and structure for complete stories', async () => {
+      const result = await engine.analyzeNarrative({ text: story });
+
+      expect(result.episodes[0].isNarrative).toBe(true);
+      expect(result.episodes[0].completeness).toBe(1);
+      expect(result.episodes[0].structure.startsWith('A → O')).toBe(true);
+    });
+  });
+});
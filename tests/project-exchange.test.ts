@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../src/knowledge/storage/sqlite-adapter';
+import { CodebookManager } from '../src/knowledge/codebook-manager';
+import { ProjectExchange } from '../src/knowledge/exchange/qdpx';
+import { readZip, writeZip } from '../src/knowledge/exchange/zip';
+
+// Everything an export should carry, without database ids and GUIDs
+function describeProject(db: SQLiteAdapter, manager: CodebookManager, project: string) {
+  const sources = db.getRelations(project, 'part_of').map(r => db.getEntity(r.from)!);
+  const codebook = manager.exportCodebook(project);
+  return {
+    project: db.getEntity(project)!.metadata,
+    sources: sources.map(source => ({
+      name: source.name,
+      content: source.metadata!.content,
+      segments: db.getSegmentsBySource(source.name).map(s => ({
+        startOffset: s.startOffset,
+        endOffset: s.endOffset,
+        text: s.text,
+        description: s.metadata?.description,
+        codings: db.getCodings(source.name).filter(c => c.segmentId === s.id).map(c => `${c.code}/${c.coder}/${c.pass}`).sort(),
+      })),
+    })).sort((a, b) => a.name.localeCompare(b.name)),
+    codes: codebook.codes.map(({ guid, ...code }) => code),
+    groups: codebook.groups.map(({ guid, ...group }) => ({
+      ...group,
+      members: db.getRelations(`${project}__codeGroup__${group.name}`, 'contains').map(r => r.to).sort(),
+    })),
+    memos: db.getEntitiesByType('memo').map(memo => ({
+      name: memo.name,
+      memoType: memo.metadata!.memoType,
+      content: memo.metadata!.content,
+      linkedEntities: [...memo.metadata!.linkedEntities].sort(),
+      segments: (memo.metadata!.segmentIds || []).map((id: number) => db.getSegment(id)!.text),
+    })),
+  };
+}
+
+describe('ProjectExchange', () => {
+  let db: SQLiteAdapter;
+  let manager: CodebookManager;
+  let exchange: ProjectExchange;
+
+  beforeEach(() => {
+    db = new SQLiteAdapter(':memory:');
+    manager = new CodebookManager(db);
+    exchange = new ProjectExchange(db, manager);
+
+    db.createEntity({
+      name: 'study',
+      entityType: 'project',
+      observations: [],
+      metadata: { researchQuestions: ['How do nurses cope?', 'What helps?'], methodology: 'grounded-theory' },
+    });
+    const sources = {
+      'study__interview__P01': 'Nights are hard 😴 but my colleagues help. We laugh a lot.',
+      'study__observation__ward': 'Staff share tasks during breaks.',
+    };
+    for (const [name, content] of Object.entries(sources)) {
+      db.createEntity({ name, entityType: name.includes('interview') ? 'interview' : 'observation', observations: [], metadata: { content } });
+      db.createRelation({ from: name, to: 'study', relationType: 'part_of' });
+    }
+
+    manager.importCodebook('study', {
+      codes: [
+        { name: 'support', definition: 'Help from others', inclusionCriteria: ['Any help'], exclusionCriteria: [], examples: [] },
+        { name: 'peer-support', parent: 'support', definition: 'Help from colleagues', inclusionCriteria: [], exclusionCriteria: ['Managers'], examples: ['my colleagues help'] },
+        { name: 'humor', definition: 'Joking', inclusionCriteria: [], exclusionCriteria: [], examples: [] },
+      ],
+      groups: [{ name: 'coping', description: 'Ways of coping', codes: ['humor', 'peer-support'] }],
+    });
+    db.createRelation({ from: 'study__codeGroup__coping', to: 'study__interview__P01', relationType: 'contains' });
+
+    const content = sources['study__interview__P01'];
+    const help = db.createSegment({
+      source: 'study__interview__P01',
+      startOffset: content.indexOf('my colleagues'),
+      endOffset: content.indexOf(' We'),
+      text: 'my colleagues help.',
+      metadata: { description: 'Key passage' },
+    });
+    const laugh = db.createSegment({ source: 'study__interview__P01', startOffset: content.indexOf('We'), endOffset: content.length, text: 'We laugh a lot.' });
+    const share = db.createSegment({ source: 'study__observation__ward', startOffset: 0, endOffset: 22, text: 'Staff share tasks duri' });
+    db.addSegmentCode(help, 'study__code__peer-support', { coder: 'ana' });
+    db.addSegmentCode(help, 'study__code__peer-support', { coder: 'ben' });
+    db.addSegmentCode(help, 'study__code__peer-support', { coder: 'ana', pass: 'second' });
+    db.addSegmentCode(laugh, 'study__code__humor', { coder: 'ana' });
+    db.addSegmentCode(share, 'study__code__support', { coder: 'ben' });
+
+    db.createEntity({
+      name: 'study__memo__night-humor',
+      entityType: 'memo',
+      observations: [],
+      metadata: {
+        memoType: 'theoretical',
+        content: 'Humor eases\nnight work.',
+        linkedEntities: ['study__code__humor', 'study__interview__P01'],
+        segmentIds: [laugh],
+      },
+    });
+  });
+
+  it('should re-import an exported project without losing anything', () => {
+    const exported = exchange.exportProject('study');
+    const original = describeProject(db, manager, 'study');
+
+    expect(exported).toMatchObject({ users: 2, sources: 2, codes: 3, segments: 3, codings: 5, memos: 1, sets: 1, skipped: [] });
+
+    const target = new SQLiteAdapter(':memory:');
+    const targetManager = new CodebookManager(target);
+    const imported = new ProjectExchange(target, targetManager).importProject(exported.archive);
+
+    expect(imported).toMatchObject({ project: 'study', sources: 2, codes: 3, segments: 3, codings: 5, memos: 1, skipped: [] });
+    const copy = describeProject(target, targetManager, 'study');
+    expect(copy.sources[0].segments[0].codings).toEqual([
+      'study__code__peer-support/ana/initial',
+      'study__code__peer-support/ana/second',
+      'study__code__peer-support/ben/initial',
+    ]);
+    expect(copy.sources).toEqual(original.sources);
+    expect(copy.codes).toEqual(original.codes);
+    expect(copy.groups).toEqual(original.groups);
+    expect(copy.memos).toEqual(original.memos);
+    expect(copy.project).toMatchObject(original.project!);
+
+    // Stable identifiers: exporting the copy gives the same project file apart from per-export GUIDs and dates
+    const normalize = (archive: Buffer) => readZip(archive).get('project.qde')!.toString('utf-8')
+      .replace(/creationDateTime="[^"]*"/g, '')
+      .replace(/<Coding guid="[^"]*"/g, '<Coding')
+      .replace(/(User guid|creatingUser)="[^"]*"/g, '$1=""');
+    expect(normalize(new ProjectExchange(target, targetManager).exportProject('study').archive)).toBe(normalize(exported.archive));
+  });
+
+  it('should split imported transcripts into speaker turns', () => {
+    const transcript = 'Interviewer: How are the nights?\nP2: Long. My colleagues help.';
+    db.createEntity({ name: 'study__interview__P02', entityType: 'interview', observations: [], metadata: { content: transcript } });
+    db.createRelation({ from: 'study__interview__P02', to: 'study', relationType: 'part_of' });
+
+    const target = new SQLiteAdapter(':memory:');
+    new ProjectExchange(target, new CodebookManager(target)).importProject(exchange.exportProject('study').archive);
+
+    expect(target.getTurns('study__interview__P02').map(t => [t.speaker, t.role, t.text])).toEqual([
+      ['Interviewer', 'interviewer', 'How are the nights?'],
+      ['P2', 'participant', 'Long. My colleagues help.'],
+    ]);
+    expect(target.getEntity('study__interview__P02')!.metadata).toMatchObject({ format: 'speaker', speakers: ['Interviewer', 'P2'] });
+    expect(target.getTurns('study__interview__P01')).toEqual([]);
+  });
+
+  it('should count positions in code points', () => {
+    const qde = readZip(exchange.exportProject('study').archive).get('project.qde')!.toString('utf-8');
+    const content = 'Nights are hard 😴 but my colleagues help. We laugh a lot.';
+
+    expect(qde).toContain(`startPosition="${Array.from(content).indexOf('m')}"`);
+    expect(qde).toContain('<CodeBook>');
+    expect(qde).toContain('<NoteRef targetGUID=');
+  });
+
+  it('should import projects written by other tools', () => {
+    const qde = `<?xml version="1.0" encoding="utf-8"?>
+<Project xmlns="urn:QDA-XML:project:1.0" name="From elsewhere" origin="Other QDA">
+  <Users><User guid="U1" name="Chris"/></Users>
+  <CodeBook><Codes>
+    <Code guid="C1" name="Other" isCodable="true"><Code guid="C2" name="Other" isCodable="true"/></Code>
+  </Codes></CodeBook>
+  <Sources>
+    <TextSource guid="S1" name="Focus group" plainTextPath="internal://S1.txt">
+      <PlainTextSelection guid="P1" startPosition="0" endPosition="5" creatingUser="U1">
+        <Coding guid="K1" creatingUser="U1"><CodeRef targetGUID="C2"/></Coding>
+      </PlainTextSelection>
+    </TextSource>
+    <PDFSource guid="S2" name="Scan" path="relative://scan.pdf"/>
+  </Sources>
+</Project>`;
+    const archive = writeZip(new Map([
+      ['project.qde', Buffer.from(qde)],
+      ['sources/S1.txt', Buffer.from('Hello group')],
+    ]));
+
+    const result = exchange.importProject(archive, { projectName: 'elsewhere' });
+
+    expect(result.skipped).toEqual(['Scan']);
+    expect(db.getEntity('elsewhere__code__Other (Other)')!.metadata!.parent).toBe('elsewhere__code__Other');
+    expect(db.getSegmentsBySource('elsewhere__document__Focus group')[0]).toMatchObject({ text: 'Hello', codes: ['elsewhere__code__Other (Other)'] });
+    expect(db.getCodings('elsewhere__document__Focus group')[0].coder).toBe('Chris');
+    expect(() => exchange.importProject(archive, { projectName: 'elsewhere' })).toThrow('already exists');
+  });
+});
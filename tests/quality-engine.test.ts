@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { QualityEngine, DEFAULT_QUALITY_CRITERIA } from '../src/analysis/quality-engine';
+import type { QualityEvidence } from '../src/analysis/quality-engine';
+
+describe('QualityEngine', () => {
+  const engine = new QualityEngine();
+
+  const emptyEvidence: QualityEvidence = {
+    sources: 0,
+    sourceTypes: [],
+    averageSourceWords: 0,
+    codes: 0,
+    codesWithDefinitions: 0,
+    themes: 0,
+    themesWithSegments: 0,
+    memos: {},
+    negativeCaseChecks: 0,
+    negativeCasesFound: 0,
+    reliabilityRuns: [],
+    triangulations: 0,
+    hasTheory: false,
+  };
+
+  const strongEvidence: QualityEvidence = {
+    sources: 12,
+    sourceTypes: ['interview', 'observation'],
+    averageSourceWords: 4500,
+    codes: 40,
+    codesWithDefinitions: 40,
+    themes: 4,
+    themesWithSegments: 4,
+    memos: { methodological: 6, reflective: 3, analytical: 10 },
+    negativeCaseChecks: 4,
+    negativeCasesFound: 2,
+    reliabilityRuns: [{ measure: 'cohens_kappa', value: 0.78 }],
+    saturation: { level: 'code', saturated: true, saturationRate: 0.92 },
+    triangulations: 8,
+    hasTheory: true,
+  };
+
+  describe('assessQuality', () => {
+    it('should assess every criterion of a list-style criteria block', async () => {
+      const result = await engine.assessQuality({
+        methodology: 'Trustworthiness',
+        criteria: DEFAULT_QUALITY_CRITERIA,
+        evidence: strongEvidence,
+      });
+
+      expect(result.criteria.map(c => c.criterion)).toEqual(['credibility', 'transferability', 'dependability', 'confirmability']);
+      expect(result.criteria.every(c => c.status === 'met')).toBe(true);
+      expect(result.overallScore).toBeGreaterThan(0.9);
+    });
+
+    it('should report gaps and next actions when evidence is missing', async () => {
+      const result = await engine.assessQuality({
+        methodology: 'Trustworthiness',
+        criteria: DEFAULT_QUALITY_CRITERIA,
+        evidence: emptyEvidence,
+      });
+
+      const dependability = result.criteria.find(c => c.criterion === 'dependability')!;
+      expect(dependability.status).toBe('unmet');
+      expect(dependability.gaps.length).toBeGreaterThan(0);
+      expect(dependability.nextActions.some(a => a.includes('methodological memos'))).toBe(true);
+    });
+
+    it('should handle custom criteria written as single questions', async () => {
+      const result = await engine.assessQuality({
+        methodology: 'Narrative Analysis',
+        criteria: {
+          persuasiveness: 'Are interpretations convincing and well-supported?',
+          thickDescription: 'Are descriptions rich, detailed, and contextual?',
+        },
+        evidence: strongEvidence,
+      });
+
+      expect(result.criteria).toHaveLength(2);
+      expect(result.criteria[0].descriptions).toEqual(['Are interpretations convincing and well-supported?']);
+      expect(result.criteria[1].evidence[0]).toContain('4500 words');
+    });
+
+    it('should flag criteria without mappable evidence for manual review', async () => {
+      const result = await engine.assessQuality({
+        methodology: 'Custom',
+        criteria: { custom: { aesthetics: ['Is the writing beautiful?'] } },
+        evidence: strongEvidence,
+      });
+
+      expect(result.criteria[0].criterion).toBe('aesthetics');
+      expect(result.criteria[0].status).toBe('manual');
+      expect(result.criteria[0].score).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { ReliabilityEngine } from '../src/analysis/reliability-engine';
+import type { ReliabilityUnit } from '../src/analysis/reliability-engine';
+
+// Build units from per-coder 0/1 vectors for a single code "x"
+function binaryUnits(vectors: Record<string, Array<0 | 1 | null>>): ReliabilityUnit[] {
+  const length = Object.values(vectors)[0].length;
+  return Array.from({ length }, (_, i) => ({
+    id: `u${i + 1}`,
+    ratings: Object.fromEntries(Object.entries(vectors).map(([coder, values]) => [
+      coder,
+      values[i] === null ? null : values[i] === 1 ? ['x'] : [],
+    ])),
+  }));
+}
+
+describe('ReliabilityEngine', () => {
+  const engine = new ReliabilityEngine();
+
+  describe('calculateReliability', () => {
+    it('should compute Cohen\'s kappa and Scott\'s pi from a 2x2 table', async () => {
+      // 20 both apply, 5 only A, 10 only B, 15 neither
+      const a = [...Array(20).fill(1), ...Array(5).fill(1), ...Array(10).fill(0), ...Array(15).fill(0)];
+      const b = [...Array(20).fill(1), ...Array(5).fill(0), ...Array(10).fill(1), ...Array(15).fill(0)];
+
+      const result = await engine.calculateReliability({ units: binaryUnits({ a, b }), bootstrap: 0 });
+      const scores = result.codes[0].scores;
+
+      expect(scores.percentage_agreement).toBeCloseTo(0.7, 5);
+      expect(scores.cohens_kappa).toBeCloseTo(0.4, 5);
+      expect(scores.scotts_pi).toBeCloseTo(0.3939, 4);
+      // With two coders Fleiss' kappa reduces to Scott's pi
+      expect(scores.fleiss_kappa).toBeCloseTo(scores.scotts_pi as number, 10);
+    });
+
+    it('should match Krippendorff\'s published binary example', async () => {
+      const result = await engine.calculateReliability({
+        units: binaryUnits({
+          a: [0, 1, 0, 0, 0, 0, 0, 0, 1, 0],
+          b: [1, 1, 1, 0, 0, 1, 0, 0, 0, 0],
+        }),
+        bootstrap: 0,
+      });
+
+      expect(result.pooled.krippendorffs_alpha).toBeCloseTo(0.095, 3);
+    });
+
+    it('should skip missing ratings in Krippendorff\'s alpha', async () => {
+      const complete = await engine.calculateReliability({
+        units: binaryUnits({ a: [1, 1, 0, 0], b: [1, 1, 0, 1] }),
+        bootstrap: 0,
+      });
+      const withMissing = await engine.calculateReliability({
+        units: binaryUnits({ a: [1, 1, 0, 0, 1], b: [1, 1, 0, 1, null] }),
+        bootstrap: 0,
+      });
+
+      expect(withMissing.pooled.krippendorffs_alpha).toBeCloseTo(complete.pooled.krippendorffs_alpha as number, 10);
+      expect(withMissing.codes[0].units).toBe(4);
+    });
+
+    it('should pool codes and report disagreements', async () => {
+      const units: ReliabilityUnit[] = [
+        { id: 's1', ratings: { a: ['coping', 'fatigue'], b: ['coping'] } },
+        { id: 's2', ratings: { a: ['fatigue'], b: ['fatigue'] } },
+        { id: 's3', ratings: { a: [], b: ['coping'] } },
+        { id: 's4', ratings: { a: ['coping'], b: ['coping'] } },
+      ];
+
+      const result = await engine.calculateReliability({ units, bootstrap: 0 });
+
+      expect(result.codes.map(c => c.code)).toEqual(['coping', 'fatigue']);
+      expect(result.pooled.percentage_agreement).toBeCloseTo(0.75, 5);
+      expect(result.disagreements).toEqual([
+        { unit: 's3', code: 'coping', appliedBy: ['b'], omittedBy: ['a'] },
+        { unit: 's1', code: 'fatigue', appliedBy: ['a'], omittedBy: ['b'] },
+      ]);
+    });
+
+    it('should compute Fleiss\' kappa for more than two coders', async () => {
+      const result = await engine.calculateReliability({
+        units: binaryUnits({
+          a: [1, 1, 0, 0, 1, 0],
+          b: [1, 1, 0, 0, 1, 0],
+          c: [1, 0, 0, 0, 1, 0],
+        }),
+        bootstrap: 0,
+      });
+
+      // P-bar = (1 + 1/3 + 1 + 1 + 1 + 1) / 6, p1 = 8/18
+      const observed = (5 + 1 / 3) / 6;
+      const expected = (8 / 18) ** 2 + (10 / 18) ** 2;
+      expect(result.pooled.fleiss_kappa).toBeCloseTo((observed - expected) / (1 - expected), 10);
+    });
+
+    it('should return reproducible bootstrap intervals around the estimate', async () => {
+      const params = {
+        units: binaryUnits({
+          a: [1, 1, 0, 0, 1, 0, 1, 0, 0, 1, 1, 0],
+          b: [1, 1, 0, 0, 1, 0, 0, 0, 0, 1, 1, 1],
+        }),
+        bootstrap: 200,
+        seed: 7,
+      };
+
+      const first = await engine.calculateReliability(params);
+      const second = await engine.calculateReliability(params);
+      const [low, high] = first.confidenceIntervals.cohens_kappa!;
+
+      expect(second.confidenceIntervals).toEqual(first.confidenceIntervals);
+      expect(low).toBeLessThanOrEqual(first.pooled.cohens_kappa as number);
+      expect(high).toBeGreaterThanOrEqual(first.pooled.cohens_kappa as number);
+    });
+
+    it('should leave chance-corrected measures undefined for a single segment', async () => {
+      const result = await engine.calculateReliability({
+        units: [{ id: 's1', ratings: { a: ['coping', 'fatigue'], b: ['coping'] } }],
+      });
+
+      expect(result.pooled.cohens_kappa).toBeNull();
+      expect(result.pooled.krippendorffs_alpha).toBeNull();
+      expect(result.pooled.percentage_agreement).toBeCloseTo(0.5, 5);
+    });
+
+    it('should require two coders', async () => {
+      await expect(engine.calculateReliability({
+        units: [{ id: 's1', ratings: { a: ['coping'] } }],
+      })).rejects.toThrow('At least two coders');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ReportEngine } from '../src/analysis/report-engine';
+import type { ReportData } from '../src/analysis/report-engine';
+
+describe('ReportEngine', () => {
+  const engine = new ReportEngine();
+
+  const data: ReportData = {
+    project: { name: 'night-shift', observations: [] },
+    researchQuestions: ['How do nurses cope with night shifts?'],
+    dataSources: [{ name: 'interview__P01', type: 'interview', characters: 1200, codedSegments: 4 }],
+    codebook: [
+      { name: 'fatigue', definition: 'Tiredness after shifts', frequency: 3, type: 'constructed' },
+      { name: 'peer-support', definition: 'Help from colleagues', frequency: 5, type: 'constructed' },
+    ],
+    themes: [{
+      name: 'Coping Together',
+      description: 'Nurses rely on each other',
+      prevalence: 0.4,
+      supportingCodes: ['peer-support'],
+      quotes: [{ text: 'My team keeps me going', source: 'interview__P01' }],
+    }],
+    saturation: [{ level: 'code', saturationRate: 0.9, saturated: true, sources: 6, recordedAt: '2025-01-01' }],
+    memos: [{ name: 'reflexive-1', memoType: 'reflective', content: 'I worked nights myself.' }],
+  };
+
+  describe('generateReport', () => {
+    it('should render all sections as markdown by default', () => {
+      const report = engine.generateReport(data);
+
+      expect(report.format).toBe('markdown');
+      expect(report.content).toContain('# Analysis Report: night-shift');
+      expect(report.content).toContain('- How do nurses cope with night shifts?');
+      expect(report.content).toContain('| peer-support | constructed | 5 | Help from colleagues |');
+      expect(report.content).toContain('> My team keeps me going');
+      expect(report.content).toContain('No theory recorded');
+    });
+
+    it('should only include requested sections', () => {
+      const report = engine.generateReport(data, { sections: ['codebook'] });
+
+      expect(report.content).toContain('Codebook');
+      expect(report.content).not.toContain('Research Questions');
+      expect(report.content).not.toContain('Themes');
+    });
+
+    it('should template sections by methodology stages', () => {
+      const report = engine.generateReport({
+        ...data,
+        methodology: {
+          name: 'Thematic Analysis',
+          description: 'Braun & Clarke',
+          stages: [
+            { name: 'generate-themes', description: 'Search for themes', order: 2, promptTemplate: '', outputs: ['candidate_themes'] },
+            { name: 'generate-initial-codes', description: 'Code the data', order: 1, promptTemplate: '', outputs: ['initial_codes'] },
+          ],
+        },
+      }, { sections: ['codebook', 'themes', 'memos'] });
+
+      const codebookAt = report.content.indexOf('## Stage 1: Generate Initial Codes');
+      const themesAt = report.content.indexOf('## Stage 2: Generate Themes');
+
+      expect(codebookAt).toBeGreaterThan(-1);
+      expect(themesAt).toBeGreaterThan(codebookAt);
+      expect(report.content.indexOf('### Codebook')).toBeGreaterThan(codebookAt);
+      expect(report.content.indexOf('### Codebook')).toBeLessThan(themesAt);
+      expect(report.content).toContain('## Additional Analysis');
+    });
+
+    it('should escape markup in standalone HTML', () => {
+      const report = engine.generateReport({
+        ...data,
+        project: { name: 'a <b> & c', observations: [] },
+      }, { format: 'html' });
+
+      expect(report.content.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(report.content).toContain('<title>Analysis Report: a &lt;b&gt; &amp; c</title>');
+      expect(report.content).toContain('<table>');
+    });
+
+    it('should produce a Word flat XML package', () => {
+      const report = engine.generateReport(data, { format: 'docx-xml' });
+
+      expect(report.content).toContain('<?mso-application progid="Word.Document"?>');
+      expect(report.content).toContain('pkg:name="/word/document.xml"');
+      expect(report.content).toContain('<w:pStyle w:val="Heading1"/>');
+      expect(report.content).toContain('<w:tbl>');
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteAdapter } from '../src/knowledge/storage/sqlite-adapter';
+import { SCHEMA_VERSION } from '../src/knowledge/storage/migrations';
+
+describe('SQLiteAdapter', () => {
+  let db: SQLiteAdapter;
+
+  beforeEach(() => {
+    db = new SQLiteAdapter(':memory:');
+    db.createEntity({ name: 'study', entityType: 'project', observations: [] });
+    db.createEntity({ name: 'study__interview__P07', entityType: 'interview', observations: [] });
+    db.createEntity({ name: 'study__code__fatigue', entityType: 'code', observations: [] });
+    db.createEntity({ name: 'study__code__peer-support', entityType: 'code', observations: [] });
+  });
+
+  describe('segments', () => {
+    it('should return the same id for a segment at the same offsets', () => {
+      const first = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 40, text: 'a' });
+      const second = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 40, text: 'a' });
+
+      expect(second).toBe(first);
+    });
+
+    it('should find codes applied to an overlapping character range', () => {
+      const a = db.createSegment({ source: 'study__interview__P07', startOffset: 1100, endOffset: 1250, text: 'night shift' });
+      const b = db.createSegment({ source: 'study__interview__P07', startOffset: 1300, endOffset: 1500, text: 'colleagues' });
+      const c = db.createSegment({ source: 'study__interview__P07', startOffset: 1450, endOffset: 1600, text: 'after' });
+      db.addSegmentCode(a, 'study__code__fatigue');
+      db.addSegmentCode(b, 'study__code__peer-support');
+      db.addSegmentCode(c, 'study__code__fatigue');
+
+      const hits = db.getSegmentsInRange('study__interview__P07', 1200, 1450);
+
+      expect(hits.map(h => h.id)).toEqual([a, b]);
+      expect(hits[1].codes).toEqual(['study__code__peer-support']);
+    });
+
+    it('should not report a code twice for the same segment', () => {
+      const id = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 10, text: 'x' });
+
+      expect(db.addSegmentCode(id, 'study__code__fatigue')).toBe(true);
+      expect(db.addSegmentCode(id, 'study__code__fatigue')).toBe(false);
+      expect(db.getSegment(id)?.codes).toEqual(['study__code__fatigue']);
+    });
+
+    it('should retrieve segments by code and codes by source', () => {
+      const a = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 10, text: 'x' });
+      const b = db.createSegment({ source: 'study__interview__P07', startOffset: 20, endOffset: 30, text: 'y' });
+      db.addSegmentCode(a, 'study__code__fatigue');
+      db.addSegmentCode(b, 'study__code__fatigue');
+      db.addSegmentCode(b, 'study__code__peer-support');
+
+      expect(db.getSegmentsByCode('study__code__fatigue').map(s => s.id)).toEqual([a, b]);
+      expect(db.getCodesBySource('study__interview__P07')).toEqual([
+        { code: 'study__code__fatigue', segments: 2 },
+        { code: 'study__code__peer-support', segments: 1 },
+      ]);
+    });
+
+    it('should return segments without codes with an empty code list', () => {
+      const id = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 10, text: 'x' });
+
+      expect(db.getSegment(id)?.codes).toEqual([]);
+    });
+  });
+
+  describe('turns', () => {
+    it('should replace the turns of a source and find the turn at an offset', () => {
+      db.setTurns('study__interview__P07', [
+        { index: 0, speaker: 'Interviewer', role: 'interviewer', startTime: 0, startOffset: 13, endOffset: 30, text: 'How are nights?' },
+        { index: 1, speaker: 'P7', role: 'participant', startTime: 4.5, endTime: 9, startOffset: 36, endOffset: 60, text: 'Long.' },
+      ]);
+      db.setTurns('study__interview__P07', [
+        { index: 0, speaker: 'P7', role: 'participant', startTime: 4.5, startOffset: 36, endOffset: 60, text: 'Long.' },
+      ]);
+
+      expect(db.getTurns('study__interview__P07')).toEqual([{
+        id: expect.any(Number),
+        source: 'study__interview__P07',
+        index: 0,
+        speaker: 'P7',
+        role: 'participant',
+        startTime: 4.5,
+        endTime: undefined,
+        startOffset: 36,
+        endOffset: 60,
+        text: 'Long.',
+      }]);
+      expect(db.getTurnAt('study__interview__P07', 40)?.speaker).toBe('P7');
+      expect(db.getTurnAt('study__interview__P07', 20)).toBeNull();
+    });
+  });
+
+  describe('deleting', () => {
+    let dir: string;
+    let file: string;
+    let store: SQLiteAdapter;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qualai-'));
+      file = path.join(dir, 'knowledge.db');
+      store = new SQLiteAdapter(file);
+      store.createEntity({ name: 'study', entityType: 'project', observations: [] });
+      store.createEntity({ name: 'study__interview__P07', entityType: 'interview', observations: [] });
+      store.createEntity({ name: 'study__code__fatigue', entityType: 'code', observations: [] });
+      store.createRelation({ from: 'study__interview__P07', to: 'study', relationType: 'part_of' });
+      const segment = store.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 5, text: 'tired' });
+      store.addSegmentCode(segment, 'study__code__fatigue');
+      store.setTurns('study__interview__P07', [{ index: 0, role: 'participant', startOffset: 0, endOffset: 5, text: 'tired' }]);
+      return () => {
+        store.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+      };
+    });
+
+    const count = (table: string) => {
+      const raw = new Database(file, { readonly: true });
+      const { n } = raw.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number };
+      raw.close();
+      return n;
+    };
+
+    it('should remove the segments, turns, codings and relations of a deleted data source', () => {
+      store.deleteEntity('study__interview__P07');
+
+      expect(['segments', 'segment_codes', 'turns', 'relations'].map(count)).toEqual([0, 0, 0, 0]);
+      expect(store.getEntity('study__code__fatigue')).not.toBeNull();
+    });
+
+    it('should remove the applications of a deleted code and keep its segments', () => {
+      store.deleteEntity('study__code__fatigue');
+
+      expect(count('segment_codes')).toBe(0);
+      expect(count('segments')).toBe(1);
+    });
+
+    it('should leave no orphan rows behind a deleted project', () => {
+      store.deleteProject('study');
+
+      expect(['entities', 'relations', 'segments', 'segment_codes', 'turns'].map(count)).toEqual([0, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('projects', () => {
+    beforeEach(() => {
+      db.createEntity({ name: 'healthcare', entityType: 'project', observations: [] });
+      db.createEntity({ name: 'healthcare__code__fatigue', entityType: 'code', observations: [] });
+      db.createEntity({ name: 'healthcare__interview__P1', entityType: 'interview', observations: [] });
+      db.createRelation({ from: 'study__interview__P07', to: 'study', relationType: 'part_of' });
+      db.createRelation({ from: 'healthcare__interview__P1', to: 'healthcare', relationType: 'part_of' });
+    });
+
+    it('should scope entity and relation queries to one project', () => {
+      expect(db.getEntitiesByType('code', 'study').map(e => e.name).sort())
+        .toEqual(['study__code__fatigue', 'study__code__peer-support']);
+      expect(db.getEntitiesByType('code')).toHaveLength(3);
+      expect(db.getProjectRelations('healthcare')).toEqual([
+        { from: 'healthcare__interview__P1', to: 'healthcare', relationType: 'part_of', metadata: undefined },
+      ]);
+    });
+
+    it('should list projects with their contents', () => {
+      const segment = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 5, text: 'tired' });
+      db.addSegmentCode(segment, 'study__code__fatigue');
+
+      expect(db.listProjects()).toEqual([
+        expect.objectContaining({ name: 'healthcare', entities: { code: 1, interview: 1 }, relations: 1, segments: 0 }),
+        expect.objectContaining({ name: 'study', entities: { code: 2, interview: 1 }, relations: 1, segments: 1 }),
+      ]);
+    });
+
+    it('should delete a project and leave other projects alone', () => {
+      const segment = db.createSegment({ source: 'study__interview__P07', startOffset: 0, endOffset: 5, text: 'tired' });
+      db.addSegmentCode(segment, 'study__code__fatigue');
+      db.setTurns('study__interview__P07', [{ index: 0, role: 'participant', startOffset: 0, endOffset: 5, text: 'tired' }]);
+
+      expect(db.deleteProject('study')?.segments).toBe(1);
+
+      expect(db.getEntity('study')).toBeNull();
+      expect(db.getEntitiesByType('code').map(e => e.name)).toEqual(['healthcare__code__fatigue']);
+      expect(db.getRelations().map(r => r.from)).toEqual(['healthcare__interview__P1']);
+      expect(db.getSegmentsBySource('study__interview__P07')).toEqual([]);
+      expect(db.getTurns('study__interview__P07')).toEqual([]);
+      expect(db.deleteProject('study')).toBeNull();
+    });
+
+    it('should fill in projects when opening a database without project columns', () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'qualai-')), 'knowledge.db');
+      const legacy = new Database(file);
+      legacy.exec(`
+        CREATE TABLE entities (name TEXT PRIMARY KEY, entity_type TEXT NOT NULL, observations TEXT NOT NULL,
+          metadata TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT DEFAULT CURRENT_TIMESTAMP);
+        CREATE TABLE relations (id INTEGER PRIMARY KEY AUTOINCREMENT, from_entity TEXT NOT NULL, to_entity TEXT NOT NULL,
+          relation_type TEXT NOT NULL, metadata TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
+        INSERT INTO entities (name, entity_type, observations) VALUES
+          ('care', 'project', '[]'), ('care__code__rest', 'code', '[]'), ('healthcare__code__rest', 'code', '[]');
+        INSERT INTO relations (from_entity, to_entity, relation_type) VALUES ('care__code__rest', 'care', 'part_of');
+      `);
+      legacy.close();
+
+      const migrated = new SQLiteAdapter(file);
+      try {
+        expect(migrated.getEntitiesByType('code', 'care').map(e => e.name)).toEqual(['care__code__rest']);
+        expect(migrated.getProjectRelations('care')).toHaveLength(1);
+      } finally {
+        migrated.close();
+        fs.rmSync(path.dirname(file), { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('full-text search', () => {
+    const content = 'I work the night shift. After night shifts I am exhausted.\nMy colleagues are exhausting too.';
+
+    beforeEach(() => {
+      db.updateEntity('study__interview__P07', { metadata: { content } });
+      db.updateEntity('study__code__fatigue', { metadata: { definition: 'Tiredness after the night shift' } });
+      db.createEntity({ name: 'other', entityType: 'project', observations: [] });
+      db.createEntity({ name: 'other__memo__m1', entityType: 'memo', observations: [], metadata: { content: 'Night shift rota' } });
+    });
+
+    it('should find phrases with the offsets of the matched terms in the source', () => {
+      const hits = db.searchText('"night shift"', { project: 'study', kinds: ['source'] });
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]).toMatchObject({ kind: 'source', source: 'study__interview__P07', title: 'P07' });
+      expect(hits[0].matches.map(m => content.slice(m.start, m.end))).toEqual(['night shift', 'night shifts']);
+      expect(hits[0].snippet).toContain('[night shift]');
+    });
+
+    it('should support prefix, NEAR and boolean queries across kinds', () => {
+      expect(db.searchText('exhaust*', { project: 'study' }).map(h => h.kind)).toEqual(['source']);
+      expect(db.searchText('NEAR(colleagues exhausting, 2)')).toHaveLength(1);
+      expect(db.searchText('night NOT rota').map(h => h.ref).sort()).toEqual(['study__code__fatigue', 'study__interview__P07']);
+      expect(db.searchText('night', { project: 'other' }).map(h => h.kind)).toEqual(['memo']);
+    });
+
+    it('should index coded segments with offsets in their source and follow deletions', () => {
+      const id = db.createSegment({ source: 'study__interview__P07', startOffset: 24, endOffset: 58, text: content.slice(24, 58) });
+
+      const [hit] = db.searchText('exhausted', { kinds: ['segment'] });
+
+      expect(hit).toMatchObject({ ref: String(id), source: 'study__interview__P07' });
+      expect(content.slice(hit.matches[0].start, hit.matches[0].end)).toBe('exhausted');
+
+      db.deleteProject('study');
+      expect(db.searchText('night OR exhausted').map(h => h.ref)).toEqual(['other__memo__m1']);
+    });
+
+    it('should report invalid queries', () => {
+      expect(() => db.searchText('"night shift')).toThrow('Invalid search query');
+    });
+  });
+
+  describe('schema migrations', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qualai-'));
+      file = path.join(dir, 'knowledge.db');
+      return () => fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record the latest schema version on a new database and keep it when the graph is cleared', () => {
+      expect(db.getSchemaVersion()).toBe(SCHEMA_VERSION);
+
+      db.clearGraph();
+
+      expect(db.getSchemaVersion()).toBe(SCHEMA_VERSION);
+    });
+
+    it('should migrate a database created before versioning and back it up first', () => {
+      const legacy = new Database(file);
+      legacy.exec(`
+        CREATE TABLE entities (name TEXT PRIMARY KEY, entity_type TEXT NOT NULL, observations TEXT NOT NULL,
+          metadata TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT DEFAULT CURRENT_TIMESTAMP);
+        CREATE TABLE relations (id INTEGER PRIMARY KEY AUTOINCREMENT, from_entity TEXT NOT NULL, to_entity TEXT NOT NULL,
+          relation_type TEXT NOT NULL, metadata TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP);
+        CREATE TABLE graph_metadata (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at TEXT DEFAULT CURRENT_TIMESTAMP);
+        INSERT INTO entities (name, entity_type, observations) VALUES ('care', 'project', '[]');
+      `);
+      legacy.close();
+
+      const migrated = new SQLiteAdapter(file);
+      try {
+        expect(migrated.getSchemaVersion()).toBe(SCHEMA_VERSION);
+        expect(migrated.getEntity('care')).not.toBeNull();
+        expect(migrated.getTurns('care')).toEqual([]);
+        expect(fs.existsSync(`${file}.v0.bak`)).toBe(true);
+      } finally {
+        migrated.close();
+      }
+    });
+
+    it('should refuse a database from a newer version', () => {
+      new SQLiteAdapter(file).close();
+      const newer = new Database(file);
+      newer.prepare(`UPDATE graph_metadata SET value = ? WHERE key = 'schema_version'`).run(String(SCHEMA_VERSION + 1));
+      newer.close();
+
+      expect(() => new SQLiteAdapter(file)).toThrow(`has schema version ${SCHEMA_VERSION + 1}`);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { ThemeEngine } from '../src/analysis/theme-engine';
 import type { Code } from '../src/analysis/coding-engine';
+import type { ConcordanceUnit, Theme } from '../src/analysis/theme-engine';
 
 describe('ThemeEngine', () => {
   const engine = new ThemeEngine();
@@ -154,6 +155,24 @@ describe('ThemeEngine', () => {
       }
     });
 
+    it('should read hierarchies from parent links rather than names', async () => {
+      const codes: Code[] = [
+        { name: 'support', definition: 'help', examples: [], frequency: 5, type: 'constructed' },
+        { name: 'colleagues', definition: 'help from colleagues', examples: [], frequency: 3, type: 'constructed', parent: 'support' },
+        { name: 'cover-shifts', definition: 'covering shifts', examples: [], frequency: 1, type: 'constructed', parent: 'colleagues' },
+        { name: 'family', definition: 'help at home', examples: [], frequency: 2, type: 'constructed', parent: 'support' },
+        { name: 'support-groups', definition: 'formal groups', examples: [], frequency: 2, type: 'constructed' },
+      ];
+
+      const patterns = await engine.analyzePatterns(codes);
+      const hierarchies = patterns.filter(p => p.type === 'hierarchy');
+
+      expect(hierarchies.map(p => p.elements[0]).sort()).toEqual(['colleagues', 'support']);
+      const root = hierarchies.find(p => p.elements[0] === 'support')!;
+      expect(root.elements).toEqual(['support', 'colleagues', 'cover-shifts', 'family']);
+      expect(root.significance).toBe('high');
+    });
+
     it('should assign significance levels', async () => {
       const codes: Code[] = [
         { name: 'frequent-code', definition: 'very common', examples: ['a', 'b', 'c'], frequency: 10, type: 'constructed' },
@@ -168,6 +187,69 @@ describe('ThemeEngine', () => {
     });
   });
 
+  describe('concordance', () => {
+    const units: ConcordanceUnit[] = [
+      { source: 'A', text: 'The night shift was long. I hate the night shift.', start: 100, speaker: 'P1' },
+      { source: 'B', text: 'Day shift is easier than night work.', start: 0 },
+    ];
+
+    it('should return keyword-in-context lines with offsets in the source', async () => {
+      const lines = await engine.concordance({ units, node: 'shift', width: 2 });
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toEqual({
+        source: 'A', speaker: 'P1', left: 'The night', node: 'shift', right: 'was long', start: 110, end: 115,
+      });
+      expect(lines[1].right).toBe('');
+      expect(lines[2]).toMatchObject({ source: 'B', left: 'Day', right: 'is easier' });
+    });
+
+    it('should sort by the context nearest the node', async () => {
+      const byRight = await engine.concordance({ units, node: 'shift', width: 2, sortBy: 'right' });
+      expect(byRight.map(l => l.right)).toEqual(['', 'is easier', 'was long']);
+
+      const byLeft = await engine.concordance({ units, node: 'shift', width: 2, sortBy: 'left' });
+      expect(byLeft[0].left).toBe('Day');
+    });
+
+    it('should match phrases and prefixes', async () => {
+      const phrase = await engine.concordance({ units, node: 'night shift' });
+      expect(phrase.map(l => l.node)).toEqual(['night shift', 'night shift']);
+
+      const prefix = await engine.concordance({ units, node: 'eas*' });
+      expect(prefix.map(l => l.node)).toEqual(['easier']);
+    });
+  });
+
+  describe('findCollocations', () => {
+    const units: ConcordanceUnit[] = [
+      { source: 'A', text: 'The night shift was long. I hate the night shift.', start: 0 },
+      { source: 'B', text: 'Day shift is easier than night work.', start: 0 },
+    ];
+
+    it('should score collocates with PMI and log-likelihood', async () => {
+      const analysis = await engine.findCollocations({ units, node: 'shift', span: 1 });
+
+      expect(analysis.nodeFrequency).toBe(3);
+      expect(analysis.tokens).toBe(17);
+      expect(analysis.collocates).toHaveLength(1);
+
+      // "night" occurs twice in the 5 window tokens and 3 times in 17 tokens
+      const [night] = analysis.collocates;
+      expect(night).toMatchObject({ word: 'night', frequency: 2, left: 2, right: 0, wordFrequency: 3, significant: false });
+      expect(night.pmi).toBeCloseTo(Math.log2(2 / (15 / 17)), 5);
+      expect(night.logLikelihood).toBeCloseTo(2.23, 2);
+    });
+
+    it('should leave out function words unless asked to keep them', async () => {
+      const without = await engine.findCollocations({ units, node: 'shift', span: 1, minFrequency: 1 });
+      expect(without.collocates.map(c => c.word).sort()).toEqual(['day', 'night']);
+
+      const withStopwords = await engine.findCollocations({ units, node: 'shift', span: 1, minFrequency: 1, excludeStopwords: false });
+      expect(withStopwords.collocates.map(c => c.word)).toContain('was');
+    });
+  });
+
   describe('detectSaturation', () => {
     it('should detect saturation when no new codes appear', async () => {
       const codesBySource = new Map([
@@ -353,4 +435,62 @@ describe('ThemeEngine', () => {
       expect(result.recommendation.length).toBeGreaterThan(0);
     });
   });
+
+  describe('compareAcrossCases', () => {
+    const themes: Theme[] = [
+      { name: 'Coping', description: '', supportingCodes: ['peer-support', 'humor'], prevalence: 0.5, examples: [] },
+      { name: 'Fatigue', description: '', supportingCodes: ['exhaustion'], prevalence: 0.3, examples: [] },
+    ];
+
+    const cases = [
+      {
+        name: 'Site A',
+        segments: [
+          { source: 'a1', text: 'My colleagues keep me going.', codes: ['peer-support'] },
+          { source: 'a2', text: 'We joke and support each other on the ward.', codes: ['peer-support', 'humor'] },
+          { source: 'a2', text: 'I am exhausted.', codes: ['exhaustion'] },
+        ],
+      },
+      {
+        name: 'Site B',
+        segments: [
+          { source: 'b1', text: 'Laughing helps, "honestly".', codes: ['humor'] },
+        ],
+      },
+    ];
+
+    it('should build a cell per case and theme', async () => {
+      const matrix = await engine.compareAcrossCases({ themes, cases });
+
+      expect(matrix.cases).toEqual(['Site A', 'Site B']);
+      expect(matrix.themes).toEqual(['Coping', 'Fatigue']);
+
+      const coping = matrix.rows[0].cells[0];
+      expect(coping.segmentCount).toBe(2);
+      expect(coping.sourceCount).toBe(2);
+      expect(coping.codes[0]).toBe('peer-support');
+      expect(coping.quote).toBe('We joke and support each other on the ward.');
+      expect(matrix.rows[1].cells[1].segmentCount).toBe(0);
+    });
+
+    it('should flag themes present in only one case', async () => {
+      const matrix = await engine.compareAcrossCases({ themes, cases });
+
+      expect(matrix.singleCaseThemes).toEqual([{ theme: 'Fatigue', case: 'Site A' }]);
+      expect(matrix.absentThemes).toEqual([]);
+    });
+
+    it('should export the matrix as CSV and Markdown', async () => {
+      const matrix = await engine.compareAcrossCases({ themes, cases });
+
+      const csv = engine.exportCaseMatrix(matrix, 'csv').trim().split('\n');
+      expect(csv).toHaveLength(3);
+      expect(csv[0]).toBe('Case,Coping (segments),Coping (summary),Coping (quote),Fatigue (segments),Fatigue (summary),Fatigue (quote)');
+      expect(csv[2]).toContain('"Laughing helps, ""honestly""."');
+
+      const markdown = engine.exportCaseMatrix(matrix, 'markdown').trim().split('\n');
+      expect(markdown[0]).toBe('| Case | Coping | Fatigue |');
+      expect(markdown[3]).toMatch(/^\| Site B \| \*\*1\*\* .* \| — \|$/);
+    });
+  });
 });
@@ -256,4 +256,23 @@ describe('TheoryEngine', () => {
       expect(hasRelevantRecommendation).toBe(true);
     });
   });
+
+  describe('codebook hierarchy', () => {
+    it('should turn branches of the code tree into categories', async () => {
+      const codes: Code[] = [
+        { name: 'support', definition: 'help received', examples: [], frequency: 5, type: 'constructed' },
+        { name: 'colleagues', definition: 'help from colleagues', examples: [], frequency: 3, type: 'constructed', parent: 'support' },
+        { name: 'family', definition: 'help at home', examples: [], frequency: 2, type: 'constructed', parent: 'support' },
+        { name: 'feeling-exhausted', definition: 'tired emotion', examples: [], frequency: 4, type: 'in_vivo' },
+      ];
+
+      const result = await engine.buildGroundedTheory({ codes, researchQuestion: 'How do nurses cope with night work?' });
+      const categories = [result.coreCategory.name, ...result.supportingCategories.map(c => c.name)];
+      const support = result.supportingCategories.find(c => c.name === 'support');
+
+      expect(categories).toContain('support');
+      expect(support?.relatedCodes.sort()).toEqual(['colleagues', 'family', 'support']);
+      expect(result.supportingCategories.some(c => c.relatedCodes.includes('feeling-exhausted') && c.name !== 'support')).toBe(true);
+    });
+  });
 });
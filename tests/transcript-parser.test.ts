@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { TranscriptParser, parseTimestamp, formatTimestamp } from '../src/ingestion/transcript-parser';
+
+describe('TranscriptParser', () => {
+  const parser = new TranscriptParser();
+
+  describe('speaker-labelled transcripts', () => {
+    const transcript = [
+      'Interviewer: How did you feel about the night shift?',
+      '',
+      'P1 (00:01:05): I feel exhausted after every shift.',
+      'It takes days to recover.',
+      '',
+      '[00:02:10] Interviewer: What helps?',
+      'P1:',
+      'Talking with colleagues.',
+    ].join('\n');
+
+    it('should split turns with speakers, roles and offsets', () => {
+      const result = parser.parse(transcript);
+
+      expect(result.format).toBe('speaker');
+      expect(result.content).toBe(transcript);
+      expect(result.speakers).toEqual(['Interviewer', 'P1']);
+      expect(result.turns.map(t => [t.speaker, t.role])).toEqual([
+        ['Interviewer', 'interviewer'],
+        ['P1', 'participant'],
+        ['Interviewer', 'interviewer'],
+        ['P1', 'participant'],
+      ]);
+      expect(result.turns[1].text).toBe('I feel exhausted after every shift.\nIt takes days to recover.');
+      expect(result.turns[3].text).toBe('Talking with colleagues.');
+      for (const turn of result.turns) {
+        expect(transcript.slice(turn.startOffset, turn.endOffset)).toBe(turn.text);
+      }
+    });
+
+    it('should read timestamps before or after the speaker label', () => {
+      const [, answer, question] = parser.parse(transcript).turns;
+
+      expect(answer).toMatchObject({ startTime: 65, endTime: 130 });
+      expect(question.startTime).toBe(130);
+    });
+
+    it('should read speaker labels in any script', () => {
+      const result = parser.parse('Entrevistador: ¿Cómo fue?\nMaría: Agotador.\n김민수: 힘들었어요.\nÉlodie Roux: Moi aussi.\nÉlodie Roux: Toujours.');
+
+      expect(result.format).toBe('speaker');
+      expect(result.speakers).toEqual(['Entrevistador', 'María', '김민수', 'Élodie Roux']);
+      expect(result.turns[2].text).toBe('힘들었어요.');
+    });
+
+    it('should keep sentences with a colon in the turn they belong to', () => {
+      const text = [
+        'Interviewer: What was the hardest part?',
+        'P1: The nights.',
+        'So basically: you never sleep properly.',
+        'My answer to that: more staff.',
+        'Interviewer: Thank you.',
+      ].join('\n');
+
+      const result = parser.parse(text);
+
+      expect(result.speakers).toEqual(['Interviewer', 'P1']);
+      expect(result.turns.map(t => t.speaker)).toEqual(['Interviewer', 'P1', 'Interviewer']);
+      expect(result.turns[1].text).toBe('The nights.\nSo basically: you never sleep properly.\nMy answer to that: more staff.');
+    });
+
+    it('should use the given interviewer labels', () => {
+      const result = parser.parse('Dr Lee: Tell me more.\nSam: Sure.', 'auto', { interviewers: ['Dr Lee'] });
+
+      expect(result.turns.map(t => t.role)).toEqual(['interviewer', 'participant']);
+    });
+  });
+
+  describe('captions', () => {
+    it('should read WebVTT voices and merge cues by the same speaker', () => {
+      const vtt = [
+        'WEBVTT',
+        '',
+        'NOTE recorded on ward 3',
+        '',
+        '00:00:01.000 --> 00:00:04.000',
+        '<v Interviewer>How was the night?</v>',
+        '',
+        'intro',
+        '00:00:05.000 --> 00:00:07.500',
+        '<v Nurse A>Long. We were two</v>',
+        '',
+        '00:00:07.500 --> 00:00:09.000',
+        '<v Nurse A>for the whole ward.',
+      ].join('\n');
+
+      const result = parser.parse(vtt);
+
+      expect(result.format).toBe('vtt');
+      expect(result.content).toBe('Interviewer: How was the night?\n\nNurse A: Long. We were two for the whole ward.\n');
+      expect(result.turns[1]).toMatchObject({
+        speaker: 'Nurse A',
+        role: 'participant',
+        startTime: 5,
+        endTime: 9,
+        text: 'Long. We were two for the whole ward.',
+      });
+      expect(result.content.slice(result.turns[1].startOffset, result.turns[1].endOffset)).toBe(result.turns[1].text);
+    });
+
+    it('should read SRT cues with speaker prefixes', () => {
+      const srt = '1\n00:01:00,000 --> 00:01:02,000\nQ: Any breaks?\n\n2\n00:01:03,000 --> 00:01:05,000\n- Hardly any.\n';
+
+      const result = parser.parse(srt);
+
+      expect(result.format).toBe('srt');
+      expect(result.turns).toMatchObject([
+        { speaker: 'Q', role: 'interviewer', startTime: 60, text: 'Any breaks?' },
+        { speaker: undefined, role: 'unknown', startTime: 63, text: 'Hardly any.' },
+      ]);
+    });
+  });
+
+  describe('field notes', () => {
+    it('should make one entry per paragraph with clock times', () => {
+      const notes = '[22:15] Handover in the staff room.\nEveryone tired.\n\n11:40 pm - Quiet ward.\n\nNo time noted here.';
+
+      const result = parser.parse(notes, 'auto', { sourceType: 'observation' });
+
+      expect(result.format).toBe('fieldnotes');
+      expect(result.turns).toMatchObject([
+        { role: 'observer', startTime: 22 * 3600 + 15 * 60, text: 'Handover in the staff room.\nEveryone tired.' },
+        { startTime: 23 * 3600 + 40 * 60, text: 'Quiet ward.' },
+        { text: 'No time noted here.' },
+      ]);
+      expect(result.turns[2].startTime).toBeUndefined();
+      expect(notes.slice(result.turns[1].startOffset, result.turns[1].endOffset)).toBe('Quiet ward.');
+    });
+  });
+
+  it('should leave plain documents without turns', () => {
+    expect(parser.parse('A policy document.\n\nSecond paragraph.')).toMatchObject({ format: 'plain', turns: [] });
+  });
+
+  it('should convert timestamps', () => {
+    expect(parseTimestamp('01:02:03.500')).toBe(3723.5);
+    expect(parseTimestamp('02:03,5')).toBe(123.5);
+    expect(formatTimestamp(3723.5)).toBe('01:02:03');
+  });
+});
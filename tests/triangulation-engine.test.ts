@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { TriangulationEngine } from '../src/analysis/triangulation-engine';
+import type { Theme } from '../src/analysis/theme-engine';
+
+describe('TriangulationEngine', () => {
+  const engine = new TriangulationEngine();
+
+  const theme: Theme = {
+    name: 'Peer Support',
+    description: 'Colleagues help each other',
+    supportingCodes: ['peer-support', 'sharing-tasks'],
+    prevalence: 0.4,
+    examples: [],
+  };
+
+  describe('triangulate', () => {
+    it('should report convergence when every source type supports the theme through the same codes', async () => {
+      const result = await engine.triangulate({
+        themes: [theme],
+        lens: 'sources',
+        groups: [
+          { name: 'interview', units: [{ source: 'i1', codes: ['peer-support', 'sharing-tasks'] }] },
+          { name: 'observation', units: [{ source: 'o1', codes: ['peer-support', 'sharing-tasks'] }, { source: 'o1', codes: ['fatigue'] }] },
+        ],
+      });
+
+      expect(result.themes[0].verdict).toBe('convergence');
+      expect(result.themes[0].groups[1].coverage).toBe(0.5);
+      expect(result.summary.convergence).toBe(1);
+    });
+
+    it('should report complementarity when source types support the theme through different codes', async () => {
+      const result = await engine.triangulate({
+        themes: [theme],
+        lens: 'sources',
+        groups: [
+          { name: 'interview', units: [{ source: 'i1', codes: ['peer-support'] }] },
+          { name: 'document', units: [{ source: 'd1', codes: ['sharing-tasks'] }] },
+        ],
+      });
+
+      expect(result.themes[0].verdict).toBe('complementarity');
+      expect(result.themes[0].codeOverlap).toBe(0);
+    });
+
+    it('should report dissonance when one coder does not identify the theme', async () => {
+      const result = await engine.triangulate({
+        themes: [theme],
+        lens: 'coders',
+        groups: [
+          { name: 'alice', units: [{ source: 'i1', codes: ['peer-support'] }] },
+          { name: 'bob', units: [{ source: 'i1', codes: ['fatigue'] }] },
+        ],
+      });
+
+      expect(result.themes[0].verdict).toBe('dissonance');
+      expect(result.themes[0].explanation).toContain('bob');
+    });
+
+    it('should report dissonance for contradicting codes', async () => {
+      const result = await engine.triangulate({
+        themes: [theme],
+        lens: 'sources',
+        groups: [
+          { name: 'interview', units: [{ source: 'i1', codes: ['peer-support'] }] },
+          { name: 'observation', units: [{ source: 'o1', codes: ['peer-support', 'social-isolation'] }] },
+        ],
+      });
+
+      expect(result.themes[0].verdict).toBe('dissonance');
+      expect(result.themes[0].contradictions[0]).toContain('social-isolation');
+    });
+
+    it('should report silence when no group has evidence', async () => {
+      const result = await engine.triangulate({
+        themes: [theme],
+        lens: 'passes',
+        groups: [{ name: 'initial', units: [{ source: 'i1', codes: ['fatigue'] }] }],
+      });
+
+      expect(result.themes[0].verdict).toBe('silence');
+    });
+  });
+});
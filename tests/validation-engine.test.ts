@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationEngine } from '../src/analysis/validation-engine';
+
+describe('ValidationEngine', () => {
+  const engine = new ValidationEngine();
+
+  const segments = [
+    { id: 1, source: 'P01', text: 'My colleagues helped me through the night.', codes: ['peer-support'] },
+    { id: 2, source: 'P02', text: 'My manager gave formal supervision every week.', codes: ['peer-support'] },
+    { id: 3, source: 'P02', text: 'I could not sleep during the day.', codes: ['sleep-problems'] },
+  ];
+
+  describe('validateCoding', () => {
+    it('should flag segments that break exclusion criteria as errors', async () => {
+      const result = await engine.validateCoding({
+        codes: [{
+          name: 'peer-support',
+          definition: 'Support from colleagues',
+          exclusionCriteria: ['Formal supervision by managers'],
+        }],
+        segments,
+      });
+
+      const errors = result.issues.filter(i => i.severity === 'error');
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ rule: 'exclusion-violated', code: 'peer-support', segmentId: 2 });
+    });
+
+    it('should warn when a segment meets none of the inclusion criteria', async () => {
+      const result = await engine.validateCoding({
+        codes: [{
+          name: 'peer-support',
+          definition: 'Support from colleagues',
+          inclusionCriteria: ['Help from colleagues'],
+        }],
+        segments,
+      });
+
+      const unmet = result.issues.filter(i => i.rule === 'inclusion-unmet');
+      expect(unmet.map(i => i.segmentId)).toEqual([2]);
+      expect(unmet[0].severity).toBe('warning');
+    });
+
+    it('should flag missing definitions, near-duplicates and single-source codes', async () => {
+      const result = await engine.validateCoding({
+        codes: [
+          { name: 'peer-support', definition: 'Support from colleagues' },
+          { name: 'peer_support', definition: '' },
+          { name: 'sleep-problems', definition: 'Difficulty sleeping' },
+        ],
+        segments,
+      });
+
+      const rules = result.issues.map(i => `${i.rule}:${i.code}`);
+      expect(rules).toContain('missing-definition:peer_support');
+      expect(rules).toContain('near-duplicate:peer-support');
+      expect(rules).toContain('single-source:sleep-problems');
+      expect(rules).toContain('unused-code:peer_support');
+      expect(rules).not.toContain('single-source:peer-support');
+    });
+
+    it('should order issues by severity and count them', async () => {
+      const result = await engine.validateCoding({
+        codes: [
+          { name: 'peer-support', definition: '', exclusionCriteria: ['formal supervision'] },
+          { name: 'sleep-problems', definition: 'Difficulty sleeping' },
+        ],
+        segments,
+      });
+
+      expect(result.issues.map(i => i.severity)).toEqual(['error', 'warning', 'info']);
+      expect(result.summary).toEqual({ error: 1, warning: 1, info: 1 });
+      expect(result.checkedSegments).toBe(3);
+    });
+  });
+});